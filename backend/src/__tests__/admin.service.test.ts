@@ -0,0 +1,65 @@
+import {
+  hasPermission, setAdminRole, startTwoFactorEnrollment, verifyAdminTwoFactor,
+} from '../application/admin.service';
+import { verifyAccessToken } from '../application/auth.service';
+import { totpAt, verifyTotp } from '../infrastructure/security/totp';
+
+const users: Record<string, Record<string, unknown>> = {};
+jest.mock('../infrastructure/database/pool', () => ({
+  query: async (text: string, params: unknown[] = []) => {
+    const user = users[String(params[0])];
+    if (text.includes('SET admin_totp_secret')) Object.assign(user, { admin_totp_secret: params[1], admin_totp_last_step: null });
+    if (text.includes('SET admin_totp_last_step')) {
+      Object.assign(user, { admin_totp_last_step: String(params[1]), admin_totp_enabled_at: user.admin_totp_enabled_at ?? 'now' });
+    }
+    return [];
+  },
+  queryOne: async (_text: string, params: unknown[] = []) => users[String(params[0])] ?? null,
+}));
+
+// RFC 6238 test secret: ASCII "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('Admin Service', () => {
+  beforeEach(() => {
+    users.admin = { id: 'admin', phone: '+201000000000', is_phone_verified: true, admin_role: 'support' };
+    users.member = { id: 'member', phone: '+201000000001', is_phone_verified: true, admin_role: null };
+  });
+
+  test('TOTP codes match the RFC 6238 vectors, allowing one step of drift', () => {
+    expect(totpAt(RFC_SECRET, 1)).toBe('287082');
+    expect(totpAt(RFC_SECRET, 37037036)).toBe('081804');
+    expect(verifyTotp(RFC_SECRET, '287082', 59_000)).toBe(1);
+    expect(verifyTotp(RFC_SECRET, '287082', 89_000)).toBe(1);
+    expect(verifyTotp(RFC_SECRET, '287082', 120_000)).toBeNull();
+  });
+
+  test('roles only get the permissions they need', () => {
+    expect(hasPermission('super_admin', 'audit:read')).toBe(true);
+    expect(hasPermission('support', 'disputes:resolve')).toBe(true);
+    expect(hasPermission('support', 'withdrawals:manage')).toBe(false);
+    expect(hasPermission('finance', 'payouts:manage')).toBe(true);
+    expect(hasPermission('moderator', 'disputes:resolve')).toBe(false);
+  });
+
+  test('an admin enrols, then trades each authenticator code once for an admin token', async () => {
+    await expect(startTwoFactorEnrollment('member')).rejects.toMatchObject({ statusCode: 403 });
+    await expect(verifyAdminTwoFactor('admin', '123456')).rejects.toThrow('Set up two-factor');
+
+    const { secret, otpauthUrl } = await startTwoFactorEnrollment('admin');
+    expect(otpauthUrl).toContain(`secret=${secret}`);
+
+    const code = totpAt(secret, Math.floor(Date.now() / 30_000));
+    const { accessToken, role } = await verifyAdminTwoFactor('admin', code);
+    expect(role).toBe('support');
+    expect(verifyAccessToken(accessToken)).toMatchObject({ sub: 'admin', mfa: true });
+    expect(users.admin.admin_totp_enabled_at).toBe('now');
+
+    await expect(verifyAdminTwoFactor('admin', code)).rejects.toMatchObject({ statusCode: 401 });
+    await expect(startTwoFactorEnrollment('admin')).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  test("admins can't change their own role", async () => {
+    await expect(setAdminRole('admin', 'admin', null)).rejects.toThrow('your own admin role');
+  });
+});
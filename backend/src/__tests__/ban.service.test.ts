@@ -0,0 +1,148 @@
+import {
+  accountBannedError, banUser, fileBanAppeal, findActiveBan, liftExpiredSuspensions, reviewBanAppeal, unbanUser,
+} from '../application/ban.service';
+import { disconnectUser } from '../infrastructure/socket/socket.service';
+import type { DbClient } from '../infrastructure/database/pool';
+import { fakeDb, FakeDb, Row } from './support/fakeDb';
+
+jest.mock('../infrastructure/logging/logger', () => ({ logger: { warn: jest.fn(), error: jest.fn() } }));
+jest.mock('../infrastructure/socket/socket.service', () => ({ disconnectUser: jest.fn() }));
+
+let mockDb: FakeDb;
+jest.mock('../infrastructure/database/pool', () => ({
+  query: (text: string, params?: unknown[]) => mockDb.query(text, params),
+  queryOne: (text: string, params?: unknown[]) => mockDb.queryOne(text, params),
+  withTransaction: (fn: (client: DbClient) => Promise<unknown>) => fn(mockDb),
+}));
+
+interface UserRow {
+  id: string;
+  admin_role: string | null;
+  is_banned: boolean;
+  banned_until: Date | null;
+  ban_reason: unknown;
+}
+
+// One member with two listings on sale and one sold, a refresh token, and an admin
+function fakeUsers() {
+  const state = {
+    users: {
+      member: { id: 'member', admin_role: null, is_banned: false, banned_until: null, ban_reason: null },
+      staff: { id: 'staff', admin_role: 'moderator', is_banned: false, banned_until: null, ban_reason: null },
+    } as Record<string, UserRow>,
+    listings: [
+      { id: 'l1', seller_id: 'member', status: 'active' },
+      { id: 'l2', seller_id: 'member', status: 'active' },
+      { id: 'l3', seller_id: 'member', status: 'sold' },
+    ],
+    tokensRevoked: false,
+    bans: [] as Row[],
+    appeals: [] as Row[],
+  };
+  const currentBan = (userId: unknown) => state.bans.find((b) => b.user_id === userId && !b.lifted_at);
+  const user = (id: unknown) => state.users[String(id)];
+
+  mockDb = fakeDb()
+    .on('UPDATE user_bans SET lifted_at', ([userId, adminId]) => {
+      const ban = currentBan(userId);
+      if (ban) Object.assign(ban, { lifted_at: 'now', lifted_by: adminId });
+    })
+    .on('SET is_banned = TRUE', ([id, until, reason]) => {
+      Object.assign(user(id), { is_banned: true, banned_until: until, ban_reason: reason });
+    })
+    .on('SET is_banned = FALSE', ([id]) => {
+      Object.assign(user(id), { is_banned: false, banned_until: null, ban_reason: null });
+    })
+    .on('UPDATE refresh_tokens', () => {
+      state.tokensRevoked = true;
+    })
+    .on('UPDATE listings SET status', ([sellerId], text) => {
+      const [from, to] = text.includes("status = 'hidden' WHERE") ? ['active', 'hidden'] : ['hidden', 'active'];
+      const moved = state.listings.filter((l) => l.seller_id === sellerId && l.status === from);
+      moved.forEach((l) => { l.status = to; });
+      return moved.map(({ id }) => ({ id }));
+    })
+    .on('banned_until <= NOW()', () => Object.values(state.users)
+      .filter((u) => u.is_banned && u.banned_until && u.banned_until.getTime() <= Date.now())
+      .map(({ id }) => ({ id })))
+    .on('INSERT INTO user_bans', ([userId, bannedBy, reason, endsAt]) => {
+      const ban = { id: `b${state.bans.length + 1}`, user_id: userId, banned_by: bannedBy, reason, ends_at: endsAt, lifted_at: null };
+      state.bans.push(ban);
+      return ban;
+    })
+    .on('FROM user_bans b', ([userId]) => {
+      const { is_banned, banned_until } = user(userId);
+      const active = is_banned && (!banned_until || banned_until.getTime() > Date.now());
+      return active ? currentBan(userId) ?? null : null;
+    })
+    .on('FROM user_bans WHERE id', ([id]) => state.bans.find((b) => b.id === id) ?? null)
+    .on('INSERT INTO ban_appeals', ([banId, userId, message]) => {
+      const appeal = { id: `a${state.appeals.length + 1}`, ban_id: banId, user_id: userId, message, status: 'pending' };
+      state.appeals.push(appeal);
+      return appeal;
+    })
+    .on('FROM ban_appeals WHERE ban_id', ([banId]) => state.appeals.find((a) => a.ban_id === banId) ?? null)
+    .on('FROM ban_appeals WHERE id', ([id]) => state.appeals.find((a) => a.id === id) ?? null)
+    .on('UPDATE ban_appeals', ([id, status, notes, reviewedBy]) => {
+      const appeal = state.appeals.find((a) => a.id === id);
+      return appeal ? Object.assign(appeal, { status, review_notes: notes, reviewed_by: reviewedBy }) : null;
+    })
+    .on('FROM users WHERE id', ([id]) => user(id) ?? null);
+  return state;
+}
+
+describe('Ban Service', () => {
+  beforeEach(() => (disconnectUser as jest.Mock).mockClear());
+
+  test('a ban revokes sessions, drops sockets and hides active listings until lifted', async () => {
+    const state = fakeUsers();
+    const { listingsHidden } = await banUser('member', 'staff', { reason: 'Selling counterfeit phones' });
+
+    expect(listingsHidden).toBe(2);
+    expect(state.listings.map((l) => l.status)).toEqual(['hidden', 'hidden', 'sold']);
+    expect(state.tokensRevoked).toBe(true);
+    expect(disconnectUser).toHaveBeenCalledWith('member');
+    await expect(findActiveBan(mockDb, 'member')).resolves.toEqual({ reason: 'Selling counterfeit phones', until: null });
+    expect(accountBannedError({ reason: 'x', until: null })).toMatchObject({
+      statusCode: 403, details: { code: 'account_banned' },
+    });
+
+    await expect(unbanUser('member', 'staff', 'Verified the supplier')).resolves.toEqual({ listingsRestored: 2 });
+    expect(state.listings.map((l) => l.status)).toEqual(['active', 'active', 'sold']);
+    await expect(findActiveBan(mockDb, 'member')).resolves.toBeNull();
+  });
+
+  test("staff can't be banned and suspensions must end in the future", async () => {
+    fakeUsers();
+    await expect(banUser('staff', 'staff', { reason: 'Oops' })).rejects.toThrow('Revoke their admin role');
+    await expect(banUser('member', 'staff', { reason: 'Spam', until: new Date(Date.now() - 1000) }))
+      .rejects.toThrow('end in the future');
+  });
+
+  test('a suspension stops applying when it runs out, and the cron puts the listings back', async () => {
+    const state = fakeUsers();
+    await banUser('member', 'staff', { reason: 'Abusive messages', until: new Date(Date.now() + 60_000) });
+    expect(await findActiveBan(mockDb, 'member')).toMatchObject({ reason: 'Abusive messages' });
+
+    state.users.member.banned_until = new Date(Date.now() - 1000);
+    await expect(findActiveBan(mockDb, 'member')).resolves.toBeNull();
+    await expect(liftExpiredSuspensions()).resolves.toBe(1);
+    expect(state.users.member.is_banned).toBe(false);
+    expect(state.listings.filter((l) => l.status === 'active')).toHaveLength(2);
+  });
+
+  test('one appeal per ban; overturning it lifts the ban', async () => {
+    const state = fakeUsers();
+    await expect(fileBanAppeal('member', 'Please let me back in')).rejects.toThrow("isn't banned");
+
+    await banUser('member', 'staff', { reason: 'Fake listings' });
+    const appeal = await fileBanAppeal('member', 'Those were my own photos, here is the receipt');
+    await expect(fileBanAppeal('member', 'Again, please')).rejects.toMatchObject({ statusCode: 409 });
+
+    await reviewBanAppeal(appeal.id, 'staff', { decision: 'overturned', notes: 'Receipt checks out' });
+    expect(state.users.member.is_banned).toBe(false);
+    expect(state.bans[0]).toMatchObject({ lifted_at: 'now', lifted_by: 'staff' });
+    await expect(reviewBanAppeal(appeal.id, 'staff', { decision: 'upheld', notes: 'Changed my mind' }))
+      .rejects.toMatchObject({ statusCode: 409 });
+  });
+});
@@ -0,0 +1,37 @@
+import { settleBoostPayment } from '../application/boost.service';
+import { fakeDb, fakeLedger } from './support/fakeDb';
+
+jest.mock('../infrastructure/logging/logger', () => ({ logger: { warn: jest.fn(), error: jest.fn() } }));
+
+function boostDb(status: 'pending' | 'paid' | 'failed') {
+  const db = fakeDb();
+  const ledger = fakeLedger(db);
+  db
+    .on('FROM boost_purchases', () => ({
+      id: 'b1', listing_id: 'l1', seller_id: 's1', tier: 'standard', days: 7, price: '49',
+      payment_method: 'paymob', status, user_edited_title: 'iPhone 13',
+    }))
+    .on('UPDATE listings', () => ({ featured_until: new Date('2026-01-08') }))
+    .on('UPDATE boost_purchases', () => ({ id: 'b1', status: 'paid' }));
+  return { db, ledger };
+}
+
+describe('Boost Service', () => {
+  test('a confirmed card payment features the listing and leaves a wallet receipt', async () => {
+    const { db, ledger } = boostDb('pending');
+    await expect(settleBoostPayment(db, 'b1', 49)).resolves.toBe(true);
+
+    expect(db.ran('INSERT INTO wallet_transactions').map((c) => c.params[1])).toEqual(['credit', 'fee']);
+    expect(db.ran('INSERT INTO ledger_entries')[0].params[0]).toBe('Boost receipt — 7 days: iPhone 13');
+    expect(ledger.wallets.s1).toBe(0);
+    expect(ledger.balance('system:platform_fees')).toBe(49);
+    expect(db.ran('UPDATE listings SET')).toHaveLength(1);
+  });
+
+  test('a boost that already failed or was paid is never featured again', async () => {
+    const { db } = boostDb('failed');
+    await expect(settleBoostPayment(db, 'b1', 49)).resolves.toBe(false);
+    expect(db.ran('UPDATE listings')).toHaveLength(0);
+    expect(db.ran('ledger_entries')).toHaveLength(0);
+  });
+});
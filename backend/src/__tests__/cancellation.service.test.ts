@@ -0,0 +1,123 @@
+import { cancelTransaction, cancelUnpaidTransactions, declineCancellation } from '../application/cancellation.service';
+import { query, DbClient } from '../infrastructure/database/pool';
+import type { Transaction } from '../domain/entities';
+import { fakeDb, fakeLedger, fakeTransactions, FakeDb, transactionRow } from './support/fakeDb';
+
+jest.mock('../infrastructure/logging/logger', () => ({ logger: { warn: jest.fn(), error: jest.fn() } }));
+jest.mock('../infrastructure/notifications/push', () => ({ notifyTransactionCancellation: jest.fn(async () => undefined) }));
+
+let mockDb: FakeDb;
+jest.mock('../infrastructure/database/pool', () => ({
+  query: jest.fn(),
+  queryOne: jest.fn(),
+  withTransaction: (fn: (client: DbClient) => Promise<unknown>) => fn(mockDb),
+}));
+
+// A deal of one or two transactions sharing a listing table, with what each paid leg holds
+// in escrow and a log of score penalties
+function fakeDeal(legs: Partial<Transaction>[], promoUses: string[] = []) {
+  const rows = legs.map((leg, i) => transactionRow({ id: `t${i + 1}`, listing_id: `l${i + 1}`, ...leg }));
+  const listings: Record<string, string> = Object.fromEntries(rows.map((r) => [r.listing_id, 'reserved']));
+  const penalties: [unknown, unknown][] = [];
+  const releasedPromos: unknown[] = [];
+  const byId = (id: unknown) => rows.find((r) => r.id === id);
+
+  mockDb = fakeDb();
+  const ledger = fakeLedger(mockDb, {
+    escrow: Object.fromEntries(rows.filter((r) => r.payment_status === 'held').map((r) => [r.id, Number(r.agreed_price)])),
+  });
+  mockDb.on('OR swap_id = (SELECT swap_id', () => rows.map((r) => ({ ...r })));
+  fakeTransactions(mockDb, rows);
+  mockDb
+    .on("UPDATE listings SET status = 'active'", ([listingId]) => {
+      if (listings[String(listingId)] === 'reserved') listings[String(listingId)] = 'active';
+    })
+    .on('behavioral_score', ([userId, penalty]) => {
+      penalties.push([userId, penalty]);
+    })
+    .on('DELETE FROM promo_code_uses', ([transactionId]) => (
+      promoUses.includes(String(transactionId)) ? [{ code_id: 'promo-1' }] : []
+    ))
+    .on('UPDATE promo_codes', ([codeId]) => {
+      releasedPromos.push(codeId);
+    })
+    .on('SELECT user_edited_title', () => ({ user_edited_title: 'Bike' }))
+    .on("payment_status = 'cancelled'", ([id]) => Object.assign(byId(id) ?? {}, { payment_status: 'cancelled' }))
+    .on("payment_status = 'refunded'", ([id]) => Object.assign(byId(id) ?? {}, { payment_status: 'refunded' }))
+    .on('cancelled_by = $2', ([id, blame]) => Object.assign(byId(id) ?? {}, { cancelled_by: blame }))
+    .on('cancel_requested_by = $2', ([, userId]) => rows.map((r) => Object.assign(r, { cancel_requested_by: userId })))
+    .on('cancel_requested_by = NULL', () => rows.map((r) => Object.assign(r, { cancel_requested_by: null })));
+  return { rows, listings, penalties, releasedPromos, ledger };
+}
+
+describe('Cancellation Service', () => {
+  test('before payment either party can cancel, and the canceller is penalised', async () => {
+    const { rows, listings, penalties } = fakeDeal([{}]);
+    const result = await cancelTransaction('t1', 'seller');
+
+    expect(result).toMatchObject({ cancelled: true, reason: 'seller_cancelled', counterpartyId: 'buyer' });
+    expect(rows[0]).toMatchObject({ status: 'cancelled', payment_status: 'cancelled', cancelled_by: 'seller' });
+    expect(listings.l1).toBe('active');
+    expect(penalties).toEqual([['seller', 5]]);
+  });
+
+  test('after payment a cancellation needs the other party to agree', async () => {
+    const { rows, penalties, ledger } = fakeDeal([{ status: 'paid', payment_status: 'held' }]);
+
+    await expect(cancelTransaction('t1', 'buyer')).resolves.toMatchObject({ cancelled: false });
+    expect(rows[0]).toMatchObject({ status: 'paid', cancel_requested_by: 'buyer' });
+    expect(ledger.held('t1')).toBe(1000);
+
+    await expect(cancelTransaction('t1', 'seller')).resolves.toMatchObject({ cancelled: true, reason: 'mutual' });
+    expect(rows[0]).toMatchObject({ status: 'cancelled', payment_status: 'refunded', cancelled_by: null });
+    expect(ledger.held('t1')).toBe(0);
+    expect(ledger.wallets.buyer).toBe(1000);
+    expect(penalties).toEqual([]);
+  });
+
+  test('a declined request leaves the deal as it was', async () => {
+    const { rows } = fakeDeal([{ status: 'paid', payment_status: 'held', cancel_requested_by: 'buyer' }]);
+
+    await expect(declineCancellation('t1', 'buyer')).rejects.toMatchObject({ statusCode: 400 });
+    await expect(declineCancellation('t1', 'seller')).resolves.toMatchObject({ requesterId: 'buyer' });
+    expect(rows[0]).toMatchObject({ status: 'paid', cancel_requested_by: null });
+  });
+
+  test('only the seller can cancel a paid deal by refunding', async () => {
+    fakeDeal([{ status: 'paid', payment_status: 'held' }]);
+    await expect(cancelTransaction('t1', 'buyer', { refund: true })).rejects.toMatchObject({ statusCode: 403 });
+
+    const { penalties } = fakeDeal([{ status: 'paid', payment_status: 'held' }]);
+    await expect(cancelTransaction('t1', 'seller', { refund: true })).resolves.toMatchObject({ reason: 'seller_refunded' });
+    expect(penalties).toEqual([['seller', 5]]);
+  });
+
+  test('nothing can be cancelled once the item is handed over', async () => {
+    fakeDeal([{ status: 'handed_over', payment_status: 'held' }]);
+    await expect(cancelTransaction('t1', 'buyer')).rejects.toThrow('open a dispute');
+  });
+
+  test('cancelling gives the buyer their promo code back', async () => {
+    const { releasedPromos } = fakeDeal([{}], ['t1']);
+    await cancelTransaction('t1', 'buyer');
+    expect(releasedPromos).toEqual(['promo-1']);
+  });
+
+  test('a swap is cancelled as one deal', async () => {
+    const { rows } = fakeDeal([
+      { swap_id: 's1', status: 'paid', payment_status: 'held', agreed_price: 0 },
+      { swap_id: 's1', buyer_id: 'seller', seller_id: 'buyer' },
+    ]);
+    await cancelTransaction('t1', 'buyer');
+    expect(rows.map((r) => r.status)).toEqual(['cancelled', 'cancelled']);
+  });
+
+  test('unpaid deals past the payment window are cancelled against the buyer', async () => {
+    (query as jest.Mock).mockResolvedValueOnce([{ id: 't1' }]);
+    const { rows, penalties } = fakeDeal([{}]);
+
+    await expect(cancelUnpaidTransactions()).resolves.toEqual(['t1']);
+    expect(rows[0]).toMatchObject({ status: 'cancelled', cancelled_by: 'buyer' });
+    expect(penalties).toEqual([['buyer', 5]]);
+  });
+});
@@ -0,0 +1,40 @@
+import { spendCredits } from '../application/credit.service';
+import { systemAccount } from '../application/ledger.service';
+import { fakeDb, fakeLedger } from './support/fakeDb';
+
+function creditDb(grants: { id: string; remaining: string }[], creditBalance: number) {
+  const db = fakeDb();
+  const ledger = fakeLedger(db, { credits: { u1: creditBalance } });
+  db.on('FROM credit_grants', () => grants);
+  return { db, ledger };
+}
+
+const opts = { to: systemAccount('escrow'), description: 'Credits applied to purchase', referenceId: 't1', referenceType: 'transaction' };
+
+describe('Credit Service', () => {
+  test('spending draws down the soonest-expiring grants first', async () => {
+    const { db, ledger } = creditDb([{ id: 'g1', remaining: '30' }, { id: 'g2', remaining: '50' }], 80);
+    await spendCredits(db, 'u1', 45, opts);
+
+    expect(db.ran('UPDATE credit_grants').map((c) => c.params)).toEqual([['g1', 30], ['g2', 15]]);
+    expect(db.ran('INSERT INTO credit_transactions')[0].params.slice(0, 4)).toEqual(['u1', 'spent', 45, '35']);
+    expect(ledger.credits.u1).toBe(35);
+  });
+
+  test('credits are posted to the credit account, never the withdrawable wallet', async () => {
+    const { db, ledger } = creditDb([{ id: 'g1', remaining: '50' }], 50);
+    await spendCredits(db, 'u1', 20, opts);
+
+    expect(ledger.balance('user_credits:u1')).toBe(30);
+    expect(ledger.held('t1')).toBe(20);
+    expect(ledger.balance('user_wallet:u1')).toBe(0);
+    expect(db.ran('wallet_balance')).toHaveLength(0);
+  });
+
+  test('spending more than the unexpired grants hold is rejected', async () => {
+    const { db, ledger } = creditDb([{ id: 'g1', remaining: '10' }], 60);
+    await expect(spendCredits(db, 'u1', 25, opts)).rejects.toThrow('Insufficient credits');
+    expect(db.ran('ledger_postings')).toHaveLength(0);
+    expect(ledger.credits.u1).toBe(60);
+  });
+});
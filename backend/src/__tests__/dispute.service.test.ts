@@ -0,0 +1,291 @@
+import {
+  addEvidence, assignDispute, escalateOverdueDisputes, getDispute, openDispute, outstandingClaimHold,
+  postAdminDisputeMessage, postDisputeMessage, resolveDispute,
+} from '../application/dispute.service';
+import { notifyDisputeUpdate } from '../infrastructure/notifications/push';
+import type { DbClient } from '../infrastructure/database/pool';
+import type { Transaction } from '../domain/entities';
+import { fakeDb, fakeLedger, fakeTransactions, FakeDb, Params, Row, transactionRow } from './support/fakeDb';
+
+jest.mock('../infrastructure/logging/logger', () => ({ logger: { warn: jest.fn(), error: jest.fn() } }));
+jest.mock('../infrastructure/notifications/push', () => ({ notifyDisputeUpdate: jest.fn(async () => undefined) }));
+
+let mockDb: FakeDb;
+jest.mock('../infrastructure/database/pool', () => ({
+  query: (text: string, params?: unknown[]) => mockDb.query(text, params),
+  queryOne: (text: string, params?: unknown[]) => mockDb.queryOne(text, params),
+  withTransaction: (fn: (client: DbClient) => Promise<unknown>) => fn(mockDb),
+}));
+
+const ADMIN_ROLES: Record<string, string> = { admin: 'support', admin2: 'support', mod: 'moderator' };
+
+// One wallet-paid deal with `escrow` EGP held for it, its dispute case and both parties' wallets
+function fakeCase(overrides: Partial<Transaction> = {}, escrow = 1000) {
+  const txn = transactionRow({
+    status: 'handed_over', payment_status: 'held', payment_method: 'wallet', ...overrides,
+  });
+  mockDb = fakeDb();
+  const ledger = fakeLedger(mockDb, { wallets: { buyer: 0, seller: 0 }, escrow: { t1: escrow } });
+  const state = {
+    dispute: null as Row | null,
+    evidence: [] as Row[],
+    messages: [] as Row[],
+    scores: { buyer: 100, seller: 100 } as Record<string, number>,
+    overdue: false,
+  };
+  const dispute = () => {
+    if (!state.dispute) throw new Error('No dispute opened');
+    return state.dispute;
+  };
+  const addMessage = (row: Row) => {
+    state.messages.push(row);
+    return row;
+  };
+
+  fakeTransactions(mockDb, [txn]);
+  mockDb
+    .on("SET dispute_status = 'under_review'", () => {
+      if (txn.dispute_status === 'opened') txn.dispute_status = 'under_review';
+    })
+    .on("dispute_status = 'opened'", ([, claim]) => Object.assign(txn, {
+      dispute_status: 'opened', payment_status: claim ? txn.payment_status : 'disputed',
+    }))
+    .on('dispute_status = $2,', ([, resolution, refunded]) => Object.assign(txn, {
+      dispute_status: resolution, ...(Number(refunded) > 0 ? { refund_amount: refunded } : {}),
+    }))
+    .on("payment_status = 'released'", ([, resolution], text) => Object.assign(txn, {
+      payment_status: 'released',
+      dispute_status: text.includes("'resolved_partial'") ? 'resolved_partial' : resolution ?? txn.dispute_status,
+      ...(text.includes('refund_amount') ? { refund_amount: resolution } : {}),
+    }))
+    .on("payment_status = 'refunded'", ([, resolution, amount]) => Object.assign(txn, {
+      payment_status: 'refunded', dispute_status: resolution ?? txn.dispute_status, refund_amount: amount,
+    }))
+    .on('user_edited_title', () => ({ user_edited_title: 'Camera' }))
+    .on('SET behavioral_score', ([userId, penalty]) => {
+      state.scores[String(userId)] -= Number(penalty);
+    })
+    .on('SELECT admin_role', ([userId]) => ({ admin_role: ADMIN_ROLES[String(userId)] ?? null }))
+    .on('responded_at IS NULL AND response_due_at < NOW()', () => (
+      state.overdue && state.dispute?.status === 'opened' ? [{ transaction_id: 't1' }] : []
+    ))
+    .on('sla_breached_at = NOW()', () => {
+      if (!state.overdue || !state.dispute || state.dispute.sla_breached_at) return [];
+      state.dispute.sla_breached_at = 'now';
+      return [{ id: 'd1', transaction_id: 't1', resolution_due_at: 'yesterday' }];
+    })
+    .on('SET assigned_to', ([, adminId]) => {
+      dispute().assigned_to = adminId;
+    })
+    .on('AS hold', ([userId]) => {
+      const open = state.dispute && state.dispute.status !== 'resolved' && state.dispute.respondent_id === userId;
+      return { hold: String(open ? state.dispute?.claim_shortfall : 0) };
+    })
+    .on('FROM disputes WHERE transaction_id', () => state.dispute && { ...state.dispute })
+    .on('SELECT transaction_id FROM disputes', () => state.dispute && { transaction_id: state.dispute.transaction_id })
+    .on('INSERT INTO disputes', (p: Params) => {
+      state.dispute = {
+        id: 'd1', transaction_id: p[0], opened_by: p[1], respondent_id: p[2], reason: p[3],
+        details: p[4], status: 'opened', responded_at: null, response_hours: p[5], sla_breached_at: null,
+        kind: p[7], claim_amount: p[8], clawed_back: p[9], claim_shortfall: p[10],
+      };
+      return { ...state.dispute };
+    })
+    .on('UPDATE disputes SET', ([, ...p], text) => {
+      const row = dispute();
+      if (text.includes("status = 'under_review'")) Object.assign(row, { status: 'under_review', reviewed_by: row.reviewed_by ?? p[0] });
+      if (text.includes('responded_at = NOW()')) row.responded_at = 'now';
+      if (text.includes("status = 'resolved'")) {
+        Object.assign(row, { status: 'resolved', resolution: p[0], refund_amount: p[1], resolution_notes: p[2], resolved_by: p[3] });
+      }
+      return { ...row };
+    })
+    .on('INSERT INTO dispute_notes', ([disputeId, adminId, body]) => ({ dispute_id: disputeId, admin_id: adminId, body }))
+    .on('COUNT(*) AS n FROM dispute_evidence', ([, userId]) => ({
+      n: String(state.evidence.filter((e) => e.uploaded_by === userId).length),
+    }))
+    .on('INSERT INTO dispute_evidence', ([disputeId, userId, url, caption]) => {
+      const row = { dispute_id: disputeId, uploaded_by: userId, url, caption };
+      state.evidence.push(row);
+      return row;
+    })
+    .on('FROM dispute_evidence', () => state.evidence)
+    .on("NULL, 'system', $2", ([disputeId, body]) => addMessage({ dispute_id: disputeId, sender_id: null, sender_role: 'system', body }))
+    .on('INSERT INTO dispute_messages', ([disputeId, userId, role, body]) => addMessage({
+      dispute_id: disputeId, sender_id: userId, sender_role: role, body,
+    }))
+    .on('FROM dispute_messages', () => state.messages);
+
+  return { txn, state, ledger };
+}
+
+const notified = () => (notifyDisputeUpdate as jest.Mock).mock.calls.map(([userId, event]) => `${userId}:${event}`);
+
+describe('Dispute Service', () => {
+  beforeEach(() => (notifyDisputeUpdate as jest.Mock).mockClear());
+
+  test('opening a case freezes the payment, gives the other party a deadline and keeps the evidence', async () => {
+    const { txn, state } = fakeCase();
+    await openDispute('t1', 'buyer', {
+      reason: 'item_not_as_described', details: 'Lens is scratched', evidence: [{ url: 'https://cdn/scratch.jpg' }],
+    });
+
+    expect(txn).toMatchObject({ dispute_status: 'opened', payment_status: 'disputed' });
+    expect(state.dispute).toMatchObject({ opened_by: 'buyer', respondent_id: 'seller', response_hours: 48 });
+    expect(state.evidence).toEqual([expect.objectContaining({ uploaded_by: 'buyer', url: 'https://cdn/scratch.jpg' })]);
+    expect(notified()).toEqual(['seller:opened']);
+
+    await expect(openDispute('t1', 'seller', { reason: 'other' })).rejects.toThrow('already opened');
+  });
+
+  test("the respondent's first reply puts the case under review; outsiders can't see or post", async () => {
+    const { txn, state } = fakeCase();
+    await openDispute('t1', 'buyer', { reason: 'item_not_received' });
+
+    await postDisputeMessage('t1', 'buyer', 'Still nothing after a week');
+    expect(state.dispute?.status).toBe('opened');
+
+    await addEvidence('t1', 'seller', [{ url: 'https://cdn/receipt.jpg', caption: 'Courier receipt' }]);
+    expect(state.dispute).toMatchObject({ status: 'under_review', responded_at: 'now' });
+    expect(txn.dispute_status).toBe('under_review');
+
+    await postAdminDisputeMessage('d1', 'admin', 'Can the buyer check with the building guard?');
+    expect(state.messages.map((m) => m.sender_role)).toEqual(['buyer', 'admin']);
+
+    // Admins read and post through the admin API, not as a party
+    await expect(getDispute('t1', 'admin')).rejects.toMatchObject({ statusCode: 403 });
+    await expect(postDisputeMessage('t1', 'admin', 'hi')).rejects.toMatchObject({ statusCode: 403 });
+    await expect(getDispute('t1', 'stranger')).rejects.toMatchObject({ statusCode: 403 });
+    await expect(postDisputeMessage('t1', 'stranger', 'hi')).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  test('cases go only to admins who can work them, which puts them under review', async () => {
+    const { state } = fakeCase();
+    await openDispute('t1', 'buyer', { reason: 'fraud' });
+
+    await expect(assignDispute('d1', 'admin', 'seller')).rejects.toThrow('assigned to an admin');
+    await expect(assignDispute('d1', 'admin', 'mod')).rejects.toThrow('assigned to an admin');
+
+    const { dispute } = await assignDispute('d1', 'admin');
+    expect(dispute).toMatchObject({ status: 'under_review', assigned_to: 'admin', reviewed_by: 'admin' });
+    expect(notified()).toEqual(expect.arrayContaining(['buyer:under_review', 'seller:under_review']));
+
+    await assignDispute('d1', 'admin', 'admin2');
+    expect(state.dispute).toMatchObject({ assigned_to: 'admin2', reviewed_by: 'admin' });
+  });
+
+  test('resolving records who decided and why, and penalises the losing party', async () => {
+    const { txn, state } = fakeCase();
+    await openDispute('t1', 'buyer', { reason: 'item_not_received' });
+
+    await resolveDispute('d1', 'admin', { resolution: 'resolved_buyer', notes: 'No proof of shipping' });
+
+    expect(txn).toMatchObject({ payment_status: 'refunded', dispute_status: 'resolved_buyer' });
+    expect(state.dispute).toMatchObject({ resolved_by: 'admin', resolution_notes: 'No proof of shipping' });
+    expect(state.scores).toEqual({ buyer: 100, seller: 90 });
+    expect(notified()).toEqual(expect.arrayContaining(['buyer:resolved_buyer', 'seller:resolved_buyer']));
+  });
+
+  test('a swap leg cannot be disputed or settled on its own', async () => {
+    const { txn, state, ledger } = fakeCase({ swap_id: 'swap1' });
+    await expect(openDispute('t1', 'buyer', { reason: 'item_not_received' })).rejects.toMatchObject({ statusCode: 400 });
+    expect(state.dispute).toBeNull();
+
+    state.dispute = { id: 'd1', transaction_id: 't1', status: 'opened', kind: 'escrow' };
+    await expect(resolveDispute('d1', 'admin', { resolution: 'resolved_buyer', notes: 'Never arrived' }))
+      .rejects.toMatchObject({ statusCode: 409 });
+    expect(txn.payment_status).toBe('held');
+    expect(ledger.held('t1')).toBe(1000);
+  });
+
+  test('a partial refund returns part of escrow to the buyer and releases the rest to the seller', async () => {
+    const { txn, state, ledger } = fakeCase();
+    await openDispute('t1', 'buyer', { reason: 'item_not_as_described' });
+
+    await expect(resolveDispute('d1', 'admin', { resolution: 'resolved_partial', refundAmount: 1000, notes: 'Scratched lens' }))
+      .rejects.toThrow('less than the 1000 EGP held');
+
+    await resolveDispute('d1', 'admin', { resolution: 'resolved_partial', refundAmount: 300, notes: 'Scratched lens' });
+
+    expect(txn).toMatchObject({ status: 'completed', payment_status: 'released', dispute_status: 'resolved_partial', refund_amount: 300 });
+    expect(ledger.held('t1')).toBe(0);
+    expect(ledger.wallets).toEqual({ buyer: 300, seller: 660 });
+    expect(ledger.balance('system:platform_fees')).toBe(40);
+    expect(state.dispute).toMatchObject({ status: 'resolved', resolution: 'resolved_partial', refund_amount: 300 });
+    expect(notified()).toEqual(expect.arrayContaining(['buyer:resolved_partial', 'seller:resolved_partial']));
+    expect(state.scores).toEqual({ buyer: 100, seller: 100 });
+
+    await expect(postDisputeMessage('t1', 'buyer', 'Thanks')).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  test('an unanswered case goes to review after the deadline and is flagged once past the SLA', async () => {
+    const { txn, state } = fakeCase();
+    await openDispute('t1', 'buyer', { reason: 'item_not_received' });
+    state.overdue = true;
+
+    await expect(escalateOverdueDisputes()).resolves.toEqual({ escalated: 1, breached: 1 });
+    expect(state.dispute?.status).toBe('under_review');
+    expect(txn.dispute_status).toBe('under_review');
+    expect(state.messages).toEqual([expect.objectContaining({ sender_role: 'system' })]);
+
+    await expect(escalateOverdueDisputes()).resolves.toEqual({ escalated: 0, breached: 0 });
+  });
+
+  describe('claims after release', () => {
+    const completed = (daysAgo: number): Partial<Transaction> => ({
+      status: 'completed', payment_status: 'released', completed_at: new Date(Date.now() - daysAgo * 86_400_000),
+    });
+
+    test('only the buyer, only "not as described" and only within the claim window', async () => {
+      fakeCase(completed(1), 0);
+      await expect(openDispute('t1', 'seller', { reason: 'item_not_as_described' })).rejects.toMatchObject({ statusCode: 403 });
+      await expect(openDispute('t1', 'buyer', { reason: 'item_not_received' })).rejects.toThrow('not as described');
+
+      fakeCase(completed(4), 0);
+      await expect(openDispute('t1', 'buyer', { reason: 'item_not_as_described' })).rejects.toThrow('within 3 days');
+
+      fakeCase({ ...completed(1), payment_method: 'cash' }, 0);
+      await expect(openDispute('t1', 'buyer', { reason: 'item_not_as_described' })).rejects.toThrow('nothing to claim');
+    });
+
+    test("a claim claws the seller's proceeds back and holds what their wallet can't cover", async () => {
+      const { txn, state, ledger } = fakeCase(completed(1), 0);
+      ledger.fund('user_wallet:seller', 500);
+
+      await openDispute('t1', 'buyer', { reason: 'item_not_as_described', details: 'Screen has dead pixels' });
+
+      expect(txn).toMatchObject({ status: 'completed', payment_status: 'released', dispute_status: 'opened' });
+      expect(state.dispute).toMatchObject({ kind: 'claim', claim_amount: 960, clawed_back: 500, claim_shortfall: 460 });
+      expect(ledger.wallets.seller).toBe(0);
+      expect(ledger.held('t1')).toBe(500);
+      await expect(outstandingClaimHold(mockDb, 'seller')).resolves.toBe(460);
+    });
+
+    test('upheld, the buyer is refunded in full from the clawback, the seller and then the platform', async () => {
+      const { txn, ledger } = fakeCase(completed(1), 0);
+      ledger.fund('user_wallet:seller', 500);
+      await openDispute('t1', 'buyer', { reason: 'item_not_as_described' });
+      ledger.fund('user_wallet:seller', 200); // earned since the claim was filed
+
+      await resolveDispute('d1', 'admin', { resolution: 'resolved_buyer', notes: 'Dead pixels in the photos' });
+
+      expect(ledger.wallets).toEqual({ buyer: 960, seller: 0 });
+      expect(ledger.held('t1')).toBe(0);
+      expect(ledger.balance('system:platform_fees')).toBe(-260);
+      expect(txn).toMatchObject({ status: 'completed', dispute_status: 'resolved_buyer', refund_amount: 960 });
+      await expect(outstandingClaimHold(mockDb, 'seller')).resolves.toBe(0);
+    });
+
+    test('rejected, the clawed-back proceeds go back to the seller', async () => {
+      const { txn, state, ledger } = fakeCase(completed(1), 0);
+      ledger.fund('user_wallet:seller', 2000);
+      await openDispute('t1', 'buyer', { reason: 'item_not_as_described' });
+      expect(ledger.wallets.seller).toBe(1040);
+
+      await resolveDispute('d1', 'admin', { resolution: 'resolved_seller', notes: 'Pixels fine in the unboxing video' });
+      expect(ledger.wallets).toEqual({ buyer: 0, seller: 2000 });
+      expect(txn.dispute_status).toBe('resolved_seller');
+      expect(state.scores.buyer).toBe(90);
+    });
+  });
+});
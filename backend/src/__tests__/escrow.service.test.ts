@@ -0,0 +1,97 @@
+import {
+  amountDue, fundEscrowFromWallet, heldInEscrow, refundTransaction, releaseTransaction,
+} from '../application/escrow.service';
+import type { DbClient } from '../infrastructure/database/pool';
+import type { Transaction } from '../domain/entities';
+import { fakeDb, fakeLedger, fakeTransactions, FakeDb, transactionRow } from './support/fakeDb';
+
+jest.mock('../infrastructure/logging/logger', () => ({ logger: { warn: jest.fn(), error: jest.fn() } }));
+
+let mockDb: FakeDb;
+jest.mock('../infrastructure/database/pool', () => ({
+  query: jest.fn(),
+  queryOne: jest.fn(),
+  withTransaction: (fn: (client: DbClient) => Promise<unknown>) => fn(mockDb),
+}));
+
+// One wallet-paid deal with `escrow` EGP held for it, its listing and both parties' wallets
+function fakeDeal(overrides: Partial<Transaction> = {}, escrow = 1000) {
+  const txn = transactionRow({ status: 'handed_over', payment_status: 'held', payment_method: 'wallet', ...overrides });
+  const listing = { status: 'reserved' };
+  mockDb = fakeDb();
+  const ledger = fakeLedger(mockDb, { wallets: { buyer: 0, seller: 0 }, escrow: escrow ? { t1: escrow } : {} });
+  const history = fakeTransactions(mockDb, [txn]);
+  mockDb
+    .on("payment_status = 'released'", () => {
+      txn.payment_status = 'released';
+      return { ...txn };
+    })
+    .on("payment_status = 'refunded'", () => {
+      txn.payment_status = 'refunded';
+      return { ...txn };
+    })
+    .on("UPDATE listings SET status = 'sold'", () => {
+      listing.status = 'sold';
+      return { user_edited_title: 'Bike' };
+    })
+    .on("UPDATE listings SET status = 'active'", () => {
+      listing.status = 'active';
+    })
+    .on('SELECT user_edited_title FROM listings', () => ({ user_edited_title: 'Bike' }));
+  return { txn, listing, ledger, history };
+}
+
+describe('Escrow', () => {
+  test('a wallet payment holds what is due after credits', async () => {
+    const { txn, ledger } = fakeDeal({ payment_status: 'pending', credits_applied: 100 }, 0);
+    ledger.fund('user_wallet:buyer', 1200);
+
+    await expect(fundEscrowFromWallet(mockDb, txn, 'Purchase: Bike')).resolves.toBe(900);
+
+    expect(amountDue(txn)).toBe(900);
+    expect(ledger.wallets.buyer).toBe(300);
+    await expect(heldInEscrow(mockDb, 't1')).resolves.toBe(900);
+  });
+
+  test('release pays the seller, the courier and the platform fee out of escrow once', async () => {
+    const { txn, listing, ledger, history } = fakeDeal({ shipping_fee: 50 }, 1050);
+
+    const released = await releaseTransaction('t1');
+    expect(released).toMatchObject({ listingTitle: 'Bike', amount: 960 });
+    await expect(releaseTransaction('t1')).resolves.toBeNull();
+
+    expect(ledger.held('t1')).toBe(0);
+    expect(ledger.wallets.seller).toBe(960);
+    expect(ledger.balance('system:shipping')).toBe(50);
+    expect(ledger.balance('system:platform_fees')).toBe(40);
+    expect(txn.payment_status).toBe('released');
+    expect(listing.status).toBe('sold');
+    expect(history.map((h) => h.to_status)).toEqual(['completed']);
+  });
+
+  test('refund returns credits as credits and the rest to the buyer wallet, once', async () => {
+    const { txn, listing, ledger, history } = fakeDeal({ credits_applied: 100 });
+
+    const refunded = await refundTransaction('t1', { actorId: 'admin' });
+    expect(refunded).toMatchObject({ amount: 1000 });
+    await expect(refundTransaction('t1')).resolves.toBeNull();
+
+    expect(ledger.held('t1')).toBe(0);
+    expect(ledger.credits.buyer).toBe(100);
+    expect(ledger.wallets.buyer).toBe(900);
+    expect(ledger.wallets.seller).toBe(0);
+    expect(txn.payment_status).toBe('refunded');
+    expect(listing.status).toBe('active');
+    expect(history).toEqual([expect.objectContaining({ to_status: 'refunded', actor_id: 'admin' })]);
+  });
+
+  test('a deal with nothing held settles without posting to the ledger', async () => {
+    const { ledger } = fakeDeal({ payment_method: 'cash' }, 0);
+
+    await expect(releaseTransaction('t1')).resolves.toMatchObject({ amount: 0 });
+
+    expect(ledger.wallets.seller).toBe(0);
+    expect(ledger.balance('system:platform_fees')).toBe(0);
+    expect(mockDb.ran('INSERT INTO ledger_entries')).toEqual([]);
+  });
+});
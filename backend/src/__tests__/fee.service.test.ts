@@ -0,0 +1,37 @@
+import { calculateFees } from '../application/fee.service';
+
+jest.mock('../infrastructure/logging/logger', () => ({ logger: { warn: jest.fn(), error: jest.fn() } }));
+
+const policy = { commissionRate: 0.04, buyerShare: 0.5, minFee: 0, maxFee: 0 };
+
+describe('Fee Service', () => {
+  test('splits the commission between buyer and seller', () => {
+    const fees = calculateFees(1000, policy);
+    expect(fees.gross_fee).toBe(40);
+    expect(fees.buyer_fee).toBe(20);
+    expect(fees.seller_fee).toBe(20);
+    expect(fees.buyer_pays).toBe(1020);
+    expect(fees.seller_receives).toBe(980);
+    expect(fees.platform_fee).toBe(40);
+  });
+
+  test('clamps the fee to the configured minimum and maximum', () => {
+    expect(calculateFees(100, { ...policy, minFee: 10 }).gross_fee).toBe(10);
+    expect(calculateFees(100000, { ...policy, maxFee: 500 }).gross_fee).toBe(500);
+  });
+
+  test('promo discount is absorbed by the platform, not the seller', () => {
+    const fees = calculateFees(1000, policy, 50);
+    expect(fees.buyer_pays).toBe(970);
+    expect(fees.seller_receives).toBe(980);
+    expect(fees.platform_fee).toBe(-10);
+    expect(fees.buyer_pays).toBe(fees.seller_receives + fees.platform_fee);
+  });
+
+  test('seller-only commission leaves the buyer paying list price', () => {
+    const fees = calculateFees(999.99, { ...policy, commissionRate: 0.05, buyerShare: 0 });
+    expect(fees.buyer_pays).toBe(999.99);
+    expect(fees.seller_receives).toBe(949.99);
+    expect(fees.platform_fee).toBe(50);
+  });
+});
@@ -0,0 +1,68 @@
+import { assertBalanced, postJournalEntry, systemAccount, userWallet } from '../application/ledger.service';
+import { fakeDb, fakeLedger } from './support/fakeDb';
+
+describe('Ledger Service', () => {
+  test('assertBalanced accepts postings that sum to zero', () => {
+    expect(() => assertBalanced([
+      { account: systemAccount('escrow'), amount: -100.1 },
+      { account: userWallet('u1'), amount: 96.1 },
+      { account: systemAccount('platform_fees'), amount: 4 },
+    ])).not.toThrow();
+  });
+
+  test('assertBalanced rejects unbalanced and single-sided entries', () => {
+    expect(() => assertBalanced([
+      { account: systemAccount('escrow'), amount: -100 },
+      { account: userWallet('u1'), amount: 99 },
+    ])).toThrow('does not balance');
+    expect(() => assertBalanced([{ account: userWallet('u1'), amount: 10 }])).toThrow();
+  });
+
+  test('postJournalEntry updates the cached balance and history in the same client', async () => {
+    const db = fakeDb();
+    const ledger = fakeLedger(db, { wallets: { u1: 50 }, escrow: { 'tx-1': 25 } });
+    await postJournalEntry(db, {
+      description: 'Sale',
+      referenceId: 'tx-1',
+      referenceType: 'transaction',
+      lines: [
+        { account: systemAccount('escrow'), amount: -25 },
+        { account: userWallet('u1'), amount: 25 },
+      ],
+    });
+    const [history] = db.ran('INSERT INTO wallet_transactions');
+    expect(history.params.slice(0, 4)).toEqual(['u1', 'credit', 25, '75']);
+    expect(ledger.wallets.u1).toBe(75);
+    expect(ledger.balance('user_wallet:u1')).toBe(75);
+    expect(ledger.held('tx-1')).toBe(0);
+  });
+
+  test('users are locked together in id order before any balance moves; system accounts are never locked', async () => {
+    const db = fakeDb();
+    fakeLedger(db, { wallets: { u1: 500, u2: 500 } });
+    await postJournalEntry(db, {
+      description: 'Sale',
+      lines: [
+        { account: systemAccount('escrow'), amount: -100 },
+        { account: userWallet('u2'), amount: 96 },
+        { account: userWallet('u1'), amount: 4 },
+      ],
+    });
+    const lock = db.calls.findIndex((c) => c.text.includes('ORDER BY id FOR UPDATE'));
+    expect(db.calls[lock].params).toEqual([['u1', 'u2']]);
+    expect(lock).toBeLessThan(db.calls.findIndex((c) => c.text.includes('UPDATE users SET wallet_balance')));
+    expect(db.ran('ON CONFLICT (account_key) DO UPDATE')).toHaveLength(0);
+  });
+
+  test('postJournalEntry refuses to overdraw a user wallet', async () => {
+    const db = fakeDb();
+    fakeLedger(db, { wallets: { u1: 10 } });
+    await expect(postJournalEntry(db, {
+      description: 'Withdrawal',
+      lines: [
+        { account: userWallet('u1'), amount: -20 },
+        { account: systemAccount('payouts_in_flight'), amount: 20 },
+      ],
+    })).rejects.toThrow('Insufficient wallet balance');
+  });
+});
@@ -0,0 +1,87 @@
+import { getHandoverCode, redeemHandoverCode, HANDOVER_CODE_MAX_ATTEMPTS } from '../application/meetup.service';
+import type { DbClient } from '../infrastructure/database/pool';
+import type { Transaction } from '../domain/entities';
+import { fakeDb, fakeLedger, fakeTransactions, FakeDb, transactionRow } from './support/fakeDb';
+
+jest.mock('../infrastructure/logging/logger', () => ({ logger: { warn: jest.fn() } }));
+
+let mockDb: FakeDb;
+jest.mock('../infrastructure/database/pool', () => ({
+  query: jest.fn(),
+  queryOne: jest.fn(),
+  withTransaction: (fn: (client: DbClient) => Promise<unknown>) => fn(mockDb),
+}));
+
+// A paid cash deal with at most one issued handover code
+function fakeCashDeal(overrides: Partial<Transaction> = {}) {
+  const txn = transactionRow({
+    status: 'paid', payment_status: 'held', payment_method: 'cash',
+    agreed_price: 500, platform_fee: 0, seller_receives: 500, ...overrides,
+  });
+  const state: { code: { code: unknown; failed_attempts: number } | null } = { code: null };
+
+  mockDb = fakeDb();
+  fakeLedger(mockDb);
+  const history = fakeTransactions(mockDb, [txn]);
+  mockDb
+    .on('DELETE FROM transaction_handover_codes', () => {
+      state.code = null;
+    })
+    .on('failed_attempts = failed_attempts + 1', () => {
+      if (state.code) state.code.failed_attempts++;
+    })
+    .on('INSERT INTO transaction_handover_codes', ([, code]) => {
+      state.code ??= { code, failed_attempts: 0 };
+      return { code: state.code.code };
+    })
+    .on('FROM transaction_handover_codes', () => state.code && { ...state.code })
+    .on('UPDATE transactions', () => ({ ...txn }))
+    .on('UPDATE listings', () => ({ user_edited_title: 'Chair' }));
+  return { txn, state, history };
+}
+
+describe('Meetup Service', () => {
+  test('the buyer gets one stable 6-digit code, as digits and as a QR payload', async () => {
+    fakeCashDeal();
+    const first = await getHandoverCode('t1', 'buyer');
+    const again = await getHandoverCode('t1', 'buyer');
+
+    expect(first.code).toMatch(/^\d{6}$/);
+    expect(again.code).toBe(first.code);
+    expect(first.qr_payload).toBe(`kaero-handover:t1:${first.code}`);
+    await expect(getHandoverCode('t1', 'seller')).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  test('codes are only for cash deals waiting for a handover', async () => {
+    fakeCashDeal({ payment_method: 'wallet' });
+    await expect(getHandoverCode('t1', 'buyer')).rejects.toThrow('only used for cash');
+
+    fakeCashDeal({ status: 'awaiting_payment', payment_status: 'pending' });
+    await expect(getHandoverCode('t1', 'buyer')).rejects.toThrow('not waiting for a handover');
+  });
+
+  test('a scanned code hands the item over and completes the deal', async () => {
+    const { txn, state, history } = fakeCashDeal();
+    const { qr_payload } = await getHandoverCode('t1', 'buyer');
+
+    await redeemHandoverCode('t1', 'seller', qr_payload);
+    expect(txn.status).toBe('completed');
+    expect(history.map((h) => h.to_status)).toEqual(['handed_over', 'received', 'completed']);
+    expect(state.code).toBeNull();
+  });
+
+  test('wrong codes are counted and too many burn the code', async () => {
+    const { state } = fakeCashDeal();
+    const { code } = await getHandoverCode('t1', 'buyer');
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    for (let i = 1; i < HANDOVER_CODE_MAX_ATTEMPTS; i++) {
+      await expect(redeemHandoverCode('t1', 'seller', wrong)).rejects.toThrow("doesn't match");
+    }
+    expect(state.code?.failed_attempts).toBe(HANDOVER_CODE_MAX_ATTEMPTS - 1);
+
+    await expect(redeemHandoverCode('t1', 'seller', wrong)).rejects.toThrow('Too many wrong codes');
+    expect(state.code).toBeNull();
+    await expect(redeemHandoverCode('t1', 'seller', code)).rejects.toThrow('open their handover code');
+  });
+});
@@ -0,0 +1,191 @@
+import { acceptOffer, canTransition, counterOffer } from '../application/offer.service';
+import { buyNow } from '../application/purchase.service';
+import type { DbClient } from '../infrastructure/database/pool';
+import { fakeDb, FakeDb, Handler } from './support/fakeDb';
+
+jest.mock('../infrastructure/logging/logger', () => ({ logger: { warn: jest.fn() } }));
+
+// ─── In-memory database with row locks ────────────────────
+// Each withTransaction gets its own client; FOR UPDATE blocks until the
+// holding transaction ends, and every statement yields so that concurrent
+// requests interleave the way they would against Postgres.
+
+interface ListingRow {
+  id: string;
+  seller_id: string;
+  user_edited_title: string;
+  final_price: string;
+  status: string;
+  moderation_status: string;
+  instant_buy_enabled: boolean;
+}
+
+interface OfferRow {
+  id: string;
+  listing_id: string;
+  buyer_id: string;
+  status: string;
+  offered_price: unknown;
+  counter_price?: unknown;
+  round_count: unknown;
+  expires_at: Date;
+}
+
+interface Db {
+  listings: Record<string, ListingRow>;
+  offers: Record<string, OfferRow>;
+  transactions: { id: string; listing_id: unknown; payment_status: unknown }[];
+}
+
+let db: Db;
+const locks = new Map<string, Promise<void>>();
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+function transactionClient(): { client: FakeDb; release: () => void } {
+  const held: (() => void)[] = [];
+
+  async function lock(key: string) {
+    while (locks.has(key)) await locks.get(key);
+    let release!: () => void;
+    locks.set(key, new Promise<void>((resolve) => { release = resolve; }));
+    held.push(() => { locks.delete(key); release(); });
+  }
+
+  const step = (handler: Handler): Handler => async (params, text) => {
+    await tick();
+    return handler(params, text);
+  };
+  const offer = (id: unknown) => db.offers[String(id)];
+
+  const client = fakeDb()
+    .on('FROM listings WHERE id = $1 FOR UPDATE', step(async ([id]) => {
+      await lock(`listing:${id}`);
+      return { ...db.listings[String(id)] };
+    }))
+    .on('FROM offers o', step(async ([id], text) => {
+      if (!text.includes('FOR UPDATE')) return [];
+      await lock(`offer:${id}`);
+      const listing = db.listings[offer(id).listing_id];
+      return { ...offer(id), seller_id: listing.seller_id, user_edited_title: listing.user_edited_title };
+    }))
+    .on('SELECT listing_id FROM offers', step(([id]) => ({ listing_id: offer(id).listing_id })))
+    .on('SELECT category_id, seller_id FROM listings', step(() => ({ category_id: null, seller_id: 'seller' })))
+    .on("UPDATE offers SET status = 'accepted'", step(([id, price], text) => (
+      text.startsWith("UPDATE offers SET status = 'accepted'")
+        ? Object.assign(offer(id), { status: 'accepted', offered_price: price })
+        : []
+    )))
+    .on("UPDATE offers SET status = 'rejected'", step(([listingId, keepId], text) => {
+      if (!text.startsWith("UPDATE offers SET status = 'rejected'")) return [];
+      const losers = Object.values(db.offers).filter((o) =>
+        o.listing_id === listingId && o.id !== keepId && ['pending', 'countered'].includes(o.status));
+      losers.forEach((o) => { o.status = 'rejected'; });
+      return losers;
+    }))
+    .on("UPDATE offers SET status = 'countered'", step(([id, price, rounds], text) => (
+      text.startsWith("UPDATE offers SET status = 'countered'")
+        ? Object.assign(offer(id), { status: 'countered', counter_price: price, round_count: rounds })
+        : []
+    )))
+    .on("UPDATE listings SET status = 'reserved'", step(([id]) => {
+      db.listings[String(id)].status = 'reserved';
+    }))
+    .on('INSERT INTO transactions', step((p) => {
+      // uq_transactions_live_listing
+      if (db.transactions.some((t) => t.listing_id === p[1] && ['pending', 'held'].includes(String(t.payment_status)))) {
+        throw Object.assign(new Error('duplicate key value violates unique constraint'), { code: '23505' });
+      }
+      const txn = { id: `txn-${db.transactions.length + 1}`, offer_id: p[0], listing_id: p[1], buyer_id: p[2], payment_status: p[9] };
+      db.transactions.push(txn);
+      return txn;
+    }))
+    .on('INSERT INTO offer_rounds', step((p) => ({ round_number: p[1] })))
+    .on('', step(() => []));
+
+  return {
+    client,
+    release: () => held.splice(0).forEach((release) => release()),
+  };
+}
+
+jest.mock('../infrastructure/database/pool', () => ({
+  query: jest.fn(),
+  queryOne: jest.fn(),
+  withTransaction: async (fn: (client: DbClient) => Promise<unknown>) => {
+    const { client, release } = transactionClient();
+    try {
+      return await fn(client);
+    } finally {
+      release();
+    }
+  },
+}));
+
+const inAnHour = () => new Date(Date.now() + 3600_000);
+
+beforeEach(() => {
+  db = {
+    listings: {
+      l1: { id: 'l1', seller_id: 'seller', user_edited_title: 'Bike', final_price: '5000', status: 'active', moderation_status: 'approved', instant_buy_enabled: true },
+    },
+    offers: {
+      a: { id: 'a', listing_id: 'l1', buyer_id: 'ann', status: 'pending', offered_price: '4000', round_count: 1, expires_at: inAnHour() },
+      b: { id: 'b', listing_id: 'l1', buyer_id: 'bob', status: 'countered', offered_price: '4200', counter_price: '4600', round_count: 2, expires_at: inAnHour() },
+    },
+    transactions: [],
+  };
+});
+
+describe('Offer state machine — concurrency', () => {
+  test('final states have no way out', () => {
+    expect(canTransition('pending', 'countered')).toBe(true);
+    expect(canTransition('countered', 'accepted')).toBe(true);
+    expect(canTransition('accepted', 'rejected')).toBe(false);
+    expect(canTransition('rejected', 'accepted')).toBe(false);
+    expect(canTransition('expired', 'pending')).toBe(false);
+  });
+
+  test('seller accept and buyer accept-counter racing on one listing produce one transaction', async () => {
+    const results = await Promise.allSettled([
+      acceptOffer('a', 'seller', 'seller'),
+      acceptOffer('b', 'bob', 'buyer'),
+    ]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    const loser = results.find((r) => r.status === 'rejected') as PromiseRejectedResult;
+    expect(loser.reason.statusCode).toBe(409);
+    expect(db.transactions).toHaveLength(1);
+    expect(db.listings.l1.status).toBe('reserved');
+    expect(Object.values(db.offers).map((o) => o.status).sort()).toEqual(['accepted', 'rejected']);
+  });
+
+  test('an offer acceptance and a Buy Now racing produce one transaction', async () => {
+    const results = await Promise.allSettled([acceptOffer('a', 'seller', 'seller'), buyNow('l1', 'cat')]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    expect(db.transactions).toHaveLength(1);
+  });
+
+  test('a seller accepting and countering the same offer at once ends in exactly one outcome', async () => {
+    const results = await Promise.allSettled([
+      acceptOffer('a', 'seller', 'seller'),
+      counterOffer('seller', 'a', 4500),
+    ]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    const [accepted] = results;
+    if (accepted.status === 'fulfilled') {
+      expect(db.offers.a.status).toBe('accepted');
+      expect(db.transactions).toHaveLength(1);
+    } else {
+      expect(db.offers.a.status).toBe('countered');
+      expect(db.transactions).toHaveLength(0);
+    }
+  });
+
+  test('the live-transaction index stops a deal that slipped past the lock', async () => {
+    db.transactions.push({ id: 'old', listing_id: 'l1', payment_status: 'held' });
+    await expect(acceptOffer('a', 'seller', 'seller')).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  applyOfferRules, assertValidRules, counterOffer, expireOfferRounds, matchOfferRule, openFirstRound,
+  sendOfferExpiryReminders,
+} from '../application/offer.service';
+import { notifyOfferExpired, notifyOfferExpiring } from '../infrastructure/notifications/push';
+import { query } from '../infrastructure/database/pool';
+import { logger } from '../infrastructure/logging/logger';
+import type { DbClient } from '../infrastructure/database/pool';
+import { fakeDb, FakeDb, Row } from './support/fakeDb';
+
+jest.mock('../infrastructure/logging/logger', () => ({ logger: { warn: jest.fn(), error: jest.fn() } }));
+jest.mock('../infrastructure/notifications/push', () => ({
+  notifyOfferExpired: jest.fn().mockResolvedValue(undefined),
+  notifyOfferExpiring: jest.fn().mockResolvedValue(undefined),
+}));
+
+let mockDb: FakeDb;
+jest.mock('../infrastructure/database/pool', () => ({
+  query: jest.fn(),
+  queryOne: jest.fn(),
+  withTransaction: (fn: (client: DbClient) => Promise<unknown>) => fn(mockDb),
+}));
+
+/** Serves one offer and its rounds; handlers a test registers on `db` first take precedence. */
+function fakeOffer(offerRow: Row, db = fakeDb()) {
+  mockDb = db
+    .on('FROM offers o', () => offerRow)
+    .on('INSERT INTO offer_rounds', (p) => ({
+      id: 'r-new', round_number: p[1], proposer_role: p[3], price: String(p[4]),
+    }))
+    .on('UPDATE offers SET', (p, text) => ({ status: text.includes("'countered'") ? 'countered' : 'pending' }));
+  return mockDb;
+}
+
+const offer = (overrides: Row = {}) => ({
+  id: 'o1', listing_id: 'l1', buyer_id: 'buyer', seller_id: 'seller', status: 'pending',
+  round_count: 1, expires_at: new Date(Date.now() + 3600_000), user_edited_title: 'iPhone 13', ...overrides,
+});
+
+describe('Offer Service', () => {
+  test('a seller counter closes the open round and starts the next one', async () => {
+    const db = fakeOffer(offer());
+    const { round, role, offer: updated } = await counterOffer('seller', 'o1', 1200, 'Best I can do');
+
+    expect(role).toBe('seller');
+    expect(round.round_number).toBe(2);
+    expect(updated.status).toBe('countered');
+    expect(db.ran('UPDATE offer_rounds SET status')[0].params).toEqual(['o1', 'countered']);
+  });
+
+  test('parties can only counter on their own turn', async () => {
+    fakeOffer(offer({ status: 'pending' }));
+    await expect(counterOffer('buyer', 'o1', 1000)).rejects.toThrow("other party's turn");
+
+    fakeOffer(offer({ status: 'countered', round_count: 2 }));
+    await expect(counterOffer('buyer', 'o1', 1100)).resolves.toMatchObject({ role: 'buyer' });
+  });
+
+  test('negotiation stops at the round limit', async () => {
+    const db = fakeOffer(offer({ status: 'countered', round_count: 6 }));
+    await expect(counterOffer('buyer', 'o1', 1100)).rejects.toThrow('limited to 6 rounds');
+    expect(db.ran('INSERT INTO offer_rounds')).toHaveLength(0);
+  });
+
+  test('the first round uses the listing\'s own offer window', async () => {
+    const db = fakeDb()
+      .on('offer_window_hours', () => ({ offer_window_hours: 2 }))
+      .on('INSERT INTO offer_rounds', () => ({ round_number: 1 }));
+    await openFirstRound(db, { id: 'o1', listing_id: 'l1', buyer_id: 'buyer', offered_price: 900 });
+
+    const expiresAt = db.ran('INSERT INTO offer_rounds')[0].params[4] as Date;
+    expect(expiresAt.getTime() - Date.now()).toBeGreaterThan(2 * 3600_000 - 5000);
+    expect(expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(2 * 3600_000);
+    expect(db.ran('SET offer_count')).toHaveLength(1);
+  });
+
+  test('expired offers and counters notify both sides and resync offer counts', async () => {
+    const expired = [
+      { id: 'o1', listing_id: 'l1', buyer_id: 'buyer', seller_id: 'seller', status: 'countered', user_edited_title: 'iPhone 13' },
+    ];
+    const db = fakeOffer(offer(), fakeDb().on('WITH due', (p, text) => (text.includes("SET status = 'expired'") ? expired : [])));
+
+    await expect(expireOfferRounds()).resolves.toEqual(['o1']);
+    expect(notifyOfferExpired).toHaveBeenCalledWith('buyer', 'buyer', true, 'iPhone 13', 'l1', 'o1');
+    expect(notifyOfferExpired).toHaveBeenCalledWith('seller', 'seller', true, 'iPhone 13', 'l1', 'o1');
+    expect(db.ran('SET offer_count')[0].params).toEqual([['l1']]);
+  });
+
+  test('buyers are reminded once before the round runs out', async () => {
+    (query as jest.Mock).mockResolvedValueOnce([
+      { id: 'o1', listing_id: 'l1', buyer_id: 'buyer', seller_id: 'seller', status: 'pending', user_edited_title: 'iPhone 13' },
+    ]);
+
+    await expect(sendOfferExpiryReminders()).resolves.toBe(1);
+    expect((query as jest.Mock).mock.calls[0][0]).toContain('expiry_reminder_sent_at IS NULL');
+    expect(notifyOfferExpiring).toHaveBeenCalledWith('buyer', false, 'iPhone 13', 6, 'l1', 'o1');
+  });
+
+  describe('auto-response rules', () => {
+    const rules = { auto_accept_at: 1000, auto_decline_below: 600, auto_counter_at: 900 };
+
+    test('prices map to accept, decline, counter or nothing', () => {
+      expect(matchOfferRule(rules, 1000)).toEqual({ action: 'accepted' });
+      expect(matchOfferRule(rules, 599)).toEqual({ action: 'declined' });
+      expect(matchOfferRule(rules, 700)).toEqual({ action: 'countered', price: 900 });
+      expect(matchOfferRule(rules, 950)).toBeNull();
+      expect(() => assertValidRules({ ...rules, auto_counter_at: 1200 })).toThrow('below the auto-accept price');
+    });
+
+    test('an auto-accept goes through the normal acceptance path, in the caller\'s transaction', async () => {
+      const db = fakeOffer(offer({ offered_price: '1100' }), fakeDb()
+        .on('FROM listing_offer_rules', () => ({ auto_accept_at: '1000', auto_decline_below: null, auto_counter_at: null }))
+        .on('SELECT listing_id FROM offers', () => ({ listing_id: 'l1' }))
+        .on('FROM listings WHERE id = $1 FOR UPDATE', () => ({ id: 'l1', seller_id: 'seller', status: 'active' }))
+        .on('INSERT INTO transactions', (p) => ({ id: 'txn-1', agreed_price: p[4] }))
+        .on("SET status = 'accepted'", (p) => ({ status: 'accepted', auto_response: p[2] })));
+
+      const auto = await applyOfferRules(db, { id: 'o1', listing_id: 'l1', offered_price: 1100 }, 'seller');
+
+      expect(auto?.action).toBe('accepted');
+      expect(auto).toMatchObject({ transaction: { agreed_price: 1100 }, offer: { auto_response: 'accepted' } });
+      expect(db.ran("UPDATE listings SET status = 'reserved'")).toHaveLength(1);
+    });
+
+    test('a failed automatic response is rolled back and logged, leaving the offer for the seller', async () => {
+      const db = fakeOffer(offer({ status: 'countered' }), fakeDb()
+        .on('FROM listing_offer_rules', () => ({ auto_accept_at: null, auto_decline_below: '600', auto_counter_at: null })));
+
+      await expect(applyOfferRules(db, { id: 'o1', listing_id: 'l1', offered_price: 500 }, 'seller')).resolves.toBeNull();
+      expect(db.ran('ROLLBACK TO SAVEPOINT auto_response')).toHaveLength(1);
+      expect(logger.error).toHaveBeenCalledWith(
+        expect.objectContaining({ offerId: 'o1', action: 'declined' }),
+        expect.stringContaining('Automatic response failed'),
+      );
+    });
+
+    test('swap offers are left for the seller', async () => {
+      await expect(applyOfferRules(fakeDb(), { id: 'o1', listing_id: 'l1', offered_price: 5000, is_exchange_proposal: true }, 'seller'))
+        .resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { config } from '../config';
+import { fawryProvider } from '../infrastructure/payments/fawry.service';
+import { vodafoneCashProvider } from '../infrastructure/payments/vodafone-cash.service';
+import { startFakeFawry, FakeFawry } from '../infrastructure/payments/fawry.fake';
+import { startFakeVodafoneCash, FakeVodafoneCash } from '../infrastructure/payments/vodafone-cash.fake';
+import type { GatewayIntent } from '../infrastructure/payments/provider';
+
+type Mutable<T> = { -readonly [K in keyof T]: T[K] };
+const fawry = config.fawry as Mutable<typeof config.fawry>;
+const vodafoneCash = config.vodafoneCash as Mutable<typeof config.vodafoneCash>;
+
+const buyer = { full_name: 'Mona Adel', phone: '01012345678' };
+
+function intentFor(provider: GatewayIntent['provider'], orderId: string, reference: string | null, amountCents: number) {
+  return {
+    id: 'intent-1',
+    provider,
+    provider_order_id: orderId,
+    provider_transaction_id: null,
+    provider_reference: reference,
+    amount_cents: amountCents,
+    refunded_amount_cents: 0,
+  } as GatewayIntent;
+}
+
+describe('Fawry provider', () => {
+  let fake: FakeFawry;
+
+  beforeAll(async () => {
+    fake = await startFakeFawry({ merchantCode: 'M1', secureKey: 'k1' });
+    Object.assign(fawry, { apiUrl: fake.url, merchantCode: 'M1', secureKey: 'k1', enabled: true });
+  });
+
+  afterAll(() => fake.close());
+
+  test('reference code is paid at the outlet and refunded', async () => {
+    const payment = await fawryProvider.initiate({ transactionId: 'tx-1', amountCents: 102000, buyer });
+    expect(payment.referenceCode).toBeTruthy();
+    expect(payment.expiresAt).toBeTruthy();
+
+    const notification = fake.pay(payment.orderId);
+    expect(fawryProvider.verifyWebhook(notification, undefined)).toBe(true);
+    expect(fawryProvider.verifyWebhook({ ...notification, paymentAmount: 1 }, undefined)).toBe(false);
+    expect(fawryProvider.parseWebhook(notification)).toMatchObject({
+      type: 'paid', providerOrderId: payment.orderId, amountCents: 102000,
+    });
+
+    const intent = intentFor('fawry', payment.orderId, payment.referenceCode ?? null, 102000);
+    await expect(fawryProvider.refund(intent, 102000)).resolves.toMatchObject({ action: 'refund' });
+    expect(fawryProvider.parseWebhook(fake.notifications[fake.notifications.length - 1]).type).toBe('refunded');
+    await expect(fawryProvider.queryStatus(intent)).resolves.toMatchObject({ type: 'refunded' });
+  });
+
+  test('unpaid reference expires', async () => {
+    const payment = await fawryProvider.initiate({ transactionId: 'tx-2', amountCents: 5000, buyer });
+    const intent = intentFor('fawry', payment.orderId, payment.referenceCode ?? null, 5000);
+    await expect(fawryProvider.queryStatus(intent)).resolves.toMatchObject({ type: 'pending' });
+
+    expect(fawryProvider.parseWebhook(fake.expire(payment.orderId)).type).toBe('expired');
+  });
+});
+
+describe('Vodafone Cash provider', () => {
+  let fake: FakeVodafoneCash;
+
+  beforeAll(async () => {
+    fake = await startFakeVodafoneCash({ apiKey: 'vk', webhookSecret: 'vs' });
+    Object.assign(vodafoneCash, { apiUrl: fake.url, merchantId: 'V1', apiKey: 'vk', webhookSecret: 'vs', enabled: true });
+  });
+
+  afterAll(() => fake.close());
+
+  test('wallet request is approved by the buyer and refunded', async () => {
+    const payment = await vodafoneCashProvider.initiate({
+      transactionId: 'tx-3', amountCents: 25000, buyer, walletNumber: '01098765432',
+    });
+    expect(fake.payments.get(payment.orderId)?.msisdn).toBe('01098765432');
+
+    const cb = fake.approve(payment.orderId);
+    expect(vodafoneCashProvider.verifyWebhook(cb.body, cb.signature)).toBe(true);
+    expect(vodafoneCashProvider.verifyWebhook(cb.body, 'forged')).toBe(false);
+    vodafoneCash.webhookSecret = '';
+    expect(vodafoneCashProvider.verifyWebhook(cb.body, undefined)).toBe(false);
+    vodafoneCash.webhookSecret = 'vs';
+
+    const event = vodafoneCashProvider.parseWebhook(cb.body);
+    expect(event).toMatchObject({ type: 'paid', providerOrderId: payment.orderId, amountCents: 25000 });
+
+    const intent = { ...intentFor('vodafone_cash', payment.orderId, null, 25000), provider_transaction_id: event.providerTransactionId };
+    await expect(vodafoneCashProvider.refund(intent, 10000)).resolves.toMatchObject({ action: 'refund' });
+    await expect(vodafoneCashProvider.refund(intent, 20000)).rejects.toThrow('Vodafone Cash refund failed');
+  });
+
+  test('rejected PIN prompt is a failed payment', async () => {
+    const payment = await vodafoneCashProvider.initiate({ transactionId: 'tx-4', amountCents: 1000, buyer });
+    expect(vodafoneCashProvider.parseWebhook(fake.reject(payment.orderId).body).type).toBe('failed');
+  });
+});
@@ -0,0 +1,214 @@
+import { config } from '../config';
+import { amountDue } from '../application/escrow.service';
+import { handlePaymentCallback, sendRequestedRefunds } from '../application/payment.service';
+import {
+  classifyPaymobCallback, paymobProvider, paymobRefund, paymobVoid, verifyPaymobWebhook,
+} from '../infrastructure/payments/paymob.service';
+import { startFakePaymob, FakePaymob, FakePaymobCallback } from '../infrastructure/payments/paymob.fake';
+import type { DbClient } from '../infrastructure/database/pool';
+import type { Transaction } from '../domain/entities';
+import { fakeDb, fakeLedger, fakeTransactions, FakeDb, Row, transactionRow } from './support/fakeDb';
+
+jest.mock('../infrastructure/logging/logger', () => ({ logger: { warn: jest.fn(), error: jest.fn() } }));
+
+let mockDb: FakeDb;
+jest.mock('../infrastructure/database/pool', () => ({
+  query: (text: string, params?: unknown[]) => mockDb.query(text, params),
+  queryOne: (text: string, params?: unknown[]) => mockDb.queryOne(text, params),
+  withTransaction: (fn: (client: DbClient) => Promise<unknown>) => fn(mockDb),
+}));
+
+const paymob = config.paymob as { -readonly [K in keyof typeof config.paymob]: (typeof config.paymob)[K] };
+
+// One fake gateway for the whole file: the Paymob client caches its auth token
+let fake: FakePaymob;
+
+beforeAll(async () => {
+  fake = await startFakePaymob({ hmacSecret: 'test_secret' });
+  paymob.apiUrl = fake.url;
+  paymob.apiKey = 'test_key';
+  paymob.hmacSecret = 'test_secret';
+});
+
+afterAll(() => fake.close());
+
+describe('Paymob refunds & webhooks', () => {
+  function capturedPayment(amountCents: number) {
+    const orderId = 9000 + fake.orders.size;
+    fake.orders.set(orderId, { id: orderId, amountCents });
+    return fake.capture(orderId);
+  }
+
+  test('captured payment callback is signed and classified as paid', () => {
+    const cb = capturedPayment(10000);
+    expect(verifyPaymobWebhook(cb.body.obj, cb.hmac)).toBe(true);
+    expect(verifyPaymobWebhook({ ...cb.body.obj, amount_cents: 1 }, cb.hmac)).toBe(false);
+    expect(classifyPaymobCallback(cb.body.obj)).toBe('paid');
+  });
+
+  test('partial refunds are accepted up to the captured amount', async () => {
+    const paid = capturedPayment(10000);
+    const txnId = String(paid.body.obj.id);
+
+    await expect(paymobRefund(txnId, 4000)).resolves.toMatchObject({ success: true, amount_cents: 4000 });
+    await expect(paymobRefund(txnId, 7000)).rejects.toThrow('Paymob refund failed');
+
+    const refundCb = fake.callbacks[fake.callbacks.length - 1];
+    expect(classifyPaymobCallback(refundCb.body.obj)).toBe('refunded');
+    expect(refundCb.body.obj.order.id).toBe(paid.body.obj.order.id);
+    expect(verifyPaymobWebhook(refundCb.body.obj, refundCb.hmac)).toBe(true);
+  });
+
+  test('void cancels the whole payment and cannot be repeated', async () => {
+    const paid = capturedPayment(5000);
+    const txnId = String(paid.body.obj.id);
+
+    await expect(paymobVoid(txnId)).resolves.toMatchObject({ success: true });
+    await expect(paymobVoid(txnId)).rejects.toThrow('Paymob void failed');
+    expect(classifyPaymobCallback(fake.callbacks[fake.callbacks.length - 1].body.obj)).toBe('voided');
+  });
+
+  test('failed and pending callbacks are not treated as payments', () => {
+    expect(classifyPaymobCallback({ success: false })).toBe('failed');
+    expect(classifyPaymobCallback({ success: false, pending: true })).toBe('pending');
+  });
+});
+
+describe('Paymob callbacks', () => {
+  beforeAll(() => {
+    paymob.enabled = true;
+  });
+
+  afterAll(() => {
+    paymob.enabled = false;
+  });
+
+  // A card intent for `amountCents` on transaction t1, the signed capture for it and the tables it touches
+  function fakeCheckout(amountCents: number, overrides: Partial<Transaction> = {}) {
+    const orderId = 7000 + fake.orders.size;
+    fake.orders.set(orderId, { id: orderId, amountCents });
+    const capture = fake.capture(orderId);
+
+    const txn = transactionRow(overrides);
+    const intent: Row = {
+      id: 'intent-1', provider: 'paymob', provider_order_id: String(orderId), provider_transaction_id: null,
+      transaction_id: txn.id, boost_purchase_id: null, subscription_id: null,
+      amount_cents: amountCents, refunded_amount_cents: 0, status: 'pending', refund_status: 'none',
+    };
+    const events: Row[] = [];
+    const refunds: Row[] = [];
+
+    mockDb = fakeDb();
+    const ledger = fakeLedger(mockDb);
+    const history = fakeTransactions(mockDb, [txn]);
+    mockDb
+      .on('SELECT id FROM payment_webhook_events', ([provider, providerTxnId, type]) => events.find((e) =>
+        e.provider === provider && e.provider_transaction_id === providerTxnId && e.event_type === type && e.processed))
+      .on('INSERT INTO payment_webhook_events', ([provider, providerTxnId, , type, hmacValid]) => {
+        const event = { id: `event-${events.length + 1}`, provider, provider_transaction_id: providerTxnId, event_type: type, hmac_valid: hmacValid };
+        events.push(event);
+        return event;
+      })
+      .on('UPDATE payment_webhook_events SET processed_at', ([id]) => {
+        Object.assign(events.find((e) => e.id === id) ?? {}, { processed: true });
+      })
+      .on('FROM payment_intents WHERE provider = $1 AND provider_order_id = $2', ([, orderId]) =>
+        (orderId === intent.provider_order_id ? { ...intent } : null))
+      .on('FROM payment_intents WHERE id = $1 AND status', () => (intent.status === 'paid' ? { ...intent } : null))
+      .on("SET status = 'paid'", ([providerTxnId]) => {
+        Object.assign(intent, { status: 'paid', provider_transaction_id: providerTxnId });
+      })
+      .on('refunded_amount_cents = COALESCE(refunded_amount_cents, 0) +', ([, amount, refundStatus]) => {
+        Object.assign(intent, {
+          refund_status: refundStatus, refunded_amount_cents: Number(intent.refunded_amount_cents) + Number(amount),
+        });
+      })
+      .on("SET payment_status = 'held'", () => {
+        txn.payment_status = 'held';
+      })
+      .on('INSERT INTO gateway_refunds', ([intentId, amount, status]) => {
+        const refund = { id: `refund-${refunds.length + 1}`, intent_id: intentId, amount_cents: amount, status };
+        refunds.push(refund);
+        return refund;
+      })
+      .on('SELECT id FROM gateway_refunds', () => refunds.filter((r) => r.status === 'requested'))
+      .on('UPDATE gateway_refunds r', ([id]) => {
+        const refund = refunds.find((r) => r.id === id && r.status === 'requested');
+        if (!refund) return null;
+        refund.status = 'sending';
+        return { ...intent, captured_today: true, refund_cents: refund.amount_cents };
+      })
+      .on("UPDATE gateway_refunds SET status = 'sent'", ([id, action]) => {
+        Object.assign(refunds.find((r) => r.id === id) ?? {}, { status: 'sent', action });
+      });
+
+    return { capture, txn, intent, events, refunds, ledger, history };
+  }
+
+  const deliver = (cb: FakePaymobCallback) =>
+    handlePaymentCallback(paymobProvider, cb.body.obj, verifyPaymobWebhook(cb.body.obj, cb.hmac));
+
+  test('a repeated paid callback funds escrow once', async () => {
+    const { capture, txn, events, ledger, history } = fakeCheckout(Math.round(amountDue(transactionRow()) * 100));
+
+    await expect(deliver(capture)).resolves.toMatchObject({ duplicate: false, processed: true });
+    await expect(deliver(capture)).resolves.toMatchObject({ duplicate: true, processed: false });
+
+    expect(ledger.held('t1')).toBe(1000);
+    expect(ledger.balance('system:external_funds')).toBe(-1000);
+    expect(txn.payment_status).toBe('held');
+    expect(history.map((h) => h.to_status)).toEqual(['paid']);
+    expect(events).toHaveLength(2);
+  });
+
+  test('a callback with a bad signature is stored but not acted on', async () => {
+    const { capture, txn, intent, events, ledger } = fakeCheckout(100000);
+
+    const outcome = await deliver({ ...capture, hmac: 'forged' });
+
+    expect(outcome).toMatchObject({ eventType: 'paid', processed: false });
+    expect(events).toEqual([expect.objectContaining({ hmac_valid: false })]);
+    expect(intent.status).toBe('pending');
+    expect(txn.payment_status).toBe('pending');
+    expect(ledger.held('t1')).toBe(0);
+  });
+
+  test('a capture after the deal was cancelled is refunded once the callback commits', async () => {
+    const { capture, intent, refunds, ledger } = fakeCheckout(100000, { status: 'cancelled', payment_status: 'refunded' });
+
+    await expect(deliver(capture)).resolves.toMatchObject({ processed: true });
+
+    expect(ledger.held('t1')).toBe(0);
+    expect(refunds).toEqual([expect.objectContaining({ amount_cents: 100000, status: 'requested' })]);
+    expect(intent).toMatchObject({ refund_status: 'pending', refunded_amount_cents: 100000 });
+    expect(fake.callbacks[fake.callbacks.length - 1]).toBe(capture);
+
+    await expect(sendRequestedRefunds()).resolves.toBe(1);
+    expect(refunds[0]).toMatchObject({ status: 'sent', action: 'void' });
+    expect(classifyPaymobCallback(fake.callbacks[fake.callbacks.length - 1].body.obj)).toBe('voided');
+  });
+
+  test('a capture above the amount due holds what is due and refunds the rest', async () => {
+    // A promo code was redeemed after the buyer opened the card payment
+    const { capture, txn, refunds, ledger } = fakeCheckout(120000);
+
+    await expect(deliver(capture)).resolves.toMatchObject({ processed: true });
+
+    expect(ledger.held('t1')).toBe(1000);
+    expect(ledger.balance('system:external_funds')).toBe(-1000);
+    expect(txn.payment_status).toBe('held');
+    expect(refunds).toEqual([expect.objectContaining({ amount_cents: 20000, status: 'requested' })]);
+  });
+
+  test('a capture short of the amount due is refunded instead of held', async () => {
+    // Delivery was added after the buyer opened the card payment
+    const { capture, txn, refunds, ledger, history } = fakeCheckout(100000, { shipping_fee: 50 });
+
+    await expect(deliver(capture)).resolves.toMatchObject({ processed: true });
+
+    expect(ledger.held('t1')).toBe(0);
+    expect(txn.payment_status).toBe('pending');
+    expect(history).toEqual([]);
+    expect(refunds).toEqual([expect.objectContaining({ amount_cents: 100000, status: 'requested' })]);
+  });
+});
@@ -0,0 +1,50 @@
+import { computePromoDiscount, redeemPromoCode } from '../application/promo.service';
+import { fakeDb, transactionRow } from './support/fakeDb';
+
+jest.mock('../infrastructure/logging/logger', () => ({ logger: { warn: jest.fn(), error: jest.fn() } }));
+
+const promo = {
+  id: 'p1', code: 'EID50', discount_type: 'fixed', discount_value: 50, max_uses: 10, used_count: 3,
+  min_order_amount: 0, expires_at: null, is_active: true,
+};
+
+const txn = transactionRow({
+  seller_receives: 980,
+  fee_breakdown: {
+    price: 1000, commission_rate: 0.04, gross_fee: 40, buyer_fee: 20, seller_fee: 20, promo_discount: 0,
+    platform_fee: 40, buyer_pays: 1020, seller_receives: 980, category_id: null, commission_source: 'default',
+  },
+});
+
+const promoDb = (opts: { claimSucceeds: boolean }) => fakeDb()
+  .on('FROM promo_codes', () => promo)
+  .on('UPDATE promo_codes', () => (opts.claimSucceeds ? { id: 'p1' } : null))
+  .on('UPDATE transactions', ([id, platformFee]) => ({ id, platform_fee: platformFee }));
+
+describe('Promo Service', () => {
+  test('percent discounts are capped at the order amount', () => {
+    expect(computePromoDiscount({ discount_type: 'percent', discount_value: 15 }, 999)).toBe(149.85);
+    expect(computePromoDiscount({ discount_type: 'fixed', discount_value: 500 }, 200)).toBe(200);
+  });
+
+  test('redemption records the use and moves the discount into the platform fee', async () => {
+    const db = promoDb({ claimSucceeds: true });
+    const result = await redeemPromoCode(db, txn, 'buyer-1', 'eid50');
+
+    expect(result.discount).toBe(50);
+    const [use] = db.ran('INSERT INTO promo_code_uses');
+    expect(use.params).toEqual(['p1', 'buyer-1', 't1', 50]);
+
+    const [update] = db.ran('UPDATE transactions');
+    const fees = JSON.parse(String(update.params[2]));
+    expect(fees.buyer_pays).toBe(970);
+    expect(fees.seller_receives).toBe(980);
+    expect(update.params[1]).toBe(-10);
+  });
+
+  test('a lost race for the last use is rejected without recording anything', async () => {
+    const db = promoDb({ claimSucceeds: false });
+    await expect(redeemPromoCode(db, txn, 'buyer-1', 'EID50')).rejects.toThrow('usage limit');
+    expect(db.ran('INSERT INTO promo_code_uses')).toHaveLength(0);
+  });
+});
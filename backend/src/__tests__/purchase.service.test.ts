@@ -0,0 +1,52 @@
+import { buyNow } from '../application/purchase.service';
+import type { DbClient } from '../infrastructure/database/pool';
+import { fakeDb, FakeDb } from './support/fakeDb';
+
+jest.mock('../infrastructure/logging/logger', () => ({ logger: { warn: jest.fn() } }));
+
+let mockDb: FakeDb;
+jest.mock('../infrastructure/database/pool', () => ({
+  query: jest.fn(),
+  queryOne: jest.fn(),
+  withTransaction: (fn: (client: DbClient) => Promise<unknown>) => fn(mockDb),
+}));
+
+// One listing row shared by every purchase, so a second buyer sees the first one's reservation
+function fakeListing(overrides: { instant_buy_enabled?: boolean } = {}) {
+  const listing = {
+    id: 'l1', seller_id: 'seller', user_edited_title: 'PS5', final_price: '20000',
+    status: 'active', moderation_status: 'approved', instant_buy_enabled: true, category_id: null, ...overrides,
+  };
+  mockDb = fakeDb()
+    .on("UPDATE listings SET status = 'reserved'", () => {
+      listing.status = 'reserved';
+    })
+    .on('UPDATE offers', () => [{ id: 'o1', buyer_id: 'rival' }])
+    .on('FROM listings', () => ({ ...listing }))
+    .on('INSERT INTO transactions', (p) => ({ id: 'txn-1', buyer_id: p[2], agreed_price: p[4], payment_status: p[9] }));
+  return listing;
+}
+
+describe('Purchase Service', () => {
+  test('buy now reserves the listing at its price and rejects live offers', async () => {
+    const listing = fakeListing();
+    const { transaction, rejectedOffers } = await buyNow('l1', 'buyer');
+
+    expect(transaction).toMatchObject({ buyer_id: 'buyer', agreed_price: 20000, payment_status: 'pending' });
+    expect(listing.status).toBe('reserved');
+    expect(rejectedOffers).toEqual([{ id: 'o1', buyer_id: 'rival' }]);
+    expect(mockDb.calls[0].text).toContain('FOR UPDATE');
+  });
+
+  test('the second of two buyers loses the race', async () => {
+    fakeListing();
+    await buyNow('l1', 'first');
+    await expect(buyNow('l1', 'second')).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  test('listings opted out of instant buy cannot be bought outright', async () => {
+    fakeListing({ instant_buy_enabled: false });
+    await expect(buyNow('l1', 'buyer')).rejects.toThrow('turned off Buy Now');
+    expect(mockDb.ran('INSERT INTO transactions')).toHaveLength(0);
+  });
+});
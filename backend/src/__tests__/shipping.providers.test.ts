@@ -0,0 +1,55 @@
+import { config } from '../config';
+import { bostaProvider } from '../infrastructure/shipping/bosta.service';
+import { startFakeBosta, FakeBosta } from '../infrastructure/shipping/bosta.fake';
+
+type Mutable<T> = { -readonly [K in keyof T]: T[K] };
+const bosta = config.bosta as Mutable<typeof config.bosta>;
+
+const seller = { name: 'Karim Hassan', phone: '01011112222', city: 'Giza', street: '12 Mourad St' };
+const buyer = { name: 'Mona Adel', phone: '01012345678', city: 'Alexandria', street: '5 Fouad St', building: '5', floor: '3' };
+
+describe('Bosta provider', () => {
+  let fake: FakeBosta;
+
+  beforeAll(async () => {
+    fake = await startFakeBosta({ apiKey: 'bk', webhookSecret: 'bs' });
+    Object.assign(bosta, { apiUrl: fake.url, apiKey: 'bk', webhookSecret: 'bs', enabled: true });
+  });
+
+  afterAll(() => fake.close());
+
+  test('quotes by drop-off city and books a waybill', async () => {
+    await expect(bostaProvider.quote('Alexandria')).resolves.toEqual({ provider: 'bosta', feeCents: 7500 });
+
+    const waybill = await bostaProvider.createWaybill({
+      transactionId: 'tx-1', pickup: seller, dropOff: buyer, description: 'Chair', valueCents: 150000,
+    });
+    expect(waybill.trackingNumber).toBeTruthy();
+    expect(waybill.trackingUrl).toContain(waybill.trackingNumber);
+    expect(fake.deliveries.get(waybill.trackingNumber)).toMatchObject({ businessReference: 'tx-1', dropOffCity: 'Alexandria' });
+  });
+
+  test('tracking webhooks are verified and normalised', async () => {
+    const { trackingNumber } = await bostaProvider.createWaybill({
+      transactionId: 'tx-2', pickup: seller, dropOff: buyer, description: 'Lamp', valueCents: 20000,
+    });
+
+    const pickedUp = fake.advance(trackingNumber, 'picked_up');
+    expect(bostaProvider.verifyWebhook(pickedUp.body, pickedUp.signature)).toBe(true);
+    expect(bostaProvider.verifyWebhook(pickedUp.body, 'forged')).toBe(false);
+    bosta.webhookSecret = '';
+    expect(bostaProvider.verifyWebhook(pickedUp.body, undefined)).toBe(false);
+    bosta.webhookSecret = 'bs';
+    expect(bostaProvider.parseWebhook(pickedUp.body)).toMatchObject({ type: 'picked_up', trackingNumber });
+
+    expect(bostaProvider.parseWebhook(fake.advance(trackingNumber, 'exception', 'Customer not answering').body))
+      .toMatchObject({ type: 'delivery_failed', note: 'Customer not answering' });
+    expect(bostaProvider.parseWebhook(fake.advance(trackingNumber, 'delivered').body).type).toBe('delivered');
+  });
+
+  test('requests without the API key are rejected', async () => {
+    Object.assign(bosta, { apiKey: 'wrong' });
+    await expect(bostaProvider.quote('Cairo')).rejects.toThrow('Bosta pricing failed: 401');
+    Object.assign(bosta, { apiKey: 'bk' });
+  });
+});
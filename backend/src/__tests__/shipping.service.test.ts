@@ -0,0 +1,137 @@
+import {
+  bookCourierPickup, chooseDelivery, chooseMeetup, handleShipmentCallback,
+} from '../application/shipping.service';
+import { amountDue } from '../application/escrow.service';
+import { bostaProvider } from '../infrastructure/shipping/bosta.service';
+import { notifyShipmentUpdate } from '../infrastructure/notifications/push';
+import type { DbClient } from '../infrastructure/database/pool';
+import type { Transaction } from '../domain/entities';
+import { fakeDb, fakeLedger, fakeTransactions, FakeDb, transactionRow } from './support/fakeDb';
+
+jest.mock('../infrastructure/logging/logger', () => ({ logger: { warn: jest.fn() } }));
+jest.mock('../infrastructure/notifications/push', () => ({ notifyShipmentUpdate: jest.fn(async () => undefined) }));
+
+let mockDb: FakeDb;
+jest.mock('../infrastructure/database/pool', () => ({
+  query: (text: string, params?: unknown[]) => mockDb.query(text, params),
+  queryOne: (text: string, params?: unknown[]) => mockDb.queryOne(text, params),
+  withTransaction: (fn: (client: DbClient) => Promise<unknown>) => fn(mockDb),
+}));
+
+const address = { name: 'Mona Adel', phone: '01012345678', city: 'Alexandria', street: '5 Fouad St' };
+
+// One transaction, its price in escrow once paid, and the tracking callbacks stored against it
+function fakeDeal(overrides: Partial<Transaction> = {}) {
+  const txn = transactionRow({ agreed_price: 1500, platform_fee: 30, seller_receives: 1470, ...overrides });
+  const events: { id: string; event_type: unknown; processed: boolean }[] = [];
+
+  mockDb = fakeDb();
+  const ledger = fakeLedger(mockDb, { escrow: txn.payment_status === 'held' ? { t1: 1500 } : {} });
+  fakeTransactions(mockDb, [txn]);
+  mockDb
+    .on('SET processed_at', ([id]) => {
+      const event = events.find((e) => e.id === id);
+      if (event) event.processed = true;
+    })
+    .on('escrow_hold_until = NOW()', () => {
+      txn.escrow_hold_until = new Date(Date.now() + 3 * 86_400_000);
+    })
+    .on('courier_shipment_id = NULL', () => Object.assign(txn, { courier_shipment_id: null, tracking_number: null }))
+    .on('tracking_number = $2 FOR UPDATE', ([courier, trackingNumber]) => (
+      txn.courier === courier && txn.tracking_number === trackingNumber ? { ...txn } : null
+    ))
+    .on('FROM shipment_events', (p) => events.find((e) => e.event_type === p[2] && e.processed) ?? null)
+    .on('INSERT INTO shipment_events', (p) => {
+      const row = { id: `e${events.length + 1}`, event_type: p[3], processed: false };
+      events.push(row);
+      return row;
+    })
+    .on("SET delivery_method = 'delivery'", ([, shippingAddress, fee, courier]) => Object.assign(txn, {
+      delivery_method: 'delivery', shipping_address: shippingAddress, shipping_fee: fee, courier,
+    }))
+    .on("SET delivery_method = 'meetup'", () => Object.assign(txn, {
+      delivery_method: 'meetup', shipping_address: null, shipping_fee: 0, courier: null,
+    }))
+    .on('courier_shipment_id = $3', ([, courier, shipmentId, trackingNumber]) => Object.assign(txn, {
+      courier, courier_shipment_id: shipmentId, tracking_number: trackingNumber,
+    }))
+    .on("payment_status = 'refunded'", () => Object.assign(txn, { payment_status: 'refunded' }))
+    .on('user_edited_title', () => ({ user_edited_title: 'Chair' }));
+  return { txn, events, ledger };
+}
+
+const bostaWebhook = (trackingNumber: string, state: number) => ({ trackingNumber, state, timeStamp: Date.now() });
+
+describe('Shipping Service', () => {
+  beforeEach(() => (notifyShipmentUpdate as jest.Mock).mockClear());
+
+  test('choosing delivery adds the quoted fee to what the buyer pays', async () => {
+    const { txn } = fakeDeal();
+    await chooseDelivery('t1', 'buyer', address);
+
+    expect(txn).toMatchObject({ delivery_method: 'delivery', courier: 'bosta', shipping_fee: 60 });
+    expect(amountDue(txn)).toBe(1560);
+
+    await chooseMeetup('t1', 'buyer');
+    expect(txn).toMatchObject({ delivery_method: 'meetup', shipping_fee: 0 });
+  });
+
+  test('delivery can only be chosen by the buyer before paying', async () => {
+    fakeDeal();
+    await expect(chooseDelivery('t1', 'seller', address)).rejects.toMatchObject({ statusCode: 403 });
+
+    fakeDeal({ status: 'paid', payment_status: 'held' });
+    await expect(chooseDelivery('t1', 'buyer', address)).rejects.toThrow('before paying');
+  });
+
+  test('the seller books a pickup once the buyer has paid', async () => {
+    fakeDeal({ delivery_method: 'delivery', shipping_address: address, courier: 'bosta' });
+    await expect(bookCourierPickup('t1', 'seller', address)).rejects.toThrow('once the buyer has paid');
+
+    const { txn } = fakeDeal({
+      status: 'paid', payment_status: 'held', delivery_method: 'delivery', shipping_address: address, courier: 'bosta',
+    });
+    await bookCourierPickup('t1', 'seller', address);
+    expect(txn.tracking_number).toMatch(/^\d+$/);
+    await expect(bookCourierPickup('t1', 'seller', address)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  test('tracking moves the deal to shipped, then delivered, and notifies both parties once', async () => {
+    const { txn } = fakeDeal({
+      status: 'paid', payment_status: 'held', delivery_method: 'delivery', courier: 'bosta', tracking_number: '7000001',
+    });
+
+    await handleShipmentCallback(bostaProvider, bostaWebhook('7000001', 21), true);
+    expect(txn).toMatchObject({ status: 'shipped', escrow_hold_until: null });
+
+    await handleShipmentCallback(bostaProvider, bostaWebhook('7000001', 30), true);
+    await handleShipmentCallback(bostaProvider, bostaWebhook('7000001', 45), true);
+    expect(txn).toMatchObject({ status: 'delivered', escrow_hold_until: expect.any(Date) });
+
+    const retry = await handleShipmentCallback(bostaProvider, bostaWebhook('7000001', 45), true);
+    expect(retry).toMatchObject({ duplicate: true, processed: false });
+
+    const notified = (notifyShipmentUpdate as jest.Mock).mock.calls.map(([userId, event]) => `${userId}:${event}`);
+    expect(notified).toEqual(['buyer:picked_up', 'seller:picked_up', 'buyer:delivered', 'seller:delivered']);
+  });
+
+  test('a return to the seller refunds the buyer', async () => {
+    const { txn, ledger } = fakeDeal({
+      status: 'shipped', payment_status: 'held', delivery_method: 'delivery', courier: 'bosta', tracking_number: '7000002',
+    });
+    await handleShipmentCallback(bostaProvider, bostaWebhook('7000002', 46), true);
+    expect(txn).toMatchObject({ status: 'refunded', payment_status: 'refunded' });
+    expect(ledger.held('t1')).toBe(0);
+    expect(ledger.wallets.buyer).toBe(1500);
+  });
+
+  test('unsigned callbacks are stored but never acted on', async () => {
+    const { txn, events } = fakeDeal({
+      status: 'paid', payment_status: 'held', delivery_method: 'delivery', courier: 'bosta', tracking_number: '7000003',
+    });
+    await expect(handleShipmentCallback(bostaProvider, bostaWebhook('7000003', 45), false))
+      .resolves.toMatchObject({ processed: false });
+    expect(events).toHaveLength(1);
+    expect(txn.status).toBe('paid');
+  });
+});
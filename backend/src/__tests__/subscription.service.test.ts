@@ -0,0 +1,82 @@
+import { applySubscriptionPayment, processSubscriptionRenewals, useFreeBoost } from '../application/subscription.service';
+import { logger } from '../infrastructure/logging/logger';
+import { notifySubscription } from '../infrastructure/notifications/push';
+import type { DbClient } from '../infrastructure/database/pool';
+import { fakeDb, fakeLedger, FakeDb } from './support/fakeDb';
+
+jest.mock('../infrastructure/logging/logger', () => ({ logger: { warn: jest.fn(), error: jest.fn() } }));
+jest.mock('../infrastructure/notifications/push', () => ({ notifySubscription: jest.fn(async () => undefined) }));
+
+let mockDb: FakeDb;
+jest.mock('../infrastructure/database/pool', () => ({
+  query: (text: string, params?: unknown[]) => mockDb.query(text, params),
+  queryOne: (text: string, params?: unknown[]) => mockDb.queryOne(text, params),
+  withTransaction: (fn: (client: DbClient) => Promise<unknown>) => fn(mockDb),
+}));
+
+const premium = (overrides: { status?: string; benefits_used?: Record<string, number> } = {}) => ({
+  id: 's1', user_id: 'u1', plan_type: 'premium', status: 'pending', benefits_used: {}, ...overrides,
+});
+
+function subscriptionDb(sub: ReturnType<typeof premium> | null, live: { id: string } | null = null) {
+  const db = fakeDb();
+  const ledger = fakeLedger(db);
+  db
+    .on('SELECT * FROM subscriptions', () => sub)
+    .on('SELECT id FROM subscriptions', () => live)
+    .on('UPDATE subscriptions SET', () => sub && { ...sub, status: 'active' });
+  return { db, ledger };
+}
+
+describe('Subscription Service', () => {
+  test('a confirmed card payment activates the plan, grants the badge and leaves a wallet receipt', async () => {
+    const { db, ledger } = subscriptionDb(premium());
+    await expect(applySubscriptionPayment(db, 's1', 199)).resolves.toBe(true);
+
+    expect(db.ran('INSERT INTO wallet_transactions').map((c) => c.params[1])).toEqual(['credit', 'fee']);
+    expect(ledger.wallets.u1).toBe(0);
+    expect(ledger.balance('system:platform_fees')).toBe(199);
+    const [badge] = db.ran('is_verified_store');
+    expect(badge.params).toEqual(['u1', true]);
+  });
+
+  test('a capture for an expired subscription is not applied', async () => {
+    const { db } = subscriptionDb(premium({ status: 'expired' }));
+    await expect(applySubscriptionPayment(db, 's1', 199)).resolves.toBe(false);
+    expect(db.ran('ledger_entries')).toHaveLength(0);
+  });
+
+  test('free boosts are limited per period and to the covered tiers', async () => {
+    const fresh = subscriptionDb(premium({ status: 'active' })).db;
+    await expect(useFreeBoost(fresh, 'u1', 'standard')).resolves.toBe(true);
+    expect(fresh.ran('jsonb_set')[0].params).toEqual(['s1', 1]);
+
+    await expect(useFreeBoost(fresh, 'u1', 'premium')).resolves.toBe(false);
+
+    const usedUp = subscriptionDb(premium({ status: 'active', benefits_used: { free_boosts: 2 } })).db;
+    await expect(useFreeBoost(usedUp, 'u1', 'basic')).resolves.toBe(false);
+
+    const free = subscriptionDb(null).db;
+    await expect(useFreeBoost(free, 'u1', 'basic')).resolves.toBe(false);
+  });
+
+  test('a failed renewal or notification does not stop the rest of the run', async () => {
+    const expiresAt = new Date('2026-01-01T00:00:00Z');
+    mockDb = fakeDb()
+      .on('SET reminder_sent_at', () => [{ id: 's3', user_id: 'u3', auto_renew: true, expires_at: expiresAt }])
+      .on('SELECT id FROM subscriptions', () => [{ id: 's1' }, { id: 's2' }])
+      .on('SELECT s.*, u.wallet_balance', ([id]) => {
+        if (id === 's1') throw new Error('deadlock detected');
+        return { ...premium({ status: 'active' }), id, user_id: 'u2', auto_renew: false, wallet_balance: '0', expires_at: expiresAt };
+      });
+    jest.mocked(notifySubscription).mockRejectedValueOnce(new Error('push service down'));
+
+    await expect(processSubscriptionRenewals()).resolves.toEqual({ reminded: 1, renewed: 0, in_grace: 1, expired: 0 });
+    await new Promise(setImmediate);
+
+    expect(mockDb.ran("status = 'grace'")[0].params[0]).toBe('s2');
+    expect(notifySubscription).toHaveBeenCalledWith('u2', 'grace', expiresAt);
+    expect(logger.error).toHaveBeenCalledWith(expect.objectContaining({ subscriptionId: 's1' }), expect.any(String));
+    expect(logger.warn).toHaveBeenCalledWith(expect.objectContaining({ subscriptionId: 's3' }), expect.any(String));
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * In-memory stand-in for a transaction client, shared by the service tests.
+ *
+ * Statements are answered by handlers registered against a fragment of their
+ * SQL (first registration wins) and queryOne is the first row of query, as in
+ * the real pool. fakeLedger and fakeTransactions model the tables the money
+ * paths share, so those tests can assert balances and statuses instead of the
+ * parameters of the statements that moved them.
+ */
+
+import type { DbClient } from '../../infrastructure/database/pool';
+import type { Transaction, TransactionStatus } from '../../domain/entities';
+
+export type Row = Record<string, unknown>;
+export type Params = unknown[];
+type Result = object | object[] | null | void;
+export type Handler = (params: Params, text: string) => Result | Promise<Result>;
+
+export interface SqlCall {
+  text: string;
+  params: Params;
+}
+
+export interface FakeDb extends DbClient {
+  readonly calls: SqlCall[];
+  /** Answers every statement containing `fragment`. Unanswered statements return no rows. */
+  on(fragment: string, handler: Handler): FakeDb;
+  /** Calls whose SQL contains `fragment`, in the order they ran */
+  ran(fragment: string): SqlCall[];
+}
+
+export function fakeDb(): FakeDb {
+  const handlers: { fragment: string; handler: Handler }[] = [];
+  const calls: SqlCall[] = [];
+
+  async function query<T>(text: string, params: Params = []): Promise<T[]> {
+    calls.push({ text, params });
+    const match = handlers.find((h) => text.includes(h.fragment));
+    const result = match ? await match.handler(params, text) : undefined;
+    const rows = result == null ? [] : Array.isArray(result) ? result : [result];
+    return rows as T[];
+  }
+
+  const db: FakeDb = {
+    calls,
+    query,
+    queryOne: async <T>(text: string, params?: Params) => (await query<T>(text, params))[0] ?? null,
+    on(fragment, handler) {
+      handlers.push({ fragment, handler });
+      return db;
+    },
+    ran: (fragment) => calls.filter((c) => c.text.includes(fragment)),
+  };
+  return db;
+}
+
+// ─── Ledger ──────────────────────────────────────────────
+
+export interface FakeLedger {
+  /** users.wallet_balance, keyed by user id */
+  wallets: Record<string, number>;
+  /** users.referral_credits, keyed by user id */
+  credits: Record<string, number>;
+  /** Sum of postings to an account key such as 'system:escrow' or 'user_wallet:u1' */
+  balance(key: string): number;
+  /** Amount still in escrow for a transaction, as escrow.heldInEscrow sees it */
+  held(transactionId: string): number;
+  /** Posts money in from outside the platform, as a completed payment or payout would */
+  fund(key: string, amount: number, transactionId?: string): void;
+}
+
+interface Entry {
+  id: string;
+  referenceId: unknown;
+  referenceType: unknown;
+  postings: { key: string; amount: number }[];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Backs ledger.service with in-memory accounts. Account ids are their keys, so
+ * the system account ids ledger.service caches stay valid between tests.
+ * `opening` balances are posted against system:external_funds; the `escrow`
+ * option holds that much for the given transactions.
+ */
+export function fakeLedger(
+  db: FakeDb,
+  opening: { wallets?: Record<string, number>; credits?: Record<string, number>; escrow?: Record<string, number> } = {},
+): FakeLedger {
+  const entries: Entry[] = [];
+  const wallets: Record<string, number> = {};
+  const credits: Record<string, number> = {};
+
+  const post = (referenceId: unknown, referenceType: unknown, postings: Entry['postings']) => {
+    const entry = { id: `entry-${entries.length + 1}`, referenceId, referenceType, postings };
+    entries.push(entry);
+    return entry;
+  };
+
+  const ledger: FakeLedger = {
+    wallets,
+    credits,
+    balance: (key) => round2(entries.flatMap((e) => e.postings).filter((p) => p.key === key)
+      .reduce((sum, p) => sum + p.amount, 0)),
+    held: (transactionId) => round2(entries
+      .filter((e) => e.referenceType === 'transaction' && e.referenceId === transactionId)
+      .flatMap((e) => e.postings).filter((p) => p.key === 'system:escrow')
+      .reduce((sum, p) => sum + p.amount, 0)),
+    fund(key, amount, transactionId) {
+      if (amount !== 0) {
+        post(transactionId ?? null, transactionId ? 'transaction' : null, [
+          { key: 'system:external_funds', amount: -amount },
+          { key, amount },
+        ]);
+      }
+      if (key.startsWith('user_wallet:')) wallets[key.slice(12)] = round2((wallets[key.slice(12)] ?? 0) + amount);
+      if (key.startsWith('user_credits:')) credits[key.slice(13)] = round2((credits[key.slice(13)] ?? 0) + amount);
+    },
+  };
+
+  for (const [userId, amount] of Object.entries(opening.wallets ?? {})) ledger.fund(`user_wallet:${userId}`, amount);
+  for (const [userId, amount] of Object.entries(opening.credits ?? {})) ledger.fund(`user_credits:${userId}`, amount);
+  for (const [txnId, amount] of Object.entries(opening.escrow ?? {})) ledger.fund('system:escrow', amount, txnId);
+
+  db
+    .on('FROM ledger_accounts WHERE account_key', ([key]) => ({ id: key }))
+    .on('INSERT INTO ledger_accounts', ([key]) => ({ id: key }))
+    .on('INSERT INTO ledger_entries', ([, referenceId, referenceType]) => ({ id: post(referenceId, referenceType, []).id }))
+    .on('INSERT INTO ledger_postings', ([entryId, key, amount]) => {
+      entries.find((e) => e.id === entryId)?.postings.push({ key: String(key), amount: Number(amount) });
+    })
+    .on('FROM users WHERE id = ANY', ([ids]) => (ids as string[]).map((id) => ({ id })))
+    .on('SELECT wallet_balance FROM users', ([id]) => ({ wallet_balance: String(wallets[String(id)] ?? 0) }))
+    .on('SET wallet_balance = wallet_balance +', ([amount, id]) => {
+      wallets[String(id)] = round2((wallets[String(id)] ?? 0) + Number(amount));
+      return { wallet_balance: String(wallets[String(id)]) };
+    })
+    .on('SELECT referral_credits FROM users', ([id]) => ({ referral_credits: String(credits[String(id)] ?? 0) }))
+    .on('SET referral_credits = COALESCE(referral_credits, 0) +', ([amount, id]) => {
+      credits[String(id)] = round2((credits[String(id)] ?? 0) + Number(amount));
+      return { referral_credits: String(credits[String(id)]) };
+    })
+    .on('AS held', ([transactionId]) => ({ held: String(ledger.held(String(transactionId))) }));
+
+  return ledger;
+}
+
+// ─── Transactions ────────────────────────────────────────
+
+export interface StatusChange {
+  transaction_id: unknown;
+  from_status: unknown;
+  to_status: unknown;
+  actor_id: unknown;
+  reason: unknown;
+}
+
+/** A transaction row as pg returns it, for the fields a test doesn't care about */
+export function transactionRow(overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    id: 't1',
+    offer_id: null,
+    listing_id: 'l1',
+    buyer_id: 'buyer',
+    seller_id: 'seller',
+    agreed_price: 1000,
+    platform_fee: 40,
+    seller_receives: 960,
+    fee_breakdown: null,
+    promo_code_id: null,
+    promo_discount: 0,
+    credits_applied: 0,
+    swap_id: null,
+    status: 'awaiting_payment',
+    payment_method: null,
+    payment_status: 'pending',
+    escrow_hold_until: null,
+    delivery_method: 'meetup',
+    shipping_address: null,
+    shipping_fee: 0,
+    courier: null,
+    courier_shipment_id: null,
+    tracking_number: null,
+    tracking_url: null,
+    handed_over_at: null,
+    delivered_at: null,
+    received_at: null,
+    buyer_confirmation: false,
+    seller_confirmation: false,
+    dispute_status: 'none',
+    cancel_requested_by: null,
+    cancel_requested_at: null,
+    cancel_reason: null,
+    cancelled_by: null,
+    cancelled_at: null,
+    completed_at: null,
+    created_at: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+/**
+ * Serves the given rows to the transaction lookups and applies
+ * transitionTransaction's status updates to them, recording each change.
+ */
+export function fakeTransactions(db: FakeDb, rows: Transaction[]): StatusChange[] {
+  const history: StatusChange[] = [];
+  const byId = (id: unknown) => rows.find((t) => t.id === id);
+
+  db
+    .on('FROM transactions WHERE id = $1', ([id]) => {
+      const row = byId(id);
+      return row ? { ...row } : null;
+    })
+    .on('status = $2::varchar', ([id, status]) => {
+      const row = byId(id);
+      if (!row) return null;
+      row.status = status as TransactionStatus;
+      return { ...row };
+    })
+    .on('INSERT INTO transaction_status_history', ([transactionId, fromStatus, toStatus, actorId, reason]) => {
+      history.push({ transaction_id: transactionId, from_status: fromStatus, to_status: toStatus, actor_id: actorId, reason });
+    });
+
+  return history;
+}
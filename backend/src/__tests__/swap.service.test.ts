@@ -0,0 +1,80 @@
+import { acceptSwapOffer, confirmSwapReceipt } from '../application/swap.service';
+import type { DbClient } from '../infrastructure/database/pool';
+import type { Transaction } from '../domain/entities';
+import { fakeDb, fakeLedger, fakeTransactions, FakeDb, transactionRow } from './support/fakeDb';
+
+jest.mock('../infrastructure/logging/logger', () => ({ logger: { warn: jest.fn() } }));
+
+let mockDb: FakeDb;
+jest.mock('../infrastructure/database/pool', () => ({
+  query: jest.fn(),
+  queryOne: jest.fn(),
+  withTransaction: (fn: (client: DbClient) => Promise<unknown>) => fn(mockDb),
+}));
+
+const swapOffer = {
+  id: 'o1', listing_id: 'phone', exchange_listing_id: 'laptop', buyer_id: 'ali', seller_id: 'mona',
+  status: 'pending', is_exchange_proposal: true, cash_topup: '-500',
+};
+
+function acceptDb(listings: { id: string; seller_id: string; status: string }[]) {
+  mockDb = fakeDb()
+    .on('FROM listings WHERE id = ANY', () => listings)
+    .on('FROM offers o', () => swapOffer)
+    .on('FROM offers WHERE', () => swapOffer)
+    .on('INSERT INTO swaps', () => ({ id: 'swap-1' }))
+    .on('SELECT category_id, seller_id FROM listings', () => ({ category_id: null, seller_id: 'x' }))
+    .on('INSERT INTO transactions', (p) => ({ listing_id: p[1], buyer_id: p[2], agreed_price: p[4], payment_status: p[9] }));
+}
+
+function confirmDb(pair: Transaction[]) {
+  mockDb = fakeDb();
+  fakeLedger(mockDb);
+  mockDb.on('WHERE swap_id =', () => pair);
+  fakeTransactions(mockDb, pair);
+  mockDb
+    .on('UPDATE transactions', ([id]) => ({ id }))
+    .on('UPDATE listings', () => ({ user_edited_title: 'item' }));
+}
+
+const txn = (id: string, buyer: string, overrides: Partial<Transaction> = {}) => transactionRow({
+  id, swap_id: 'swap-1', listing_id: `${id}-listing`, buyer_id: buyer, payment_status: 'held', status: 'paid',
+  agreed_price: 0, platform_fee: 0, seller_receives: 0, ...overrides,
+});
+
+describe('Swap Service', () => {
+  test('accepting reserves both listings and puts the top-up on the paying side', async () => {
+    acceptDb([
+      { id: 'laptop', seller_id: 'ali', status: 'active' },
+      { id: 'phone', seller_id: 'mona', status: 'active' },
+    ]);
+    const { transactions } = await acceptSwapOffer('o1', 'mona');
+
+    expect(transactions).toEqual([
+      { listing_id: 'phone', buyer_id: 'ali', agreed_price: 0, payment_status: 'held' },
+      { listing_id: 'laptop', buyer_id: 'mona', agreed_price: 500, payment_status: 'pending' },
+    ]);
+    const [reserved] = mockDb.ran("SET status = 'reserved'");
+    expect(reserved.params).toEqual([['phone', 'laptop']]);
+  });
+
+  test('a swap for a listing the buyer no longer owns is refused', async () => {
+    acceptDb([
+      { id: 'laptop', seller_id: 'someone-else', status: 'active' },
+      { id: 'phone', seller_id: 'mona', status: 'active' },
+    ]);
+    await expect(acceptSwapOffer('o1', 'mona')).rejects.toThrow('no longer available');
+  });
+
+  test('the swap completes only once both parties confirm receipt', async () => {
+    confirmDb([txn('t1', 'ali'), txn('t2', 'mona')]);
+    await expect(confirmSwapReceipt('t1', 'ali')).resolves.toMatchObject({ completed: false });
+    expect(mockDb.ran("SET status = 'sold'")).toHaveLength(0);
+
+    confirmDb([txn('t1', 'ali', { buyer_confirmation: true }), txn('t2', 'mona')]);
+    await expect(confirmSwapReceipt('t2', 'mona')).resolves.toMatchObject({ completed: true });
+    expect(mockDb.ran("SET status = 'sold'").map((c) => c.params)).toEqual([
+      ['t2-listing'], ['t1-listing'],
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import { canTransitionTransaction, markHandedOver } from '../application/transaction.service';
+import { settleRelease } from '../application/escrow.service';
+import type { DbClient } from '../infrastructure/database/pool';
+import type { Transaction } from '../domain/entities';
+import { fakeDb, fakeLedger, fakeTransactions, FakeDb, transactionRow } from './support/fakeDb';
+
+jest.mock('../infrastructure/logging/logger', () => ({ logger: { warn: jest.fn() } }));
+
+let mockDb: FakeDb;
+jest.mock('../infrastructure/database/pool', () => ({
+  query: jest.fn(),
+  queryOne: jest.fn(),
+  withTransaction: (fn: (client: DbClient) => Promise<unknown>) => fn(mockDb),
+}));
+
+// One wallet-paid transaction with its price held in escrow; each transition is logged
+function fakeTransaction(overrides: Partial<Transaction> = {}) {
+  const txn = transactionRow({ status: 'paid', payment_status: 'held', payment_method: 'wallet', ...overrides });
+  mockDb = fakeDb();
+  const ledger = fakeLedger(mockDb, { escrow: { t1: 1000 } });
+  const history = fakeTransactions(mockDb, [txn]);
+  mockDb
+    .on('UPDATE transactions', () => ({ ...txn }))
+    .on('UPDATE listings', () => ({ user_edited_title: 'Bike' }));
+  return { txn, history, ledger };
+}
+
+describe('Transaction lifecycle', () => {
+  test('deals move forward only, and final states have no way out', () => {
+    expect(canTransitionTransaction('awaiting_payment', 'paid')).toBe(true);
+    expect(canTransitionTransaction('paid', 'shipped')).toBe(true);
+    expect(canTransitionTransaction('handed_over', 'received')).toBe(true);
+    expect(canTransitionTransaction('awaiting_payment', 'handed_over')).toBe(false);
+    expect(canTransitionTransaction('received', 'handed_over')).toBe(false);
+    expect(canTransitionTransaction('completed', 'refunded')).toBe(false);
+    expect(canTransitionTransaction('cancelled', 'paid')).toBe(false);
+  });
+
+  test('handover starts the escrow hold and is recorded against the seller', async () => {
+    const { txn, history } = fakeTransaction();
+    await markHandedOver('t1', 'seller', { shipped: true, trackingNumber: 'BOSTA-123' });
+
+    expect(txn.status).toBe('shipped');
+    expect(history).toEqual([
+      { transaction_id: 't1', from_status: 'paid', to_status: 'shipped', actor_id: 'seller', reason: null },
+    ]);
+    const [handover] = mockDb.ran('seller_confirmation = TRUE');
+    expect(handover.text).toContain('escrow_hold_until');
+    expect(handover.params).toEqual(['t1', 'BOSTA-123']);
+  });
+
+  test('only the seller can hand over, and only once the buyer has paid', async () => {
+    fakeTransaction();
+    await expect(markHandedOver('t1', 'buyer', { shipped: false })).rejects.toMatchObject({ statusCode: 403 });
+
+    fakeTransaction({ status: 'awaiting_payment', payment_status: 'pending' });
+    await expect(markHandedOver('t1', 'seller', { shipped: false })).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  test('a buyer confirmation records receipt before completing the deal', async () => {
+    const { txn, history, ledger } = fakeTransaction({ status: 'handed_over' });
+    await settleRelease(mockDb, 't1', { actorId: 'buyer' });
+
+    expect(txn.status).toBe('completed');
+    expect(history.map((h) => [h.from_status, h.to_status, h.actor_id])).toEqual([
+      ['handed_over', 'received', 'buyer'],
+      ['received', 'completed', 'buyer'],
+    ]);
+    expect(ledger.held('t1')).toBe(0);
+    expect(ledger.wallets.seller).toBe(960);
+    expect(ledger.balance('system:platform_fees')).toBe(40);
+  });
+
+  test('the auto-release completes a handed-over deal without an actor', async () => {
+    const { history } = fakeTransaction({ status: 'handed_over' });
+    await settleRelease(mockDb, 't1');
+
+    expect(history).toEqual([
+      { transaction_id: 't1', from_status: 'handed_over', to_status: 'completed', actor_id: null, reason: 'escrow_hold_ended' },
+    ]);
+  });
+});
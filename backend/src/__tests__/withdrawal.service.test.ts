@@ -0,0 +1,162 @@
+import {
+  approveWithdrawal, buildPayoutCsv, createPayoutBatch, markPayoutBatchPaid, rejectWithdrawal, WithdrawalRow,
+} from '../application/withdrawal.service';
+import type { DbClient } from '../infrastructure/database/pool';
+import { fakeDb, fakeLedger, FakeDb } from './support/fakeDb';
+
+jest.mock('../infrastructure/logging/logger', () => ({ logger: { warn: jest.fn() } }));
+jest.mock('../infrastructure/notifications/push', () => ({ notifyWithdrawalStatus: jest.fn(async () => undefined) }));
+
+let mockDb: FakeDb;
+jest.mock('../infrastructure/database/pool', () => ({
+  query: jest.fn(),
+  queryOne: jest.fn(),
+  withTransaction: (fn: (client: DbClient) => Promise<unknown>) => fn(mockDb),
+}));
+
+function withdrawal(id: string, amount: string, details: Record<string, string>): WithdrawalRow {
+  return {
+    id,
+    user_id: 'u1',
+    amount,
+    method: 'bank_transfer',
+    account_details: details,
+    status: 'processing',
+    admin_notes: null,
+    batch_id: 'b1',
+    provider_reference: null,
+    created_at: new Date(),
+  };
+}
+
+describe('Withdrawal Service', () => {
+  test('bank transfer CSV carries IBAN and bank details', () => {
+    const csv = buildPayoutCsv('bank_transfer', [
+      withdrawal('w1', '1500', { account_name: 'Omar Hassan', iban: 'EG380019000500000000263180002', bank_name: 'CIB' }),
+    ]);
+    expect(csv.split('\r\n')).toEqual([
+      'withdrawal_id,account_name,iban,bank_name,account_number,amount,currency',
+      'w1,Omar Hassan,EG380019000500000000263180002,CIB,,1500.00,EGP',
+      '',
+    ]);
+  });
+
+  test('wallet CSV uses the wallet number and escapes free-text fields', () => {
+    const csv = buildPayoutCsv('vodafone_cash', [
+      withdrawal('w2', '250.5', { account_name: 'Hassan, "Hoss"', phone_number: '01012345678' }),
+    ]);
+    expect(csv.split('\r\n')[1]).toBe('w2,"Hassan, ""Hoss""",01012345678,250.50,EGP');
+  });
+});
+
+// Withdrawals already requested, so their amounts sit in payouts_in_flight; `banned` users have payouts frozen
+function fakePayouts(rows: Partial<WithdrawalRow>[], banned: string[] = []) {
+  const withdrawals = rows.map((r, i) => ({
+    ...withdrawal(`w${i + 1}`, '500', {}), status: 'pending', batch_id: null, ...r,
+  } as WithdrawalRow));
+  const batch = { id: 'b1', status: 'exported' };
+  const history: Record<string, unknown> = {};
+
+  mockDb = fakeDb();
+  const ledger = fakeLedger(mockDb, { wallets: { u1: 0, u2: 0 } });
+  for (const w of withdrawals) ledger.fund('system:payouts_in_flight', Number(w.amount));
+
+  const update = (id: unknown, changes: Partial<WithdrawalRow>) => {
+    const w = withdrawals.find((row) => row.id === id);
+    return w ? { ...Object.assign(w, changes) } : null;
+  };
+  mockDb
+    .on('FROM withdrawal_requests WHERE id = $1', ([id]) => withdrawals.find((w) => w.id === id) ?? null)
+    .on('SELECT is_banned', ([id]) => ({ is_banned: banned.includes(String(id)), banned_until: null, ban_reason: 'fraud' }))
+    .on("SET status = 'approved'", ([id]) => update(id, { status: 'approved' }))
+    .on("SET status = 'rejected'", ([id, notes]) => update(id, { status: 'rejected', admin_notes: String(notes) }))
+    .on("SET status = 'failed'", ([id, notes]) => update(id, { status: 'failed', admin_notes: String(notes) }))
+    .on("SET status = 'completed'", ([id, reference]) => update(id, { status: 'completed', provider_reference: String(reference) }))
+    .on("SET status = 'processing'", ([batchId, ids]) =>
+      (ids as string[]).map((id) => update(id, { status: 'processing', batch_id: String(batchId) })))
+    .on('FROM withdrawal_requests w', ([method]) => withdrawals.filter((w) =>
+      w.status === 'approved' && w.method === method && !w.batch_id && !banned.includes(w.user_id)))
+    .on('INSERT INTO payout_batches', () => batch)
+    .on('FROM payout_batches WHERE id = $1', () => batch)
+    .on('FROM withdrawal_requests WHERE batch_id = $1', ([batchId]) =>
+      withdrawals.filter((w) => w.batch_id === batchId && w.status === 'processing'))
+    .on("UPDATE payout_batches SET status = 'paid'", () => Object.assign(batch, { status: 'paid' }))
+    .on('UPDATE wallet_transactions', ([status, id]) => {
+      history[String(id)] = status;
+    });
+
+  return { withdrawals, batch, ledger, history };
+}
+
+describe('Withdrawal review and payout', () => {
+  test('rejection returns the amount to the wallet', async () => {
+    const { withdrawals, ledger, history } = fakePayouts([{ amount: '750' }]);
+
+    await expect(rejectWithdrawal('w1', 'Account name does not match')).resolves.toMatchObject({ status: 'rejected' });
+    await expect(rejectWithdrawal('w1', 'again')).rejects.toMatchObject({ statusCode: 409 });
+
+    expect(ledger.wallets.u1).toBe(750);
+    expect(ledger.balance('system:payouts_in_flight')).toBe(0);
+    expect(withdrawals[0].admin_notes).toBe('Account name does not match');
+    expect(history).toEqual({ w1: 'cancelled' });
+  });
+
+  test("a banned user's withdrawals are neither approved nor batched", async () => {
+    const { withdrawals } = fakePayouts([{ status: 'pending' }, { status: 'approved', user_id: 'u2' }], ['u2']);
+    await expect(approveWithdrawal('w1')).resolves.toMatchObject({ status: 'approved' });
+
+    const { items } = await createPayoutBatch('bank_transfer');
+    expect(items.map((w) => w.id)).toEqual(['w1']);
+    expect(withdrawals[1]).toMatchObject({ status: 'approved', batch_id: null });
+
+    fakePayouts([{ status: 'pending', user_id: 'u2' }], ['u2']);
+    await expect(approveWithdrawal('w1')).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  test('a paid batch moves completed payouts out and returns failed ones to the wallet', async () => {
+    const { withdrawals, batch, ledger, history } = fakePayouts([
+      { status: 'processing', batch_id: 'b1', amount: '500' },
+      { status: 'processing', batch_id: 'b1', amount: '300', user_id: 'u2' },
+    ]);
+    const externalBefore = ledger.balance('system:external_funds');
+
+    const { withdrawals: settled } = await markPayoutBatchPaid('b1', [
+      { withdrawal_id: 'w1', provider_reference: 'CIB-123' },
+      { withdrawal_id: 'w2', failure_reason: 'IBAN closed' },
+    ]);
+
+    expect(settled.map((w) => w.status)).toEqual(['completed', 'failed']);
+    expect(withdrawals[0].provider_reference).toBe('CIB-123');
+    expect(ledger.wallets).toEqual({ u1: 0, u2: 300 });
+    expect(ledger.balance('system:payouts_in_flight')).toBe(0);
+    expect(ledger.balance('system:external_funds') - externalBefore).toBe(500);
+    expect(batch.status).toBe('paid');
+    expect(history).toEqual({ w1: 'completed', w2: 'failed' });
+  });
+
+  test('a batch is only marked paid with a result and a reference for each of its withdrawals', async () => {
+    const inBatch = [
+      { status: 'processing' as const, batch_id: 'b1' },
+      { status: 'processing' as const, batch_id: 'b1' },
+    ];
+
+    fakePayouts(inBatch);
+    await expect(markPayoutBatchPaid('b1', [{ withdrawal_id: 'w1', provider_reference: 'R1' }]))
+      .rejects.toMatchObject({ statusCode: 400, message: 'Missing result for 1 withdrawal(s) in this batch' });
+
+    fakePayouts(inBatch);
+    await expect(markPayoutBatchPaid('b1', [
+      { withdrawal_id: 'w1', provider_reference: 'R1' },
+      { withdrawal_id: 'w2', provider_reference: 'R2' },
+      { withdrawal_id: 'w9', provider_reference: 'R9' },
+    ])).rejects.toMatchObject({ statusCode: 400, message: 'Result for a withdrawal outside this batch' });
+
+    const { ledger } = fakePayouts(inBatch);
+    await expect(markPayoutBatchPaid('b1', [
+      { withdrawal_id: 'w1', provider_reference: 'R1' },
+      { withdrawal_id: 'w2' },
+    ])).rejects.toMatchObject({ statusCode: 400, message: 'Provider reference required for withdrawal w2' });
+    expect(mockDb.ran("UPDATE payout_batches SET status = 'paid'")).toEqual([]);
+    expect(ledger.wallets).toEqual({ u1: 0, u2: 0 });
+  });
+});
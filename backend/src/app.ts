@@ -26,6 +26,8 @@ import notificationRoutes from './interfaces/routes/notification.routes';
 import referralRoutes from './interfaces/routes/referral.routes';
 import promoRoutes from './interfaces/routes/promo.routes';
 import walletRoutes from './interfaces/routes/wallet.routes';
+import subscriptionRoutes from './interfaces/routes/subscription.routes';
+import shippingRoutes from './interfaces/routes/shipping.routes';
 import adminRoutes from './interfaces/routes/admin.routes';
 
 const app = express();
@@ -91,6 +93,8 @@ app.use('/api/v1/notifications', notificationRoutes);
 app.use('/api/v1/referral', referralRoutes);
 app.use('/api/v1/promo', promoRoutes);
 app.use('/api/v1/wallet', walletRoutes);
+app.use('/api/v1/subscriptions', subscriptionRoutes);
+app.use('/api/v1/shipping', shippingRoutes);
 app.use('/api/v1/admin', adminRoutes);
 
 // ─── 404 Handler ─────────────────────────────────────────
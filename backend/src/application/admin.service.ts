@@ -0,0 +1,203 @@
+/**
+ * Admin accounts. Staff are ordinary users with an admin_role: they sign in
+ * through the normal phone OTP flow, then step up with a code from their
+ * authenticator app to get a short-lived admin token. What each role may do
+ * is ROLE_PERMISSIONS, checked per admin endpoint, and every admin action is
+ * written to admin_audit_log, which the database keeps append-only.
+ */
+
+import { config } from '../config';
+import { query, queryOne } from '../infrastructure/database/pool';
+import { generateTotpSecret, totpUri, verifyTotp } from '../infrastructure/security/totp';
+import { AppError, generateAdminAccessToken } from './auth.service';
+import type { AdminAuditEntry, AdminRole, User } from '../domain/entities';
+
+export const ADMIN_ROLES = ['super_admin', 'moderator', 'finance', 'support'] as const satisfies readonly AdminRole[];
+
+export const ADMIN_PERMISSIONS = [
+  'stats:read',
+  'listings:read', 'listings:moderate',
+  'users:read', 'users:ban',
+  'disputes:read', 'disputes:manage', 'disputes:resolve',
+  'ledger:read',
+  'withdrawals:read', 'withdrawals:manage',
+  'payouts:read', 'payouts:manage',
+  'promos:manage',
+  'admins:manage', 'audit:read',
+] as const;
+export type AdminPermission = typeof ADMIN_PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly AdminPermission[]> = {
+  super_admin: ADMIN_PERMISSIONS,
+  moderator: ['stats:read', 'listings:read', 'listings:moderate', 'users:read', 'users:ban', 'disputes:read'],
+  finance: [
+    'stats:read', 'users:read', 'disputes:read', 'ledger:read',
+    'withdrawals:read', 'withdrawals:manage', 'payouts:read', 'payouts:manage', 'promos:manage',
+  ],
+  support: ['stats:read', 'listings:read', 'users:read', 'disputes:read', 'disputes:manage', 'disputes:resolve'],
+};
+
+export function hasPermission(role: AdminRole, permission: AdminPermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export interface AuditInput {
+  adminId: string;
+  role: AdminRole | null;
+  action: string;
+  permission?: string | null;
+  targetId?: string | null;
+  details?: Record<string, unknown> | null;
+  statusCode: number;
+  ip?: string | null;
+}
+
+export interface AuditFilters {
+  adminId?: string;
+  /** Matches the start of the action, e.g. "PATCH /disputes" */
+  action?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+  /** Entries strictly older than this, for paging back */
+  before?: Date;
+  limit?: number;
+}
+
+type AdminUser = Pick<User, 'id' | 'phone' | 'full_name' | 'is_phone_verified' | 'admin_role'> & {
+  admin_totp_secret: string | null;
+  admin_totp_enabled_at: Date | null;
+  admin_totp_last_step: string | null;
+};
+
+export type StaffMember = Pick<User, 'id' | 'full_name' | 'phone' | 'email' | 'created_at'> & {
+  admin_role: AdminRole;
+  two_factor_enabled: boolean;
+};
+
+type RoleHolder = Pick<User, 'id' | 'full_name' | 'phone' | 'admin_role'>;
+
+async function loadAdmin(userId: string): Promise<AdminUser & { admin_role: AdminRole }> {
+  const user = await queryOne<AdminUser>(
+    `SELECT id, phone, full_name, is_phone_verified, admin_role,
+       admin_totp_secret, admin_totp_enabled_at, admin_totp_last_step
+     FROM users WHERE id = $1`,
+    [userId],
+  );
+  if (!user?.admin_role) throw new AppError('Admin access required', 403);
+  return { ...user, admin_role: user.admin_role };
+}
+
+/** The caller's current role, or null if they aren't staff (any more). */
+export async function getAdminRole(userId: string): Promise<AdminRole | null> {
+  const user = await queryOne<{ admin_role: AdminRole | null }>('SELECT admin_role FROM users WHERE id = $1', [userId]);
+  return user?.admin_role ?? null;
+}
+
+// ─── Two-factor sign-in ──────────────────────────────────
+
+/**
+ * Issues a new authenticator secret for an admin who hasn't finished setting
+ * up two-factor yet. It's confirmed by their first successful code.
+ */
+export async function startTwoFactorEnrollment(userId: string): Promise<{ secret: string; otpauthUrl: string }> {
+  const admin = await loadAdmin(userId);
+  if (admin.admin_totp_enabled_at) throw new AppError('Two-factor authentication is already set up', 409);
+
+  const secret = generateTotpSecret();
+  await query('UPDATE users SET admin_totp_secret = $2, admin_totp_last_step = NULL WHERE id = $1', [userId, secret]);
+  return { secret, otpauthUrl: totpUri(secret, admin.phone, config.admin.totpIssuer) };
+}
+
+/**
+ * Checks an authenticator code and issues an admin token. A code is good for
+ * one sign-in only. The first good code also confirms enrollment.
+ */
+export async function verifyAdminTwoFactor(
+  userId: string,
+  code: string,
+): Promise<{ accessToken: string; role: AdminRole }> {
+  const admin = await loadAdmin(userId);
+  if (!admin.admin_totp_secret) throw new AppError('Set up two-factor authentication first', 400);
+
+  const step = verifyTotp(admin.admin_totp_secret, code);
+  if (step === null || (admin.admin_totp_last_step !== null && step <= Number(admin.admin_totp_last_step))) {
+    throw new AppError('Invalid or expired two-factor code.', 401);
+  }
+  await query(
+    `UPDATE users SET admin_totp_last_step = $2, admin_totp_enabled_at = COALESCE(admin_totp_enabled_at, NOW())
+     WHERE id = $1`,
+    [userId, step],
+  );
+  return { accessToken: generateAdminAccessToken(admin), role: admin.admin_role };
+}
+
+// ─── Staff ───────────────────────────────────────────────
+
+export async function listAdmins(): Promise<StaffMember[]> {
+  return query<StaffMember>(
+    `SELECT id, full_name, phone, email, admin_role, admin_totp_enabled_at IS NOT NULL AS two_factor_enabled, created_at
+     FROM users WHERE admin_role IS NOT NULL ORDER BY created_at`,
+  );
+}
+
+/**
+ * Grants, changes or (with null) revokes a user's admin role. Nobody changes
+ * their own role, so there is always someone left to undo a mistake. A
+ * revoked admin's authenticator secret is cleared; if they come back they
+ * set up two-factor again.
+ */
+export async function setAdminRole(
+  actorId: string,
+  userId: string,
+  role: AdminRole | null,
+): Promise<RoleHolder> {
+  if (actorId === userId) throw new AppError("You can't change your own admin role", 400);
+  const user = await queryOne<RoleHolder>(
+    `UPDATE users SET
+       admin_role = $2,
+       is_admin = $2::varchar IS NOT NULL,
+       admin_totp_secret     = CASE WHEN $2::varchar IS NULL THEN NULL ELSE admin_totp_secret END,
+       admin_totp_enabled_at = CASE WHEN $2::varchar IS NULL THEN NULL ELSE admin_totp_enabled_at END,
+       admin_totp_last_step  = CASE WHEN $2::varchar IS NULL THEN NULL ELSE admin_totp_last_step END
+     WHERE id = $1
+     RETURNING id, full_name, phone, admin_role`,
+    [userId, role],
+  );
+  if (!user) throw new AppError('User not found', 404);
+  return user;
+}
+
+// ─── Audit log ───────────────────────────────────────────
+
+export async function recordAdminAction(input: AuditInput): Promise<void> {
+  await query(
+    `INSERT INTO admin_audit_log (admin_id, admin_role, action, permission, target_id, details, status_code, ip)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+    [
+      input.adminId, input.role, input.action, input.permission ?? null, input.targetId ?? null,
+      input.details ? JSON.stringify(input.details) : null, input.statusCode, input.ip ?? null,
+    ],
+  );
+}
+
+/** Newest first. Page back with `before` set to the oldest created_at seen. */
+export async function queryAuditLog(filters: AuditFilters = {}): Promise<AdminAuditEntry[]> {
+  return query<AdminAuditEntry>(
+    `SELECT a.*, u.full_name AS admin_name
+     FROM admin_audit_log a
+     JOIN users u ON u.id = a.admin_id
+     WHERE ($1::uuid IS NULL OR a.admin_id = $1)
+       AND ($2::text IS NULL OR a.action LIKE $2 || '%')
+       AND ($3::text IS NULL OR a.target_id = $3)
+       AND ($4::timestamp IS NULL OR a.created_at >= $4)
+       AND ($5::timestamp IS NULL OR a.created_at <= $5)
+       AND ($6::timestamp IS NULL OR a.created_at < $6)
+     ORDER BY a.created_at DESC
+     LIMIT $7`,
+    [
+      filters.adminId ?? null, filters.action ?? null, filters.targetId ?? null,
+      filters.from ?? null, filters.to ?? null, filters.before ?? null, Math.min(filters.limit ?? 50, 200),
+    ],
+  );
+}
@@ -136,6 +136,15 @@ function generateAccessToken(user: User): string {
   );
 }
 
+/** Short-lived token for the admin API, issued once an admin has passed the two-factor step */
+export function generateAdminAccessToken(user: Pick<User, 'id' | 'phone' | 'is_phone_verified'>): string {
+  return jwt.sign(
+    { sub: user.id, phone: user.phone, verified: user.is_phone_verified, mfa: true },
+    config.jwt.secret,
+    { expiresIn: `${config.admin.sessionMinutes}m` }
+  );
+}
+
 async function generateRefreshToken(userId: string, deviceFingerprint?: string): Promise<string> {
   const raw = uuidv4();
   const hash = await bcrypt.hash(raw, 10);
@@ -197,7 +206,7 @@ export async function refreshAccessToken(refreshToken: string): Promise<{ access
   return { accessToken, refreshToken: newRefreshToken };
 }
 
-export function verifyAccessToken(token: string): { sub: string; phone: string; verified: boolean } {
+export function verifyAccessToken(token: string): { sub: string; phone: string; verified: boolean; mfa?: boolean } {
   try {
     return jwt.verify(token, config.jwt.secret) as any;
   } catch {
@@ -208,7 +217,8 @@ export function verifyAccessToken(token: string): { sub: string; phone: string;
 // ─── Error class ─────────────────────────────────────────
 
 export class AppError extends Error {
-  constructor(message: string, public statusCode: number = 400) {
+  /** `details` are merged into the error response body, e.g. a machine-readable code */
+  constructor(message: string, public statusCode: number = 400, public details?: Record<string, unknown>) {
     super(message);
     this.name = 'AppError';
   }
@@ -0,0 +1,228 @@
+/**
+ * Bans and suspensions. A ban has no end date; a suspension ends on its own
+ * at banned_until. While either is in force the user can still sign in, but
+ * every authenticated endpoint and the socket refuse them apart from their
+ * ban status and the appeal (see requireAuthAllowBanned).
+ *
+ * Banning revokes the user's refresh tokens, drops their live socket
+ * connections, hides their active listings and freezes payouts from their
+ * wallet. Lifting the ban — by an admin, an upheld appeal or the suspension
+ * running out — puts the listings back on sale.
+ *
+ * users.is_banned / banned_until / ban_reason hold the state the auth checks
+ * read; user_bans keeps the history and ban_appeals the user's appeals.
+ */
+
+import { query, queryOne, withTransaction, DbClient } from '../infrastructure/database/pool';
+import { logger } from '../infrastructure/logging/logger';
+import { disconnectUser } from '../infrastructure/socket/socket.service';
+import { AppError } from './auth.service';
+import type { BanAppeal, UserBan } from '../domain/entities';
+
+export interface ActiveBan {
+  reason: string | null;
+  /** null for a ban, the end of a suspension otherwise */
+  until: Date | null;
+}
+
+export interface BanStatus {
+  ban: UserBan | null;
+  appeal: BanAppeal | null;
+}
+
+/** An appeal in the admin queue, with the ban it is against and who filed it */
+export interface BanAppealQueueItem extends BanAppeal {
+  ban_reason: string;
+  ban_ends_at: Date | null;
+  banned_at: Date;
+  full_name: string | null;
+  phone: string;
+}
+
+/** The ban or suspension in force on the user right now, if any. */
+export async function findActiveBan(client: Pick<DbClient, 'queryOne'>, userId: string): Promise<ActiveBan | null> {
+  const user = await client.queryOne<{ is_banned: boolean; banned_until: Date | null; ban_reason: string | null }>(
+    'SELECT is_banned, banned_until, ban_reason FROM users WHERE id = $1',
+    [userId],
+  );
+  if (!user?.is_banned) return null;
+  if (user.banned_until && new Date(user.banned_until).getTime() <= Date.now()) return null;
+  return { reason: user.ban_reason, until: user.banned_until };
+}
+
+/** What a banned user gets back from everything they can't use; the app shows the appeal screen on it. */
+export function accountBannedError(ban: ActiveBan): AppError {
+  const message = ban.until
+    ? `Your account is suspended until ${new Date(ban.until).toISOString()}.`
+    : 'Your account has been banned.';
+  return new AppError(message, 403, {
+    code: 'account_banned',
+    ban: { reason: ban.reason, until: ban.until, appeal: '/users/me/ban' },
+  });
+}
+
+async function liftCurrentBan(client: DbClient, userId: string, liftedBy: string | null, reason: string): Promise<number> {
+  await client.query(
+    `UPDATE user_bans SET lifted_at = NOW(), lifted_by = $2, lift_reason = $3
+     WHERE user_id = $1 AND lifted_at IS NULL`,
+    [userId, liftedBy, reason],
+  );
+  await client.query(
+    'UPDATE users SET is_banned = FALSE, banned_until = NULL, ban_reason = NULL WHERE id = $1',
+    [userId],
+  );
+  const restored = await client.query<{ id: string }>(
+    `UPDATE listings SET status = 'active' WHERE seller_id = $1 AND status = 'hidden' RETURNING id`,
+    [userId],
+  );
+  return restored.length;
+}
+
+// ─── Admin ───────────────────────────────────────────────
+
+/**
+ * Bans the user, or suspends them until `until`. Banning someone who is
+ * already banned replaces the ban, so it can be extended or shortened.
+ */
+export async function banUser(
+  userId: string,
+  adminId: string,
+  input: { reason: string; until?: Date | null },
+): Promise<{ ban: UserBan; listingsHidden: number }> {
+  if (input.until && input.until.getTime() <= Date.now()) throw new AppError('A suspension must end in the future', 400);
+
+  const result = await withTransaction(async (client) => {
+    const user = await client.queryOne<{ id: string; admin_role: string | null }>(
+      'SELECT id, admin_role FROM users WHERE id = $1 FOR UPDATE',
+      [userId],
+    );
+    if (!user) throw new AppError('User not found', 404);
+    if (user.admin_role) throw new AppError('Revoke their admin role before banning them', 400);
+
+    await client.query(
+      `UPDATE user_bans SET lifted_at = NOW(), lifted_by = $2, lift_reason = 'Replaced by a new ban'
+       WHERE user_id = $1 AND lifted_at IS NULL`,
+      [userId, adminId],
+    );
+    const [ban] = await client.query<UserBan>(
+      `INSERT INTO user_bans (user_id, banned_by, reason, ends_at) VALUES ($1, $2, $3, $4) RETURNING *`,
+      [userId, adminId, input.reason, input.until ?? null],
+    );
+    await client.query(
+      'UPDATE users SET is_banned = TRUE, banned_until = $2, ban_reason = $3 WHERE id = $1',
+      [userId, input.until ?? null, input.reason],
+    );
+    await client.query('UPDATE refresh_tokens SET revoked_at = NOW() WHERE user_id = $1 AND revoked_at IS NULL', [userId]);
+    const hidden = await client.query<{ id: string }>(
+      `UPDATE listings SET status = 'hidden' WHERE seller_id = $1 AND status = 'active' RETURNING id`,
+      [userId],
+    );
+    return { ban, listingsHidden: hidden.length };
+  });
+
+  disconnectUser(userId);
+  return result;
+}
+
+export async function unbanUser(userId: string, adminId: string, reason: string): Promise<{ listingsRestored: number }> {
+  return withTransaction(async (client) => {
+    const user = await client.queryOne<{ is_banned: boolean }>('SELECT is_banned FROM users WHERE id = $1 FOR UPDATE', [userId]);
+    if (!user) throw new AppError('User not found', 404);
+    if (!user.is_banned) throw new AppError('User is not banned', 409);
+    return { listingsRestored: await liftCurrentBan(client, userId, adminId, reason) };
+  });
+}
+
+/** Pending appeals first-come first-served; decided ones newest first. */
+export async function listBanAppeals(status: BanAppeal['status'] = 'pending'): Promise<BanAppealQueueItem[]> {
+  return query<BanAppealQueueItem>(
+    `SELECT a.*, b.reason AS ban_reason, b.ends_at AS ban_ends_at, b.created_at AS banned_at,
+       u.full_name, u.phone
+     FROM ban_appeals a
+     JOIN user_bans b ON b.id = a.ban_id
+     JOIN users u ON u.id = a.user_id
+     WHERE a.status = $1
+     ORDER BY CASE WHEN $1 = 'pending' THEN a.created_at END ASC, a.reviewed_at DESC
+     LIMIT 100`,
+    [status],
+  );
+}
+
+/** Upholding keeps the ban; overturning lifts it. Either way the user sees the decision and notes. */
+export async function reviewBanAppeal(
+  appealId: string,
+  adminId: string,
+  input: { decision: 'upheld' | 'overturned'; notes: string },
+): Promise<BanAppeal> {
+  return withTransaction(async (client) => {
+    const appeal = await client.queryOne<BanAppeal>('SELECT * FROM ban_appeals WHERE id = $1 FOR UPDATE', [appealId]);
+    if (!appeal) throw new AppError('Appeal not found', 404);
+    if (appeal.status !== 'pending') throw new AppError(`This appeal was already ${appeal.status}`, 409);
+
+    const [updated] = await client.query<BanAppeal>(
+      `UPDATE ban_appeals SET status = $2, review_notes = $3, reviewed_by = $4, reviewed_at = NOW()
+       WHERE id = $1 RETURNING *`,
+      [appealId, input.decision, input.notes, adminId],
+    );
+    const ban = await client.queryOne<UserBan>('SELECT * FROM user_bans WHERE id = $1', [appeal.ban_id]);
+    if (input.decision === 'overturned' && ban && !ban.lifted_at) {
+      await liftCurrentBan(client, appeal.user_id, adminId, `Appeal overturned: ${input.notes}`);
+    }
+    return updated;
+  });
+}
+
+// ─── The banned user ─────────────────────────────────────
+
+/** The ban in force (or null) and the user's appeal against it. */
+export async function getBanStatus(userId: string): Promise<BanStatus> {
+  const ban = await queryOne<UserBan>(
+    `SELECT b.* FROM user_bans b
+     JOIN users u ON u.id = b.user_id
+     WHERE b.user_id = $1 AND b.lifted_at IS NULL
+       AND u.is_banned AND (u.banned_until IS NULL OR u.banned_until > NOW())`,
+    [userId],
+  );
+  if (!ban) return { ban: null, appeal: null };
+  const appeal = await queryOne<BanAppeal>('SELECT * FROM ban_appeals WHERE ban_id = $1', [ban.id]);
+  return { ban, appeal };
+}
+
+/** One appeal per ban; an admin reviews it (see reviewBanAppeal). */
+export async function fileBanAppeal(userId: string, message: string): Promise<BanAppeal> {
+  const { ban, appeal } = await getBanStatus(userId);
+  if (!ban) throw new AppError("Your account isn't banned", 400);
+  if (appeal) throw new AppError('You have already appealed this ban', 409);
+  const [created] = await query<BanAppeal>(
+    'INSERT INTO ban_appeals (ban_id, user_id, message) VALUES ($1, $2, $3) RETURNING *',
+    [ban.id, userId, message],
+  );
+  return created;
+}
+
+// ─── Expiry ──────────────────────────────────────────────
+
+/** Cron: suspensions that have run out are lifted and the listings come back. Returns how many. */
+export async function liftExpiredSuspensions(): Promise<number> {
+  const expired = await query<{ id: string }>(
+    'SELECT id FROM users WHERE is_banned AND banned_until IS NOT NULL AND banned_until <= NOW()',
+  );
+  let lifted = 0;
+  for (const { id } of expired) {
+    try {
+      await withTransaction(async (client) => {
+        const user = await client.queryOne<{ banned_until: Date | null }>(
+          'SELECT banned_until FROM users WHERE id = $1 AND is_banned FOR UPDATE',
+          [id],
+        );
+        // Lifted or turned into a longer ban since we looked
+        if (!user?.banned_until || new Date(user.banned_until).getTime() > Date.now()) return;
+        await liftCurrentBan(client, id, null, 'Suspension ended');
+        lifted++;
+      });
+    } catch (err) {
+      logger.error({ userId: id, err }, '[CRON] Failed to lift expired suspension');
+    }
+  }
+  return lifted;
+}
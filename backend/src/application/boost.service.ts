@@ -0,0 +1,179 @@
+/**
+ * Paid listing boosts.
+ *
+ * A boost purchase is paid from the seller's wallet, their referral credits,
+ * a Premium plan's free boost allowance or by card (Paymob). The listing is only featured once the purchase is
+ * paid; a failed card payment leaves it as it was. Boost revenue goes to
+ * platform_fees, and every cash payment leaves a receipt row in the seller's
+ * wallet history.
+ */
+
+import { query, withTransaction, DbClient } from '../infrastructure/database/pool';
+import { postJournalEntry, systemAccount, userWallet } from './ledger.service';
+import { spendCredits } from './credit.service';
+import { useFreeBoost } from './subscription.service';
+import { AppError } from './auth.service';
+
+export type BoostTier = 'basic' | 'standard' | 'premium';
+export type BoostPaymentMethod = 'wallet' | 'credits' | 'paymob' | 'subscription';
+
+export const BOOST_TIERS: Record<BoostTier, { days: number; price: number; label: string }> = {
+  basic:    { days: 1,  price: 15,  label: '1 day' },
+  standard: { days: 7,  price: 49,  label: '7 days' },
+  premium:  { days: 30, price: 149, label: '30 days' },
+};
+
+export interface BoostPurchase {
+  id: string;
+  listing_id: string;
+  seller_id: string;
+  tier: BoostTier;
+  days: number;
+  price: string;
+  payment_method: BoostPaymentMethod;
+  status: 'pending' | 'paid' | 'failed';
+  featured_until: Date | null;
+  paid_at: Date | null;
+  created_at: Date;
+}
+
+const receiptDescription = (p: BoostPurchase, title: string) =>
+  `Boost receipt — ${BOOST_TIERS[p.tier].label}: ${title}`;
+
+/**
+ * Features the listing for the purchased period. Boosts stack: a listing that
+ * is still featured is extended from its current end date.
+ */
+async function activateBoost(client: DbClient, p: BoostPurchase): Promise<BoostPurchase> {
+  const [listing] = await client.query<{ featured_until: Date }>(
+    `UPDATE listings SET
+       is_featured = TRUE,
+       featured_until = GREATEST(COALESCE(featured_until, NOW()), NOW()) + make_interval(days => $2),
+       boost_tier = $3,
+       updated_at = NOW()
+     WHERE id = $1 RETURNING featured_until`,
+    [p.listing_id, p.days, p.tier],
+  );
+  const [paid] = await client.query<BoostPurchase>(
+    `UPDATE boost_purchases SET status = 'paid', paid_at = NOW(), featured_until = $2
+     WHERE id = $1 RETURNING *`,
+    [p.id, listing.featured_until],
+  );
+  return paid;
+}
+
+/**
+ * Creates the purchase and, for wallet and credit payments, charges the
+ * seller and features the listing in the same DB transaction. Card purchases
+ * are returned pending — the caller starts the Paymob payment.
+ */
+export async function purchaseBoost(
+  sellerId: string,
+  listingId: string,
+  tier: BoostTier,
+  method: BoostPaymentMethod,
+): Promise<BoostPurchase> {
+  const t = BOOST_TIERS[tier];
+  return withTransaction(async (client) => {
+    const listing = await client.queryOne<{ seller_id: string; status: string; user_edited_title: string }>(
+      'SELECT seller_id, status, user_edited_title FROM listings WHERE id = $1 FOR UPDATE',
+      [listingId],
+    );
+    if (!listing) throw new AppError('Listing not found.', 404);
+    if (listing.seller_id !== sellerId) throw new AppError('Forbidden.', 403);
+    if (listing.status !== 'active') throw new AppError('Only active listings can be boosted.', 400);
+
+    if (method === 'subscription' && !(await useFreeBoost(client, sellerId, tier))) {
+      throw new AppError('No free boosts left for this tier on your plan.', 400);
+    }
+
+    const [purchase] = await client.query<BoostPurchase>(
+      `INSERT INTO boost_purchases (listing_id, seller_id, tier, days, price, payment_method)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+      [listingId, sellerId, tier, t.days, method === 'subscription' ? 0 : t.price, method],
+    );
+    if (method === 'paymob') return purchase;
+
+    if (method === 'wallet') {
+      await postJournalEntry(client, {
+        description: receiptDescription(purchase, listing.user_edited_title),
+        referenceId: purchase.id,
+        referenceType: 'boost',
+        lines: [
+          { account: userWallet(sellerId), amount: -t.price, historyType: 'fee' },
+          { account: systemAccount('platform_fees'), amount: t.price },
+        ],
+      });
+    } else if (method === 'credits') {
+      await spendCredits(client, sellerId, t.price, {
+        to: systemAccount('promotions'),
+        description: receiptDescription(purchase, listing.user_edited_title),
+        referenceId: purchase.id,
+        referenceType: 'boost',
+      });
+    }
+    return activateBoost(client, purchase);
+  });
+}
+
+/**
+ * Card payment confirmed: the captured amount is recorded as a wallet top-up
+ * immediately spent on the boost, so the receipt shows in wallet history.
+ * Returns false when the purchase is no longer pending.
+ */
+export async function settleBoostPayment(
+  client: DbClient,
+  purchaseId: string,
+  amount: number,
+): Promise<boolean> {
+  const p = await client.queryOne<BoostPurchase & { user_edited_title: string }>(
+    `SELECT b.*, l.user_edited_title FROM boost_purchases b
+     JOIN listings l ON l.id = b.listing_id
+     WHERE b.id = $1 FOR UPDATE OF b`,
+    [purchaseId],
+  );
+  if (!p || p.status !== 'pending') return false;
+
+  await postJournalEntry(client, {
+    description: receiptDescription(p, p.user_edited_title),
+    referenceId: p.id,
+    referenceType: 'boost',
+    lines: [
+      { account: systemAccount('external_funds'), amount: -amount },
+      { account: userWallet(p.seller_id), amount, historyType: 'credit' },
+      { account: userWallet(p.seller_id), amount: -amount, historyType: 'fee' },
+      { account: systemAccount('platform_fees'), amount },
+    ],
+  });
+  await activateBoost(client, p);
+  return true;
+}
+
+export async function failBoostPurchase(client: DbClient, purchaseId: string): Promise<void> {
+  await client.query(
+    `UPDATE boost_purchases SET status = 'failed' WHERE id = $1 AND status = 'pending'`,
+    [purchaseId],
+  );
+}
+
+// ─── Expiry & receipts ───────────────────────────────────
+
+/** Un-features listings whose boost has run out. Returns how many were cleared. */
+export async function clearExpiredBoosts(): Promise<number> {
+  const rows = await query<{ id: string }>(
+    `UPDATE listings SET is_featured = FALSE, boost_tier = NULL
+     WHERE is_featured = TRUE AND featured_until IS NOT NULL AND featured_until < NOW()
+     RETURNING id`,
+  );
+  return rows.length;
+}
+
+export async function listBoostPurchases(sellerId: string, limit = 30, offset = 0) {
+  return query(
+    `SELECT b.*, l.user_edited_title AS listing_title
+     FROM boost_purchases b JOIN listings l ON l.id = b.listing_id
+     WHERE b.seller_id = $1
+     ORDER BY b.created_at DESC LIMIT $2 OFFSET $3`,
+    [sellerId, limit, offset],
+  );
+}
@@ -0,0 +1,252 @@
+/**
+ * Cancelling a deal. Before payment either party can walk away. Once the
+ * buyer has paid, the deal only unwinds by mutual consent — one side asks,
+ * the other agrees — or by the seller refunding the buyer. After handover
+ * nothing can be cancelled; problems go through a dispute.
+ *
+ * Cancelling puts the listing back on sale, returns anything in escrow
+ * (credits included) and gives back a promo code the buyer used. Walking
+ * away alone, or letting the payment window lapse, costs the party
+ * responsible behavioral_score; a mutual abort costs nobody anything.
+ * A swap is one deal: both of its transactions are cancelled together.
+ */
+
+import { config } from '../config';
+import { query, withTransaction, DbClient } from '../infrastructure/database/pool';
+import { logger } from '../infrastructure/logging/logger';
+import { notifyTransactionCancellation } from '../infrastructure/notifications/push';
+import { AppError } from './auth.service';
+import { refundEscrow, settleRefund } from './escrow.service';
+import { OPEN_INTENT } from './payment.service';
+import { releasePromoCode } from './promo.service';
+import { transitionTransaction } from './transaction.service';
+import type { Transaction } from '../domain/entities';
+
+export type CancellationReason =
+  | 'buyer_cancelled' | 'seller_cancelled' | 'seller_refunded' | 'mutual' | 'payment_timeout';
+
+export interface CancellationResult {
+  /** The transaction asked about, as it is now */
+  transaction: Transaction;
+  /** false when the call only asked the other party to agree */
+  cancelled: boolean;
+  reason: CancellationReason | null;
+  counterpartyId: string;
+  listingTitle: string;
+}
+
+interface CloseDeal {
+  actorId: string | null;
+  /** Who loses behavioral_score; null for a mutual abort */
+  blame: string | null;
+  reason: CancellationReason;
+  note?: string;
+}
+
+/** A transaction and, for a swap, its other leg — locked in id order. */
+async function lockDeal(client: DbClient, transactionId: string): Promise<Transaction[]> {
+  return client.query<Transaction>(
+    `SELECT * FROM transactions
+     WHERE id = $1
+        OR swap_id = (SELECT swap_id FROM transactions WHERE id = $1)
+     ORDER BY id FOR UPDATE`,
+    [transactionId],
+  );
+}
+
+/**
+ * A zero-value swap leg starts out paid, but nobody ever paid anything on it;
+ * a cash deal is only paid at the meetup.
+ */
+function isPaid(leg: Transaction): boolean {
+  return leg.status === 'paid' && Number(leg.agreed_price) > 0 && leg.payment_method !== 'cash';
+}
+
+function assertCancellable(legs: Transaction[]): void {
+  if (legs.some((l) => ['completed', 'cancelled', 'refunded'].includes(l.status))) {
+    throw new AppError('This transaction is already closed.', 409);
+  }
+  if (legs.some((l) => ['handed_over', 'shipped', 'delivered', 'received'].includes(l.status))) {
+    throw new AppError(legs[0].swap_id
+      ? 'The items have already been handed over.'
+      : 'The item has already been handed over — open a dispute if something is wrong.', 409);
+  }
+  if (legs.some((l) => l.dispute_status !== 'none')) {
+    throw new AppError('This transaction has an open dispute.', 409);
+  }
+}
+
+async function cancelLeg(client: DbClient, leg: Transaction, close: CloseDeal): Promise<Transaction> {
+  if (leg.payment_status === 'held') {
+    await settleRefund(client, leg.id, { actorId: close.actorId, cancellation: close.reason });
+  } else {
+    // Credits go into escrow before a gateway payment completes
+    const refunded = await refundEscrow(client, leg, 'Purchase cancelled');
+    await transitionTransaction(client, leg, 'cancelled', close.actorId, close.reason);
+    await client.query(`UPDATE listings SET status = 'active' WHERE id = $1 AND status = 'reserved'`, [leg.listing_id]);
+    await client.query(
+      `UPDATE transactions SET payment_status = 'cancelled', refund_amount = $2,
+         refunded_at = CASE WHEN $2::numeric IS NULL THEN NULL ELSE NOW() END
+       WHERE id = $1`,
+      [leg.id, refunded > 0 ? refunded : null],
+    );
+  }
+  await releasePromoCode(client, leg.id);
+  const [updated] = await client.query<Transaction>(
+    `UPDATE transactions SET
+       cancelled_by = $2, cancelled_at = NOW(), cancel_reason = COALESCE($3, cancel_reason),
+       cancel_requested_by = NULL, cancel_requested_at = NULL
+     WHERE id = $1 RETURNING *`,
+    [leg.id, close.blame, close.note ?? null],
+  );
+  return updated;
+}
+
+async function closeDeal(client: DbClient, legs: Transaction[], close: CloseDeal): Promise<Transaction[]> {
+  const cancelled: Transaction[] = [];
+  for (const leg of legs) cancelled.push(await cancelLeg(client, leg, close));
+  if (legs[0].swap_id) {
+    await client.query(`UPDATE swaps SET status = 'cancelled' WHERE id = $1`, [legs[0].swap_id]);
+  }
+  if (close.blame) {
+    await client.query(
+      'UPDATE users SET behavioral_score = GREATEST(behavioral_score - $2, 0) WHERE id = $1',
+      [close.blame, config.transactions.cancelPenalty],
+    );
+  }
+  return cancelled;
+}
+
+async function listingTitle(client: DbClient, listingId: string): Promise<string> {
+  const listing = await client.queryOne<{ user_edited_title: string }>(
+    'SELECT user_edited_title FROM listings WHERE id = $1',
+    [listingId],
+  );
+  return listing?.user_edited_title ?? '';
+}
+
+/**
+ * Buyer or seller cancels. Before payment this cancels outright. After
+ * payment it agrees to the other party's pending request, or — with
+ * `refund` — lets the seller cancel by refunding the buyer; otherwise it
+ * records a request for the other party to agree to.
+ */
+export async function cancelTransaction(
+  transactionId: string,
+  userId: string,
+  opts: { refund?: boolean; note?: string } = {},
+): Promise<CancellationResult> {
+  return withTransaction(async (client) => {
+    const legs = await lockDeal(client, transactionId);
+    const txn = legs.find((l) => l.id === transactionId);
+    if (!txn) throw new AppError('Transaction not found', 404);
+    if (txn.buyer_id !== userId && txn.seller_id !== userId) throw new AppError('Forbidden', 403);
+    assertCancellable(legs);
+
+    const counterpartyId = txn.buyer_id === userId ? txn.seller_id : txn.buyer_id;
+    const title = await listingTitle(client, txn.listing_id);
+    const done = async (close: CloseDeal): Promise<CancellationResult> => {
+      const cancelled = await closeDeal(client, legs, close);
+      const transaction = cancelled.find((t) => t.id === transactionId) ?? txn;
+      return { transaction, cancelled: true, reason: close.reason, counterpartyId, listingTitle: title };
+    };
+
+    const paidLeg = legs.find(isPaid);
+    if (!paidLeg) {
+      const reason = txn.buyer_id === userId ? 'buyer_cancelled' : 'seller_cancelled';
+      return done({ actorId: userId, blame: userId, reason, note: opts.note });
+    }
+    if (txn.cancel_requested_by === counterpartyId) {
+      return done({ actorId: userId, blame: null, reason: 'mutual', note: opts.note });
+    }
+    if (opts.refund) {
+      if (paidLeg.seller_id !== userId) {
+        throw new AppError('Only the seller can cancel with a refund — ask them to agree to cancel instead.', 403);
+      }
+      return done({ actorId: userId, blame: userId, reason: 'seller_refunded', note: opts.note });
+    }
+
+    // Paid, and nobody has asked yet: ask the other party
+    const requested = await client.query<Transaction>(
+      `UPDATE transactions SET cancel_requested_by = $2, cancel_requested_at = NOW(), cancel_reason = $3
+       WHERE id = ANY($1::uuid[]) RETURNING *`,
+      [legs.map((l) => l.id), userId, opts.note ?? null],
+    );
+    return {
+      transaction: requested.find((t) => t.id === transactionId) ?? txn,
+      cancelled: false,
+      reason: null,
+      counterpartyId,
+      listingTitle: title,
+    };
+  });
+}
+
+/** The other party turns down a cancellation request; the deal carries on. */
+export async function declineCancellation(
+  transactionId: string,
+  userId: string,
+): Promise<{ transaction: Transaction; requesterId: string; listingTitle: string }> {
+  return withTransaction(async (client) => {
+    const legs = await lockDeal(client, transactionId);
+    const txn = legs.find((l) => l.id === transactionId);
+    if (!txn) throw new AppError('Transaction not found', 404);
+    if (txn.buyer_id !== userId && txn.seller_id !== userId) throw new AppError('Forbidden', 403);
+    if (!txn.cancel_requested_by || txn.cancel_requested_by === userId) {
+      throw new AppError('There is no cancellation request to answer.', 400);
+    }
+
+    const updated = await client.query<Transaction>(
+      `UPDATE transactions SET cancel_requested_by = NULL, cancel_requested_at = NULL
+       WHERE id = ANY($1::uuid[]) RETURNING *`,
+      [legs.map((l) => l.id)],
+    );
+    return {
+      transaction: updated.find((t) => t.id === transactionId) ?? txn,
+      requesterId: txn.cancel_requested_by,
+      listingTitle: await listingTitle(client, txn.listing_id),
+    };
+  });
+}
+
+/**
+ * Cancels deals the buyer hasn't paid for within the payment window, unless
+ * a gateway payment (a card payment in progress, a Fawry code) is still
+ * open. A capture that lands after all is refunded by the payment callback.
+ * The buyer takes the behavioral_score penalty. Returns the ids cancelled.
+ */
+export async function cancelUnpaidTransactions(): Promise<string[]> {
+  const stale = await query<{ id: string }>(
+    `SELECT t.id FROM transactions t
+     WHERE t.status = 'awaiting_payment'
+       AND t.created_at < NOW() - make_interval(hours => $1)
+       AND NOT EXISTS (
+         SELECT 1 FROM payment_intents pi
+         WHERE pi.transaction_id = t.id AND ${OPEN_INTENT}
+       )`,
+    [config.transactions.paymentWindowHours],
+  );
+
+  const cancelled: string[] = [];
+  for (const { id } of stale) {
+    try {
+      const result = await withTransaction(async (client) => {
+        const legs = await lockDeal(client, id);
+        const txn = legs.find((l) => l.id === id);
+        // Paid or cancelled since we looked
+        if (!txn || txn.status !== 'awaiting_payment') return null;
+        await closeDeal(client, legs, { actorId: null, blame: txn.buyer_id, reason: 'payment_timeout' });
+        return { txn, title: await listingTitle(client, txn.listing_id) };
+      });
+      if (!result) continue;
+      cancelled.push(id);
+      for (const userId of [result.txn.buyer_id, result.txn.seller_id]) {
+        notifyTransactionCancellation(userId, 'timeout', result.title, id)
+          .catch((err) => logger.warn({ transactionId: id, err }, '[NOTIFY] Failed to send cancellation notification'));
+      }
+    } catch (err) {
+      logger.error({ transactionId: id, err }, '[CRON] Failed to cancel unpaid transaction');
+    }
+  }
+  return cancelled;
+}
@@ -0,0 +1,161 @@
+/**
+ * Referral credits — promotional balance that can be spent on the platform
+ * (checkout, listing boosts) but never withdrawn.
+ *
+ * Credits sit in the user's user_credits ledger account, funded from the
+ * system promotions account. Every grant is also a credit_grants row with its
+ * own expiry; spending draws from the soonest-expiring grants first, and
+ * expired remainders go back to promotions.
+ */
+
+import { query, withTransaction, DbClient } from '../infrastructure/database/pool';
+import { config } from '../config';
+import { postJournalEntry, systemAccount, userCredits, LedgerAccount } from './ledger.service';
+import { AppError } from './auth.service';
+
+export type CreditSource = 'referral_signup' | 'referral_bonus' | 'refund' | 'opening_balance';
+
+export interface CreditGrant {
+  id: string;
+  user_id: string;
+  source: CreditSource;
+  amount: string;
+  remaining: string;
+  reference_id: string | null;
+  expires_at: Date;
+  created_at: Date;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Records a grant lot without posting to the ledger — for callers that post
+ * the matching user_credits line in their own journal entry. Returns null
+ * when a referral grant for the same reference already exists.
+ */
+export async function addCreditGrant(
+  client: DbClient,
+  grant: { userId: string; amount: number; source: CreditSource; referenceId?: string | null },
+): Promise<CreditGrant | null> {
+  return client.queryOne<CreditGrant>(
+    `INSERT INTO credit_grants (user_id, source, amount, remaining, reference_id, expires_at)
+     VALUES ($1, $2, $3, $3, $4, NOW() + make_interval(days => $5))
+     ON CONFLICT DO NOTHING
+     RETURNING *`,
+    [grant.userId, grant.source, round2(grant.amount), grant.referenceId ?? null, config.credits.validityDays],
+  );
+}
+
+/** Grants promotional credit. Duplicate referral grants are ignored (returns null). */
+export async function grantCredits(
+  client: DbClient,
+  userId: string,
+  amount: number,
+  opts: { source: CreditSource; referenceId?: string | null; description: string },
+): Promise<CreditGrant | null> {
+  const grant = await addCreditGrant(client, { userId, amount, source: opts.source, referenceId: opts.referenceId });
+  if (!grant) return null;
+  await postJournalEntry(client, {
+    description: opts.description,
+    referenceId: grant.id,
+    referenceType: 'credit_grant',
+    lines: [
+      { account: systemAccount('promotions'), amount: -amount },
+      { account: userCredits(userId), amount },
+    ],
+  });
+  return grant;
+}
+
+/**
+ * Spends credits into `to` (escrow for checkout, promotions for platform
+ * services). Locks the user's unexpired grants and draws them down in expiry
+ * order.
+ */
+export async function spendCredits(
+  client: DbClient,
+  userId: string,
+  amount: number,
+  opts: { to: LedgerAccount; description: string; referenceId: string; referenceType: string },
+): Promise<void> {
+  const grants = await client.query<CreditGrant>(
+    `SELECT * FROM credit_grants
+     WHERE user_id = $1 AND remaining > 0 AND expires_at > NOW()
+     ORDER BY expires_at, created_at
+     FOR UPDATE`,
+    [userId],
+  );
+  const available = round2(grants.reduce((sum, g) => sum + Number(g.remaining), 0));
+  if (available < amount) throw new AppError('Insufficient credits', 400);
+
+  let left = round2(amount);
+  for (const g of grants) {
+    if (left <= 0) break;
+    const take = round2(Math.min(Number(g.remaining), left));
+    await client.query('UPDATE credit_grants SET remaining = remaining - $2 WHERE id = $1', [g.id, take]);
+    left = round2(left - take);
+  }
+
+  await postJournalEntry(client, {
+    description: opts.description,
+    referenceId: opts.referenceId,
+    referenceType: opts.referenceType,
+    lines: [
+      { account: userCredits(userId), amount: -amount },
+      { account: opts.to, amount },
+    ],
+  });
+}
+
+// ─── Expiry ──────────────────────────────────────────────
+
+/** Returns unspent credit from expired grants to promotions. Returns the number of grants expired. */
+export async function expireCredits(): Promise<number> {
+  const due = await query<{ id: string }>(
+    'SELECT id FROM credit_grants WHERE remaining > 0 AND expires_at <= NOW() LIMIT 500',
+  );
+  let expired = 0;
+  for (const { id } of due) {
+    const done = await withTransaction(async (client) => {
+      const g = await client.queryOne<CreditGrant>(
+        'SELECT * FROM credit_grants WHERE id = $1 AND remaining > 0 FOR UPDATE SKIP LOCKED',
+        [id],
+      );
+      if (!g) return false;
+      await client.query('UPDATE credit_grants SET remaining = 0 WHERE id = $1', [id]);
+      await postJournalEntry(client, {
+        description: 'Credits expired',
+        referenceId: g.id,
+        referenceType: 'credit_grant',
+        lines: [
+          { account: userCredits(g.user_id), amount: -Number(g.remaining), creditHistoryType: 'expired' },
+          { account: systemAccount('promotions'), amount: Number(g.remaining) },
+        ],
+      });
+      return true;
+    });
+    if (done) expired++;
+  }
+  return expired;
+}
+
+// ─── Read side ───────────────────────────────────────────
+
+export async function getCreditSummary(userId: string, limit = 30, offset = 0) {
+  const grants = await query<CreditGrant>(
+    `SELECT * FROM credit_grants
+     WHERE user_id = $1 AND remaining > 0 AND expires_at > NOW()
+     ORDER BY expires_at`,
+    [userId],
+  );
+  const history = await query(
+    `SELECT * FROM credit_transactions WHERE user_id = $1
+     ORDER BY created_at DESC LIMIT $2 OFFSET $3`,
+    [userId, limit, offset],
+  );
+  return {
+    balance: round2(grants.reduce((sum, g) => sum + Number(g.remaining), 0)),
+    expiring: grants.map((g) => ({ amount: Number(g.remaining), expires_at: g.expires_at, source: g.source })),
+    history,
+  };
+}
@@ -0,0 +1,607 @@
+/**
+ * Dispute cases. Either party to a deal in escrow can open one; the other
+ * party (the respondent) has config.disputes.responseHours to answer before
+ * the case goes to review without them. Both parties add evidence and talk
+ * to each other and to an admin in one thread. Admins work cases from a
+ * queue in the admin API: a case is assigned to one of them, who keeps
+ * internal notes and resolves it for the buyer (full refund), for the seller
+ * (release) or with a partial refund, within config.disputes.resolutionHours
+ * of it being opened.
+ *
+ *   opened → under_review → resolved
+ *
+ * After the seller has been paid, the buyer can still file an "item not as
+ * described" claim for config.disputes.claimWindowDays. The seller's proceeds
+ * are clawed back from their wallet into escrow, and what the wallet can't
+ * cover is held against it, until the claim is resolved.
+ *
+ * transactions.dispute_status mirrors the case so escrow, cancellation and
+ * the auto-release keep working off the transaction alone. Swaps can't be
+ * disputed: a case settles one transaction, and a swap's two legs only ever
+ * settle together.
+ */
+
+import { config } from '../config';
+import { query, queryOne, withTransaction, DbClient } from '../infrastructure/database/pool';
+import { logger } from '../infrastructure/logging/logger';
+import { notifyDisputeUpdate } from '../infrastructure/notifications/push';
+import { AppError } from './auth.service';
+import { getAdminRole, hasPermission } from './admin.service';
+import {
+  clawBackProceeds, settleClaim, settlePartialRefund, settleRefund, settleRelease, SettlementResult,
+} from './escrow.service';
+import type {
+  Dispute, DisputeEvidence, DisputeMessage, DisputeNote, DisputeReason, DisputeResolution, DisputeRole, Transaction,
+} from '../domain/entities';
+
+type Parties = Pick<Transaction, 'id' | 'buyer_id' | 'seller_id'>;
+
+export const DISPUTE_REASONS = [
+  'item_not_received', 'item_not_as_described', 'payment_issue', 'fraud', 'other',
+] as const satisfies readonly DisputeReason[];
+
+/** Evidence items each party can attach to a case */
+export const MAX_EVIDENCE_PER_PARTY = 10;
+
+export interface EvidenceInput {
+  url: string;
+  caption?: string;
+}
+
+export interface DisputeCase {
+  dispute: Dispute;
+  evidence: DisputeEvidence[];
+  messages: DisputeMessage[];
+  /** How the caller takes part in the case */
+  role: DisputeRole;
+}
+
+export interface DisputeUpdate {
+  dispute: Dispute;
+  transaction: Transaction;
+  listingTitle: string;
+}
+
+/** Admins work cases through the admin API (requireAdmin + can), never as a party. */
+function partyRole(txn: Parties, userId: string): 'buyer' | 'seller' {
+  if (txn.buyer_id === userId) return 'buyer';
+  if (txn.seller_id === userId) return 'seller';
+  throw new AppError('Forbidden', 403);
+}
+
+async function listingTitle(client: Pick<DbClient, 'queryOne'>, listingId: string): Promise<string> {
+  const listing = await client.queryOne<{ user_edited_title: string }>(
+    'SELECT user_edited_title FROM listings WHERE id = $1',
+    [listingId],
+  );
+  return listing?.user_edited_title ?? '';
+}
+
+/** The case and its transaction, both locked; throws unless the case is still open. */
+async function lockOpenCase(client: DbClient, transactionId: string): Promise<{ dispute: Dispute; txn: Transaction }> {
+  const txn = await client.queryOne<Transaction>('SELECT * FROM transactions WHERE id = $1 FOR UPDATE', [transactionId]);
+  if (!txn) throw new AppError('Transaction not found', 404);
+  const dispute = await client.queryOne<Dispute>(
+    'SELECT * FROM disputes WHERE transaction_id = $1 FOR UPDATE',
+    [transactionId],
+  );
+  if (!dispute) throw new AppError('No dispute on this transaction', 404);
+  if (dispute.status === 'resolved') throw new AppError('This dispute has been resolved', 409);
+  return { dispute, txn };
+}
+
+async function moveToReview(client: DbClient, dispute: Dispute, reviewerId: string | null): Promise<Dispute> {
+  const [updated] = await client.query<Dispute>(
+    `UPDATE disputes SET
+       status = 'under_review',
+       reviewed_by = COALESCE(reviewed_by, $2),
+       review_started_at = COALESCE(review_started_at, NOW()),
+       updated_at = NOW()
+     WHERE id = $1 RETURNING *`,
+    [dispute.id, reviewerId],
+  );
+  await client.query(
+    `UPDATE transactions SET dispute_status = 'under_review' WHERE id = $1 AND dispute_status = 'opened'`,
+    [dispute.transaction_id],
+  );
+  return updated;
+}
+
+async function addSystemMessage(client: DbClient, disputeId: string, body: string): Promise<void> {
+  await client.query(
+    `INSERT INTO dispute_messages (dispute_id, sender_id, sender_role, body) VALUES ($1, NULL, 'system', $2)`,
+    [disputeId, body],
+  );
+}
+
+async function insertEvidence(client: DbClient, disputeId: string, userId: string, items: EvidenceInput[]) {
+  const rows: DisputeEvidence[] = [];
+  for (const item of items) {
+    const [row] = await client.query<DisputeEvidence>(
+      `INSERT INTO dispute_evidence (dispute_id, uploaded_by, url, caption) VALUES ($1, $2, $3, $4) RETURNING *`,
+      [disputeId, userId, item.url, item.caption ?? null],
+    );
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * The respondent's first message or evidence counts as their response: the
+ * case has both sides and goes to review.
+ */
+async function recordResponse(client: DbClient, dispute: Dispute, userId: string): Promise<Dispute> {
+  if (userId !== dispute.respondent_id || dispute.responded_at) return dispute;
+  const [responded] = await client.query<Dispute>(
+    'UPDATE disputes SET responded_at = NOW(), updated_at = NOW() WHERE id = $1 RETURNING *',
+    [dispute.id],
+  );
+  return dispute.status === 'opened' ? moveToReview(client, responded, null) : responded;
+}
+
+function notifyParties(txn: Parties, exceptUserId: string | null, event: string, title: string) {
+  for (const userId of [txn.buyer_id, txn.seller_id]) {
+    if (userId === exceptUserId) continue;
+    notifyDisputeUpdate(userId, event, title, txn.id)
+      .catch((err) => logger.warn({ userId, transactionId: txn.id, err }, '[NOTIFY] Failed to send dispute notification'));
+  }
+}
+
+/**
+ * Once the seller has been paid only the buyer can claim, only that the item
+ * wasn't as described, and only within the claim window. Cash never passed
+ * through escrow, so there is nothing to claw back.
+ */
+function assertClaimable(txn: Transaction, userId: string, reason: DisputeReason): void {
+  const days = config.disputes.claimWindowDays;
+  if (txn.buyer_id !== userId) throw new AppError('Only the buyer can file a claim after the seller has been paid', 403);
+  if (reason !== 'item_not_as_described') {
+    throw new AppError('After the seller has been paid, only an "item not as described" claim can be filed', 400);
+  }
+  if (txn.payment_method === 'cash' || Number(txn.seller_receives) <= 0) {
+    throw new AppError('Nothing was paid through Kaero for this deal, so there is nothing to claim', 400);
+  }
+  if (!txn.completed_at || Date.now() > new Date(txn.completed_at).getTime() + days * 86_400_000) {
+    throw new AppError(`Claims must be filed within ${days} days of the deal completing`, 400);
+  }
+}
+
+/** What the seller can't withdraw because open claims against them weren't covered by their wallet. */
+export async function outstandingClaimHold(client: Pick<DbClient, 'queryOne'>, userId: string): Promise<number> {
+  const row = await client.queryOne<{ hold: string }>(
+    `SELECT COALESCE(SUM(claim_shortfall), 0) AS hold FROM disputes
+     WHERE respondent_id = $1 AND kind = 'claim' AND status <> 'resolved'`,
+    [userId],
+  );
+  return Number(row?.hold ?? 0);
+}
+
+// ─── Parties ─────────────────────────────────────────────
+
+/**
+ * Opens a case on a deal whose payment is in escrow. The payment is frozen
+ * (payment_status 'disputed') until an admin resolves it. On a completed
+ * deal within the claim window it files a buyer's claim instead.
+ */
+export async function openDispute(
+  transactionId: string,
+  userId: string,
+  input: { reason: DisputeReason; details?: string; evidence?: EvidenceInput[] },
+): Promise<DisputeUpdate> {
+  const result = await withTransaction(async (client) => {
+    const txn = await client.queryOne<Transaction>('SELECT * FROM transactions WHERE id = $1 FOR UPDATE', [transactionId]);
+    if (!txn) throw new AppError('Transaction not found', 404);
+    if (txn.buyer_id !== userId && txn.seller_id !== userId) throw new AppError('Forbidden', 403);
+    if (txn.swap_id) throw new AppError('Swaps cannot be disputed', 400);
+    if (txn.dispute_status !== 'none') throw new AppError('Dispute already opened', 400);
+    const claim = txn.payment_status === 'released';
+    if (claim) assertClaimable(txn, userId, input.reason);
+    else if (txn.payment_status !== 'held') throw new AppError('Can only dispute transactions in escrow', 400);
+
+    const title = await listingTitle(client, txn.listing_id);
+    const claimAmount = claim ? Number(txn.seller_receives) : null;
+    const { clawedBack, shortfall } = claimAmount !== null
+      ? await clawBackProceeds(client, txn, claimAmount, `Held for buyer claim: ${title}`)
+      : { clawedBack: null, shortfall: 0 };
+
+    const [dispute] = await client.query<Dispute>(
+      `INSERT INTO disputes (transaction_id, opened_by, respondent_id, reason, details,
+                             response_due_at, resolution_due_at,
+                             kind, claim_amount, clawed_back, claim_shortfall)
+       VALUES ($1, $2, $3, $4, $5,
+               NOW() + make_interval(hours => $6), NOW() + make_interval(hours => $7),
+               $8, $9, $10, $11)
+       RETURNING *`,
+      [
+        transactionId, userId, txn.buyer_id === userId ? txn.seller_id : txn.buyer_id,
+        input.reason, input.details ?? null,
+        config.disputes.responseHours, config.disputes.resolutionHours,
+        claim ? 'claim' : 'escrow', claimAmount, clawedBack, shortfall,
+      ],
+    );
+    await insertEvidence(client, dispute.id, userId, input.evidence ?? []);
+
+    // A claim leaves the deal completed; the clawed-back money is in escrow again
+    const [transaction] = await client.query<Transaction>(
+      `UPDATE transactions SET
+         dispute_status = 'opened',
+         payment_status = CASE WHEN $2 THEN payment_status ELSE 'disputed' END
+       WHERE id = $1 RETURNING *`,
+      [transactionId, claim],
+    );
+    return { dispute, transaction, listingTitle: title };
+  });
+
+  notifyParties(result.transaction, userId, 'opened', result.listingTitle);
+  return result;
+}
+
+/** The whole case — details, evidence and thread — for either party. */
+export async function getDispute(transactionId: string, userId: string): Promise<DisputeCase> {
+  const txn = await queryOne<Parties>('SELECT id, buyer_id, seller_id FROM transactions WHERE id = $1', [transactionId]);
+  if (!txn) throw new AppError('Transaction not found', 404);
+  const role = partyRole(txn, userId);
+
+  const dispute = await queryOne<Dispute>('SELECT * FROM disputes WHERE transaction_id = $1', [transactionId]);
+  if (!dispute) throw new AppError('No dispute on this transaction', 404);
+
+  const evidence = await query<DisputeEvidence>(
+    'SELECT * FROM dispute_evidence WHERE dispute_id = $1 ORDER BY created_at',
+    [dispute.id],
+  );
+  const messages = await query<DisputeMessage>(
+    'SELECT * FROM dispute_messages WHERE dispute_id = $1 ORDER BY created_at',
+    [dispute.id],
+  );
+  return { dispute, evidence, messages, role };
+}
+
+/** A party adds photos, receipts or chat screenshots to an open case. */
+export async function addEvidence(
+  transactionId: string,
+  userId: string,
+  items: EvidenceInput[],
+): Promise<DisputeEvidence[]> {
+  return withTransaction(async (client) => {
+    const { dispute, txn } = await lockOpenCase(client, transactionId);
+    if (txn.buyer_id !== userId && txn.seller_id !== userId) throw new AppError('Forbidden', 403);
+
+    const count = await client.queryOne<{ n: string }>(
+      'SELECT COUNT(*) AS n FROM dispute_evidence WHERE dispute_id = $1 AND uploaded_by = $2',
+      [dispute.id, userId],
+    );
+    if (Number(count?.n ?? 0) + items.length > MAX_EVIDENCE_PER_PARTY) {
+      throw new AppError(`You can attach up to ${MAX_EVIDENCE_PER_PARTY} pieces of evidence`, 400);
+    }
+
+    const rows = await insertEvidence(client, dispute.id, userId, items);
+    await recordResponse(client, dispute, userId);
+    return rows;
+  });
+}
+
+/**
+ * Posts to the case thread, which the buyer, the seller and admins all see.
+ * Everyone else on the case is notified.
+ */
+export async function postDisputeMessage(
+  transactionId: string,
+  userId: string,
+  body: string,
+): Promise<DisputeMessage> {
+  return postToThread(transactionId, userId, body, null);
+}
+
+/** `asRole` is set for an admin; a party's role comes from the transaction. */
+async function postToThread(
+  transactionId: string,
+  userId: string,
+  body: string,
+  asRole: 'admin' | null,
+): Promise<DisputeMessage> {
+  const result = await withTransaction(async (client) => {
+    const { dispute, txn } = await lockOpenCase(client, transactionId);
+    const role: DisputeRole = asRole ?? partyRole(txn, userId);
+
+    const [message] = await client.query<DisputeMessage>(
+      `INSERT INTO dispute_messages (dispute_id, sender_id, sender_role, body) VALUES ($1, $2, $3, $4) RETURNING *`,
+      [dispute.id, userId, role, body],
+    );
+    await client.query('UPDATE disputes SET updated_at = NOW() WHERE id = $1', [dispute.id]);
+    await recordResponse(client, dispute, userId);
+    return { message, txn, title: await listingTitle(client, txn.listing_id) };
+  });
+
+  notifyParties(result.txn, userId, 'message', result.title);
+  return result.message;
+}
+
+// ─── Admin ───────────────────────────────────────────────
+
+export interface DisputeQueueFilters {
+  /** 'open' is every case not yet resolved */
+  status?: 'open' | Dispute['status'];
+  /** An admin's id, or 'unassigned' */
+  assignedTo?: string;
+  kind?: Dispute['kind'];
+  /** Only unresolved cases past their resolution SLA */
+  overdue?: boolean;
+}
+
+export interface AdminDisputeCase {
+  dispute: Dispute;
+  transaction: Transaction | null;
+  evidence: DisputeEvidence[];
+  messages: DisputeMessage[];
+  notes: DisputeNote[];
+}
+
+async function transactionOf(client: Pick<DbClient, 'queryOne'>, disputeId: string): Promise<string> {
+  const row = await client.queryOne<{ transaction_id: string }>(
+    'SELECT transaction_id FROM disputes WHERE id = $1',
+    [disputeId],
+  );
+  if (!row) throw new AppError('Dispute not found', 404);
+  return row.transaction_id;
+}
+
+/**
+ * The party a case went against loses behavioral_score, which raises the
+ * fraud risk of their listings. A partial refund means both had a point, so
+ * nobody does. trust_score is left alone: it is the average rating of the
+ * user's reviews and is recalculated from them on the next review, which
+ * would undo any penalty taken off it here.
+ */
+async function penaliseLoser(client: DbClient, txn: Parties, resolution: DisputeResolution): Promise<string | null> {
+  const loser = resolution === 'resolved_buyer' ? txn.seller_id
+    : resolution === 'resolved_seller' ? txn.buyer_id : null;
+  if (!loser) return null;
+  await client.query(
+    'UPDATE users SET behavioral_score = GREATEST(behavioral_score - $2, 0) WHERE id = $1',
+    [loser, config.disputes.lossPenalty],
+  );
+  return loser;
+}
+
+export interface DisputeQueueItem extends Dispute {
+  agreed_price: string;
+  payment_method: Transaction['payment_method'];
+  payment_status: Transaction['payment_status'];
+  transaction_status: Transaction['status'];
+  listing_title: string;
+  buyer_name: string;
+  seller_name: string;
+  assigned_to_name: string | null;
+  evidence_count: string;
+  message_count: string;
+}
+
+/** The admin queue, most urgent first: open cases by resolution deadline, then the rest. */
+export async function listDisputeQueue(filters: DisputeQueueFilters = {}): Promise<DisputeQueueItem[]> {
+  const { status = 'open', assignedTo, kind, overdue = false } = filters;
+  return query<DisputeQueueItem>(
+    `SELECT d.*,
+       t.agreed_price, t.payment_method, t.payment_status, t.status AS transaction_status,
+       l.user_edited_title AS listing_title,
+       buyer.full_name     AS buyer_name,
+       seller.full_name    AS seller_name,
+       assignee.full_name  AS assigned_to_name,
+       (SELECT COUNT(*) FROM dispute_evidence e WHERE e.dispute_id = d.id) AS evidence_count,
+       (SELECT COUNT(*) FROM dispute_messages m WHERE m.dispute_id = d.id) AS message_count
+     FROM disputes d
+     JOIN transactions t    ON t.id      = d.transaction_id
+     JOIN listings l        ON l.id      = t.listing_id
+     JOIN users buyer       ON buyer.id  = t.buyer_id
+     JOIN users seller      ON seller.id = t.seller_id
+     LEFT JOIN users assignee ON assignee.id = d.assigned_to
+     WHERE (($1 = 'open' AND d.status <> 'resolved') OR d.status = $1)
+       AND ($2::text IS NULL OR ($2 = 'unassigned' AND d.assigned_to IS NULL) OR d.assigned_to::text = $2)
+       AND ($3::text IS NULL OR d.kind = $3)
+       AND (NOT $4 OR (d.status <> 'resolved' AND d.resolution_due_at < NOW()))
+     ORDER BY d.status = 'resolved', d.resolution_due_at ASC
+     LIMIT 100`,
+    [status, assignedTo ?? null, kind ?? null, overdue],
+  );
+}
+
+/** Everything on a case for an admin, including their internal notes. */
+export async function getDisputeCase(disputeId: string): Promise<AdminDisputeCase> {
+  const dispute = await queryOne<Dispute>('SELECT * FROM disputes WHERE id = $1', [disputeId]);
+  if (!dispute) throw new AppError('Dispute not found', 404);
+
+  const transaction = await queryOne<Transaction>('SELECT * FROM transactions WHERE id = $1', [dispute.transaction_id]);
+  const evidence = await query<DisputeEvidence>(
+    'SELECT * FROM dispute_evidence WHERE dispute_id = $1 ORDER BY created_at',
+    [disputeId],
+  );
+  const messages = await query<DisputeMessage>(
+    'SELECT * FROM dispute_messages WHERE dispute_id = $1 ORDER BY created_at',
+    [disputeId],
+  );
+  const notes = await query<DisputeNote>(
+    'SELECT * FROM dispute_notes WHERE dispute_id = $1 ORDER BY created_at',
+    [disputeId],
+  );
+  return { dispute, transaction, evidence, messages, notes };
+}
+
+/**
+ * Assigns the case to an admin (the caller by default), putting it under
+ * review if it wasn't already. Reassigning hands it over to someone else,
+ * who must be allowed to work cases.
+ *
+ * The admin functions below trust the caller: the admin API has already
+ * checked the admin's role (requireAdmin + can).
+ */
+export async function assignDispute(disputeId: string, adminId: string, assigneeId = adminId): Promise<DisputeUpdate> {
+  const result = await withTransaction(async (client) => {
+    if (assigneeId !== adminId) {
+      const role = await getAdminRole(assigneeId);
+      if (!role || !hasPermission(role, 'disputes:manage')) {
+        throw new AppError('Disputes can only be assigned to an admin who can work them', 400);
+      }
+    }
+    const { dispute, txn } = await lockOpenCase(client, await transactionOf(client, disputeId));
+
+    const wasOpen = dispute.status === 'opened';
+    await client.query(
+      'UPDATE disputes SET assigned_to = $2, assigned_at = NOW(), updated_at = NOW() WHERE id = $1',
+      [dispute.id, assigneeId],
+    );
+    const updated = await moveToReview(client, dispute, assigneeId);
+    const [transaction] = await client.query<Transaction>('SELECT * FROM transactions WHERE id = $1', [txn.id]);
+    return { dispute: updated, transaction, listingTitle: await listingTitle(client, txn.listing_id), wasOpen };
+  });
+
+  if (result.wasOpen) notifyParties(result.transaction, null, 'under_review', result.listingTitle);
+  return { dispute: result.dispute, transaction: result.transaction, listingTitle: result.listingTitle };
+}
+
+/** An internal note on the case, for admins only. */
+export async function addDisputeNote(disputeId: string, adminId: string, body: string): Promise<DisputeNote> {
+  await transactionOf({ queryOne }, disputeId);
+  const [note] = await query<DisputeNote>(
+    'INSERT INTO dispute_notes (dispute_id, admin_id, body) VALUES ($1, $2, $3) RETURNING *',
+    [disputeId, adminId, body],
+  );
+  return note;
+}
+
+/** An admin posts to the case thread the parties see (see postDisputeMessage). */
+export async function postAdminDisputeMessage(disputeId: string, adminId: string, body: string): Promise<DisputeMessage> {
+  return postToThread(await transactionOf({ queryOne }, disputeId), adminId, body, 'admin');
+}
+
+/**
+ * Settles the case. resolved_buyer refunds everything in escrow and puts the
+ * listing back on sale; resolved_seller releases it; resolved_partial refunds
+ * `refundAmount` and releases the rest (see settlePartialRefund). A claim
+ * is settled out of what was clawed back from the seller instead.
+ *
+ * The resolving admin and their reasons are recorded on the case, which both
+ * parties see, and the losing party is penalised (see penaliseLoser).
+ */
+export async function resolveDispute(
+  disputeId: string,
+  adminId: string,
+  input: { resolution: DisputeResolution; refundAmount?: number; notes: string },
+): Promise<DisputeUpdate> {
+  if (input.resolution === 'resolved_partial' && !input.refundAmount) {
+    throw new AppError('A partial refund needs a refund amount', 400);
+  }
+
+  const result = await withTransaction(async (client) => {
+    const transactionId = await transactionOf(client, disputeId);
+    const { dispute, txn } = await lockOpenCase(client, transactionId);
+    // Settling one leg would leave the other held with the swap still open
+    if (txn.swap_id) throw new AppError('A swap cannot be settled through a dispute', 409);
+
+    // Buyer wins → escrow back to buyer; seller wins → escrow paid out to seller
+    const settled = dispute.kind === 'claim'
+      ? await settleClaimDispute(client, txn, dispute, input)
+      : input.resolution === 'resolved_buyer'
+        ? await settleRefund(client, transactionId, { resolution: 'resolved_buyer', actorId: adminId })
+        : input.resolution === 'resolved_seller'
+          ? await settleRelease(client, transactionId, { resolution: 'resolved_seller', actorId: adminId })
+          : await settlePartialRefund(client, transactionId, input.refundAmount ?? 0, { actorId: adminId });
+    if (!settled) throw new AppError('Transaction cannot be settled', 409);
+    await penaliseLoser(client, txn, input.resolution);
+
+    const refunded = input.resolution === 'resolved_seller' ? null : settled.amount;
+    const [updated] = await client.query<Dispute>(
+      `UPDATE disputes SET
+         status = 'resolved', resolution = $2, refund_amount = $3, resolution_notes = $4,
+         resolved_by = $5, resolved_at = NOW(), updated_at = NOW()
+       WHERE id = $1 RETURNING *`,
+      [dispute.id, input.resolution, refunded, input.notes, adminId],
+    );
+    const outcome = input.resolution === 'resolved_buyer' ? `Resolved for the buyer: ${refunded} EGP refunded.`
+      : input.resolution === 'resolved_seller'
+        ? dispute.kind === 'claim'
+          ? 'Resolved for the seller: the held amount was returned to their wallet.'
+          : 'Resolved for the seller: the payment was released.'
+        : `Resolved with a partial refund of ${refunded} EGP to the buyer; the rest was released to the seller.`;
+    await addSystemMessage(client, dispute.id, outcome);
+    return { dispute: updated, transaction: settled.transaction, listingTitle: settled.listingTitle };
+  });
+
+  notifyParties(result.transaction, null, input.resolution, result.listingTitle);
+  return result;
+}
+
+/**
+ * A claim is settled out of what was clawed back (see settleClaim): the buyer
+ * gets the claim, part of it or nothing, and the deal stays completed.
+ */
+async function settleClaimDispute(
+  client: DbClient,
+  txn: Transaction,
+  dispute: Dispute,
+  input: { resolution: DisputeResolution; refundAmount?: number },
+): Promise<SettlementResult> {
+  const claimAmount = Number(dispute.claim_amount);
+  const refundAmount = input.refundAmount ?? 0;
+  if (input.resolution === 'resolved_partial' && refundAmount >= claimAmount) {
+    throw new AppError(`A partial refund must be less than the ${claimAmount} EGP claimed`, 400);
+  }
+  const buyerShare = input.resolution === 'resolved_buyer' ? claimAmount
+    : input.resolution === 'resolved_partial' ? refundAmount : 0;
+
+  const title = await listingTitle(client, txn.listing_id);
+  const refunded = await settleClaim(client, txn, buyerShare, `Buyer claim settled: ${title}`);
+  const [transaction] = await client.query<Transaction>(
+    `UPDATE transactions SET
+       dispute_status = $2,
+       refund_amount = CASE WHEN $3::numeric > 0 THEN $3::numeric ELSE refund_amount END,
+       refunded_at = CASE WHEN $3::numeric > 0 THEN NOW() ELSE refunded_at END
+     WHERE id = $1 RETURNING *`,
+    [txn.id, input.resolution, refunded],
+  );
+  return { transaction, listingTitle: title, amount: refunded };
+}
+
+// ─── Deadlines ───────────────────────────────────────────
+
+/**
+ * Cron: cases whose respondent let the response deadline pass go to review
+ * without them, and open cases past the resolution SLA are flagged once so
+ * they can be chased. Returns how many of each.
+ */
+export async function escalateOverdueDisputes(): Promise<{ escalated: number; breached: number }> {
+  const lapsed = await query<{ transaction_id: string }>(
+    `SELECT transaction_id FROM disputes
+     WHERE status = 'opened' AND responded_at IS NULL AND response_due_at < NOW()`,
+  );
+
+  let escalated = 0;
+  for (const { transaction_id } of lapsed) {
+    try {
+      const result = await withTransaction(async (client) => {
+        const { dispute, txn } = await lockOpenCase(client, transaction_id);
+        // Responded or picked up by an admin since we looked
+        if (dispute.status !== 'opened' || dispute.responded_at) return null;
+        await moveToReview(client, dispute, null);
+        await addSystemMessage(client, dispute.id, 'The response deadline passed; the case is now under review.');
+        return { txn, title: await listingTitle(client, txn.listing_id) };
+      });
+      if (!result) continue;
+      escalated++;
+      notifyParties(result.txn, null, 'under_review', result.title);
+    } catch (err) {
+      logger.error({ transactionId: transaction_id, err }, '[CRON] Failed to escalate dispute');
+    }
+  }
+
+  const breached = await query<{ id: string; transaction_id: string; resolution_due_at: Date }>(
+    `UPDATE disputes SET sla_breached_at = NOW()
+     WHERE status <> 'resolved' AND sla_breached_at IS NULL AND resolution_due_at < NOW()
+     RETURNING id, transaction_id, resolution_due_at`,
+  );
+  for (const d of breached) {
+    logger.warn(
+      { disputeId: d.id, transactionId: d.transaction_id, dueAt: d.resolution_due_at },
+      '[CRON] Dispute past its resolution SLA',
+    );
+  }
+  return { escalated, breached: breached.length };
+}
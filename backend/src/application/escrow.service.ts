@@ -0,0 +1,437 @@
+/**
+ * Escrow — buyer funds are held in the system escrow account from payment
+ * until release (seller payout + platform fee) or refund (back to buyer).
+ * Every movement is a ledger entry referencing the transaction id, so the
+ * amount currently held for a transaction is the sum of its escrow postings.
+ */
+
+import { withTransaction, DbClient } from '../infrastructure/database/pool';
+import { postJournalEntry, systemAccount, userWallet, userCredits, JournalLine } from './ledger.service';
+import { addCreditGrant, spendCredits } from './credit.service';
+import { MIN_CHARGE_EGP } from './promo.service';
+import { AppError } from './auth.service';
+import { transitionTransaction } from './transaction.service';
+import { isGatewayMethod, refundGatewayPayment } from '../infrastructure/payments/providers';
+import type { Transaction } from '../domain/entities';
+
+type EscrowTxn = Pick<
+  Transaction,
+  'id' | 'buyer_id' | 'seller_id' | 'seller_receives' | 'platform_fee' | 'payment_method' | 'credits_applied'
+> & Partial<Pick<Transaction, 'shipping_fee'>>;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+type PricedTxn = Pick<Transaction, 'seller_receives' | 'platform_fee'> & Partial<Pick<Transaction, 'shipping_fee'>>;
+
+/** What the buyer pays into escrow: the seller's share, the platform fee and any delivery fee. */
+export function escrowAmount(txn: PricedTxn): number {
+  return round2(Number(txn.seller_receives) + Number(txn.platform_fee) + Number(txn.shipping_fee ?? 0));
+}
+
+/** What is left for the wallet or gateway once credits have been applied. */
+export function amountDue(txn: PricedTxn & Pick<Transaction, 'credits_applied'>): number {
+  return round2(escrowAmount(txn) - Number(txn.credits_applied ?? 0));
+}
+
+export async function heldInEscrow(client: DbClient, transactionId: string): Promise<number> {
+  const row = await client.queryOne<{ held: string }>(
+    `SELECT COALESCE(SUM(p.amount), 0) AS held
+     FROM ledger_postings p
+     JOIN ledger_entries e ON e.id = p.entry_id
+     JOIN ledger_accounts a ON a.id = p.account_id
+     WHERE a.account_key = 'system:escrow'
+       AND e.reference_type = 'transaction' AND e.reference_id = $1`,
+    [transactionId],
+  );
+  return round2(Number(row?.held ?? 0));
+}
+
+// ─── Funding ─────────────────────────────────────────────
+
+export async function fundEscrowFromWallet(client: DbClient, txn: EscrowTxn, description: string): Promise<number> {
+  const amount = amountDue(txn);
+  await postJournalEntry(client, {
+    description,
+    referenceId: txn.id,
+    referenceType: 'transaction',
+    lines: [
+      { account: userWallet(txn.buyer_id), amount: -amount },
+      { account: systemAccount('escrow'), amount },
+    ],
+  });
+  return amount;
+}
+
+/** Funds captured by an external gateway (card, Fawry, …) land in escrow. */
+export async function fundEscrowFromGateway(
+  client: DbClient,
+  txn: Pick<Transaction, 'id'>,
+  amount: number,
+  description: string,
+): Promise<void> {
+  await postJournalEntry(client, {
+    description,
+    referenceId: txn.id,
+    referenceType: 'transaction',
+    lines: [
+      { account: systemAccount('external_funds'), amount: -amount },
+      { account: systemAccount('escrow'), amount },
+    ],
+  });
+}
+
+/**
+ * Pays part of a locked, still-pending transaction with the buyer's referral
+ * credits, so the wallet or gateway only has to cover the rest. Capped so the
+ * buyer always pays something with a real payment method; re-applying to the
+ * same transaction is a no-op.
+ */
+export async function fundEscrowFromCredits(client: DbClient, txn: Transaction, requested: number): Promise<Transaction> {
+  if (Number(txn.credits_applied) > 0) return txn;
+
+  const amount = round2(Math.min(requested, escrowAmount(txn) - MIN_CHARGE_EGP));
+  if (amount <= 0) throw new AppError('Credits cannot be applied to this transaction', 400);
+
+  await spendCredits(client, txn.buyer_id, amount, {
+    to: systemAccount('escrow'),
+    description: 'Credits applied to purchase',
+    referenceId: txn.id,
+    referenceType: 'transaction',
+  });
+  const [updated] = await client.query<Transaction>(
+    'UPDATE transactions SET credits_applied = $2 WHERE id = $1 RETURNING *',
+    [txn.id, amount],
+  );
+  return updated;
+}
+
+// ─── Settlement ──────────────────────────────────────────
+
+/**
+ * Splits whatever is held for the transaction into the seller's wallet,
+ * platform fees and the delivery fee owed to the courier. Cash deals never
+ * touch escrow, so nothing is posted for them.
+ */
+export async function releaseEscrow(client: DbClient, txn: EscrowTxn, description: string): Promise<number> {
+  const held = await heldInEscrow(client, txn.id);
+  if (held <= 0) return 0;
+
+  const shipping = round2(Math.min(Number(txn.shipping_fee ?? 0), held));
+  const fee = round2(Math.min(Number(txn.platform_fee), held - shipping));
+  const sellerShare = round2(held - shipping - fee);
+  const lines: JournalLine[] = [{ account: systemAccount('escrow'), amount: -held }];
+  if (sellerShare > 0) lines.push({ account: userWallet(txn.seller_id), amount: sellerShare });
+  if (shipping > 0) lines.push({ account: systemAccount('shipping'), amount: shipping });
+  // A negative fee means the platform subsidises a promo discount out of its fees
+  if (fee !== 0) lines.push({ account: systemAccount('platform_fees'), amount: fee });
+
+  await postJournalEntry(client, { description, referenceId: txn.id, referenceType: 'transaction', lines });
+  return sellerShare;
+}
+
+/**
+ * Returns everything held for the transaction to where it came from: credits
+ * to the buyer's credit balance, gateway payments (card, Fawry, Vodafone
+ * Cash) back through their provider, everything else to the buyer's wallet.
+ * Gateway refunds are only requested here and go out once the caller commits.
+ * `providerRefunded` skips the gateway call when the provider has already
+ * refunded on its side (dashboard refunds reported via webhook). `amount`
+ * refunds only that much, leaving the rest in escrow.
+ */
+export async function refundEscrow(
+  client: DbClient,
+  txn: EscrowTxn,
+  description: string,
+  opts: { providerRefunded?: boolean; amount?: number } = {},
+): Promise<number> {
+  const held = await heldInEscrow(client, txn.id);
+  const refund = round2(Math.min(opts.amount ?? held, held));
+  if (refund <= 0) return 0;
+
+  // Credits spent on the purchase go back as credits, never as cash
+  const toCredits = round2(Math.min(Number(txn.credits_applied ?? 0), refund));
+  const rest = round2(refund - toCredits);
+
+  const lines: JournalLine[] = [{ account: systemAccount('escrow'), amount: -refund }];
+  if (toCredits > 0) {
+    await addCreditGrant(client, { userId: txn.buyer_id, amount: toCredits, source: 'refund', referenceId: txn.id });
+    lines.push({ account: userCredits(txn.buyer_id), amount: toCredits, creditHistoryType: 'refunded' });
+  }
+  if (rest > 0) {
+    let toGateway = false;
+    if (isGatewayMethod(txn.payment_method)) {
+      toGateway = opts.providerRefunded || !!(await refundGatewayPayment(client, txn.id, rest));
+    }
+    lines.push(toGateway
+      ? { account: systemAccount('external_funds'), amount: rest }
+      : { account: userWallet(txn.buyer_id), amount: rest });
+  }
+
+  await postJournalEntry(client, { description, referenceId: txn.id, referenceType: 'transaction', lines });
+  return refund;
+}
+
+// ─── Transaction-level operations ────────────────────────
+
+export interface SettlementResult {
+  transaction: Transaction;
+  listingTitle: string;
+  amount: number;
+}
+
+/**
+ * Marks a transaction released, sells the listing and pays out escrow using
+ * the caller's DB transaction. Returns null when the transaction is no longer
+ * releasable, so concurrent confirm / cron / admin calls never pay out twice.
+ *
+ * `actorId` is whoever confirmed receipt — the buyer, or the seller holding
+ * the buyer's handover code — recorded as `received` before `completed`, or
+ * the admin settling a dispute; the auto-release omits it.
+ */
+export async function settleRelease(
+  client: DbClient,
+  transactionId: string,
+  opts: { resolution?: 'resolved_seller'; actorId?: string; reason?: string } = {},
+): Promise<SettlementResult | null> {
+  let txn = await client.queryOne<Transaction>('SELECT * FROM transactions WHERE id = $1 FOR UPDATE', [transactionId]);
+  const releasable = opts.resolution ? ['held', 'disputed'] : ['held'];
+  if (!txn || !releasable.includes(txn.payment_status)) return null;
+
+  const actorId = opts.actorId ?? null;
+  if (!opts.resolution && actorId && txn.status !== 'received') {
+    txn = await transitionTransaction(client, txn, 'received', actorId, opts.reason);
+  }
+  await transitionTransaction(
+    client, txn, 'completed', actorId,
+    opts.resolution ?? opts.reason ?? (actorId ? 'buyer_confirmed' : 'escrow_hold_ended'),
+  );
+
+  const [updated] = await client.query<Transaction>(
+    `UPDATE transactions SET
+       payment_status = 'released',
+       buyer_confirmation = CASE WHEN $2::text IS NULL THEN TRUE ELSE buyer_confirmation END,
+       dispute_status = COALESCE($2, dispute_status),
+       completed_at = NOW()
+     WHERE id = $1 RETURNING *`,
+    [transactionId, opts.resolution ?? null],
+  );
+  const listing = await client.queryOne<{ user_edited_title: string }>(
+    `UPDATE listings SET status = 'sold' WHERE id = $1 RETURNING user_edited_title`,
+    [txn.listing_id],
+  );
+  const listingTitle = listing?.user_edited_title ?? '';
+  const amount = await releaseEscrow(client, txn, `Sale: ${listingTitle}`);
+  return { transaction: updated, listingTitle, amount };
+}
+
+/**
+ * Refunds escrow to the buyer and puts the listing back on sale using the
+ * caller's DB transaction. Returns null when no longer refundable. A
+ * `cancellation` ends the deal as cancelled rather than refunded.
+ */
+export async function settleRefund(
+  client: DbClient,
+  transactionId: string,
+  opts: {
+    resolution?: 'resolved_buyer';
+    providerRefunded?: boolean;
+    actorId?: string | null;
+    cancellation?: string;
+    reason?: string;
+  } = {},
+): Promise<SettlementResult | null> {
+  const txn = await client.queryOne<Transaction>('SELECT * FROM transactions WHERE id = $1 FOR UPDATE', [transactionId]);
+  if (!txn || !['held', 'disputed'].includes(txn.payment_status)) return null;
+
+  await transitionTransaction(
+    client, txn, opts.cancellation ? 'cancelled' : 'refunded', opts.actorId ?? null,
+    opts.cancellation ?? opts.resolution ?? opts.reason ?? (opts.providerRefunded ? 'provider_refunded' : undefined),
+  );
+
+  await client.query(`UPDATE listings SET status = 'active' WHERE id = $1 AND status = 'reserved'`, [txn.listing_id]);
+  const listing = await client.queryOne<{ user_edited_title: string }>(
+    'SELECT user_edited_title FROM listings WHERE id = $1',
+    [txn.listing_id],
+  );
+  const listingTitle = listing?.user_edited_title ?? '';
+  const amount = await refundEscrow(client, txn, `Refund: ${listingTitle}`, {
+    providerRefunded: opts.providerRefunded,
+  });
+
+  const [updated] = await client.query<Transaction>(
+    `UPDATE transactions SET
+       payment_status = 'refunded',
+       dispute_status = COALESCE($2, dispute_status),
+       refund_amount = $3,
+       refunded_at = NOW()
+     WHERE id = $1 RETURNING *`,
+    [transactionId, opts.resolution ?? null, amount],
+  );
+  return { transaction: updated, listingTitle, amount };
+}
+
+/**
+ * Settles a dispute by splitting escrow: `amount` goes back to the buyer and
+ * the rest is released as usual, so the delivery and platform fees come out
+ * of the seller's share. The buyer keeps the item, so the deal completes and
+ * the listing is sold. Returns null when no longer settleable.
+ */
+export async function settlePartialRefund(
+  client: DbClient,
+  transactionId: string,
+  amount: number,
+  opts: { actorId?: string } = {},
+): Promise<SettlementResult | null> {
+  const txn = await client.queryOne<Transaction>('SELECT * FROM transactions WHERE id = $1 FOR UPDATE', [transactionId]);
+  if (!txn || !['held', 'disputed'].includes(txn.payment_status)) return null;
+
+  const held = await heldInEscrow(client, txn.id);
+  if (amount <= 0 || amount >= held) {
+    throw new AppError(`A partial refund must be more than 0 and less than the ${held} EGP held`, 400);
+  }
+
+  await transitionTransaction(client, txn, 'completed', opts.actorId ?? null, 'resolved_partial');
+
+  const listing = await client.queryOne<{ user_edited_title: string }>(
+    `UPDATE listings SET status = 'sold' WHERE id = $1 RETURNING user_edited_title`,
+    [txn.listing_id],
+  );
+  const listingTitle = listing?.user_edited_title ?? '';
+  const refunded = await refundEscrow(client, txn, `Partial refund: ${listingTitle}`, { amount: round2(amount) });
+  await releaseEscrow(client, txn, `Sale: ${listingTitle}`);
+
+  const [updated] = await client.query<Transaction>(
+    `UPDATE transactions SET
+       payment_status = 'released',
+       dispute_status = 'resolved_partial',
+       refund_amount = $2,
+       refunded_at = NOW(),
+       completed_at = NOW()
+     WHERE id = $1 RETURNING *`,
+    [transactionId, refunded],
+  );
+  return { transaction: updated, listingTitle, amount: refunded };
+}
+
+/**
+ * A partial refund the provider made on its side (from its dashboard): that
+ * much leaves escrow back through the gateway and the deal carries on with
+ * the rest held, so the seller is paid less on release. Returns null when
+ * nothing is held for the transaction any more.
+ */
+export async function settleProviderPartialRefund(
+  client: DbClient,
+  transactionId: string,
+  amount: number,
+): Promise<SettlementResult | null> {
+  const txn = await client.queryOne<Transaction>('SELECT * FROM transactions WHERE id = $1 FOR UPDATE', [transactionId]);
+  if (!txn || !['held', 'disputed'].includes(txn.payment_status)) return null;
+
+  const refund = round2(Math.min(amount, await heldInEscrow(client, txn.id)));
+  if (refund <= 0) return null;
+  const listing = await client.queryOne<{ user_edited_title: string }>(
+    'SELECT user_edited_title FROM listings WHERE id = $1',
+    [txn.listing_id],
+  );
+  const listingTitle = listing?.user_edited_title ?? '';
+  await postJournalEntry(client, {
+    description: `Partial refund: ${listingTitle}`,
+    referenceId: txn.id,
+    referenceType: 'transaction',
+    lines: [
+      { account: systemAccount('escrow'), amount: -refund },
+      { account: systemAccount('external_funds'), amount: refund },
+    ],
+  });
+
+  const [updated] = await client.query<Transaction>(
+    `UPDATE transactions SET refund_amount = COALESCE(refund_amount, 0) + $2, refunded_at = NOW()
+     WHERE id = $1 RETURNING *`,
+    [transactionId, refund],
+  );
+  return { transaction: updated, listingTitle, amount: refund };
+}
+
+// ─── Post-release claims ─────────────────────────────────
+
+/**
+ * A buyer's claim after the seller was paid: takes up to `amount` back out of
+ * the seller's wallet into escrow against the transaction. Whatever the
+ * wallet can't cover is the shortfall, held against the seller's balance
+ * until the claim is settled.
+ */
+export async function clawBackProceeds(
+  client: DbClient,
+  txn: Pick<Transaction, 'id' | 'seller_id'>,
+  amount: number,
+  description: string,
+): Promise<{ clawedBack: number; shortfall: number }> {
+  const seller = await client.queryOne<{ wallet_balance: string }>(
+    'SELECT wallet_balance FROM users WHERE id = $1 FOR UPDATE',
+    [txn.seller_id],
+  );
+  const clawedBack = round2(Math.max(0, Math.min(amount, Number(seller?.wallet_balance ?? 0))));
+  if (clawedBack > 0) {
+    await postJournalEntry(client, {
+      description,
+      referenceId: txn.id,
+      referenceType: 'transaction',
+      lines: [
+        { account: userWallet(txn.seller_id), amount: -clawedBack },
+        { account: systemAccount('escrow'), amount: clawedBack },
+      ],
+    });
+  }
+  return { clawedBack, shortfall: round2(amount - clawedBack) };
+}
+
+/**
+ * Settles a post-release claim: `buyerShare` of the claim goes to the buyer's
+ * wallet and what was clawed back beyond that returns to the seller. If the
+ * buyer is owed more than was clawed back, the rest is collected from the
+ * seller's wallet now, and anything the seller still can't cover is paid by
+ * the platform. Returns what the buyer received.
+ */
+export async function settleClaim(
+  client: DbClient,
+  txn: Pick<Transaction, 'id' | 'buyer_id' | 'seller_id'>,
+  buyerShare: number,
+  description: string,
+): Promise<number> {
+  const held = await heldInEscrow(client, txn.id);
+  const fromEscrow = round2(Math.min(buyerShare, held));
+  let collected = 0;
+  if (buyerShare > fromEscrow) {
+    const seller = await client.queryOne<{ wallet_balance: string }>(
+      'SELECT wallet_balance FROM users WHERE id = $1 FOR UPDATE',
+      [txn.seller_id],
+    );
+    collected = round2(Math.max(0, Math.min(buyerShare - fromEscrow, Number(seller?.wallet_balance ?? 0))));
+  }
+  const covered = round2(buyerShare - fromEscrow - collected);
+  const toSeller = round2(held - fromEscrow - collected);
+
+  const lines: JournalLine[] = [];
+  if (held > 0) lines.push({ account: systemAccount('escrow'), amount: -held });
+  if (buyerShare > 0) lines.push({ account: userWallet(txn.buyer_id), amount: round2(buyerShare) });
+  if (toSeller !== 0) lines.push({ account: userWallet(txn.seller_id), amount: toSeller });
+  if (covered > 0) lines.push({ account: systemAccount('platform_fees'), amount: -covered });
+  if (lines.length > 1) {
+    await postJournalEntry(client, { description, referenceId: txn.id, referenceType: 'transaction', lines });
+  }
+  return round2(buyerShare);
+}
+
+export async function releaseTransaction(
+  transactionId: string,
+  opts: { resolution?: 'resolved_seller'; actorId?: string } = {},
+): Promise<SettlementResult | null> {
+  return withTransaction((client) => settleRelease(client, transactionId, opts));
+}
+
+export async function refundTransaction(
+  transactionId: string,
+  opts: { resolution?: 'resolved_buyer'; actorId?: string } = {},
+): Promise<SettlementResult | null> {
+  return withTransaction((client) => settleRefund(client, transactionId, opts));
+}
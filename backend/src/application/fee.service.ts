@@ -0,0 +1,148 @@
+/**
+ * Commission engine — single source of truth for platform_fee / seller_receives.
+ *
+ * The commission rate comes from the listing's category, inherited up the
+ * parent_id chain, falling back to config.platform.feePercent. The resulting
+ * fee is clamped to the configured min/max and split between buyer and seller.
+ * A promo discount is absorbed by the platform: it lowers what the buyer pays
+ * and the platform's take, never the seller's share. Premium sellers pay a
+ * reduced rate (see SUBSCRIPTION_PLANS).
+ */
+
+import { query, queryOne, DbClient } from '../infrastructure/database/pool';
+import { config } from '../config';
+import { getSellerPlan, PlanType } from './subscription.service';
+
+export interface FeePolicy {
+  commissionRate: number;
+  /** Fraction of the fee charged to the buyer (0–1); the seller pays the rest */
+  buyerShare: number;
+  minFee: number;
+  /** 0 = uncapped */
+  maxFee: number;
+}
+
+export interface FeeBreakdown {
+  price: number;
+  category_id: number | null;
+  commission_rate: number;
+  commission_source: 'category' | 'default';
+  seller_plan?: PlanType;
+  gross_fee: number;
+  buyer_fee: number;
+  seller_fee: number;
+  promo_discount: number;
+  platform_fee: number;
+  buyer_pays: number;
+  seller_receives: number;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function defaultFeePolicy(commissionRate: number = config.platform.feePercent): FeePolicy {
+  return {
+    commissionRate,
+    buyerShare: config.platform.buyerFeeShare,
+    minFee: config.platform.minFeeEgp,
+    maxFee: config.platform.maxFeeEgp,
+  };
+}
+
+/** Pure calculation — buyer_pays always equals seller_receives + platform_fee. */
+export function calculateFees(
+  price: number,
+  policy: FeePolicy,
+  promoDiscount = 0,
+): Omit<FeeBreakdown, 'category_id' | 'commission_source'> {
+  let grossFee = round2(price * policy.commissionRate);
+  if (grossFee < policy.minFee) grossFee = policy.minFee;
+  if (policy.maxFee > 0 && grossFee > policy.maxFee) grossFee = policy.maxFee;
+  grossFee = Math.min(round2(grossFee), price);
+
+  const buyerShare = Math.min(Math.max(policy.buyerShare, 0), 1);
+  const buyerFee = round2(grossFee * buyerShare);
+  const sellerFee = round2(grossFee - buyerFee);
+
+  const discount = round2(Math.min(Math.max(promoDiscount, 0), price + buyerFee));
+  const buyerPays = round2(price + buyerFee - discount);
+  const sellerReceives = round2(price - sellerFee);
+
+  return {
+    price: round2(price),
+    commission_rate: policy.commissionRate,
+    gross_fee: grossFee,
+    buyer_fee: buyerFee,
+    seller_fee: sellerFee,
+    promo_discount: discount,
+    platform_fee: round2(buyerPays - sellerReceives),
+    buyer_pays: buyerPays,
+    seller_receives: sellerReceives,
+  };
+}
+
+/**
+ * Re-prices a recorded breakdown with a promo discount. Commission and the
+ * seller's share are unchanged; the discount comes out of what the buyer pays
+ * and therefore out of the platform fee (which may go negative).
+ */
+export function applyPromoDiscount<T extends Omit<FeeBreakdown, 'category_id' | 'commission_source'>>(
+  breakdown: T,
+  promoDiscount: number,
+): T {
+  const price = Number(breakdown.price);
+  const buyerFee = Number(breakdown.buyer_fee);
+  const sellerReceives = Number(breakdown.seller_receives);
+  const discount = round2(Math.min(Math.max(promoDiscount, 0), price + buyerFee));
+  const buyerPays = round2(price + buyerFee - discount);
+  return {
+    ...breakdown,
+    promo_discount: discount,
+    buyer_pays: buyerPays,
+    platform_fee: round2(buyerPays - sellerReceives),
+  };
+}
+
+/** Nearest non-null commission_rate walking up the category tree. */
+export async function resolveCommissionRate(
+  categoryId: number | null,
+  client: DbClient = { query, queryOne },
+): Promise<{ rate: number; source: 'category' | 'default' }> {
+  if (categoryId) {
+    const row = await client.queryOne<{ commission_rate: string }>(
+      `WITH RECURSIVE chain AS (
+         SELECT id, parent_id, commission_rate, 0 AS depth FROM categories WHERE id = $1
+         UNION ALL
+         SELECT c.id, c.parent_id, c.commission_rate, chain.depth + 1
+         FROM categories c JOIN chain ON c.id = chain.parent_id
+         WHERE chain.depth < 10
+       )
+       SELECT commission_rate FROM chain
+       WHERE commission_rate IS NOT NULL
+       ORDER BY depth LIMIT 1`,
+      [categoryId],
+    );
+    if (row) return { rate: Number(row.commission_rate), source: 'category' };
+  }
+  return { rate: config.platform.feePercent, source: 'default' };
+}
+
+/** Fee quote for selling a listing at the given price. */
+export async function quoteListingFees(
+  listingId: string,
+  price: number,
+  opts: { promoDiscount?: number; client?: DbClient } = {},
+): Promise<FeeBreakdown> {
+  const client = opts.client ?? { query, queryOne };
+  const listing = await client.queryOne<{ category_id: number | null; seller_id: string }>(
+    'SELECT category_id, seller_id FROM listings WHERE id = $1',
+    [listingId],
+  );
+  const categoryId = listing?.category_id ?? null;
+  const { rate, source } = await resolveCommissionRate(categoryId, client);
+  const { plan, benefits } = listing
+    ? await getSellerPlan(listing.seller_id, client)
+    : { plan: 'free' as const, benefits: { commissionMultiplier: 1 } };
+  const planRate = Math.round(rate * benefits.commissionMultiplier * 10000) / 10000;
+  const fees = calculateFees(price, defaultFeePolicy(planRate), opts.promoDiscount ?? 0);
+  return { ...fees, category_id: categoryId, commission_source: source, seller_plan: plan };
+}
@@ -0,0 +1,298 @@
+/**
+ * Double-entry wallet ledger.
+ *
+ * Every money movement is a single journal entry made of postings that sum to
+ * zero. A positive posting increases the account's balance, a negative one
+ * decreases it. users.wallet_balance is a cache of the user's wallet account
+ * and is updated in the same DB transaction as the postings, together with the
+ * user-facing wallet_transactions history row.
+ */
+
+import { query, withTransaction, DbClient } from '../infrastructure/database/pool';
+import { AppError } from './auth.service';
+
+// ─── Accounts ────────────────────────────────────────────
+
+export type SystemAccountCode =
+  | 'escrow' | 'platform_fees' | 'payouts_in_flight' | 'external_funds' | 'promotions' | 'shipping';
+
+/**
+ * user_credits holds promotional (referral) credit. It is spendable on the
+ * platform but kept apart from user_wallet, which is the only account a user
+ * can withdraw from.
+ */
+export type LedgerAccount =
+  | { kind: 'system'; code: SystemAccountCode }
+  | { kind: 'user_wallet'; userId: string }
+  | { kind: 'user_credits'; userId: string };
+
+export const systemAccount = (code: SystemAccountCode): LedgerAccount => ({ kind: 'system', code });
+export const userWallet = (userId: string): LedgerAccount => ({ kind: 'user_wallet', userId });
+export const userCredits = (userId: string): LedgerAccount => ({ kind: 'user_credits', userId });
+
+function accountKey(account: LedgerAccount): string {
+  return account.kind === 'system' ? `system:${account.code}` : `${account.kind}:${account.userId}`;
+}
+
+/** System accounts are created once and never change, so their ids are kept for the process. */
+const systemAccountIds = new Map<string, string>();
+
+/**
+ * Finds or creates the account without locking its row: every posting goes
+ * through escrow or platform_fees, so a row lock there would queue all money
+ * movement behind one another.
+ */
+async function resolveAccountId(client: DbClient, account: LedgerAccount): Promise<string> {
+  const key = accountKey(account);
+  const cached = systemAccountIds.get(key);
+  if (cached) return cached;
+
+  const find = () => client.queryOne<{ id: string }>('SELECT id FROM ledger_accounts WHERE account_key = $1', [key]);
+  const row = await find()
+    ?? await client.queryOne<{ id: string }>(
+      `INSERT INTO ledger_accounts (account_key, kind, user_id) VALUES ($1, $2, $3)
+       ON CONFLICT (account_key) DO NOTHING RETURNING id`,
+      [key, account.kind, account.kind === 'system' ? null : account.userId],
+    )
+    // Created by a concurrent transaction between our select and insert
+    ?? await find();
+  if (!row) throw new Error(`Ledger account ${key} could not be resolved`);
+  if (account.kind === 'system') systemAccountIds.set(key, row.id);
+  return row.id;
+}
+
+/**
+ * Locks every user the entry touches, in id order, before any balance
+ * changes — so two entries touching the same users (a payment and a release,
+ * say) can't each hold one user's lock while waiting for the other's.
+ */
+async function lockUsers(client: DbClient, lines: JournalLine[]): Promise<void> {
+  const userIds = [...new Set(lines.flatMap((l) => (l.account.kind === 'system' ? [] : [l.account.userId])))].sort();
+  if (userIds.length === 0) return;
+  await client.query('SELECT id FROM users WHERE id = ANY($1::uuid[]) ORDER BY id FOR UPDATE', [userIds]);
+}
+
+// ─── Journal entries ─────────────────────────────────────
+
+export type WalletTxType = 'credit' | 'debit' | 'fee' | 'withdrawal' | 'referral_bonus' | 'promo_credit';
+export type WalletTxStatus = 'pending' | 'completed' | 'failed' | 'cancelled';
+export type CreditTxType = 'earned' | 'spent' | 'expired' | 'refunded';
+
+export interface JournalLine {
+  account: LedgerAccount;
+  amount: number;
+  /** History row type for user wallet lines (defaults to credit/debit by sign) */
+  historyType?: WalletTxType;
+  /** History row type for user credit lines (defaults to earned/spent by sign) */
+  creditHistoryType?: CreditTxType;
+  historyStatus?: WalletTxStatus;
+}
+
+export interface JournalEntryInput {
+  description: string;
+  referenceId?: string | null;
+  referenceType?: string | null;
+  lines: JournalLine[];
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/** Throws unless the lines are non-empty, non-zero and sum to zero. */
+export function assertBalanced(lines: JournalLine[]): void {
+  if (lines.length < 2) throw new AppError('Journal entry needs at least two postings', 500);
+  if (lines.some((l) => !Number.isFinite(l.amount) || toCents(l.amount) === 0)) {
+    throw new AppError('Journal postings must be non-zero amounts', 500);
+  }
+  const total = lines.reduce((sum, l) => sum + toCents(l.amount), 0);
+  if (total !== 0) throw new AppError('Journal entry does not balance', 500);
+}
+
+/**
+ * Posts one balanced journal entry using the given transaction client.
+ * User wallets and credit accounts are locked (see lockUsers), checked for
+ * sufficient funds on debit, and have their cached balance and history
+ * updated before the caller commits.
+ */
+export async function postJournalEntry(client: DbClient, entry: JournalEntryInput): Promise<string> {
+  assertBalanced(entry.lines);
+  await lockUsers(client, entry.lines);
+
+  const [{ id: entryId }] = await client.query<{ id: string }>(
+    `INSERT INTO ledger_entries (description, reference_id, reference_type)
+     VALUES ($1, $2, $3) RETURNING id`,
+    [entry.description, entry.referenceId ?? null, entry.referenceType ?? null],
+  );
+
+  for (const line of entry.lines) {
+    const amount = toCents(line.amount) / 100;
+    const accountId = await resolveAccountId(client, line.account);
+    await client.query(
+      `INSERT INTO ledger_postings (entry_id, account_id, amount) VALUES ($1, $2, $3)`,
+      [entryId, accountId, amount],
+    );
+
+    if (line.account.kind === 'user_wallet') {
+      await applyWalletLine(client, entryId, entry, line, line.account.userId, amount);
+    } else if (line.account.kind === 'user_credits') {
+      await applyCreditLine(client, entryId, entry, line, line.account.userId, amount);
+    }
+  }
+
+  return entryId;
+}
+
+async function applyWalletLine(
+  client: DbClient,
+  entryId: string,
+  entry: JournalEntryInput,
+  line: JournalLine,
+  userId: string,
+  amount: number,
+): Promise<void> {
+  const user = await client.queryOne<{ wallet_balance: string }>(
+    'SELECT wallet_balance FROM users WHERE id = $1 FOR UPDATE',
+    [userId],
+  );
+  if (!user) throw new AppError('User not found', 404);
+  if (amount < 0 && Number(user.wallet_balance) + amount < 0) {
+    throw new AppError('Insufficient wallet balance', 400);
+  }
+
+  const [updated] = await client.query<{ wallet_balance: string }>(
+    'UPDATE users SET wallet_balance = wallet_balance + $1 WHERE id = $2 RETURNING wallet_balance',
+    [amount, userId],
+  );
+
+  await client.query(
+    `INSERT INTO wallet_transactions
+       (user_id, type, amount, balance_after, description, reference_id, reference_type, status, journal_entry_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+    [
+      userId,
+      line.historyType ?? (amount > 0 ? 'credit' : 'debit'),
+      Math.abs(amount),
+      updated.wallet_balance,
+      entry.description,
+      entry.referenceId ?? null,
+      entry.referenceType ?? null,
+      line.historyStatus ?? 'completed',
+      entryId,
+    ],
+  );
+}
+
+async function applyCreditLine(
+  client: DbClient,
+  entryId: string,
+  entry: JournalEntryInput,
+  line: JournalLine,
+  userId: string,
+  amount: number,
+): Promise<void> {
+  const user = await client.queryOne<{ referral_credits: string }>(
+    'SELECT referral_credits FROM users WHERE id = $1 FOR UPDATE',
+    [userId],
+  );
+  if (!user) throw new AppError('User not found', 404);
+  if (amount < 0 && Number(user.referral_credits ?? 0) + amount < 0) {
+    throw new AppError('Insufficient credits', 400);
+  }
+
+  const [updated] = await client.query<{ referral_credits: string }>(
+    'UPDATE users SET referral_credits = COALESCE(referral_credits, 0) + $1 WHERE id = $2 RETURNING referral_credits',
+    [amount, userId],
+  );
+
+  await client.query(
+    `INSERT INTO credit_transactions
+       (user_id, type, amount, balance_after, description, reference_id, reference_type, journal_entry_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+    [
+      userId,
+      line.creditHistoryType ?? (amount > 0 ? 'earned' : 'spent'),
+      Math.abs(amount),
+      updated.referral_credits,
+      entry.description,
+      entry.referenceId ?? null,
+      entry.referenceType ?? null,
+      entryId,
+    ],
+  );
+}
+
+/** Convenience wrapper for callers that are not already inside a DB transaction. */
+export async function postJournal(entry: JournalEntryInput): Promise<string> {
+  return withTransaction((client) => postJournalEntry(client, entry));
+}
+
+// ─── Reconciliation ──────────────────────────────────────
+
+export interface WalletDrift {
+  user_id: string;
+  wallet_balance: number;
+  ledger_balance: number;
+  drift: number;
+}
+
+export interface ReconciliationReport {
+  checked_at: string;
+  wallet_drift: WalletDrift[];
+  credit_drift: WalletDrift[];
+  unbalanced_entries: string[];
+  system_balances: Record<string, number>;
+}
+
+/** Compares every cached users.wallet_balance against the journal. Read-only. */
+export async function reconcileLedger(): Promise<ReconciliationReport> {
+  const drift = await query<{ user_id: string; wallet_balance: string; ledger_balance: string }>(
+    `SELECT u.id AS user_id,
+            COALESCE(u.wallet_balance, 0) AS wallet_balance,
+            COALESCE(SUM(p.amount), 0) AS ledger_balance
+     FROM users u
+     LEFT JOIN ledger_accounts a ON a.account_key = 'user_wallet:' || u.id
+     LEFT JOIN ledger_postings p ON p.account_id = a.id
+     GROUP BY u.id, u.wallet_balance
+     HAVING COALESCE(u.wallet_balance, 0) <> COALESCE(SUM(p.amount), 0)`,
+  );
+
+  const creditDrift = await query<{ user_id: string; referral_credits: string; ledger_balance: string }>(
+    `SELECT u.id AS user_id,
+            COALESCE(u.referral_credits, 0) AS referral_credits,
+            COALESCE(SUM(p.amount), 0) AS ledger_balance
+     FROM users u
+     LEFT JOIN ledger_accounts a ON a.account_key = 'user_credits:' || u.id
+     LEFT JOIN ledger_postings p ON p.account_id = a.id
+     GROUP BY u.id, u.referral_credits
+     HAVING COALESCE(u.referral_credits, 0) <> COALESCE(SUM(p.amount), 0)`,
+  );
+
+  const unbalanced = await query<{ entry_id: string }>(
+    `SELECT entry_id FROM ledger_postings GROUP BY entry_id HAVING SUM(amount) <> 0`,
+  );
+
+  const system = await query<{ account_key: string; balance: string }>(
+    `SELECT a.account_key, COALESCE(SUM(p.amount), 0) AS balance
+     FROM ledger_accounts a
+     LEFT JOIN ledger_postings p ON p.account_id = a.id
+     WHERE a.kind = 'system'
+     GROUP BY a.account_key`,
+  );
+
+  return {
+    checked_at: new Date().toISOString(),
+    wallet_drift: drift.map((d) => ({
+      user_id: d.user_id,
+      wallet_balance: Number(d.wallet_balance),
+      ledger_balance: Number(d.ledger_balance),
+      drift: Math.round((Number(d.wallet_balance) - Number(d.ledger_balance)) * 100) / 100,
+    })),
+    credit_drift: creditDrift.map((d) => ({
+      user_id: d.user_id,
+      wallet_balance: Number(d.referral_credits),
+      ledger_balance: Number(d.ledger_balance),
+      drift: Math.round((Number(d.referral_credits) - Number(d.ledger_balance)) * 100) / 100,
+    })),
+    unbalanced_entries: unbalanced.map((u) => u.entry_id),
+    system_balances: Object.fromEntries(system.map((s) => [s.account_key, Number(s.balance)])),
+  };
+}
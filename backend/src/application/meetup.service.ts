@@ -0,0 +1,177 @@
+/**
+ * Cash meetups. Nothing sits in escrow for a cash deal, so the handover
+ * itself is what needs proving: the buyer's app shows a one-time 6-digit
+ * code (also as a QR code) and the seller enters or scans it at the meetup.
+ * A correct code hands the item over and completes the transaction in one
+ * step. Too many wrong guesses burn the code; the buyer gets a fresh one.
+ *
+ * Both parties can also be offered a busy public place roughly halfway
+ * between the buyer and the item to meet at.
+ */
+
+import { randomInt, timingSafeEqual } from 'crypto';
+import { query, queryOne, withTransaction } from '../infrastructure/database/pool';
+import type { Transaction } from '../domain/entities';
+import { AppError } from './auth.service';
+import { settleRelease, SettlementResult } from './escrow.service';
+import { transitionTransaction } from './transaction.service';
+
+export const HANDOVER_CODE_MAX_ATTEMPTS = 5;
+/** Spots further than this from the midpoint are not worth suggesting */
+export const MEETING_SPOT_MAX_DISTANCE_M = 15_000;
+
+/** Prefix of the QR payload, so the scanner can tell a handover code from any other QR */
+const QR_PREFIX = 'kaero-handover';
+
+export interface HandoverCode {
+  code: string;
+  qr_payload: string;
+}
+
+export interface MeetingSpot {
+  id: number;
+  name: string;
+  name_ar: string | null;
+  kind: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+  distance_m: number;
+}
+
+type Parties = Pick<Transaction, 'buyer_id' | 'seller_id'>;
+
+function assertCashMeetup(txn: Transaction): void {
+  if (txn.payment_method !== 'cash') throw new AppError('Handover codes are only used for cash deals', 400);
+  if (txn.status !== 'paid' || txn.payment_status !== 'held') {
+    throw new AppError('This transaction is not waiting for a handover', 400);
+  }
+  if (txn.dispute_status !== 'none') throw new AppError('This transaction has an open dispute', 409);
+}
+
+function sameCode(a: string, b: string): boolean {
+  return a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+/** Buyer's code for the meetup, created the first time it is asked for. */
+export async function getHandoverCode(transactionId: string, buyerId: string): Promise<HandoverCode> {
+  return withTransaction(async (client) => {
+    const txn = await client.queryOne<Transaction>('SELECT * FROM transactions WHERE id = $1 FOR UPDATE', [transactionId]);
+    if (!txn) throw new AppError('Transaction not found', 404);
+    if (txn.buyer_id !== buyerId) throw new AppError('Only the buyer can see the handover code', 403);
+    assertCashMeetup(txn);
+
+    const [row] = await client.query<{ code: string }>(
+      `INSERT INTO transaction_handover_codes (transaction_id, code) VALUES ($1, $2)
+       ON CONFLICT (transaction_id) DO UPDATE SET code = transaction_handover_codes.code
+       RETURNING code`,
+      [transactionId, String(randomInt(0, 1_000_000)).padStart(6, '0')],
+    );
+    return { code: row.code, qr_payload: `${QR_PREFIX}:${transactionId}:${row.code}` };
+  });
+}
+
+/**
+ * Seller enters or scans the buyer's code. Accepts the raw 6 digits or the
+ * QR payload. Wrong codes are counted outside the error path, so the count
+ * survives the request failing.
+ */
+export async function redeemHandoverCode(
+  transactionId: string,
+  sellerId: string,
+  input: string,
+): Promise<SettlementResult> {
+  const code = input.startsWith(`${QR_PREFIX}:`) ? input.split(':')[2] ?? '' : input.trim();
+
+  const outcome = await withTransaction(async (client) => {
+    const txn = await client.queryOne<Transaction>('SELECT * FROM transactions WHERE id = $1 FOR UPDATE', [transactionId]);
+    if (!txn) throw new AppError('Transaction not found', 404);
+    if (txn.seller_id !== sellerId) throw new AppError('Only the seller can enter the handover code', 403);
+    assertCashMeetup(txn);
+
+    const issued = await client.queryOne<{ code: string; failed_attempts: number }>(
+      'SELECT code, failed_attempts FROM transaction_handover_codes WHERE transaction_id = $1 FOR UPDATE',
+      [transactionId],
+    );
+    if (!issued) throw new AppError('Ask the buyer to open their handover code first', 400);
+
+    if (!sameCode(issued.code, code)) {
+      if (issued.failed_attempts + 1 >= HANDOVER_CODE_MAX_ATTEMPTS) {
+        await client.query('DELETE FROM transaction_handover_codes WHERE transaction_id = $1', [transactionId]);
+        return { ok: false as const, burned: true };
+      }
+      await client.query(
+        'UPDATE transaction_handover_codes SET failed_attempts = failed_attempts + 1 WHERE transaction_id = $1',
+        [transactionId],
+      );
+      return { ok: false as const, burned: false };
+    }
+
+    await client.query('DELETE FROM transaction_handover_codes WHERE transaction_id = $1', [transactionId]);
+    await transitionTransaction(client, txn, 'handed_over', sellerId, 'handover_code');
+    await client.query('UPDATE transactions SET seller_confirmation = TRUE WHERE id = $1', [transactionId]);
+    const settled = await settleRelease(client, transactionId, { actorId: sellerId, reason: 'handover_code' });
+    if (!settled) throw new AppError('Transaction cannot be settled', 409);
+    return { ok: true as const, settled };
+  });
+
+  if (!outcome.ok) {
+    throw new AppError(
+      outcome.burned
+        ? 'Too many wrong codes. Ask the buyer to open a new handover code.'
+        : "That code doesn't match. Check it with the buyer and try again.",
+      400,
+    );
+  }
+  return outcome.settled;
+}
+
+/**
+ * The safe public spot nearest the midpoint between the buyer and the item.
+ * Null when the buyer has no location or nothing is close enough.
+ */
+export async function suggestMeetingSpot(transactionId: string, userId: string): Promise<MeetingSpot | null> {
+  const txn = await queryOne<Parties>('SELECT buyer_id, seller_id FROM transactions WHERE id = $1', [transactionId]);
+  if (!txn) throw new AppError('Transaction not found', 404);
+  if (txn.buyer_id !== userId && txn.seller_id !== userId) throw new AppError('Forbidden', 403);
+
+  return queryOne<MeetingSpot>(
+    `WITH midpoint AS (
+       SELECT ST_Centroid(ST_Collect(buyer.location::geometry, l.location::geometry))::geography AS point
+       FROM transactions t
+       JOIN users buyer ON buyer.id = t.buyer_id
+       JOIN listings l ON l.id = t.listing_id
+       WHERE t.id = $1 AND buyer.location IS NOT NULL
+     )
+     SELECT s.id, s.name, s.name_ar, s.kind, s.address,
+       ST_Y(s.location::geometry) AS lat,
+       ST_X(s.location::geometry) AS lng,
+       ROUND(ST_Distance(s.location, m.point))::int AS distance_m
+     FROM midpoint m
+     JOIN safe_meeting_spots s ON s.is_active AND ST_DWithin(s.location, m.point, $2)
+     ORDER BY s.location <-> m.point
+     LIMIT 1`,
+    [transactionId, MEETING_SPOT_MAX_DISTANCE_M],
+  );
+}
+
+/** Either party picks a spot; the other sees it on the transaction. */
+export async function setMeetingSpot(transactionId: string, userId: string, spotId: number): Promise<Transaction> {
+  const txn = await queryOne<Parties & Pick<Transaction, 'status'>>('SELECT buyer_id, seller_id, status FROM transactions WHERE id = $1', [transactionId]);
+  if (!txn) throw new AppError('Transaction not found', 404);
+  if (txn.buyer_id !== userId && txn.seller_id !== userId) throw new AppError('Forbidden', 403);
+  if (!['awaiting_payment', 'paid'].includes(txn.status)) {
+    throw new AppError('The meeting point can only be changed before the handover', 400);
+  }
+
+  const [updated] = await query<Transaction>(
+    `UPDATE transactions t SET meeting_location = s.location,
+       meeting_address = s.name || COALESCE(', ' || s.address, '')
+     FROM safe_meeting_spots s
+     WHERE t.id = $1 AND s.id = $2 AND s.is_active
+     RETURNING t.*`,
+    [transactionId, spotId],
+  );
+  if (!updated) throw new AppError('Meeting spot not found', 404);
+  return updated;
+}
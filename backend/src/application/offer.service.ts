@@ -0,0 +1,647 @@
+/**
+ * Offer negotiation — the round-by-round history behind an offer.
+ *
+ * Every proposal is an offer_rounds row. The buyer's initial offer is round 1;
+ * after that buyer and seller take turns countering, up to
+ * config.offers.maxRounds. Only the latest round is open and it expires after
+ * the listing's offer window (offer_window_hours, defaulting to
+ * config.offers.roundExpiryHours). The offers row mirrors the negotiation for
+ * existing clients: 'pending' while the seller must respond (offered_price is
+ * the buyer's latest), 'countered' while the buyer must respond (counter_price
+ * is the seller's latest).
+ *
+ * This module is also the offer state machine: every status change goes
+ * through OFFER_TRANSITIONS. Accepting locks the listing row before the offer
+ * row (the same order Buy Now and swaps use), and a unique index on live
+ * transactions backs that up so a listing never ends up with two open deals.
+ */
+
+import { query, queryOne, withTransaction, DbClient } from '../infrastructure/database/pool';
+import { config } from '../config';
+import { AppError } from './auth.service';
+import { quoteListingFees } from './fee.service';
+import type { OfferStatus, Transaction } from '../domain/entities';
+import { notifyOfferExpired, notifyOfferExpiring } from '../infrastructure/notifications/push';
+import { logger } from '../infrastructure/logging/logger';
+
+export type NegotiationRole = 'buyer' | 'seller';
+export type RoundStatus = 'open' | 'countered' | 'accepted' | 'rejected' | 'withdrawn' | 'expired';
+
+export interface OfferRound {
+  id: string;
+  offer_id: string;
+  round_number: number;
+  proposed_by: string;
+  proposer_role: NegotiationRole;
+  price: string;
+  message: string | null;
+  status: RoundStatus;
+  expires_at: Date;
+  responded_at: Date | null;
+  is_automatic: boolean;
+  created_at: Date;
+}
+
+interface NegotiatedOffer {
+  id: string;
+  listing_id: string;
+  buyer_id: string;
+  seller_id: string;
+  status: OfferStatus;
+  offered_price: string;
+  counter_price: string | null;
+  round_count: number;
+  is_exchange_proposal: boolean;
+  expires_at: Date;
+  user_edited_title: string;
+  offer_window_hours: number | null;
+  auto_response: 'accepted' | 'declined' | 'countered' | null;
+}
+
+/** When a round opened now closes, given the listing's offer window. */
+const roundExpiry = (windowHours?: number | null) =>
+  new Date(Date.now() + (windowHours ?? config.offers.roundExpiryHours) * 3600_000);
+
+/**
+ * Recomputes offer_count — the number of offers still being negotiated — for
+ * the given listings. Called wherever offers enter or leave negotiation.
+ */
+export async function syncOfferCounts(client: DbClient, listingIds: string[]): Promise<void> {
+  if (listingIds.length === 0) return;
+  await client.query(
+    `UPDATE listings l SET offer_count = (
+       SELECT COUNT(*) FROM offers o WHERE o.listing_id = l.id AND o.status IN ('pending','countered')
+     )
+     WHERE l.id = ANY($1::uuid[])`,
+    [[...new Set(listingIds)]],
+  );
+}
+
+// ─── State machine ───────────────────────────────────────
+
+/** Allowed offer status changes; accepted, rejected and expired are final. */
+export const OFFER_TRANSITIONS: Record<OfferStatus, readonly OfferStatus[]> = {
+  pending: ['countered', 'accepted', 'rejected', 'expired'],
+  countered: ['pending', 'accepted', 'rejected', 'expired'],
+  accepted: [],
+  rejected: [],
+  expired: [],
+};
+
+export function canTransition(from: string, to: OfferStatus): boolean {
+  return (OFFER_TRANSITIONS[from as OfferStatus] ?? []).includes(to);
+}
+
+export function assertTransition(from: string, to: OfferStatus): void {
+  if (!canTransition(from, to)) {
+    throw new AppError(`Offer is already ${from} and can no longer be ${to === 'pending' ? 'countered' : to}.`, 400);
+  }
+}
+
+/** Whose move it is, or null once the negotiation is over. */
+export function awaitingRole(status: string): NegotiationRole | null {
+  if (status === 'pending') return 'seller';
+  if (status === 'countered') return 'buyer';
+  return null;
+}
+
+/** Records the buyer's initial offer as round 1 and aligns the offer's expiry with it. */
+export async function openFirstRound(
+  client: DbClient,
+  offer: { id: string; listing_id: string; buyer_id: string; offered_price: number | string; message?: string | null },
+): Promise<OfferRound> {
+  const listing = await client.queryOne<{ offer_window_hours: number | null }>(
+    'SELECT offer_window_hours FROM listings WHERE id = $1',
+    [offer.listing_id],
+  );
+  const expiresAt = roundExpiry(listing?.offer_window_hours);
+  const [round] = await client.query<OfferRound>(
+    `INSERT INTO offer_rounds (offer_id, round_number, proposed_by, proposer_role, price, message, expires_at)
+     VALUES ($1, 1, $2, 'buyer', $3, $4, $5) RETURNING *`,
+    [offer.id, offer.buyer_id, offer.offered_price, offer.message ?? null, expiresAt],
+  );
+  await client.query('UPDATE offers SET round_count = 1, expires_at = $2 WHERE id = $1', [offer.id, expiresAt]);
+  await syncOfferCounts(client, [offer.listing_id]);
+  return round;
+}
+
+/** Closes the open round of an offer with the response that ended it. */
+export async function closeOpenRound(
+  client: DbClient,
+  offerId: string,
+  status: Exclude<RoundStatus, 'open'>,
+): Promise<void> {
+  await client.query(
+    `UPDATE offer_rounds SET status = $2, responded_at = NOW() WHERE offer_id = $1 AND status = 'open'`,
+    [offerId, status],
+  );
+}
+
+/**
+ * Rejects the open rounds of every other live offer on a listing once one is
+ * accepted — or of all of them when the listing was bought outright (null).
+ */
+export async function rejectCompetingRounds(
+  client: DbClient,
+  listingId: string,
+  acceptedOfferId: string | null,
+): Promise<void> {
+  await client.query(
+    `UPDATE offer_rounds SET status = 'rejected', responded_at = NOW()
+     WHERE status = 'open'
+       AND offer_id IN (SELECT id FROM offers WHERE listing_id = $1 AND id IS DISTINCT FROM $2)`,
+    [listingId, acceptedOfferId],
+  );
+}
+
+async function lockOffer(client: DbClient, offerId: string): Promise<NegotiatedOffer> {
+  const offer = await client.queryOne<NegotiatedOffer>(
+    `SELECT o.*, l.seller_id, l.user_edited_title, l.offer_window_hours FROM offers o
+     JOIN listings l ON l.id = o.listing_id
+     WHERE o.id = $1 FOR UPDATE OF o`,
+    [offerId],
+  );
+  if (!offer) throw new AppError('Offer not found.', 404);
+  return offer;
+}
+
+function roleOf(offer: NegotiatedOffer, userId: string): NegotiationRole {
+  if (offer.buyer_id === userId) return 'buyer';
+  if (offer.seller_id === userId) return 'seller';
+  throw new AppError('Not authorized.', 403);
+}
+
+/** The caller must be the party the open round is waiting on, before it expires. */
+function assertTurn(offer: NegotiatedOffer, role: NegotiationRole): void {
+  const turn = awaitingRole(offer.status);
+  if (!turn) throw new AppError('Offer is no longer open for negotiation.', 400);
+  if (turn !== role) throw new AppError("It's the other party's turn to respond.", 400);
+  if (offer.expires_at && new Date(offer.expires_at) < new Date()) {
+    throw new AppError('This offer has expired.', 400);
+  }
+}
+
+/**
+ * Locks a listing for a sale. Every path that turns a listing into a deal
+ * (offer acceptance, Buy Now, swaps) takes this lock first, so concurrent
+ * deals on one listing queue up here and the losers see it reserved.
+ */
+export async function lockListingForSale<T = { id: string; seller_id: string; status: string }>(
+  client: DbClient,
+  listingId: string,
+  columns = 'id, seller_id, status',
+): Promise<T & { status: string }> {
+  const listing = await client.queryOne<T & { status: string }>(
+    `SELECT ${columns} FROM listings WHERE id = $1 FOR UPDATE`,
+    [listingId],
+  );
+  if (!listing) throw new AppError('Listing not found.', 404);
+  if (listing.status !== 'active') throw new AppError('This item is no longer available.', 409);
+  return listing;
+}
+
+/**
+ * Opens the transaction for an agreed deal. A second live transaction for the
+ * same listing violates uq_transactions_live_listing and is reported as a 409.
+ */
+export async function openDealTransaction(
+  client: DbClient,
+  deal: {
+    offerId: string | null;
+    listingId: string;
+    buyerId: string;
+    sellerId: string;
+    price: number;
+    swapId?: string;
+  },
+): Promise<Transaction> {
+  const fees = await quoteListingFees(deal.listingId, deal.price, { client });
+  // A zero-value swap leg has nothing to pay and starts in escrow, paid
+  const prepaid = !!deal.swapId && deal.price <= 0;
+  try {
+    const [transaction] = await client.query<Transaction>(
+      `INSERT INTO transactions
+         (offer_id, listing_id, buyer_id, seller_id, agreed_price, platform_fee, seller_receives, fee_breakdown,
+          swap_id, payment_status, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11) RETURNING *`,
+      [
+        deal.offerId, deal.listingId, deal.buyerId, deal.sellerId, deal.price,
+        fees.platform_fee, fees.seller_receives, JSON.stringify(fees),
+        deal.swapId ?? null,
+        prepaid ? 'held' : 'pending',
+        prepaid ? 'paid' : 'awaiting_payment',
+      ],
+    );
+    return transaction;
+  } catch (err) {
+    if ((err as { code?: string }).code === '23505') throw new AppError('This item is no longer available.', 409);
+    throw err;
+  }
+}
+
+/** Rejects every other live offer on a listing, returning who made them. */
+export async function rejectCompetingOffers(
+  client: DbClient,
+  listingId: string,
+  acceptedOfferId: string | null,
+): Promise<{ id: string; buyer_id: string }[]> {
+  await rejectCompetingRounds(client, listingId, acceptedOfferId);
+  return client.query<{ id: string; buyer_id: string }>(
+    `UPDATE offers SET status = 'rejected'
+     WHERE listing_id = $1 AND id IS DISTINCT FROM $2 AND status IN ('pending','countered')
+     RETURNING id, buyer_id`,
+    [listingId, acceptedOfferId],
+  );
+}
+
+/**
+ * Accepts the open round on the caller's turn: the seller accepts the buyer's
+ * price ('pending'), the buyer accepts the seller's counter ('countered').
+ * Reserves the listing, rejects competing offers and opens the transaction.
+ */
+export async function acceptOffer(
+  offerId: string,
+  userId: string,
+  as: NegotiationRole,
+): Promise<{
+  offer: NegotiatedOffer;
+  transaction: Transaction;
+  rejectedOffers: { id: string; buyer_id: string }[];
+}> {
+  return withTransaction((client) => acceptOpenRound(client, offerId, userId, as));
+}
+
+/** `auto` marks a response given by the seller's offer rules rather than the seller. */
+async function acceptOpenRound(
+  client: DbClient,
+  offerId: string,
+  userId: string,
+  as: NegotiationRole,
+  auto = false,
+): Promise<{ offer: NegotiatedOffer; transaction: Transaction; rejectedOffers: { id: string; buyer_id: string }[] }> {
+  const target = await client.queryOne<{ listing_id: string }>('SELECT listing_id FROM offers WHERE id = $1', [offerId]);
+  if (!target) throw new AppError('Offer not found.', 404);
+
+  // Listing first, then the offer — the lock order every deal path shares
+  await lockListingForSale(client, target.listing_id);
+  const offer = await lockOffer(client, offerId);
+  const role = roleOf(offer, userId);
+  if (role !== as) throw new AppError('Not authorized.', 403);
+  if (offer.is_exchange_proposal) throw new AppError('Swap offers are accepted through the swap flow.', 400);
+  assertTurn(offer, role);
+  assertTransition(offer.status, 'accepted');
+
+  const price = Number(role === 'seller' ? offer.offered_price : offer.counter_price);
+  await closeOpenRound(client, offerId, 'accepted');
+  const rejectedOffers = await rejectCompetingOffers(client, offer.listing_id, offerId);
+  const [updated] = await client.query<NegotiatedOffer>(
+    `UPDATE offers SET status = 'accepted', offered_price = $2, auto_response = COALESCE($3, auto_response)
+     WHERE id = $1 RETURNING *`,
+    [offerId, price, auto ? 'accepted' : null],
+  );
+  await client.query(`UPDATE listings SET status = 'reserved' WHERE id = $1`, [offer.listing_id]);
+  await syncOfferCounts(client, [offer.listing_id]);
+  const transaction = await openDealTransaction(client, {
+    offerId, listingId: offer.listing_id, buyerId: offer.buyer_id, sellerId: offer.seller_id, price,
+  });
+  return { offer: { ...offer, ...updated }, transaction, rejectedOffers };
+}
+
+/** Seller declines the buyer's open proposal. */
+export async function rejectOffer(offerId: string, sellerId: string): Promise<NegotiatedOffer> {
+  return withTransaction((client) => rejectOpenRound(client, offerId, sellerId));
+}
+
+async function rejectOpenRound(
+  client: DbClient,
+  offerId: string,
+  sellerId: string,
+  auto = false,
+): Promise<NegotiatedOffer> {
+  const offer = await lockOffer(client, offerId);
+  if (roleOf(offer, sellerId) !== 'seller') throw new AppError('Not authorized.', 403);
+  if (offer.status !== 'pending') throw new AppError('Offer is no longer pending.', 400);
+  assertTransition(offer.status, 'rejected');
+
+  const [updated] = await client.query<NegotiatedOffer>(
+    `UPDATE offers SET status = 'rejected', auto_response = COALESCE($2, auto_response) WHERE id = $1 RETURNING *`,
+    [offerId, auto ? 'declined' : null],
+  );
+  await closeOpenRound(client, offerId, 'rejected');
+  await syncOfferCounts(client, [offer.listing_id]);
+  return { ...offer, ...updated, status: 'rejected' };
+}
+
+/** Buyer withdraws an offer that is still being negotiated. */
+export async function withdrawOffer(offerId: string, buyerId: string): Promise<NegotiatedOffer> {
+  return withTransaction(async (client) => {
+    const offer = await lockOffer(client, offerId);
+    if (roleOf(offer, buyerId) !== 'buyer') throw new AppError('Not authorized.', 403);
+    if (!canTransition(offer.status, 'rejected')) throw new AppError('Cannot cancel this offer.', 400);
+
+    await client.query(`UPDATE offers SET status = 'rejected' WHERE id = $1`, [offerId]);
+    await closeOpenRound(client, offerId, 'withdrawn');
+    await syncOfferCounts(client, [offer.listing_id]);
+    return { ...offer, status: 'rejected' };
+  });
+}
+
+/**
+ * Proposes a new price on the caller's turn. The previous round is marked
+ * countered and a new open round starts with a fresh expiry.
+ */
+export async function counterOffer(
+  userId: string,
+  offerId: string,
+  price: number,
+  message?: string | null,
+): Promise<{ offer: NegotiatedOffer; round: OfferRound; role: NegotiationRole }> {
+  return withTransaction((client) => counterOpenRound(client, userId, offerId, price, message));
+}
+
+async function counterOpenRound(
+  client: DbClient,
+  userId: string,
+  offerId: string,
+  price: number,
+  message?: string | null,
+  auto = false,
+): Promise<{ offer: NegotiatedOffer; round: OfferRound; role: NegotiationRole }> {
+  const offer = await lockOffer(client, offerId);
+  const role = roleOf(offer, userId);
+  if (offer.is_exchange_proposal) throw new AppError('Swap offers can only be accepted or declined.', 400);
+
+  assertTurn(offer, role);
+  assertTransition(offer.status, role === 'seller' ? 'countered' : 'pending');
+  if (offer.round_count >= config.offers.maxRounds) {
+    throw new AppError(
+      `Negotiation is limited to ${config.offers.maxRounds} rounds — accept or decline the last price.`,
+      400,
+    );
+  }
+
+  await closeOpenRound(client, offerId, 'countered');
+  const expiresAt = roundExpiry(offer.offer_window_hours);
+  const [round] = await client.query<OfferRound>(
+    `INSERT INTO offer_rounds (offer_id, round_number, proposed_by, proposer_role, price, message, expires_at, is_automatic)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+    [offerId, offer.round_count + 1, userId, role, price, message ?? null, expiresAt, auto],
+  );
+
+  const [updated] = await client.query<NegotiatedOffer>(
+    role === 'seller'
+      ? `UPDATE offers SET status = 'countered', counter_price = $2, round_count = $3, expires_at = $4,
+           expiry_reminder_sent_at = NULL, auto_response = COALESCE($5, auto_response)
+         WHERE id = $1 RETURNING *`
+      : `UPDATE offers SET status = 'pending', offered_price = $2, round_count = $3, expires_at = $4,
+           expiry_reminder_sent_at = NULL, auto_response = COALESCE($5, auto_response)
+         WHERE id = $1 RETURNING *`,
+    [offerId, price, round.round_number, expiresAt, auto ? 'countered' : null],
+  );
+  return { offer: { ...offer, ...updated }, round, role };
+}
+
+/**
+ * Posts an offer-type message into the buyer/seller chat for the listing,
+ * opening the chat if they haven't talked yet.
+ */
+export async function postOfferChatMessage(
+  client: DbClient,
+  offer: { id: string; listing_id: string; buyer_id: string; seller_id: string },
+  senderId: string,
+  price: number,
+  content: string,
+): Promise<{ chatId: string; message: Record<string, unknown> }> {
+  let chat = await client.queryOne<{ id: string }>(
+    'SELECT id FROM chats WHERE listing_id = $1 AND buyer_id = $2',
+    [offer.listing_id, offer.buyer_id],
+  );
+  if (!chat) {
+    [chat] = await client.query<{ id: string }>(
+      `INSERT INTO chats (listing_id, buyer_id, seller_id, offer_id) VALUES ($1, $2, $3, $4) RETURNING id`,
+      [offer.listing_id, offer.buyer_id, offer.seller_id, offer.id],
+    );
+  }
+  const [message] = await client.query<Record<string, unknown>>(
+    `INSERT INTO messages (chat_id, sender_id, message_type, content, offer_amount)
+     VALUES ($1, $2, 'offer', $3, $4) RETURNING *`,
+    [chat.id, senderId, content, price],
+  );
+  await client.query('UPDATE chats SET last_message_at = NOW() WHERE id = $1', [chat.id]);
+  return { chatId: chat.id, message };
+}
+
+interface ExpiringOffer {
+  id: string;
+  listing_id: string;
+  buyer_id: string;
+  seller_id: string;
+  status: 'pending' | 'countered';
+  user_edited_title: string;
+}
+
+/**
+ * Reminds buyers that an open round is about to run out — their own offer
+ * waiting on the seller, or a seller counter waiting on them. One reminder
+ * per round; rounds shorter than the reminder lead time get none.
+ */
+export async function sendOfferExpiryReminders(): Promise<number> {
+  const hours = config.offers.reminderHours;
+  const due = await query<ExpiringOffer>(
+    `UPDATE offers o SET expiry_reminder_sent_at = NOW()
+     FROM listings l, offer_rounds r
+     WHERE l.id = o.listing_id
+       AND r.offer_id = o.id AND r.status = 'open'
+       AND o.status IN ('pending','countered')
+       AND o.expiry_reminder_sent_at IS NULL
+       AND o.expires_at > NOW()
+       AND o.expires_at <= NOW() + make_interval(hours => $1)
+       AND r.created_at < o.expires_at - make_interval(hours => $1)
+     RETURNING o.id, o.listing_id, o.buyer_id, l.seller_id, o.status, l.user_edited_title`,
+    [hours],
+  );
+  for (const offer of due) {
+    notifyOfferExpiring(offer.buyer_id, offer.status === 'countered', offer.user_edited_title, hours, offer.listing_id, offer.id)
+      .catch((err) => logger.warn({ offerId: offer.id, err }, '[NOTIFY] Failed to send offer-expiry reminder'));
+  }
+  return due.length;
+}
+
+/**
+ * Expires offers whose open round ran out — the buyer's offer or the seller's
+ * counter — and tells both sides. Returns the expired offer ids.
+ */
+export async function expireOfferRounds(): Promise<string[]> {
+  const expired = await withTransaction(async (client) => {
+    const rows = await client.query<ExpiringOffer>(
+      `WITH due AS (
+         SELECT id, status FROM offers
+         WHERE status IN ('pending','countered') AND expires_at < NOW()
+         FOR UPDATE
+       )
+       UPDATE offers o SET status = 'expired'
+       FROM due, listings l
+       WHERE o.id = due.id AND l.id = o.listing_id
+       RETURNING o.id, o.listing_id, o.buyer_id, l.seller_id, l.user_edited_title, due.status`,
+    );
+    if (rows.length > 0) {
+      await client.query(
+        `UPDATE offer_rounds SET status = 'expired' WHERE status = 'open' AND offer_id = ANY($1::uuid[])`,
+        [rows.map((o) => o.id)],
+      );
+      await syncOfferCounts(client, rows.map((o) => o.listing_id));
+    }
+    return rows;
+  });
+
+  for (const offer of expired) {
+    for (const [userId, role] of [[offer.buyer_id, 'buyer'], [offer.seller_id, 'seller']] as const) {
+      notifyOfferExpired(userId, role, offer.status === 'countered', offer.user_edited_title, offer.listing_id, offer.id)
+        .catch((err) => logger.warn({ offerId: offer.id, err }, '[NOTIFY] Failed to send offer-expired notification'));
+    }
+  }
+  return expired.map((o) => o.id);
+}
+
+// ─── Seller auto-response rules ──────────────────────────
+
+export interface OfferRules {
+  auto_accept_at: number | null;
+  auto_decline_below: number | null;
+  auto_counter_at: number | null;
+}
+
+export type AutoResponse =
+  | { action: 'accepted'; offer: NegotiatedOffer; transaction: Transaction; rejectedOffers: { id: string; buyer_id: string }[] }
+  | { action: 'declined'; offer: NegotiatedOffer }
+  | { action: 'countered'; offer: NegotiatedOffer; round: OfferRound };
+
+/** Thresholds must nest: decline below < counter at < accept at. */
+export function assertValidRules(rules: OfferRules): void {
+  const { auto_accept_at: accept, auto_decline_below: decline, auto_counter_at: counter } = rules;
+  if (decline != null && accept != null && decline > accept) {
+    throw new AppError('Auto-decline threshold must be below the auto-accept price.', 400);
+  }
+  if (counter != null && decline != null && counter < decline) {
+    throw new AppError('Auto-counter price must not be below the auto-decline threshold.', 400);
+  }
+  if (counter != null && accept != null && counter >= accept) {
+    throw new AppError('Auto-counter price must be below the auto-accept price.', 400);
+  }
+}
+
+export async function getOfferRules(client: DbClient, listingId: string): Promise<OfferRules | null> {
+  const row = await client.queryOne<Record<keyof OfferRules, string | null>>(
+    'SELECT auto_accept_at, auto_decline_below, auto_counter_at FROM listing_offer_rules WHERE listing_id = $1',
+    [listingId],
+  );
+  if (!row) return null;
+  const num = (v: string | null) => (v == null ? null : Number(v));
+  return {
+    auto_accept_at: num(row.auto_accept_at),
+    auto_decline_below: num(row.auto_decline_below),
+    auto_counter_at: num(row.auto_counter_at),
+  };
+}
+
+export async function setOfferRules(listingId: string, rules: OfferRules): Promise<OfferRules | null> {
+  assertValidRules(rules);
+  if (rules.auto_accept_at == null && rules.auto_decline_below == null && rules.auto_counter_at == null) {
+    await query('DELETE FROM listing_offer_rules WHERE listing_id = $1', [listingId]);
+    return null;
+  }
+  await query(
+    `INSERT INTO listing_offer_rules (listing_id, auto_accept_at, auto_decline_below, auto_counter_at)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (listing_id) DO UPDATE SET
+       auto_accept_at = EXCLUDED.auto_accept_at,
+       auto_decline_below = EXCLUDED.auto_decline_below,
+       auto_counter_at = EXCLUDED.auto_counter_at,
+       updated_at = NOW()`,
+    [listingId, rules.auto_accept_at, rules.auto_decline_below, rules.auto_counter_at],
+  );
+  return rules;
+}
+
+/** Which automatic response the rules give to an offered price, if any. */
+export function matchOfferRule(
+  rules: OfferRules,
+  price: number,
+): { action: 'accepted' } | { action: 'declined' } | { action: 'countered'; price: number } | null {
+  if (rules.auto_accept_at != null && price >= rules.auto_accept_at) return { action: 'accepted' };
+  if (rules.auto_decline_below != null && price < rules.auto_decline_below) return { action: 'declined' };
+  if (rules.auto_counter_at != null && price < rules.auto_counter_at) {
+    return { action: 'countered', price: rules.auto_counter_at };
+  }
+  return null;
+}
+
+/**
+ * Responds to a freshly created cash offer on the seller's behalf, through the
+ * same accept / reject / counter paths the seller's own buttons use, inside
+ * the transaction that created the offer. Those paths also record
+ * auto_response and is_automatic, so the response and its marking commit
+ * together. Returns null when no rule matches or the automatic response fails;
+ * the failure is logged and its writes rolled back to a savepoint, leaving the
+ * offer for the seller.
+ */
+export async function applyOfferRules(
+  client: DbClient,
+  offer: { id: string; listing_id: string; offered_price: number | string; is_exchange_proposal?: boolean },
+  sellerId: string,
+): Promise<AutoResponse | null> {
+  if (offer.is_exchange_proposal) return null;
+  const rules = await getOfferRules(client, offer.listing_id);
+  const match = rules && matchOfferRule(rules, Number(offer.offered_price));
+  if (!match) return null;
+
+  await client.query('SAVEPOINT auto_response');
+  try {
+    if (match.action === 'accepted') {
+      return { action: 'accepted', ...(await acceptOpenRound(client, offer.id, sellerId, 'seller', true)) };
+    }
+    if (match.action === 'declined') {
+      return { action: 'declined', offer: await rejectOpenRound(client, offer.id, sellerId, true) };
+    }
+    const { offer: countered, round } = await counterOpenRound(
+      client, sellerId, offer.id, match.price, 'Automatic counter offer from the seller.', true,
+    );
+    return { action: 'countered', offer: countered, round };
+  } catch (err) {
+    await client.query('ROLLBACK TO SAVEPOINT auto_response');
+    logger.error(
+      { offerId: offer.id, listingId: offer.listing_id, action: match.action, price: Number(offer.offered_price), err },
+      '[OFFER] Automatic response failed — offer left for the seller',
+    );
+    return null;
+  }
+}
+
+// ─── Read side ───────────────────────────────────────────
+
+export async function getNegotiation(userId: string, offerId: string) {
+  const offer = await queryOne<NegotiatedOffer & { buyer_name: string; seller_name: string }>(
+    `SELECT o.*, l.seller_id, l.user_edited_title, b.full_name AS buyer_name, s.full_name AS seller_name
+     FROM offers o
+     JOIN listings l ON l.id = o.listing_id
+     JOIN users b ON b.id = o.buyer_id
+     JOIN users s ON s.id = l.seller_id
+     WHERE o.id = $1`,
+    [offerId],
+  );
+  if (!offer) throw new AppError('Offer not found.', 404);
+  if (offer.buyer_id !== userId && offer.seller_id !== userId) throw new AppError('Not authorized.', 403);
+
+  const rounds = await query<OfferRound>(
+    'SELECT * FROM offer_rounds WHERE offer_id = $1 ORDER BY round_number',
+    [offerId],
+  );
+  const role: NegotiationRole = offer.buyer_id === userId ? 'buyer' : 'seller';
+  return {
+    offer,
+    rounds,
+    max_rounds: config.offers.maxRounds,
+    your_turn: awaitingRole(offer.status) === role,
+    can_counter: awaitingRole(offer.status) === role && offer.round_count < config.offers.maxRounds,
+  };
+}
@@ -0,0 +1,448 @@
+/**
+ * Gateway payments — initiation, callbacks and status polling for every
+ * PaymentProvider (Paymob, Fawry, Vodafone Cash). An intent pays a
+ * transaction (into escrow), a listing boost purchase or a seller subscription.
+ *
+ * Every callback is stored in payment_webhook_events. Callbacks are
+ * serialised per provider transaction id with an advisory lock and acted on
+ * at most once per (provider, transaction id, event type), so retries are safe.
+ */
+
+import { query, queryOne, withTransaction, DbClient } from '../infrastructure/database/pool';
+import { logger } from '../infrastructure/logging/logger';
+import { AppError } from './auth.service';
+import { amountDue, fundEscrowFromGateway, settleProviderPartialRefund, settleRefund } from './escrow.service';
+import { transitionTransaction } from './transaction.service';
+import { failBoostPurchase, settleBoostPayment, BoostPurchase } from './boost.service';
+import { applySubscriptionPayment, failSubscriptionPayment, Subscription } from './subscription.service';
+import { getPaymentProvider, refundCapturedIntent } from '../infrastructure/payments/providers';
+import type {
+  GatewayIntent, InitiatedPayment, PaymentEventType, PaymentProvider, PaymentProviderName, ProviderEvent,
+} from '../infrastructure/payments/provider';
+import type { Transaction } from '../domain/entities';
+
+/** A payment_intents row — exactly one of the three purchase references is set. */
+export interface PaymentIntent extends GatewayIntent {
+  transaction_id: string | null;
+  boost_purchase_id: string | null;
+  subscription_id: string | null;
+  provider_payment_key: string | null;
+  status: 'pending' | 'paid' | 'failed' | 'expired' | 'refunded' | 'voided';
+  refund_status: 'none' | 'pending' | 'refunded' | 'voided' | 'failed';
+  refund_action: 'void' | 'refund' | null;
+  expires_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * An intent the buyer may still pay (`pi` is payment_intents). Card intents
+ * from before they carried an expiry live as long as their payment key.
+ */
+export const OPEN_INTENT = `pi.status = 'pending' AND COALESCE(pi.expires_at, pi.created_at + INTERVAL '1 hour') > NOW()`;
+
+/**
+ * The amount due can't change under a payment the buyer has started — it was
+ * created for the old amount. `change` finishes the error message.
+ */
+export async function assertNoOpenPayment(client: DbClient, transactionId: string, change: string): Promise<void> {
+  const open = await client.queryOne(
+    `SELECT 1 FROM payment_intents pi WHERE pi.transaction_id = $1 AND ${OPEN_INTENT} LIMIT 1`,
+    [transactionId],
+  );
+  if (open) throw new AppError(`Finish the payment you started, or wait for it to expire, before ${change}`, 409);
+}
+
+// ─── Initiation ──────────────────────────────────────────
+
+export async function initiateGatewayPayment(
+  buyerId: string,
+  transactionId: string,
+  method: PaymentProviderName,
+  opts: { walletNumber?: string } = {},
+): Promise<InitiatedPayment & { intentId: string }> {
+  const provider = getPaymentProvider(method);
+  if (!provider) throw new AppError('Unsupported payment method', 400);
+
+  const txn = await queryOne<Transaction & { full_name: string; email: string; phone: string }>(
+    `SELECT t.*, u.full_name, u.email, u.phone
+     FROM transactions t JOIN users u ON u.id = t.buyer_id
+     WHERE t.id = $1`,
+    [transactionId],
+  );
+  if (!txn) throw new AppError('Transaction not found', 404);
+  if (txn.buyer_id !== buyerId) throw new AppError('Forbidden', 403);
+  if (txn.payment_status !== 'pending') throw new AppError('Already paid', 400);
+
+  const amountCents = Math.round(amountDue(txn) * 100);
+  const payment = await provider.initiate({
+    transactionId,
+    amountCents,
+    buyer: { full_name: txn.full_name, email: txn.email, phone: txn.phone },
+    walletNumber: opts.walletNumber,
+  });
+
+  const [intent] = await query<{ id: string }>(
+    `INSERT INTO payment_intents
+       (transaction_id, provider, provider_order_id, provider_payment_key, provider_reference, amount_cents, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id`,
+    [
+      transactionId, provider.name, payment.orderId, payment.paymentKey ?? null,
+      payment.referenceCode ?? null, amountCents, payment.expiresAt ?? null,
+    ],
+  );
+
+  return { ...payment, intentId: intent.id };
+}
+
+/** Card payment for a platform purchase — the intent references the purchase row via `column`. */
+async function initiatePurchasePayment(
+  userId: string,
+  column: 'boost_purchase_id' | 'subscription_id',
+  purchaseId: string,
+  amount: number,
+): Promise<InitiatedPayment & { intentId: string }> {
+  const provider = getPaymentProvider('paymob');
+  if (!provider) throw new AppError('Card payments are not available', 503);
+  const user = await queryOne<{ full_name: string; email: string; phone: string }>(
+    'SELECT full_name, email, phone FROM users WHERE id = $1',
+    [userId],
+  );
+  if (!user) throw new AppError('User not found', 404);
+
+  const amountCents = Math.round(amount * 100);
+  const payment = await provider.initiate({ transactionId: purchaseId, amountCents, buyer: user });
+
+  const [intent] = await query<{ id: string }>(
+    `INSERT INTO payment_intents
+       (${column}, provider, provider_order_id, provider_payment_key, amount_cents, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6) RETURNING id`,
+    [purchaseId, provider.name, payment.orderId, payment.paymentKey ?? null, amountCents, payment.expiresAt ?? null],
+  );
+
+  return { ...payment, intentId: intent.id };
+}
+
+/** Starts the card payment for a pending boost purchase; the listing is featured from the paid callback. */
+export async function initiateBoostPayment(sellerId: string, purchase: BoostPurchase) {
+  return initiatePurchasePayment(sellerId, 'boost_purchase_id', purchase.id, Number(purchase.price));
+}
+
+/** Starts the card payment for a new or renewing subscription; it is activated or extended from the paid callback. */
+export async function initiateSubscriptionPayment(userId: string, subscription: Subscription, price: number) {
+  return initiatePurchasePayment(userId, 'subscription_id', subscription.id, price);
+}
+
+// ─── Callbacks ───────────────────────────────────────────
+
+export interface CallbackOutcome {
+  eventId: string;
+  eventType: PaymentEventType;
+  duplicate: boolean;
+  processed: boolean;
+}
+
+export async function handlePaymentCallback(
+  provider: PaymentProvider,
+  payload: Record<string, unknown>,
+  signatureValid: boolean,
+): Promise<CallbackOutcome> {
+  return withTransaction((client) => recordAndApply(client, provider, provider.parseWebhook(payload), payload, signatureValid));
+}
+
+async function recordAndApply(
+  client: DbClient,
+  provider: PaymentProvider,
+  event: ProviderEvent,
+  payload: Record<string, unknown>,
+  signatureValid: boolean,
+): Promise<CallbackOutcome> {
+  const { type: eventType, providerTransactionId, providerOrderId } = event;
+
+  if (providerTransactionId) {
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`${provider.name}:${providerTransactionId}`]);
+  }
+
+  const prior = providerTransactionId
+    ? await client.queryOne<{ id: string }>(
+      `SELECT id FROM payment_webhook_events
+       WHERE provider = $1 AND provider_transaction_id = $2 AND event_type = $3
+         AND processed_at IS NOT NULL
+       LIMIT 1`,
+      [provider.name, providerTransactionId, eventType],
+    )
+    : null;
+
+  const [row] = await client.query<{ id: string }>(
+    `INSERT INTO payment_webhook_events
+       (provider, provider_transaction_id, provider_order_id, event_type, hmac_valid, payload, duplicate_of)
+     VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id`,
+    [provider.name, providerTransactionId, providerOrderId, eventType, signatureValid, JSON.stringify(payload), prior?.id ?? null],
+  );
+  const outcome: CallbackOutcome = { eventId: row.id, eventType, duplicate: !!prior, processed: false };
+  if (!signatureValid || prior || !providerOrderId) return outcome;
+
+  outcome.processed = await applyPaymentEvent(client, provider, event, payload);
+  if (outcome.processed) {
+    await client.query('UPDATE payment_webhook_events SET processed_at = NOW() WHERE id = $1', [row.id]);
+  }
+  return outcome;
+}
+
+async function applyPaymentEvent(
+  client: DbClient,
+  provider: PaymentProvider,
+  event: ProviderEvent,
+  payload: Record<string, unknown>,
+): Promise<boolean> {
+  const intent = await client.queryOne<PaymentIntent>(
+    `SELECT * FROM payment_intents WHERE provider = $1 AND provider_order_id = $2 FOR UPDATE`,
+    [provider.name, event.providerOrderId],
+  );
+  if (!intent) return false;
+
+  switch (event.type) {
+    case 'paid': {
+      if (intent.status !== 'pending') return false;
+      if (event.amountCents !== undefined && event.amountCents < intent.amount_cents) {
+        logger.warn(
+          { provider: provider.name, intentId: intent.id, expected: intent.amount_cents, paid: event.amountCents },
+          '[PAYMENT] Underpaid callback ignored — needs manual review',
+        );
+        return false;
+      }
+      await client.query(
+        `UPDATE payment_intents SET status = 'paid', provider_transaction_id = $1, webhook_data = $2, updated_at = NOW()
+         WHERE id = $3`,
+        [event.providerTransactionId, JSON.stringify(payload), intent.id],
+      );
+
+      if (intent.boost_purchase_id) {
+        if (!(await settleBoostPayment(client, intent.boost_purchase_id, intent.amount_cents / 100))) {
+          await refundStrayCapture(client, provider, intent, 'Capture for a boost that is no longer pending');
+        }
+        return true;
+      }
+
+      if (intent.subscription_id) {
+        if (!(await applySubscriptionPayment(client, intent.subscription_id, intent.amount_cents / 100))) {
+          await refundStrayCapture(client, provider, intent, 'Capture for a subscription that can no longer be paid');
+        }
+        return true;
+      }
+
+      // Mark transaction as held (escrow)
+      const txn = await client.queryOne<Transaction>(
+        'SELECT * FROM transactions WHERE id = $1 FOR UPDATE',
+        [intent.transaction_id],
+      );
+      const dueCents = txn ? Math.round(amountDue(txn) * 100) : 0;
+      if (txn && txn.payment_status === 'pending' && intent.amount_cents < dueCents) {
+        // The price went up after the intent was created (e.g. delivery was added)
+        await refundStrayCapture(client, provider, intent, 'Capture short of what the transaction now costs');
+      } else if (txn && txn.payment_status === 'pending') {
+        // The escrow hold starts once the seller hands the item over
+        await client.query(
+          `UPDATE transactions SET payment_status = 'held', payment_method = $2 WHERE id = $1`,
+          [intent.transaction_id, provider.name],
+        );
+        await transitionTransaction(client, txn, 'paid', txn.buyer_id, `${provider.name}_captured`);
+        await fundEscrowFromGateway(client, txn, dueCents / 100, `${provider.name} payment held in escrow`);
+        if (intent.amount_cents > dueCents) {
+          // The price went down after the intent was created — escrow holds only what is due
+          await refundStrayCapture(
+            client, provider, intent, 'Capture above what the transaction now costs', intent.amount_cents - dueCents,
+          );
+        }
+      } else {
+        // Paid twice (e.g. card after a Fawry code) or after the deal was cancelled — nothing holds it in escrow
+        await refundStrayCapture(client, provider, intent, 'Capture for a transaction that is no longer pending');
+      }
+      return true;
+    }
+
+    case 'failed':
+    case 'expired': {
+      if (intent.status !== 'pending') return false;
+      await client.query(
+        `UPDATE payment_intents SET status = $1, webhook_data = $2, updated_at = NOW() WHERE id = $3`,
+        [event.type, JSON.stringify(payload), intent.id],
+      );
+      // The listing stays un-featured; the seller can buy the boost again
+      if (intent.boost_purchase_id) await failBoostPurchase(client, intent.boost_purchase_id);
+      if (intent.subscription_id) await failSubscriptionPayment(client, intent.subscription_id);
+      return true;
+    }
+
+    case 'refunded':
+    case 'voided': {
+      const weInitiated = intent.refund_status === 'pending';
+      // What the provider reports is the total refunded on the payment so far
+      const previouslyRefunded = Number(intent.refunded_amount_cents ?? 0);
+      const refundedCents = weInitiated
+        ? intent.refunded_amount_cents
+        : Math.min(
+          intent.amount_cents,
+          event.type === 'voided'
+            ? intent.amount_cents
+            : Number(event.refundedAmountCents ?? event.amountCents ?? intent.amount_cents),
+        );
+      if (!weInitiated && refundedCents <= previouslyRefunded) return false;
+
+      await client.query(
+        `UPDATE payment_intents SET
+           refund_status = $1,
+           refund_action = COALESCE(refund_action, $2),
+           refunded_amount_cents = $3::int,
+           status = CASE WHEN $3::int >= amount_cents THEN $1 ELSE status END,
+           refunded_at = NOW(), updated_at = NOW()
+         WHERE id = $4`,
+        [event.type, event.type === 'voided' ? 'void' : 'refund', refundedCents, intent.id],
+      );
+
+      if (!weInitiated) {
+        // Refunded from the provider's dashboard — settle escrow without calling the gateway again.
+        // Only a refund of the whole payment ends the deal; a partial one takes just that much out of escrow.
+        // Boost and subscription payments hold nothing in escrow, so they always go to manual review.
+        const transactionId = intent.transaction_id;
+        const settled = !transactionId
+          ? null
+          : refundedCents >= intent.amount_cents
+            ? await settleRefund(client, transactionId, { providerRefunded: true })
+            : await settleProviderPartialRefund(client, transactionId, (refundedCents - previouslyRefunded) / 100);
+        if (settled && refundedCents < intent.amount_cents) {
+          logger.warn(
+            { provider: provider.name, transactionId: intent.transaction_id, intentId: intent.id, refundedCents },
+            '[PAYMENT] Partial provider-side refund taken out of escrow — the deal carries on with the rest',
+          );
+        }
+        if (!settled) {
+          logger.warn(
+            { provider: provider.name, transactionId: intent.transaction_id, intentId: intent.id },
+            '[PAYMENT] Provider-side refund with nothing held in escrow for it — needs manual review',
+          );
+        }
+      }
+      return true;
+    }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Sends a capture nothing is waiting for (or `amountCents` of it) back to the
+ * buyer. A gateway error leaves it for a manual refund rather than failing
+ * the callback.
+ */
+async function refundStrayCapture(
+  client: DbClient,
+  provider: PaymentProvider,
+  intent: { id: string; amount_cents: number; transaction_id: string | null },
+  reason: string,
+  amountCents = intent.amount_cents,
+): Promise<void> {
+  const context = { provider: provider.name, intentId: intent.id, transactionId: intent.transaction_id, amountCents };
+  try {
+    await refundCapturedIntent(client, intent.id, amountCents);
+    logger.warn(context, `[PAYMENT] ${reason} — refund requested`);
+  } catch (err) {
+    logger.error({ ...context, err }, `[PAYMENT] ${reason} — refund failed, needs manual refund`);
+  }
+}
+
+// ─── Status polling ──────────────────────────────────────
+
+/**
+ * Asks the provider for the intent's current state and applies it exactly as
+ * a callback would — recovers payments whose webhook never arrived.
+ */
+export async function syncPaymentIntent(
+  intentId: string,
+  userId: string,
+): Promise<Omit<PaymentIntent, 'provider_transaction_id' | 'provider_payment_key' | 'refund_action'> | null> {
+  const intent = await queryOne<PaymentIntent & { buyer_id: string }>(
+    `SELECT pi.*, COALESCE(t.buyer_id, b.seller_id, s.user_id) AS buyer_id FROM payment_intents pi
+     LEFT JOIN transactions t ON t.id = pi.transaction_id
+     LEFT JOIN boost_purchases b ON b.id = pi.boost_purchase_id
+     LEFT JOIN subscriptions s ON s.id = pi.subscription_id
+     WHERE pi.id = $1`,
+    [intentId],
+  );
+  if (!intent) throw new AppError('Payment not found', 404);
+  if (intent.buyer_id !== userId) throw new AppError('Forbidden', 403);
+
+  const provider = getPaymentProvider(intent.provider);
+  if (intent.status === 'pending' && provider?.enabled()) {
+    const event = await provider.queryStatus(intent);
+    if (event.type !== 'pending') {
+      await withTransaction((client) => recordAndApply(
+        client, provider, { ...event, providerOrderId: intent.provider_order_id },
+        { source: 'status_query', ...event }, true,
+      ));
+    }
+  }
+
+  return queryOne(
+    `SELECT id, transaction_id, boost_purchase_id, subscription_id, provider, provider_order_id, provider_reference,
+            amount_cents, status, refund_status, refunded_amount_cents, expires_at, created_at, updated_at
+     FROM payment_intents WHERE id = $1`,
+    [intentId],
+  );
+}
+
+// ─── Refunds ─────────────────────────────────────────────
+
+/**
+ * Sends committed refund requests to their providers, oldest first. Each is
+ * claimed ('sending') and committed before the provider is called, so two
+ * runs never send the same refund. A provider error puts it back for the next
+ * run; a crash mid-call leaves it 'sending' for a manual check.
+ */
+export async function sendRequestedRefunds(limit = 50): Promise<number> {
+  const due = await query<{ id: string }>(
+    `SELECT id FROM gateway_refunds WHERE status = 'requested' ORDER BY created_at LIMIT $1`,
+    [limit],
+  );
+
+  let sent = 0;
+  for (const { id } of due) {
+    const claimed = await withTransaction(async (client) => {
+      const [row] = await client.query<GatewayIntent & { refund_cents: number }>(
+        `UPDATE gateway_refunds r SET status = 'sending', attempts = attempts + 1
+         FROM payment_intents pi
+         WHERE r.id = $1 AND r.status = 'requested' AND pi.id = r.intent_id
+         RETURNING pi.*, (pi.updated_at::date = CURRENT_DATE) AS captured_today, r.amount_cents AS refund_cents`,
+        [id],
+      );
+      return row ?? null;
+    });
+    if (!claimed) continue;
+
+    try {
+      const provider = getPaymentProvider(claimed.provider);
+      if (!provider) throw new Error(`Unknown payment provider ${claimed.provider}`);
+      const { action, providerRefundId } = await provider.refund(claimed, claimed.refund_cents);
+      await withTransaction(async (client) => {
+        await client.query(
+          `UPDATE gateway_refunds SET status = 'sent', action = $2, provider_refund_id = $3, sent_at = NOW()
+           WHERE id = $1`,
+          [id, action, providerRefundId],
+        );
+        await client.query(
+          `UPDATE payment_intents SET refund_action = $2, refund_provider_id = $3, updated_at = NOW() WHERE id = $1`,
+          [claimed.id, action, providerRefundId],
+        );
+      });
+      sent++;
+    } catch (err) {
+      await query(
+        `UPDATE gateway_refunds SET status = 'requested', last_error = $2 WHERE id = $1`,
+        [id, err instanceof Error ? err.message : String(err)],
+      );
+      logger.error({ refundId: id, intentId: claimed.id, err }, '[PAYMENT] Gateway refund failed — will retry');
+    }
+  }
+  return sent;
+}
@@ -0,0 +1,149 @@
+/**
+ * Promo codes — validation (preview) and redemption at checkout.
+ *
+ * Redemption locks the promo_codes row, so concurrent checkouts are
+ * serialised and used_count can never pass max_uses. The discount is
+ * written into the transaction's fee breakdown: the buyer pays less, the
+ * seller's share is unchanged and the platform fee absorbs the difference.
+ */
+
+import type { Transaction } from '../domain/entities';
+import { query, queryOne, DbClient } from '../infrastructure/database/pool';
+import { AppError } from './auth.service';
+import { applyPromoDiscount, FeeBreakdown } from './fee.service';
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  discount_type: 'percent' | 'fixed';
+  discount_value: number;
+  max_uses: number;
+  used_count: number;
+  min_order_amount: number;
+  expires_at: string | Date | null;
+  is_active: boolean;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Smallest amount a buyer pays through a real payment method after discounts and credits */
+export const MIN_CHARGE_EGP = 1;
+
+export function computePromoDiscount(promo: Pick<PromoCode, 'discount_type' | 'discount_value'>, orderAmount: number): number {
+  const value = Number(promo.discount_value);
+  const discount = promo.discount_type === 'percent'
+    ? Math.min(orderAmount * (value / 100), orderAmount)
+    : Math.min(value, orderAmount);
+  return round2(discount);
+}
+
+/** Throws the user-facing reason when the code can't be used for this order. */
+export function assertPromoUsable(promo: PromoCode | null, orderAmount: number, now = new Date()): asserts promo is PromoCode {
+  if (!promo || !promo.is_active) throw new AppError('Invalid or expired promo code.', 404);
+  if (promo.expires_at && new Date(promo.expires_at) < now) throw new AppError('This promo code has expired.', 400);
+  if (promo.used_count >= promo.max_uses) throw new AppError('This promo code has reached its usage limit.', 400);
+  if (orderAmount < Number(promo.min_order_amount)) {
+    throw new AppError(
+      `Minimum order of ${Number(promo.min_order_amount).toLocaleString()} EGP required for this code.`,
+      400,
+    );
+  }
+}
+
+const PROMO_COLUMNS = `id, code, discount_type, discount_value, max_uses, used_count,
+  min_order_amount, expires_at, is_active`;
+
+export async function findPromoCode(code: string, client: DbClient = { query, queryOne }, lock = false) {
+  return client.queryOne<PromoCode>(
+    `SELECT ${PROMO_COLUMNS} FROM promo_codes WHERE UPPER(code) = UPPER($1)${lock ? ' FOR UPDATE' : ''}`,
+    [code],
+  );
+}
+
+export interface PromoRedemption {
+  promoId: string;
+  code: string;
+  discount: number;
+  transaction: Transaction;
+}
+
+/**
+ * Redeems a code against a locked, still-pending transaction inside the
+ * caller's DB transaction. Re-applying the same code to the same transaction
+ * (e.g. retrying a failed card payment) is a no-op.
+ */
+export async function redeemPromoCode(
+  client: DbClient,
+  txn: Transaction,
+  userId: string,
+  code: string,
+): Promise<PromoRedemption> {
+  const promo = await findPromoCode(code, client, true);
+  if (txn.promo_code_id) {
+    if (promo && txn.promo_code_id === promo.id) {
+      return { promoId: promo.id, code: promo.code, discount: Number(txn.promo_discount), transaction: txn };
+    }
+    throw new AppError('A promo code is already applied to this transaction.', 400);
+  }
+
+  const price = Number(txn.agreed_price);
+  assertPromoUsable(promo, price);
+
+  const alreadyUsed = await client.queryOne<{ id: string }>(
+    'SELECT id FROM promo_code_uses WHERE code_id = $1 AND user_id = $2',
+    [promo.id, userId],
+  );
+  if (alreadyUsed) throw new AppError('You have already used this promo code.', 400);
+
+  const claimed = await client.queryOne<{ id: string }>(
+    `UPDATE promo_codes SET used_count = used_count + 1
+     WHERE id = $1 AND used_count < max_uses RETURNING id`,
+    [promo.id],
+  );
+  if (!claimed) throw new AppError('This promo code has reached its usage limit.', 400);
+
+  // Transactions created before the commission engine have no recorded breakdown
+  const payable = round2(Number(txn.seller_receives) + Number(txn.platform_fee));
+  const base = (txn.fee_breakdown as FeeBreakdown | null) ?? {
+    price,
+    commission_rate: 0,
+    gross_fee: Number(txn.platform_fee),
+    buyer_fee: round2(payable - price),
+    seller_fee: round2(price - Number(txn.seller_receives)),
+    promo_discount: 0,
+    platform_fee: Number(txn.platform_fee),
+    buyer_pays: payable,
+    seller_receives: Number(txn.seller_receives),
+  };
+  // The buyer always pays something, so the payment still flows through escrow
+  const maxDiscount = round2(Number(base.buyer_pays) - Number(txn.credits_applied ?? 0) - MIN_CHARGE_EGP);
+  const discount = Math.min(computePromoDiscount(promo, price), maxDiscount);
+  const fees = applyPromoDiscount(base, Math.max(discount, 0));
+
+  await client.query(
+    `INSERT INTO promo_code_uses (code_id, user_id, transaction_id, discount_applied)
+     VALUES ($1, $2, $3, $4)`,
+    [promo.id, userId, txn.id, fees.promo_discount],
+  );
+  const [updated] = await client.query<Transaction>(
+    `UPDATE transactions SET platform_fee = $2, fee_breakdown = $3, promo_code_id = $4, promo_discount = $5
+     WHERE id = $1 RETURNING *`,
+    [txn.id, fees.platform_fee, JSON.stringify(fees), promo.id, fees.promo_discount],
+  );
+
+  return { promoId: promo.id, code: promo.code, discount: fees.promo_discount, transaction: updated };
+}
+
+/**
+ * Gives a promo code back when the purchase it was used on is cancelled, so
+ * the buyer can use it again and it no longer counts towards max_uses.
+ */
+export async function releasePromoCode(client: DbClient, transactionId: string): Promise<void> {
+  const released = await client.query<{ code_id: string }>(
+    'DELETE FROM promo_code_uses WHERE transaction_id = $1 RETURNING code_id',
+    [transactionId],
+  );
+  for (const { code_id } of released) {
+    await client.query('UPDATE promo_codes SET used_count = GREATEST(used_count - 1, 0) WHERE id = $1', [code_id]);
+  }
+}
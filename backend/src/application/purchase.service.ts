@@ -0,0 +1,50 @@
+/**
+ * Buy Now — instant purchase at the listing's price, skipping negotiation.
+ *
+ * The listing row is locked for the whole purchase, so of two buyers racing
+ * for the same item exactly one gets the transaction; the other finds the
+ * listing reserved. Live offers on the listing are rejected in the same step.
+ */
+
+import type { Transaction } from '../domain/entities';
+import { withTransaction } from '../infrastructure/database/pool';
+import { AppError } from './auth.service';
+import { lockListingForSale, openDealTransaction, rejectCompetingOffers, syncOfferCounts } from './offer.service';
+
+interface SaleListing {
+  id: string;
+  seller_id: string;
+  user_edited_title: string;
+  final_price: string;
+  moderation_status: string;
+  instant_buy_enabled: boolean;
+}
+
+export interface BuyNowResult {
+  transaction: Transaction;
+  listing: SaleListing;
+  rejectedOffers: { id: string; buyer_id: string }[];
+}
+
+export async function buyNow(listingId: string, buyerId: string): Promise<BuyNowResult> {
+  return withTransaction(async (client) => {
+    const listing = await lockListingForSale<SaleListing>(
+      client,
+      listingId,
+      'id, seller_id, user_edited_title, final_price, status, moderation_status, instant_buy_enabled',
+    );
+    if (listing.seller_id === buyerId) throw new AppError('Cannot buy your own listing.', 400);
+    if (listing.moderation_status !== 'approved') throw new AppError('Listing is not available for purchase.', 400);
+    if (!listing.instant_buy_enabled) {
+      throw new AppError('The seller has turned off Buy Now for this listing — make an offer instead.', 400);
+    }
+
+    const rejectedOffers = await rejectCompetingOffers(client, listingId, null);
+    await client.query(`UPDATE listings SET status = 'reserved' WHERE id = $1`, [listingId]);
+    await syncOfferCounts(client, [listingId]);
+    const transaction = await openDealTransaction(client, {
+      offerId: null, listingId, buyerId, sellerId: listing.seller_id, price: Number(listing.final_price),
+    });
+    return { transaction, listing, rejectedOffers };
+  });
+}
@@ -0,0 +1,300 @@
+/**
+ * Courier delivery. Before paying, the buyer can choose delivery instead of
+ * a meetup and enter their address; the courier's fee is quoted then and
+ * added to what they pay, held in escrow with the item price. Once paid, the
+ * seller books a pickup, which creates the courier's waybill.
+ *
+ * From there the courier drives the deal through its tracking webhooks:
+ * pickup moves it to shipped, delivery to delivered and starts the escrow
+ * hold, and a return to the seller refunds the buyer. Both parties are
+ * notified along the way. Callbacks are stored in shipment_events and acted
+ * on at most once per (courier, tracking number, event type).
+ */
+
+import type { Transaction } from '../domain/entities';
+import { query, queryOne, withTransaction, DbClient } from '../infrastructure/database/pool';
+import { logger } from '../infrastructure/logging/logger';
+import { notifyShipmentUpdate } from '../infrastructure/notifications/push';
+import { DEFAULT_COURIER, getShippingProvider } from '../infrastructure/shipping/providers';
+import type {
+  ShipmentEventType, ShippingAddress, ShippingProvider, TrackingEvent,
+} from '../infrastructure/shipping/provider';
+import { AppError } from './auth.service';
+import { settleRefund } from './escrow.service';
+import { assertNoOpenPayment } from './payment.service';
+import { ESCROW_HOLD_AFTER_HANDOVER, transitionTransaction } from './transaction.service';
+
+/** Tracking events both parties are told about */
+const NOTIFIED_EVENTS: ShipmentEventType[] = [
+  'picked_up', 'out_for_delivery', 'delivered', 'delivery_failed', 'returned', 'cancelled',
+];
+
+export interface DeliveryQuote {
+  courier: string;
+  fee: number;
+}
+
+export interface ShipmentTimelineEntry {
+  event_type: ShipmentEventType;
+  provider_status: string | null;
+  occurred_at: Date;
+}
+
+function courierFor(txn: { courier: string | null }): ShippingProvider {
+  const provider = getShippingProvider(txn.courier ?? DEFAULT_COURIER);
+  if (!provider) throw new AppError('Unknown courier', 500);
+  return provider;
+}
+
+/** Delivery fee to the given city, before the buyer commits to it. */
+export async function quoteDelivery(transactionId: string, buyerId: string, city: string): Promise<DeliveryQuote> {
+  const txn = await queryOne<Pick<Transaction, 'buyer_id' | 'courier'>>('SELECT buyer_id, courier FROM transactions WHERE id = $1', [transactionId]);
+  if (!txn) throw new AppError('Transaction not found', 404);
+  if (txn.buyer_id !== buyerId) throw new AppError('Forbidden', 403);
+
+  const provider = courierFor(txn);
+  const { feeCents } = await provider.quote(city);
+  return { courier: provider.name, fee: feeCents / 100 };
+}
+
+function assertDeliveryChangeable(txn: Transaction, buyerId: string): void {
+  if (txn.buyer_id !== buyerId) throw new AppError('Only the buyer can choose how the item is delivered', 403);
+  if (txn.status !== 'awaiting_payment' || txn.payment_status !== 'pending') {
+    throw new AppError('Delivery can only be changed before paying', 400);
+  }
+  if (txn.swap_id) throw new AppError('Swaps are handed over in person', 400);
+}
+
+/**
+ * Buyer switches the deal to courier delivery. The quoted fee is locked in
+ * and added to what they pay; a change of address is quoted again.
+ */
+export async function chooseDelivery(transactionId: string, buyerId: string, address: ShippingAddress): Promise<Transaction> {
+  const current = await queryOne<Transaction>('SELECT * FROM transactions WHERE id = $1', [transactionId]);
+  if (!current) throw new AppError('Transaction not found', 404);
+  assertDeliveryChangeable(current, buyerId);
+
+  const provider = courierFor(current);
+  const { feeCents } = await provider.quote(address.city);
+
+  return withTransaction(async (client) => {
+    const txn = await client.queryOne<Transaction>('SELECT * FROM transactions WHERE id = $1 FOR UPDATE', [transactionId]);
+    if (!txn) throw new AppError('Transaction not found', 404);
+    assertDeliveryChangeable(txn, buyerId);
+    await assertNoOpenPayment(client, transactionId, 'changing delivery');
+    const [updated] = await client.query<Transaction>(
+      `UPDATE transactions SET delivery_method = 'delivery', shipping_address = $2, shipping_fee = $3, courier = $4
+       WHERE id = $1 RETURNING *`,
+      [transactionId, JSON.stringify(address), feeCents / 100, provider.name],
+    );
+    return updated;
+  });
+}
+
+/** Buyer goes back to meeting up; the delivery fee is dropped. */
+export async function chooseMeetup(transactionId: string, buyerId: string): Promise<Transaction> {
+  return withTransaction(async (client) => {
+    const txn = await client.queryOne<Transaction>('SELECT * FROM transactions WHERE id = $1 FOR UPDATE', [transactionId]);
+    if (!txn) throw new AppError('Transaction not found', 404);
+    assertDeliveryChangeable(txn, buyerId);
+    await assertNoOpenPayment(client, transactionId, 'changing delivery');
+    const [updated] = await client.query<Transaction>(
+      `UPDATE transactions SET delivery_method = 'meetup', shipping_address = NULL, shipping_fee = 0, courier = NULL
+       WHERE id = $1 RETURNING *`,
+      [transactionId],
+    );
+    return updated;
+  });
+}
+
+/**
+ * Seller books the courier to collect the item from `pickup`. The waybill is
+ * created while the transaction is locked so a double tap never books two.
+ */
+export async function bookCourierPickup(transactionId: string, sellerId: string, pickup: ShippingAddress): Promise<Transaction> {
+  return withTransaction(async (client) => {
+    const txn = await client.queryOne<Transaction>('SELECT * FROM transactions WHERE id = $1 FOR UPDATE', [transactionId]);
+    if (!txn) throw new AppError('Transaction not found', 404);
+    if (txn.seller_id !== sellerId) throw new AppError('Only the seller can book the pickup', 403);
+    if (txn.delivery_method !== 'delivery' || !txn.shipping_address) {
+      throw new AppError('The buyer chose to meet up for this deal', 400);
+    }
+    if (txn.status !== 'paid' || txn.payment_status !== 'held') {
+      throw new AppError('A pickup can only be booked once the buyer has paid', 400);
+    }
+    if (txn.dispute_status !== 'none') throw new AppError('This transaction has an open dispute', 409);
+    if (txn.courier_shipment_id) throw new AppError('A pickup is already booked', 409);
+
+    const listing = await client.queryOne<{ user_edited_title: string }>(
+      'SELECT user_edited_title FROM listings WHERE id = $1',
+      [txn.listing_id],
+    );
+    const waybill = await courierFor(txn).createWaybill({
+      transactionId,
+      pickup,
+      dropOff: txn.shipping_address,
+      description: listing?.user_edited_title ?? 'Kaero order',
+      valueCents: Math.round(Number(txn.agreed_price) * 100),
+    });
+
+    const [updated] = await client.query<Transaction>(
+      `UPDATE transactions SET courier = $2, courier_shipment_id = $3, tracking_number = $4, tracking_url = $5
+       WHERE id = $1 RETURNING *`,
+      [transactionId, waybill.provider, waybill.shipmentId, waybill.trackingNumber, waybill.trackingUrl],
+    );
+    return updated;
+  });
+}
+
+/** Tracking history of a delivery, oldest first. */
+export async function getShipmentEvents(transactionId: string, userId: string): Promise<ShipmentTimelineEntry[]> {
+  const txn = await queryOne<Pick<Transaction, 'buyer_id' | 'seller_id'>>(
+    'SELECT buyer_id, seller_id FROM transactions WHERE id = $1',
+    [transactionId],
+  );
+  if (!txn) throw new AppError('Transaction not found', 404);
+  if (txn.buyer_id !== userId && txn.seller_id !== userId) throw new AppError('Forbidden', 403);
+
+  return query<ShipmentTimelineEntry>(
+    `SELECT event_type, provider_status, COALESCE(occurred_at, created_at) AS occurred_at
+     FROM shipment_events
+     WHERE transaction_id = $1 AND processed_at IS NOT NULL
+     ORDER BY COALESCE(occurred_at, created_at)`,
+    [transactionId],
+  );
+}
+
+// ─── Tracking webhooks ───────────────────────────────────
+
+export interface ShipmentCallbackOutcome {
+  eventId: string;
+  eventType: ShipmentEventType;
+  duplicate: boolean;
+  processed: boolean;
+}
+
+export async function handleShipmentCallback(
+  provider: ShippingProvider,
+  payload: Record<string, unknown>,
+  signatureValid: boolean,
+): Promise<ShipmentCallbackOutcome> {
+  const event = provider.parseWebhook(payload);
+  const { outcome, notify } = await withTransaction((client) =>
+    recordAndApply(client, provider, event, payload, signatureValid));
+
+  if (notify) {
+    for (const userId of [notify.txn.buyer_id, notify.txn.seller_id]) {
+      notifyShipmentUpdate(userId, event.type, notify.listingTitle, notify.txn.id, event.note)
+        .catch((err) => logger.warn({ transactionId: notify.txn.id, err }, '[NOTIFY] Failed to send shipment notification'));
+    }
+  }
+  return outcome;
+}
+
+async function recordAndApply(
+  client: DbClient,
+  provider: ShippingProvider,
+  event: TrackingEvent,
+  payload: Record<string, unknown>,
+  signatureValid: boolean,
+): Promise<{ outcome: ShipmentCallbackOutcome; notify: { txn: Transaction; listingTitle: string } | null }> {
+  const { type: eventType, trackingNumber } = event;
+
+  if (trackingNumber) {
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`${provider.name}:${trackingNumber}`]);
+  }
+
+  const txn = trackingNumber
+    ? await client.queryOne<Transaction>(
+      'SELECT * FROM transactions WHERE courier = $1 AND tracking_number = $2 FOR UPDATE',
+      [provider.name, trackingNumber],
+    )
+    : null;
+  const prior = trackingNumber
+    ? await client.queryOne<{ id: string }>(
+      `SELECT id FROM shipment_events
+       WHERE provider = $1 AND tracking_number = $2 AND event_type = $3
+         AND processed_at IS NOT NULL
+       LIMIT 1`,
+      [provider.name, trackingNumber, eventType],
+    )
+    : null;
+
+  const [row] = await client.query<{ id: string }>(
+    `INSERT INTO shipment_events
+       (transaction_id, provider, tracking_number, event_type, provider_status, signature_valid, payload, occurred_at, duplicate_of)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING id`,
+    [
+      txn?.id ?? null, provider.name, trackingNumber, eventType, event.providerStatus,
+      signatureValid, JSON.stringify(payload), event.occurredAt, prior?.id ?? null,
+    ],
+  );
+  const outcome: ShipmentCallbackOutcome = { eventId: row.id, eventType, duplicate: !!prior, processed: false };
+  if (!signatureValid || prior || !txn) return { outcome, notify: null };
+
+  outcome.processed = await applyTrackingEvent(client, txn, eventType);
+  if (!outcome.processed) return { outcome, notify: null };
+  await client.query('UPDATE shipment_events SET processed_at = NOW() WHERE id = $1', [row.id]);
+
+  if (!NOTIFIED_EVENTS.includes(eventType)) return { outcome, notify: null };
+  const listing = await client.queryOne<{ user_edited_title: string }>(
+    'SELECT user_edited_title FROM listings WHERE id = $1',
+    [txn.listing_id],
+  );
+  return { outcome, notify: { txn, listingTitle: listing?.user_edited_title ?? '' } };
+}
+
+/** Moves the locked transaction along for one tracking event. False when it no longer applies. */
+async function applyTrackingEvent(client: DbClient, txn: Transaction, eventType: ShipmentEventType): Promise<boolean> {
+  const closed = ['completed', 'cancelled', 'refunded'].includes(txn.status);
+
+  switch (eventType) {
+    case 'picked_up': {
+      if (txn.status !== 'paid') return false;
+      await transitionTransaction(client, txn, 'shipped', null, 'courier_picked_up');
+      // Nothing is held back until the buyer actually has the item
+      await client.query(
+        'UPDATE transactions SET seller_confirmation = TRUE, escrow_hold_until = NULL WHERE id = $1',
+        [txn.id],
+      );
+      return true;
+    }
+
+    case 'delivered': {
+      let current = txn;
+      // The pickup callback can be lost; delivery implies it
+      if (current.status === 'paid') {
+        current = await transitionTransaction(client, current, 'shipped', null, 'courier_picked_up');
+        await client.query('UPDATE transactions SET seller_confirmation = TRUE WHERE id = $1', [txn.id]);
+      }
+      if (current.status !== 'shipped') return false;
+      await transitionTransaction(client, current, 'delivered', null, 'courier_delivered');
+      await client.query(
+        `UPDATE transactions SET escrow_hold_until = NOW() + INTERVAL '${ESCROW_HOLD_AFTER_HANDOVER}' WHERE id = $1`,
+        [txn.id],
+      );
+      return true;
+    }
+
+    case 'returned': {
+      // The item is back with the seller, so the buyer gets everything back
+      if (txn.payment_status !== 'held' || txn.dispute_status !== 'none') return false;
+      return !!(await settleRefund(client, txn.id, { actorId: null, reason: 'courier_returned' }));
+    }
+
+    case 'cancelled': {
+      // Only a waybill that was never picked up can be rebooked
+      if (txn.status !== 'paid') return false;
+      await client.query(
+        `UPDATE transactions SET courier_shipment_id = NULL, tracking_number = NULL, tracking_url = NULL
+         WHERE id = $1`,
+        [txn.id],
+      );
+      return true;
+    }
+
+    default:
+      // created, in_transit, out_for_delivery, delivery_failed: recorded for the timeline
+      return !closed;
+  }
+}
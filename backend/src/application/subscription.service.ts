@@ -0,0 +1,383 @@
+/**
+ * Seller subscriptions — the free plan and the paid Premium plan.
+ *
+ * Premium runs in 30-day periods paid from the wallet or by card (Paymob).
+ * Benefits: reduced commission, a higher active-listing limit, free boosts
+ * each period and the verified-store badge. An unpaid renewal moves the
+ * subscription into a short grace period (benefits kept) before it expires.
+ * Subscription revenue goes to platform_fees, and every payment leaves a
+ * receipt row in the seller's wallet history.
+ */
+
+import { query, queryOne, withTransaction, DbClient } from '../infrastructure/database/pool';
+import { config } from '../config';
+import { logger } from '../infrastructure/logging/logger';
+import { postJournalEntry, systemAccount, userWallet } from './ledger.service';
+import { AppError } from './auth.service';
+import { notifySubscription } from '../infrastructure/notifications/push';
+
+export type PlanType = 'free' | 'premium';
+export type SubscriptionPaymentMethod = 'wallet' | 'paymob';
+export type SubscriptionStatus = 'pending' | 'active' | 'grace' | 'expired' | 'failed';
+
+export interface PlanBenefits {
+  label: string;
+  price: number;
+  days: number;
+  /** Multiplies the category commission rate (1 = full commission) */
+  commissionMultiplier: number;
+  /** 0 = unlimited */
+  maxActiveListings: number;
+  monthlyFreeBoosts: number;
+  /** Boost tiers a free boost can be spent on */
+  freeBoostTiers: string[];
+  verifiedBadge: boolean;
+}
+
+export const SUBSCRIPTION_PLANS: Record<PlanType, PlanBenefits> = {
+  free: {
+    label: 'Free',
+    price: 0,
+    days: 0,
+    commissionMultiplier: 1,
+    maxActiveListings: config.subscriptions.freeMaxActiveListings,
+    monthlyFreeBoosts: 0,
+    freeBoostTiers: [],
+    verifiedBadge: false,
+  },
+  premium: {
+    label: 'Premium',
+    price: config.subscriptions.premiumPriceEgp,
+    days: 30,
+    commissionMultiplier: 0.5,
+    maxActiveListings: 0,
+    monthlyFreeBoosts: 2,
+    freeBoostTiers: ['basic', 'standard'],
+    verifiedBadge: true,
+  },
+};
+
+export interface Subscription {
+  id: string;
+  user_id: string;
+  plan_type: PlanType;
+  status: SubscriptionStatus;
+  price: string;
+  payment_method: SubscriptionPaymentMethod | null;
+  auto_renew: boolean;
+  started_at: Date;
+  period_started_at: Date;
+  expires_at: Date | null;
+  grace_until: Date | null;
+  reminder_sent_at: Date | null;
+  is_active: boolean;
+  benefits_used: { free_boosts?: number };
+  created_at: Date;
+}
+
+const LIVE = `status IN ('active','grace')`;
+
+const receiptDescription = (plan: PlanType, renewal: boolean) =>
+  `${SUBSCRIPTION_PLANS[plan].label} subscription ${renewal ? 'renewal' : 'receipt'}`;
+
+/** The seller's current plan; falls back to free when nothing is live. */
+export async function getSellerPlan(
+  userId: string,
+  client: DbClient = { query, queryOne },
+): Promise<{ plan: PlanType; benefits: PlanBenefits; subscription: Subscription | null }> {
+  const subscription = await client.queryOne<Subscription>(
+    `SELECT * FROM subscriptions WHERE user_id = $1 AND ${LIVE} AND plan_type = 'premium'
+     ORDER BY expires_at DESC LIMIT 1`,
+    [userId],
+  );
+  const plan: PlanType = subscription ? 'premium' : 'free';
+  return { plan, benefits: SUBSCRIPTION_PLANS[plan], subscription };
+}
+
+// ─── Enforcement hooks ───────────────────────────────────
+
+export async function assertCanCreateListing(userId: string): Promise<void> {
+  const { plan, benefits } = await getSellerPlan(userId);
+  if (benefits.maxActiveListings === 0) return;
+  const row = await queryOne<{ count: string }>(
+    `SELECT COUNT(*) AS count FROM listings
+     WHERE seller_id = $1 AND status IN ('active','reserved','under_review')`,
+    [userId],
+  );
+  if (Number(row?.count ?? 0) >= benefits.maxActiveListings) {
+    throw new AppError(
+      plan === 'free'
+        ? `Free sellers can have up to ${benefits.maxActiveListings} active listings. Upgrade to Premium for unlimited listings.`
+        : `You have reached your limit of ${benefits.maxActiveListings} active listings.`,
+      403,
+    );
+  }
+}
+
+/**
+ * Uses one of the period's free boosts. Returns false when the seller has no
+ * live Premium plan, the tier isn't covered or the allowance is used up.
+ */
+export async function useFreeBoost(client: DbClient, userId: string, tier: string): Promise<boolean> {
+  const sub = await client.queryOne<Subscription>(
+    `SELECT * FROM subscriptions WHERE user_id = $1 AND ${LIVE} AND plan_type = 'premium' FOR UPDATE`,
+    [userId],
+  );
+  if (!sub) return false;
+  const benefits = SUBSCRIPTION_PLANS[sub.plan_type];
+  const used = Number(sub.benefits_used?.free_boosts ?? 0);
+  if (!benefits.freeBoostTiers.includes(tier) || used >= benefits.monthlyFreeBoosts) return false;
+  await client.query(
+    `UPDATE subscriptions SET benefits_used = jsonb_set(COALESCE(benefits_used, '{}'), '{free_boosts}', to_jsonb($2::int))
+     WHERE id = $1`,
+    [sub.id, used + 1],
+  );
+  return true;
+}
+
+// ─── Activation ──────────────────────────────────────────
+
+async function setVerifiedStore(client: DbClient, userId: string, verified: boolean) {
+  await client.query('UPDATE users SET is_verified_store = $2 WHERE id = $1', [userId, verified]);
+}
+
+/**
+ * Starts a new period: from now for a pending subscription, from the current
+ * end date for a live one (so renewing early or during grace loses nothing).
+ * The free-boost allowance resets with each period.
+ */
+async function startPeriod(client: DbClient, sub: Subscription): Promise<Subscription> {
+  const days = SUBSCRIPTION_PLANS[sub.plan_type].days;
+  const [updated] = await client.query<Subscription>(
+    `UPDATE subscriptions SET
+       status = 'active', is_active = TRUE,
+       started_at = CASE WHEN status = 'pending' THEN NOW() ELSE started_at END,
+       period_started_at = CASE WHEN status = 'pending' THEN NOW() ELSE expires_at END,
+       expires_at = CASE WHEN status = 'pending' THEN NOW() ELSE expires_at END + make_interval(days => $2),
+       grace_until = NULL, reminder_sent_at = NULL, benefits_used = '{}'
+     WHERE id = $1 RETURNING *`,
+    [sub.id, days],
+  );
+  await setVerifiedStore(client, sub.user_id, SUBSCRIPTION_PLANS[sub.plan_type].verifiedBadge);
+  return updated;
+}
+
+async function chargeWallet(client: DbClient, sub: Subscription, renewal: boolean): Promise<void> {
+  const price = SUBSCRIPTION_PLANS[sub.plan_type].price;
+  await postJournalEntry(client, {
+    description: receiptDescription(sub.plan_type, renewal),
+    referenceId: sub.id,
+    referenceType: 'subscription',
+    lines: [
+      { account: userWallet(sub.user_id), amount: -price, historyType: 'fee' },
+      { account: systemAccount('platform_fees'), amount: price },
+    ],
+  });
+}
+
+/**
+ * Subscribes the seller. Wallet payments activate immediately; card
+ * subscriptions are returned pending — the caller starts the Paymob payment.
+ */
+export async function subscribe(
+  userId: string,
+  plan: PlanType,
+  method: SubscriptionPaymentMethod,
+  autoRenew = true,
+): Promise<Subscription> {
+  if (plan !== 'premium') throw new AppError('Only the Premium plan can be purchased.', 400);
+  return withTransaction(async (client) => {
+    const live = await client.queryOne<{ id: string }>(
+      `SELECT id FROM subscriptions WHERE user_id = $1 AND ${LIVE} FOR UPDATE`,
+      [userId],
+    );
+    if (live) throw new AppError('You already have an active subscription. Renew it instead.', 409);
+
+    const [sub] = await client.query<Subscription>(
+      `INSERT INTO subscriptions (user_id, plan_type, status, price, payment_method, auto_renew, is_active)
+       VALUES ($1, $2, 'pending', $3, $4, $5, FALSE) RETURNING *`,
+      [userId, plan, SUBSCRIPTION_PLANS[plan].price, method, autoRenew],
+    );
+    if (method === 'paymob') return sub;
+
+    await chargeWallet(client, sub, false);
+    return startPeriod(client, sub);
+  });
+}
+
+/**
+ * Renews the live subscription for another period. Wallet renewals apply
+ * immediately; for card renewals the live subscription is returned unchanged
+ * and the caller starts the Paymob payment.
+ */
+export async function renewSubscription(userId: string, method: SubscriptionPaymentMethod): Promise<Subscription> {
+  return withTransaction(async (client) => {
+    const sub = await client.queryOne<Subscription>(
+      `SELECT * FROM subscriptions WHERE user_id = $1 AND ${LIVE} FOR UPDATE`,
+      [userId],
+    );
+    if (!sub) throw new AppError('No active subscription to renew.', 404);
+    if (method === 'paymob') return sub;
+
+    await chargeWallet(client, sub, true);
+    return startPeriod(client, sub);
+  });
+}
+
+/**
+ * Card payment confirmed: recorded as a wallet top-up immediately spent on
+ * the subscription, then the subscription is activated or extended.
+ * Returns false when the subscription can no longer be paid for.
+ */
+export async function applySubscriptionPayment(
+  client: DbClient,
+  subscriptionId: string,
+  amount: number,
+): Promise<boolean> {
+  const sub = await client.queryOne<Subscription>(
+    'SELECT * FROM subscriptions WHERE id = $1 FOR UPDATE',
+    [subscriptionId],
+  );
+  if (!sub || !['pending', 'active', 'grace'].includes(sub.status)) return false;
+  if (sub.status === 'pending') {
+    const live = await client.queryOne<{ id: string }>(
+      `SELECT id FROM subscriptions WHERE user_id = $1 AND ${LIVE}`,
+      [sub.user_id],
+    );
+    if (live) return false;
+  }
+
+  await postJournalEntry(client, {
+    description: receiptDescription(sub.plan_type, sub.status !== 'pending'),
+    referenceId: sub.id,
+    referenceType: 'subscription',
+    lines: [
+      { account: systemAccount('external_funds'), amount: -amount },
+      { account: userWallet(sub.user_id), amount, historyType: 'credit' },
+      { account: userWallet(sub.user_id), amount: -amount, historyType: 'fee' },
+      { account: systemAccount('platform_fees'), amount },
+    ],
+  });
+  await startPeriod(client, sub);
+  return true;
+}
+
+/** A failed card payment only affects a subscription that was never activated. */
+export async function failSubscriptionPayment(client: DbClient, subscriptionId: string): Promise<void> {
+  await client.query(
+    `UPDATE subscriptions SET status = 'failed' WHERE id = $1 AND status = 'pending'`,
+    [subscriptionId],
+  );
+}
+
+export async function setAutoRenew(userId: string, autoRenew: boolean): Promise<Subscription> {
+  const sub = await queryOne<Subscription>(
+    `UPDATE subscriptions SET auto_renew = $2 WHERE user_id = $1 AND ${LIVE} RETURNING *`,
+    [userId, autoRenew],
+  );
+  if (!sub) throw new AppError('No active subscription.', 404);
+  return sub;
+}
+
+// ─── Renewal job ─────────────────────────────────────────
+
+function notify(sub: Pick<Subscription, 'id' | 'user_id'> & { expires_at: Date }, event: string): void {
+  notifySubscription(sub.user_id, event, sub.expires_at)
+    .catch((err) => logger.warn({ userId: sub.user_id, subscriptionId: sub.id, err }, '[NOTIFY] Failed to send subscription notification'));
+}
+
+export interface RenewalRunReport {
+  reminded: number;
+  renewed: number;
+  in_grace: number;
+  expired: number;
+}
+
+/**
+ * Periodic job:
+ * 1. reminds sellers whose period ends within the reminder window,
+ * 2. auto-renews due subscriptions from the wallet,
+ * 3. moves unpaid ones into grace, and
+ * 4. expires those whose grace period has run out.
+ */
+export async function processSubscriptionRenewals(): Promise<RenewalRunReport> {
+  const report: RenewalRunReport = { reminded: 0, renewed: 0, in_grace: 0, expired: 0 };
+  const { reminderDays, graceDays } = config.subscriptions;
+
+  const reminders = await query<Subscription & { expires_at: Date }>(
+    `UPDATE subscriptions SET reminder_sent_at = NOW()
+     WHERE status = 'active' AND reminder_sent_at IS NULL
+       AND expires_at > NOW() AND expires_at <= NOW() + make_interval(days => $1)
+     RETURNING *`,
+    [reminderDays],
+  );
+  for (const sub of reminders) {
+    notify(sub, sub.auto_renew ? 'renewing' : 'expiring');
+    report.reminded++;
+  }
+
+  const due = await query<{ id: string }>(
+    `SELECT id FROM subscriptions WHERE ${LIVE} AND expires_at <= NOW() LIMIT 500`,
+  );
+  for (const { id } of due) {
+    try {
+      const outcome = await withTransaction(async (client) => {
+        const sub = await client.queryOne<Subscription & { expires_at: Date; wallet_balance: string }>(
+          `SELECT s.*, u.wallet_balance FROM subscriptions s JOIN users u ON u.id = s.user_id
+           WHERE s.id = $1 AND s.${LIVE} AND s.expires_at <= NOW() FOR UPDATE OF s SKIP LOCKED`,
+          [id],
+        );
+        if (!sub) return null;
+
+        const price = SUBSCRIPTION_PLANS[sub.plan_type].price;
+        if (sub.auto_renew && Number(sub.wallet_balance) >= price) {
+          await chargeWallet(client, sub, true);
+          await startPeriod(client, sub);
+          return { sub, event: 'renewed' as const };
+        }
+        if (sub.status === 'active') {
+          await client.query(
+            `UPDATE subscriptions SET status = 'grace', grace_until = expires_at + make_interval(days => $2) WHERE id = $1`,
+            [sub.id, graceDays],
+          );
+          return { sub, event: 'grace' as const };
+        }
+        if (sub.grace_until && new Date(sub.grace_until) <= new Date()) {
+          await client.query(`UPDATE subscriptions SET status = 'expired', is_active = FALSE WHERE id = $1`, [sub.id]);
+          await setVerifiedStore(client, sub.user_id, false);
+          return { sub, event: 'expired' as const };
+        }
+        return null;
+      });
+      if (!outcome) continue;
+
+      if (outcome.event === 'renewed') report.renewed++;
+      else if (outcome.event === 'grace') report.in_grace++;
+      else report.expired++;
+      notify(outcome.sub, outcome.event);
+    } catch (err) {
+      logger.error({ subscriptionId: id, err }, '[CRON] Failed to renew subscription');
+    }
+  }
+  return report;
+}
+
+// ─── Read side ───────────────────────────────────────────
+
+export async function getSubscriptionSummary(userId: string) {
+  const { plan, benefits, subscription } = await getSellerPlan(userId);
+  const history = await query(
+    `SELECT id, plan_type, status, price, payment_method, started_at, expires_at, created_at
+     FROM subscriptions WHERE user_id = $1 ORDER BY created_at DESC LIMIT 12`,
+    [userId],
+  );
+  return {
+    plan,
+    benefits,
+    subscription,
+    free_boosts_left: subscription
+      ? Math.max(benefits.monthlyFreeBoosts - Number(subscription.benefits_used?.free_boosts ?? 0), 0)
+      : 0,
+    history,
+  };
+}
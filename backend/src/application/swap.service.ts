@@ -0,0 +1,163 @@
+/**
+ * Swap (exchange) offers — a buyer offers one of their own listings, plus an
+ * optional cash top-up in either direction, for the seller's listing.
+ *
+ * Accepting reserves both listings and creates a swap with two linked
+ * transactions, one per listing, each "bought" by the other party. The cash
+ * top-up is the price of the transaction whose buyer pays it and goes through
+ * the normal payment and escrow flow; the other transaction is worth zero and
+ * is held from the start. Each party confirms receipt of the item they get;
+ * once both have, both transactions are released and both listings sold.
+ */
+
+import type { Offer, Transaction } from '../domain/entities';
+import { withTransaction, DbClient } from '../infrastructure/database/pool';
+import { AppError } from './auth.service';
+import {
+  assertTransition, closeOpenRound, openDealTransaction, rejectCompetingOffers, syncOfferCounts,
+} from './offer.service';
+import { settleRelease } from './escrow.service';
+import { transitionTransaction } from './transaction.service';
+
+export interface Swap {
+  id: string;
+  offer_id: string;
+  initiator_id: string;
+  responder_id: string;
+  initiator_listing_id: string;
+  responder_listing_id: string;
+  cash_topup: string;
+  status: 'in_progress' | 'completed' | 'cancelled';
+  completed_at: Date | null;
+  created_at: Date;
+}
+
+/** The listing offered in exchange must be the buyer's own, active listing. */
+export async function assertExchangeListing(
+  client: DbClient,
+  buyerId: string,
+  listingId: string,
+  exchangeListingId: string,
+): Promise<{ final_price: string }> {
+  if (exchangeListingId === listingId) throw new AppError('A listing cannot be swapped for itself.', 400);
+  const exchange = await client.queryOne<{ seller_id: string; status: string; final_price: string }>(
+    'SELECT seller_id, status, final_price FROM listings WHERE id = $1',
+    [exchangeListingId],
+  );
+  if (!exchange) throw new AppError('Exchange listing not found.', 404);
+  if (exchange.seller_id !== buyerId) throw new AppError('You can only offer your own listings in exchange.', 403);
+  if (exchange.status !== 'active') throw new AppError('The listing offered in exchange is no longer active.', 400);
+  return exchange;
+}
+
+/** Seller accepts a pending exchange offer: both listings are reserved and the linked transactions created. */
+export async function acceptSwapOffer(offerId: string, sellerId: string): Promise<{ swap: Swap; transactions: Transaction[] }> {
+  return withTransaction(async (client) => {
+    const target = await client.queryOne<{ listing_id: string; exchange_listing_id: string | null }>(
+      'SELECT listing_id, exchange_listing_id FROM offers WHERE id = $1',
+      [offerId],
+    );
+    if (!target) throw new AppError('Offer not found.', 404);
+
+    // Both listings before the offer, in a stable order so concurrent deals can't deadlock
+    const listings = await client.query<{ id: string; seller_id: string; status: string }>(
+      'SELECT id, seller_id, status FROM listings WHERE id = ANY($1::uuid[]) ORDER BY id FOR UPDATE',
+      [[target.listing_id, target.exchange_listing_id].filter(Boolean)],
+    );
+    const offer = await client.queryOne<Offer & { seller_id: string }>(
+      `SELECT o.*, l.seller_id FROM offers o JOIN listings l ON l.id = o.listing_id
+       WHERE o.id = $1 FOR UPDATE OF o`,
+      [offerId],
+    );
+    if (!offer) throw new AppError('Offer not found.', 404);
+    if (offer.seller_id !== sellerId) throw new AppError('Not authorized.', 403);
+    if (!offer.is_exchange_proposal || !offer.exchange_listing_id) throw new AppError('Not a swap offer.', 400);
+    if (offer.status !== 'pending') throw new AppError('Offer is no longer pending.', 400);
+    assertTransition(offer.status, 'accepted');
+
+    const mine = listings.find((l) => l.id === offer.listing_id);
+    const theirs = listings.find((l) => l.id === offer.exchange_listing_id);
+    if (mine?.status !== 'active') throw new AppError('This item is no longer available.', 409);
+    if (theirs?.status !== 'active' || theirs.seller_id !== offer.buyer_id) {
+      throw new AppError('The listing offered in exchange is no longer available.', 409);
+    }
+
+    for (const listingId of [offer.listing_id, offer.exchange_listing_id]) {
+      await rejectCompetingOffers(client, listingId, offerId);
+    }
+    await closeOpenRound(client, offerId, 'accepted');
+    await client.query(`UPDATE offers SET status = 'accepted' WHERE id = $1`, [offerId]);
+    await client.query(
+      `UPDATE listings SET status = 'reserved' WHERE id = ANY($1::uuid[])`,
+      [[offer.listing_id, offer.exchange_listing_id]],
+    );
+    await syncOfferCounts(client, [offer.listing_id, offer.exchange_listing_id]);
+
+    const topup = Number(offer.cash_topup ?? 0);
+    const [swap] = await client.query<Swap>(
+      `INSERT INTO swaps (offer_id, initiator_id, responder_id, initiator_listing_id, responder_listing_id, cash_topup)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+      [offerId, offer.buyer_id, sellerId, offer.exchange_listing_id, offer.listing_id, topup],
+    );
+
+    const transactions = [
+      // The initiator receives the seller's listing and pays any positive top-up
+      await openDealTransaction(client, {
+        offerId, listingId: offer.listing_id, buyerId: offer.buyer_id, sellerId,
+        price: Math.max(topup, 0), swapId: swap.id,
+      }),
+      // The seller receives the initiator's listing and pays any negative top-up
+      await openDealTransaction(client, {
+        offerId, listingId: offer.exchange_listing_id, buyerId: sellerId, sellerId: offer.buyer_id,
+        price: Math.max(-topup, 0), swapId: swap.id,
+      }),
+    ];
+    return { swap, transactions };
+  });
+}
+
+/**
+ * A party confirms they received the other item. The swap completes — both
+ * transactions released, both listings sold — once both parties have
+ * confirmed and any top-up has been paid into escrow.
+ */
+export async function confirmSwapReceipt(
+  transactionId: string,
+  userId: string,
+): Promise<{ completed: boolean; transaction: Transaction; partner: Transaction }> {
+  return withTransaction(async (client) => {
+    // Both sides of the swap, locked in id order
+    const pair = await client.query<Transaction>(
+      `SELECT * FROM transactions
+       WHERE swap_id = (SELECT swap_id FROM transactions WHERE id = $1)
+       ORDER BY id FOR UPDATE`,
+      [transactionId],
+    );
+    const txn = pair.find((t) => t.id === transactionId);
+    const partner = pair.find((t) => t.id !== transactionId);
+    if (!txn || !partner) throw new AppError('Transaction not found', 404);
+    if (txn.buyer_id !== userId) throw new AppError('Only the receiving party can confirm', 403);
+    if (txn.payment_status !== 'held') throw new AppError('Transaction not in escrow', 400);
+
+    if (txn.status !== 'received') await transitionTransaction(client, txn, 'received', userId);
+    const [confirmed] = await client.query<Transaction>(
+      'UPDATE transactions SET buyer_confirmation = TRUE WHERE id = $1 RETURNING *',
+      [transactionId],
+    );
+    if (!partner.buyer_confirmation || partner.payment_status !== 'held') {
+      return { completed: false, transaction: confirmed, partner };
+    }
+
+    const released = await settleRelease(client, txn.id, { actorId: userId });
+    const releasedPartner = await settleRelease(client, partner.id, { actorId: partner.buyer_id });
+    await client.query(
+      `UPDATE swaps SET status = 'completed', completed_at = NOW() WHERE id = $1`,
+      [txn.swap_id],
+    );
+    return {
+      completed: true,
+      transaction: released?.transaction ?? confirmed,
+      partner: releasedPartner?.transaction ?? partner,
+    };
+  });
+}
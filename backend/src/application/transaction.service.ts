@@ -0,0 +1,130 @@
+/**
+ * Transaction lifecycle — where a deal stands, separate from where its money
+ * is (payment_status):
+ *
+ *   awaiting_payment → paid → handed_over | shipped [→ delivered] → received → completed
+ *
+ * delivered is reached only through courier tracking (see shipping.service).
+ * plus the final cancelled and refunded. Every status change goes through
+ * transitionTransaction, which checks it against the table below and writes
+ * a row to transaction_status_history.
+ */
+
+import { query, withTransaction, DbClient } from '../infrastructure/database/pool';
+import { AppError } from './auth.service';
+import type { Transaction, TransactionStatus } from '../domain/entities';
+
+/** How long escrow is held after handover before it is paid out automatically. */
+export const ESCROW_HOLD_AFTER_HANDOVER = '3 days';
+
+export const TRANSACTION_TRANSITIONS: Record<TransactionStatus, TransactionStatus[]> = {
+  awaiting_payment: ['paid', 'cancelled'],
+  // A buyer can confirm receipt before the seller marks the handover, and a
+  // dispute settled for the seller completes the deal from wherever it is.
+  // Cancelling is only possible until the item changes hands.
+  paid: ['handed_over', 'shipped', 'received', 'completed', 'refunded', 'cancelled'],
+  handed_over: ['received', 'completed', 'refunded'],
+  shipped: ['delivered', 'received', 'completed', 'refunded'],
+  delivered: ['received', 'completed', 'refunded'],
+  received: ['completed', 'refunded'],
+  completed: [],
+  cancelled: [],
+  refunded: [],
+};
+
+export function canTransitionTransaction(from: TransactionStatus, to: TransactionStatus): boolean {
+  return TRANSACTION_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Moves a transaction the caller has already locked to `to` and records who
+ * did it. Handover and receipt timestamps are stamped here so every path that
+ * reaches those states sets them.
+ */
+export async function transitionTransaction(
+  client: DbClient,
+  txn: Pick<Transaction, 'id' | 'status'>,
+  to: TransactionStatus,
+  actorId: string | null,
+  reason?: string,
+): Promise<Transaction> {
+  const from = txn.status;
+  if (!canTransitionTransaction(from, to)) {
+    throw new AppError(`Transaction cannot move from ${from} to ${to}`, 409);
+  }
+  const [updated] = await client.query<Transaction>(
+    `UPDATE transactions SET
+       status = $2::varchar,
+       handed_over_at = CASE WHEN $2::varchar IN ('handed_over', 'shipped') THEN NOW() ELSE handed_over_at END,
+       delivered_at = CASE WHEN $2::varchar = 'delivered' THEN NOW() ELSE delivered_at END,
+       received_at = CASE WHEN $2::varchar = 'received' THEN NOW() ELSE received_at END
+     WHERE id = $1 RETURNING *`,
+    [txn.id, to],
+  );
+  await client.query(
+    `INSERT INTO transaction_status_history (transaction_id, from_status, to_status, actor_id, reason)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [txn.id, from, to, actorId, reason ?? null],
+  );
+  return updated;
+}
+
+/**
+ * Seller marks the item handed over in person or shipped. This starts the
+ * escrow hold: the buyer has until escrow_hold_until to confirm receipt or
+ * open a dispute before the payout is released automatically. Cash deals
+ * have nothing in escrow, so they get no timer; in person they are handed
+ * over with the buyer's code instead (see meetup.service).
+ */
+export async function markHandedOver(
+  transactionId: string,
+  sellerId: string,
+  handover: { shipped: boolean; trackingNumber?: string },
+): Promise<Transaction> {
+  return withTransaction(async (client) => {
+    const txn = await client.queryOne<Transaction>('SELECT * FROM transactions WHERE id = $1 FOR UPDATE', [transactionId]);
+    if (!txn) throw new AppError('Transaction not found', 404);
+    if (txn.seller_id !== sellerId) throw new AppError('Only the seller can mark the item handed over', 403);
+    if (txn.status !== 'paid') throw new AppError('The item can only be handed over once the buyer has paid', 400);
+    if (txn.payment_status !== 'held') throw new AppError('Transaction not in escrow', 400);
+    if (txn.payment_method === 'cash' && !handover.shipped) {
+      throw new AppError("Cash deals are handed over by entering the buyer's handover code", 400);
+    }
+    if (txn.delivery_method === 'delivery') {
+      throw new AppError('This deal is delivered by courier — book a pickup instead', 400);
+    }
+
+    await transitionTransaction(client, txn, handover.shipped ? 'shipped' : 'handed_over', sellerId);
+    const [updated] = await client.query<Transaction>(
+      `UPDATE transactions SET
+         seller_confirmation = TRUE,
+         tracking_number = $2,
+         escrow_hold_until = CASE WHEN payment_method = 'cash' THEN NULL
+                                  ELSE NOW() + INTERVAL '${ESCROW_HOLD_AFTER_HANDOVER}' END
+       WHERE id = $1 RETURNING *`,
+      [transactionId, handover.trackingNumber ?? null],
+    );
+    return updated;
+  });
+}
+
+export interface TransactionHistoryEntry {
+  from_status: TransactionStatus | null;
+  to_status: TransactionStatus;
+  reason: string | null;
+  created_at: Date;
+  actor_id: string | null;
+  actor_name: string | null;
+}
+
+/** Status changes of a transaction, oldest first. */
+export async function getTransactionHistory(transactionId: string): Promise<TransactionHistoryEntry[]> {
+  return query<TransactionHistoryEntry>(
+    `SELECT h.from_status, h.to_status, h.reason, h.created_at, h.actor_id, u.full_name AS actor_name
+     FROM transaction_status_history h
+     LEFT JOIN users u ON u.id = h.actor_id
+     WHERE h.transaction_id = $1
+     ORDER BY h.created_at`,
+    [transactionId],
+  );
+}
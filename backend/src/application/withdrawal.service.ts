@@ -0,0 +1,263 @@
+/**
+ * Withdrawal pipeline.
+ *
+ *   pending ──approve──▶ approved ──batch export──▶ processing ──batch paid──▶ completed
+ *      │                    │                          │
+ *      └─────reject─────────┘                          └──item failed──▶ failed
+ *
+ * The requested amount leaves the user's wallet into payouts_in_flight when
+ * the request is made. Completion moves it on to external_funds (it has left
+ * the platform); rejection or a failed payout returns it to the wallet.
+ * Payouts to a banned or suspended user are frozen: their withdrawals can't
+ * be approved or batched until the ban is lifted.
+ */
+
+import { query, queryOne, withTransaction, DbClient } from '../infrastructure/database/pool';
+import { logger } from '../infrastructure/logging/logger';
+import { notifyWithdrawalStatus } from '../infrastructure/notifications/push';
+import { postJournalEntry, systemAccount, userWallet } from './ledger.service';
+import { AppError } from './auth.service';
+import { findActiveBan } from './ban.service';
+
+export type WithdrawalMethod = 'bank_transfer' | 'vodafone_cash' | 'instapay' | 'fawry';
+export type WithdrawalStatus = 'pending' | 'approved' | 'processing' | 'completed' | 'rejected' | 'failed';
+
+export interface WithdrawalRow {
+  id: string;
+  user_id: string;
+  amount: string;
+  method: WithdrawalMethod;
+  account_details: Record<string, string | undefined>;
+  status: WithdrawalStatus;
+  admin_notes: string | null;
+  batch_id: string | null;
+  provider_reference: string | null;
+  created_at: Date;
+}
+
+function notify(w: WithdrawalRow, reason?: string | null): void {
+  notifyWithdrawalStatus(w.user_id, w.status, Number(w.amount), w.id, reason)
+    .catch((err) => logger.warn({ userId: w.user_id, withdrawalId: w.id, err }, '[NOTIFY] Failed to send withdrawal notification'));
+}
+
+async function lockWithdrawal(client: DbClient, id: string): Promise<WithdrawalRow> {
+  const w = await client.queryOne<WithdrawalRow>('SELECT * FROM withdrawal_requests WHERE id = $1 FOR UPDATE', [id]);
+  if (!w) throw new AppError('Withdrawal not found', 404);
+  return w;
+}
+
+/** Marks the user's pending 'withdrawal' history row with the final outcome. */
+async function settleHistory(client: DbClient, w: WithdrawalRow, status: 'completed' | 'cancelled' | 'failed'): Promise<void> {
+  await client.query(
+    `UPDATE wallet_transactions SET status = $1
+     WHERE reference_id = $2 AND reference_type = 'withdrawal' AND type = 'withdrawal' AND status = 'pending'`,
+    [status, w.id],
+  );
+}
+
+async function returnFunds(client: DbClient, w: WithdrawalRow, description: string): Promise<void> {
+  await postJournalEntry(client, {
+    description,
+    referenceId: w.id,
+    referenceType: 'withdrawal',
+    lines: [
+      { account: systemAccount('payouts_in_flight'), amount: -Number(w.amount) },
+      { account: userWallet(w.user_id), amount: Number(w.amount) },
+    ],
+  });
+}
+
+// ─── Review ──────────────────────────────────────────────
+
+export async function approveWithdrawal(id: string, notes?: string): Promise<WithdrawalRow> {
+  const updated = await withTransaction(async (client) => {
+    const w = await lockWithdrawal(client, id);
+    if (w.status !== 'pending') throw new AppError(`Withdrawal is ${w.status}`, 409);
+    if (await findActiveBan(client, w.user_id)) throw new AppError('The user is banned; their payouts are frozen', 409);
+    const [row] = await client.query<WithdrawalRow>(
+      `UPDATE withdrawal_requests SET status = 'approved', approved_at = NOW(),
+         admin_notes = COALESCE($2, admin_notes)
+       WHERE id = $1 RETURNING *`,
+      [id, notes ?? null],
+    );
+    return row;
+  });
+  notify(updated);
+  return updated;
+}
+
+export async function rejectWithdrawal(id: string, reason: string): Promise<WithdrawalRow> {
+  const updated = await withTransaction(async (client) => {
+    const w = await lockWithdrawal(client, id);
+    if (!['pending', 'approved'].includes(w.status)) throw new AppError(`Withdrawal is ${w.status}`, 409);
+    await returnFunds(client, w, `Withdrawal rejected — funds returned`);
+    await settleHistory(client, w, 'cancelled');
+    const [row] = await client.query<WithdrawalRow>(
+      `UPDATE withdrawal_requests SET status = 'rejected', admin_notes = $2, processed_at = NOW()
+       WHERE id = $1 RETURNING *`,
+      [id, reason],
+    );
+    return row;
+  });
+  notify(updated, reason);
+  return updated;
+}
+
+// ─── Payout batches ──────────────────────────────────────
+
+const CSV_COLUMNS: Record<WithdrawalMethod, { header: string; value: (w: WithdrawalRow) => string }[]> = {
+  bank_transfer: [
+    { header: 'account_name', value: (w) => w.account_details.account_name ?? '' },
+    { header: 'iban', value: (w) => w.account_details.iban ?? '' },
+    { header: 'bank_name', value: (w) => w.account_details.bank_name ?? '' },
+    { header: 'account_number', value: (w) => w.account_details.account_number ?? '' },
+  ],
+  vodafone_cash: [
+    { header: 'account_name', value: (w) => w.account_details.account_name ?? '' },
+    { header: 'wallet_number', value: (w) => w.account_details.phone_number ?? w.account_details.account_number ?? '' },
+  ],
+  instapay: [
+    { header: 'account_name', value: (w) => w.account_details.account_name ?? '' },
+    { header: 'instapay_address', value: (w) => w.account_details.account_number ?? w.account_details.phone_number ?? '' },
+  ],
+  fawry: [
+    { header: 'account_name', value: (w) => w.account_details.account_name ?? '' },
+    { header: 'phone_number', value: (w) => w.account_details.phone_number ?? '' },
+  ],
+};
+
+const csvCell = (v: string) => (/[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+
+/** One row per withdrawal; columns depend on what the payout provider needs for that method. */
+export function buildPayoutCsv(method: WithdrawalMethod, rows: WithdrawalRow[]): string {
+  const columns = CSV_COLUMNS[method];
+  const header = ['withdrawal_id', ...columns.map((c) => c.header), 'amount', 'currency'];
+  const lines = rows.map((w) => [
+    w.id,
+    ...columns.map((c) => c.value(w)),
+    Number(w.amount).toFixed(2),
+    'EGP',
+  ]);
+  return [header, ...lines].map((cells) => cells.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/** Moves every approved, unbatched withdrawal for the method into a new batch. */
+export async function createPayoutBatch(method: WithdrawalMethod) {
+  const result = await withTransaction(async (client) => {
+    const items = await client.query<WithdrawalRow>(
+      `SELECT w.* FROM withdrawal_requests w
+       JOIN users u ON u.id = w.user_id
+       WHERE w.status = 'approved' AND w.method = $1 AND w.batch_id IS NULL
+         AND NOT (u.is_banned AND (u.banned_until IS NULL OR u.banned_until > NOW()))
+       ORDER BY w.approved_at, w.created_at
+       FOR UPDATE OF w SKIP LOCKED`,
+      [method],
+    );
+    if (!items.length) throw new AppError('No approved withdrawals to batch for this method', 404);
+
+    const total = items.reduce((sum, w) => sum + Number(w.amount), 0);
+    const [batch] = await client.query<{ id: string }>(
+      `INSERT INTO payout_batches (method, item_count, total_amount) VALUES ($1, $2, $3) RETURNING *`,
+      [method, items.length, Math.round(total * 100) / 100],
+    );
+    const updated = await client.query<WithdrawalRow>(
+      `UPDATE withdrawal_requests SET status = 'processing', batch_id = $1
+       WHERE id = ANY($2::uuid[]) RETURNING *`,
+      [batch.id, items.map((w) => w.id)],
+    );
+    return { batch, items: updated };
+  });
+  result.items.forEach((w) => notify(w));
+  return result;
+}
+
+export async function getPayoutBatchCsv(batchId: string): Promise<{ filename: string; csv: string }> {
+  const batch = await queryOne<{ id: string; method: WithdrawalMethod; created_at: Date }>(
+    'SELECT * FROM payout_batches WHERE id = $1',
+    [batchId],
+  );
+  if (!batch) throw new AppError('Payout batch not found', 404);
+  const rows = await query<WithdrawalRow>(
+    'SELECT * FROM withdrawal_requests WHERE batch_id = $1 ORDER BY approved_at, created_at',
+    [batchId],
+  );
+  const date = new Date(batch.created_at).toISOString().slice(0, 10);
+  return { filename: `payouts-${batch.method}-${date}-${batch.id.slice(0, 8)}.csv`, csv: buildPayoutCsv(batch.method, rows) };
+}
+
+export interface BatchPaymentResult {
+  withdrawal_id: string;
+  provider_reference?: string;
+  /** Set when the provider bounced this payout — funds go back to the wallet */
+  failure_reason?: string;
+}
+
+/**
+ * Records the provider's result for every item of an exported batch. Each
+ * withdrawal must be accounted for, either with a provider reference or a
+ * failure reason.
+ */
+export async function markPayoutBatchPaid(batchId: string, results: BatchPaymentResult[]) {
+  const settled = await withTransaction(async (client) => {
+    const batch = await client.queryOne<{ status: string }>(
+      'SELECT * FROM payout_batches WHERE id = $1 FOR UPDATE',
+      [batchId],
+    );
+    if (!batch) throw new AppError('Payout batch not found', 404);
+    if (batch.status !== 'exported') throw new AppError('Payout batch already marked paid', 409);
+
+    const items = await client.query<WithdrawalRow>(
+      `SELECT * FROM withdrawal_requests WHERE batch_id = $1 AND status = 'processing' FOR UPDATE`,
+      [batchId],
+    );
+    const byId = new Map(results.map((r) => [r.withdrawal_id, r]));
+    const missing = items.filter((w) => !byId.has(w.id));
+    if (missing.length) {
+      throw new AppError(`Missing result for ${missing.length} withdrawal(s) in this batch`, 400);
+    }
+    const unknown = results.filter((r) => !items.some((w) => w.id === r.withdrawal_id));
+    if (unknown.length) throw new AppError('Result for a withdrawal outside this batch', 400);
+
+    const out: { withdrawal: WithdrawalRow; reason?: string }[] = [];
+    for (const w of items) {
+      const r = byId.get(w.id) ?? { withdrawal_id: w.id };
+      if (r.failure_reason) {
+        await returnFunds(client, w, 'Withdrawal payout failed — funds returned');
+        await settleHistory(client, w, 'failed');
+        const [row] = await client.query<WithdrawalRow>(
+          `UPDATE withdrawal_requests SET status = 'failed', admin_notes = $2, processed_at = NOW()
+           WHERE id = $1 RETURNING *`,
+          [w.id, r.failure_reason],
+        );
+        out.push({ withdrawal: row, reason: r.failure_reason });
+        continue;
+      }
+      if (!r.provider_reference) throw new AppError(`Provider reference required for withdrawal ${w.id}`, 400);
+      await postJournalEntry(client, {
+        description: `Withdrawal paid via ${w.method}`,
+        referenceId: w.id,
+        referenceType: 'withdrawal',
+        lines: [
+          { account: systemAccount('payouts_in_flight'), amount: -Number(w.amount) },
+          { account: systemAccount('external_funds'), amount: Number(w.amount) },
+        ],
+      });
+      await settleHistory(client, w, 'completed');
+      const [row] = await client.query<WithdrawalRow>(
+        `UPDATE withdrawal_requests SET status = 'completed', provider_reference = $2, processed_at = NOW()
+         WHERE id = $1 RETURNING *`,
+        [w.id, r.provider_reference],
+      );
+      out.push({ withdrawal: row });
+    }
+
+    const paid = await client.queryOne(
+      `UPDATE payout_batches SET status = 'paid', paid_at = NOW() WHERE id = $1 RETURNING *`,
+      [batchId],
+    );
+    return { batch: paid, items: out };
+  });
+
+  settled.items.forEach(({ withdrawal, reason }) => notify(withdrawal, reason));
+  return { batch: settled.batch, withdrawals: settled.items.map((i) => i.withdrawal) };
+}
@@ -20,6 +20,13 @@ export const config = {
     refreshExpiresIn: process.env.REFRESH_TOKEN_EXPIRES_IN || '30d',
   },
 
+  admin: {
+    /** Lifetime of the admin token issued after the two-factor step */
+    sessionMinutes: parseInt(process.env.ADMIN_SESSION_MINUTES || '60', 10),
+    /** Name authenticator apps show next to the code */
+    totpIssuer: process.env.ADMIN_TOTP_ISSUER || 'Kaero Admin',
+  },
+
   cors: {
     origin: process.env.CORS_ORIGIN || (process.env.NODE_ENV === 'production' ? 'https://kaero-final2.vercel.app' : '*'),
   },
@@ -36,9 +43,39 @@ export const config = {
     integrationId: parseInt(process.env.PAYMOB_INTEGRATION_ID || '0', 10),
     iframeId: process.env.PAYMOB_IFRAME_ID || '',
     hmacSecret: process.env.PAYMOB_HMAC_SECRET || '',
+    apiUrl: process.env.PAYMOB_API_URL || 'https://accept.paymob.com/api',
     enabled: !!(process.env.PAYMOB_API_KEY && process.env.PAYMOB_INTEGRATION_ID),
   },
 
+  fawry: {
+    merchantCode: process.env.FAWRY_MERCHANT_CODE || '',
+    secureKey: process.env.FAWRY_SECURE_KEY || '',
+    apiUrl: process.env.FAWRY_API_URL || 'https://atfawry.fawrystaging.com',
+    expiryHours: parseInt(process.env.FAWRY_EXPIRY_HOURS || '48', 10),
+    enabled: !!(process.env.FAWRY_MERCHANT_CODE && process.env.FAWRY_SECURE_KEY),
+  },
+
+  vodafoneCash: {
+    merchantId: process.env.VODAFONE_CASH_MERCHANT_ID || '',
+    apiKey: process.env.VODAFONE_CASH_API_KEY || '',
+    webhookSecret: process.env.VODAFONE_CASH_WEBHOOK_SECRET || '',
+    apiUrl: process.env.VODAFONE_CASH_API_URL || '',
+    enabled: !!(process.env.VODAFONE_CASH_MERCHANT_ID && process.env.VODAFONE_CASH_API_KEY && process.env.VODAFONE_CASH_API_URL),
+  },
+
+  bosta: {
+    apiKey: process.env.BOSTA_API_KEY || '',
+    apiUrl: process.env.BOSTA_API_URL || 'https://app.bosta.co/api/v2',
+    /** Sent back by Bosta in the Authorization header of every webhook */
+    webhookSecret: process.env.BOSTA_WEBHOOK_SECRET || '',
+    enabled: !!process.env.BOSTA_API_KEY,
+  },
+
+  shipping: {
+    /** Fee quoted when no courier is configured (dev) */
+    flatFeeEgp: parseFloat(process.env.SHIPPING_FLAT_FEE_EGP || '60'),
+  },
+
   supabase: {
     url: process.env.SUPABASE_URL || '',
     anonKey: process.env.SUPABASE_ANON_KEY || '',
@@ -47,6 +84,47 @@ export const config = {
 
   platform: {
     feePercent: parseFloat(process.env.PLATFORM_FEE_PERCENT || '4') / 100,
+    buyerFeeShare: parseFloat(process.env.PLATFORM_BUYER_FEE_SHARE || '0.5'),
+    minFeeEgp: parseFloat(process.env.PLATFORM_MIN_FEE_EGP || '0'),
+    maxFeeEgp: parseFloat(process.env.PLATFORM_MAX_FEE_EGP || '0'),
     minWithdrawal: parseInt(process.env.MIN_WITHDRAWAL_EGP || '100', 10),
   },
+
+  offers: {
+    maxRounds: parseInt(process.env.OFFER_MAX_ROUNDS || '6', 10),
+    roundExpiryHours: parseInt(process.env.OFFER_ROUND_EXPIRY_HOURS || '24', 10),
+    /** Bounds for the per-listing offer window sellers can choose */
+    minWindowHours: parseInt(process.env.OFFER_MIN_WINDOW_HOURS || '1', 10),
+    maxWindowHours: parseInt(process.env.OFFER_MAX_WINDOW_HOURS || '168', 10),
+    reminderHours: parseInt(process.env.OFFER_EXPIRY_REMINDER_HOURS || '6', 10),
+  },
+
+  transactions: {
+    /** Unpaid transactions are cancelled this long after the deal was struck */
+    paymentWindowHours: parseInt(process.env.TRANSACTION_PAYMENT_WINDOW_HOURS || '24', 10),
+    /** behavioral_score points lost for walking away from a deal */
+    cancelPenalty: parseFloat(process.env.TRANSACTION_CANCEL_PENALTY || '5'),
+  },
+
+  disputes: {
+    /** Time the other party has to respond before the case goes to review anyway */
+    responseHours: parseInt(process.env.DISPUTE_RESPONSE_HOURS || '48', 10),
+    /** SLA for an admin to resolve a case, counted from when it was opened */
+    resolutionHours: parseInt(process.env.DISPUTE_RESOLUTION_HOURS || '120', 10),
+    /** Days after a deal completes that the buyer can still claim the item wasn't as described */
+    claimWindowDays: parseInt(process.env.DISPUTE_CLAIM_WINDOW_DAYS || '3', 10),
+    /** behavioral_score points lost by the party a dispute is resolved against */
+    lossPenalty: parseFloat(process.env.DISPUTE_LOSS_PENALTY || '10'),
+  },
+
+  credits: {
+    validityDays: parseInt(process.env.CREDIT_VALIDITY_DAYS || '180', 10),
+  },
+
+  subscriptions: {
+    premiumPriceEgp: parseFloat(process.env.PREMIUM_PRICE_EGP || '199'),
+    freeMaxActiveListings: parseInt(process.env.FREE_MAX_ACTIVE_LISTINGS || '20', 10),
+    graceDays: parseInt(process.env.SUBSCRIPTION_GRACE_DAYS || '3', 10),
+    reminderDays: parseInt(process.env.SUBSCRIPTION_REMINDER_DAYS || '3', 10),
+  },
 } as const;
@@ -7,6 +7,7 @@ export interface User {
   avatar_url: string | null;
   is_phone_verified: boolean;
   is_id_verified: boolean;
+  is_verified_store: boolean;
   trust_score: number;
   total_reviews: number;
   location: { lat: number; lng: number } | null;
@@ -14,11 +15,57 @@ export interface User {
   preferred_language: 'ar' | 'en';
   behavioral_score: number;
   is_banned: boolean;
+  /** End of a suspension; null with is_banned means banned until lifted */
+  banned_until: Date | null;
+  ban_reason: string | null;
+  /** Set for staff; what they can do in the admin API follows from the role */
+  admin_role: AdminRole | null;
   created_at: Date;
   updated_at: Date;
   last_active_at: Date | null;
 }
 
+export interface UserBan {
+  id: string;
+  user_id: string;
+  banned_by: string;
+  reason: string;
+  /** null for a ban, the end of a suspension otherwise */
+  ends_at: Date | null;
+  lifted_at: Date | null;
+  lifted_by: string | null;
+  lift_reason: string | null;
+  created_at: Date;
+}
+
+export interface BanAppeal {
+  id: string;
+  ban_id: string;
+  user_id: string;
+  message: string;
+  status: 'pending' | 'upheld' | 'overturned';
+  reviewed_by: string | null;
+  review_notes: string | null;
+  reviewed_at: Date | null;
+  created_at: Date;
+}
+
+export type AdminRole = 'super_admin' | 'moderator' | 'finance' | 'support';
+
+export interface AdminAuditEntry {
+  id: string;
+  admin_id: string;
+  admin_role: AdminRole | null;
+  /** Method and route, e.g. "PATCH /disputes/:id/resolve" */
+  action: string;
+  permission: string | null;
+  target_id: string | null;
+  details: Record<string, unknown> | null;
+  status_code: number;
+  ip: string | null;
+  created_at: Date;
+}
+
 // ─── Category ────────────────────────────────────────────
 export interface Category {
   id: number;
@@ -27,14 +74,15 @@ export interface Category {
   name_ar: string;
   icon_url: string | null;
   ai_keywords: string[];
-  commission_rate: number;
+  commission_rate: number | null;
   is_active: boolean;
   display_order: number;
 }
 
 // ─── Listing ─────────────────────────────────────────────
 export type ListingCondition = 'new' | 'like_new' | 'good' | 'fair' | 'poor';
-export type ListingStatus = 'active' | 'reserved' | 'sold' | 'deleted' | 'under_review';
+/** hidden: taken off sale while the seller is banned */
+export type ListingStatus = 'active' | 'reserved' | 'sold' | 'deleted' | 'under_review' | 'hidden';
 export type ModerationStatus = 'pending' | 'approved' | 'rejected' | 'flagged';
 
 export interface VerificationImage {
@@ -66,6 +114,9 @@ export interface Listing {
   view_count: number;
   favorite_count: number;
   offer_count: number;
+  instant_buy_enabled: boolean;
+  /** Hours each offer round stays open; null = platform default */
+  offer_window_hours: number | null;
   fraud_risk_score: number;
   moderation_status: ModerationStatus;
   created_at: Date;
@@ -74,7 +125,7 @@ export interface Listing {
 }
 
 // ─── Offer ───────────────────────────────────────────────
-export type OfferStatus = 'pending' | 'accepted' | 'rejected' | 'expired';
+export type OfferStatus = 'pending' | 'countered' | 'accepted' | 'rejected' | 'expired';
 
 export interface Offer {
   id: string;
@@ -85,14 +136,36 @@ export interface Offer {
   status: OfferStatus;
   is_exchange_proposal: boolean;
   exchange_listing_id: string | null;
+  /** Swap offers only: > 0 the buyer adds cash, < 0 the seller does */
+  cash_topup: number;
+  round_count: number;
   created_at: Date;
   expires_at: Date;
+  expiry_reminder_sent_at: Date | null;
+  /** Set when the seller's auto-response rules answered the offer */
+  auto_response: 'accepted' | 'declined' | 'countered' | null;
 }
 
 // ─── Transaction ─────────────────────────────────────────
-export type PaymentMethod = 'fawry' | 'instapay' | 'vodafone_cash' | 'wallet' | 'cash';
-export type PaymentStatus = 'pending' | 'held' | 'released' | 'refunded' | 'disputed';
-export type DisputeStatus = 'none' | 'opened' | 'under_review' | 'resolved_buyer' | 'resolved_seller';
+export type PaymentMethod = 'fawry' | 'instapay' | 'vodafone_cash' | 'wallet' | 'cash' | 'paymob';
+export type PaymentStatus = 'pending' | 'held' | 'released' | 'refunded' | 'disputed' | 'cancelled';
+export type DisputeStatus = 'none' | 'opened' | 'under_review' | 'resolved_buyer' | 'resolved_seller' | 'resolved_partial';
+export type TransactionStatus =
+  | 'awaiting_payment' | 'paid' | 'handed_over' | 'shipped' | 'delivered' | 'received' | 'completed' | 'cancelled' | 'refunded';
+export type DeliveryMethod = 'meetup' | 'delivery';
+
+/** Where a courier collects or drops off an item */
+export interface ShippingAddress {
+  name: string;
+  phone: string;
+  city: string;
+  district?: string;
+  street: string;
+  building?: string;
+  floor?: string;
+  apartment?: string;
+  notes?: string;
+}
 
 export interface Transaction {
   id: string;
@@ -103,16 +176,102 @@ export interface Transaction {
   agreed_price: number;
   platform_fee: number;
   seller_receives: number;
+  fee_breakdown: Record<string, unknown> | null;
+  promo_code_id: string | null;
+  promo_discount: number;
+  credits_applied: number;
+  swap_id: string | null;
+  status: TransactionStatus;
   payment_method: PaymentMethod | null;
   payment_status: PaymentStatus;
   escrow_hold_until: Date | null;
+  delivery_method: DeliveryMethod;
+  shipping_address: ShippingAddress | null;
+  shipping_fee: number;
+  courier: string | null;
+  courier_shipment_id: string | null;
+  tracking_number: string | null;
+  tracking_url: string | null;
+  handed_over_at: Date | null;
+  delivered_at: Date | null;
+  received_at: Date | null;
   buyer_confirmation: boolean;
   seller_confirmation: boolean;
   dispute_status: DisputeStatus;
+  cancel_requested_by: string | null;
+  cancel_requested_at: Date | null;
+  cancel_reason: string | null;
+  cancelled_by: string | null;
+  cancelled_at: Date | null;
   completed_at: Date | null;
   created_at: Date;
 }
 
+// ─── Dispute ─────────────────────────────────────────────
+export type DisputeReason = 'item_not_received' | 'item_not_as_described' | 'payment_issue' | 'fraud' | 'other';
+export type DisputeResolution = 'resolved_buyer' | 'resolved_seller' | 'resolved_partial';
+export type DisputeRole = 'buyer' | 'seller' | 'admin';
+
+export interface Dispute {
+  id: string;
+  transaction_id: string;
+  opened_by: string;
+  respondent_id: string;
+  /** escrow: opened while the payment was held; claim: filed by the buyer after release */
+  kind: 'escrow' | 'claim';
+  reason: DisputeReason;
+  details: string | null;
+  status: 'opened' | 'under_review' | 'resolved';
+  /** Claims: the seller's proceeds in dispute, how much of it came back out of their wallet, and the rest on hold */
+  claim_amount: number | null;
+  clawed_back: number | null;
+  claim_shortfall: number;
+  /** The other party has until then to respond before the case goes to review anyway */
+  response_due_at: Date;
+  responded_at: Date | null;
+  resolution_due_at: Date;
+  sla_breached_at: Date | null;
+  /** The admin the case is assigned to */
+  assigned_to: string | null;
+  assigned_at: Date | null;
+  reviewed_by: string | null;
+  review_started_at: Date | null;
+  resolution: DisputeResolution | null;
+  refund_amount: number | null;
+  resolution_notes: string | null;
+  resolved_by: string | null;
+  resolved_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DisputeEvidence {
+  id: string;
+  dispute_id: string;
+  uploaded_by: string;
+  url: string;
+  caption: string | null;
+  created_at: Date;
+}
+
+export interface DisputeMessage {
+  id: string;
+  dispute_id: string;
+  sender_id: string | null;
+  sender_role: DisputeRole | 'system';
+  body: string;
+  created_at: Date;
+}
+
+/** Internal admin note on a case; the parties never see these */
+export interface DisputeNote {
+  id: string;
+  dispute_id: string;
+  admin_id: string;
+  body: string;
+  created_at: Date;
+}
+
 // ─── Review ──────────────────────────────────────────────
 export interface Review {
   id: string;
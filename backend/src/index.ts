@@ -5,6 +5,16 @@ import { logger } from './infrastructure/logging/logger';
 import { initSocket } from './infrastructure/socket/socket.service';
 import { query } from './infrastructure/database/pool';
 import { runMigrations } from './infrastructure/database/migrate';
+import { reconcileLedger } from './application/ledger.service';
+import { releaseTransaction } from './application/escrow.service';
+import { expireCredits } from './application/credit.service';
+import { clearExpiredBoosts } from './application/boost.service';
+import { expireOfferRounds, sendOfferExpiryReminders } from './application/offer.service';
+import { processSubscriptionRenewals } from './application/subscription.service';
+import { cancelUnpaidTransactions } from './application/cancellation.service';
+import { escalateOverdueDisputes } from './application/dispute.service';
+import { liftExpiredSuspensions } from './application/ban.service';
+import { sendRequestedRefunds } from './application/payment.service';
 
 // ─── Startup Validation ───────────────────────────────────
 const REQUIRED_ENV: string[] = ['DATABASE_URL', 'JWT_SECRET', 'SUPABASE_URL', 'SUPABASE_SERVICE_ROLE_KEY'];
@@ -20,6 +30,16 @@ if (config.nodeEnv === 'production') {
     logger.fatal('[FATAL] JWT_SECRET is using an unsafe default value. Set a strong secret.');
     process.exit(1);
   }
+  // Every webhook from an enabled provider moves money or deals, so it must be signed
+  const unsignedWebhooks = [
+    config.paymob.enabled && !config.paymob.hmacSecret && 'PAYMOB_HMAC_SECRET',
+    config.vodafoneCash.enabled && !config.vodafoneCash.webhookSecret && 'VODAFONE_CASH_WEBHOOK_SECRET',
+    config.bosta.enabled && !config.bosta.webhookSecret && 'BOSTA_WEBHOOK_SECRET',
+  ].filter(Boolean);
+  if (unsignedWebhooks.length > 0) {
+    logger.fatal({ missing: unsignedWebhooks }, '[FATAL] Webhook secrets missing for enabled providers');
+    process.exit(1);
+  }
 }
 
 const server = http.createServer(app);
@@ -29,16 +49,18 @@ initSocket(server);
 
 async function runExpireJobs() {
   try {
-    // Expire pending offers past their 48-hour window
-    const expiredOffers = await query(
-      `UPDATE offers SET status = 'expired'
-       WHERE status = 'pending' AND expires_at < NOW()
-       RETURNING id`
-    );
+    // Expire offers whose current negotiation round ran out
+    const expiredOffers = await expireOfferRounds();
     if (expiredOffers.length > 0) {
       logger.info({ count: expiredOffers.length }, '[CRON] Expired offers');
     }
 
+    // Remind buyers of offers and counters about to run out
+    const offerReminders = await sendOfferExpiryReminders();
+    if (offerReminders > 0) {
+      logger.info({ count: offerReminders }, '[CRON] Sent offer expiry reminders');
+    }
+
     // Expire active listings past their 30-day window
     const expiredListings = await query(
       `UPDATE listings SET status = 'deleted'
@@ -49,30 +71,100 @@ async function runExpireJobs() {
       logger.info({ count: expiredListings.length }, '[CRON] Expired listings');
     }
 
-    // Auto-release escrow after hold period (buyer didn't confirm, no dispute)
-    const autoReleased = await query(
-      `UPDATE transactions SET
-         payment_status = 'released',
-         buyer_confirmation = TRUE,
-         completed_at = NOW()
+    // Auto-release escrow after hold period (buyer didn't confirm, no dispute).
+    // The hold counts from handover (courier deliveries: from delivery), so
+    // unshipped items are never paid out.
+    // Swaps are excluded: they complete only when both parties confirm.
+    const dueForRelease = await query<{ id: string }>(
+      `SELECT id FROM transactions
        WHERE payment_status = 'held'
+         AND status IN ('handed_over', 'shipped', 'delivered')
          AND dispute_status = 'none'
+         AND swap_id IS NULL
          AND escrow_hold_until IS NOT NULL
-         AND escrow_hold_until < NOW()
-       RETURNING id, listing_id`
+         AND escrow_hold_until < NOW()`
     );
-    if (autoReleased.length > 0) {
-      logger.info({ count: autoReleased.length }, '[CRON] Auto-released escrows');
-      for (const tx of autoReleased as any[]) {
-        await query(`UPDATE listings SET status = 'sold' WHERE id = $1`, [tx.listing_id]);
+    let autoReleased = 0;
+    for (const tx of dueForRelease) {
+      try {
+        if (await releaseTransaction(tx.id)) autoReleased++;
+      } catch (err) {
+        logger.error({ transactionId: tx.id, err }, '[CRON] Failed to auto-release escrow');
       }
     }
+    if (autoReleased > 0) {
+      logger.info({ count: autoReleased }, '[CRON] Auto-released escrows');
+    }
+
+    // Cancel deals the buyer never paid for and put the listings back on sale
+    const unpaid = await cancelUnpaidTransactions();
+    if (unpaid.length > 0) {
+      logger.info({ count: unpaid.length }, '[CRON] Cancelled unpaid transactions');
+    }
+
+    // Disputes whose respondent went quiet go to review; flag cases past the SLA
+    const disputes = await escalateOverdueDisputes();
+    if (disputes.escalated + disputes.breached > 0) {
+      logger.info(disputes, '[CRON] Escalated overdue disputes');
+    }
+
+    // Suspensions that have run out: the user's listings go back on sale
+    const suspensionsLifted = await liftExpiredSuspensions();
+    if (suspensionsLifted > 0) {
+      logger.info({ count: suspensionsLifted }, '[CRON] Lifted expired suspensions');
+    }
+
+    // Un-feature listings whose paid boost has run out
+    const expiredBoosts = await clearExpiredBoosts();
+    if (expiredBoosts > 0) {
+      logger.info({ count: expiredBoosts }, '[CRON] Cleared expired boosts');
+    }
+
+    // Return unspent referral credits past their expiry date to promotions
+    const expiredCredits = await expireCredits();
+    if (expiredCredits > 0) {
+      logger.info({ count: expiredCredits }, '[CRON] Expired credit grants');
+    }
+
+    // Subscription reminders, wallet auto-renewals, grace periods and expiry
+    const renewals = await processSubscriptionRenewals();
+    if (renewals.reminded + renewals.renewed + renewals.in_grace + renewals.expired > 0) {
+      logger.info(renewals, '[CRON] Processed subscriptions');
+    }
   } catch (err) {
     logger.error({ err }, '[CRON] Job error');
   }
 }
 
+async function runLedgerReconciliation() {
+  try {
+    const report = await reconcileLedger();
+    if (report.wallet_drift.length > 0 || report.credit_drift.length > 0 || report.unbalanced_entries.length > 0) {
+      logger.error(
+        { walletDrift: report.wallet_drift, creditDrift: report.credit_drift, unbalancedEntries: report.unbalanced_entries },
+        '[CRON] Ledger drift detected',
+      );
+    }
+  } catch (err) {
+    logger.error({ err }, '[CRON] Ledger reconciliation error');
+  }
+}
+
+// Refunds requested by committed settlements go out to the gateways
+async function runRefundSender() {
+  try {
+    const sent = await sendRequestedRefunds();
+    if (sent > 0) {
+      logger.info({ count: sent }, '[CRON] Sent gateway refunds');
+    }
+  } catch (err) {
+    logger.error({ err }, '[CRON] Refund sender error');
+  }
+}
+
 const CRON_INTERVAL_MS = 60 * 60 * 1000;
+const RECONCILE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const REFUND_INTERVAL_MS = 60 * 1000;
 
 // ─── Startup ──────────────────────────────────────────────
 
@@ -88,6 +180,10 @@ async function start() {
     logger.info({ port: config.port, env: config.nodeEnv }, 'KAERO API v1.0 started');
     runExpireJobs();
     setInterval(runExpireJobs, CRON_INTERVAL_MS);
+    runLedgerReconciliation();
+    setInterval(runLedgerReconciliation, RECONCILE_INTERVAL_MS);
+    runRefundSender();
+    setInterval(runRefundSender, REFUND_INTERVAL_MS);
   });
 }
 
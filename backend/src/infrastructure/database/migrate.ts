@@ -412,6 +412,797 @@ CREATE TABLE IF NOT EXISTS moderation_logs (
 -- Store AI assistant conversation context per user (last 20 msgs, rolling)
 ALTER TABLE IF EXISTS users ADD COLUMN IF NOT EXISTS ai_conversation JSONB DEFAULT '[]';
 
+-- ── Phase 6: Double-entry wallet ledger ───────────────────
+-- Every money movement is one journal entry whose postings sum to zero.
+-- users.wallet_balance is a cache of the user's wallet account balance.
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_key VARCHAR(80) UNIQUE NOT NULL,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('system','user_wallet')),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  description TEXT NOT NULL,
+  reference_id UUID,
+  reference_type VARCHAR(20),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_ref ON ledger_entries (reference_type, reference_id);
+
+CREATE TABLE IF NOT EXISTS ledger_postings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id UUID NOT NULL REFERENCES ledger_entries(id),
+  account_id UUID NOT NULL REFERENCES ledger_accounts(id),
+  amount DECIMAL(12,2) NOT NULL CHECK (amount <> 0),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_ledger_postings_account ON ledger_postings (account_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_postings_entry ON ledger_postings (entry_id);
+
+ALTER TABLE IF EXISTS wallet_transactions ADD COLUMN IF NOT EXISTS journal_entry_id UUID REFERENCES ledger_entries(id);
+
+INSERT INTO ledger_accounts (account_key, kind) VALUES
+  ('system:escrow', 'system'),
+  ('system:platform_fees', 'system'),
+  ('system:payouts_in_flight', 'system'),
+  ('system:external_funds', 'system')
+ON CONFLICT (account_key) DO NOTHING;
+
+-- Reject unbalanced journal entries at commit time
+CREATE OR REPLACE FUNCTION check_ledger_entry_balanced()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (SELECT COALESCE(SUM(amount), 0) FROM ledger_postings WHERE entry_id = NEW.entry_id) <> 0 THEN
+    RAISE EXCEPTION 'Ledger entry % does not balance', NEW.entry_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_ledger_postings_balanced ON ledger_postings;
+CREATE CONSTRAINT TRIGGER trg_ledger_postings_balanced
+  AFTER INSERT ON ledger_postings
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION check_ledger_entry_balanced();
+
+-- Postings are append-only: corrections are new entries, never edits
+CREATE OR REPLACE FUNCTION forbid_ledger_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'ledger_postings is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_ledger_postings_immutable ON ledger_postings;
+CREATE TRIGGER trg_ledger_postings_immutable
+  BEFORE UPDATE OR DELETE ON ledger_postings
+  FOR EACH ROW EXECUTE FUNCTION forbid_ledger_mutation();
+
+-- Opening balances for wallets that predate the ledger
+DO $$
+DECLARE
+  r RECORD;
+  acct UUID;
+  entry UUID;
+  ext UUID;
+BEGIN
+  SELECT id INTO ext FROM ledger_accounts WHERE account_key = 'system:external_funds';
+  FOR r IN
+    SELECT u.id, u.wallet_balance FROM users u
+    WHERE COALESCE(u.wallet_balance, 0) <> 0
+      AND NOT EXISTS (SELECT 1 FROM ledger_accounts a WHERE a.account_key = 'user_wallet:' || u.id)
+  LOOP
+    INSERT INTO ledger_accounts (account_key, kind, user_id)
+      VALUES ('user_wallet:' || r.id, 'user_wallet', r.id) RETURNING id INTO acct;
+    INSERT INTO ledger_entries (description, reference_id, reference_type)
+      VALUES ('Opening balance', r.id, 'opening_balance') RETURNING id INTO entry;
+    INSERT INTO ledger_postings (entry_id, account_id, amount)
+      VALUES (entry, acct, r.wallet_balance), (entry, ext, -r.wallet_balance);
+  END LOOP;
+END $$;
+
+-- ── Phase 6: Escrow ───────────────────────────────────────
+-- Card payments confirmed by the Paymob webhook are recorded as 'paymob'
+DO $$ BEGIN
+  ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_payment_method_check;
+  ALTER TABLE transactions ADD CONSTRAINT transactions_payment_method_check
+    CHECK (payment_method IN ('fawry','instapay','vodafone_cash','wallet','cash','paymob'));
+EXCEPTION WHEN others THEN NULL; END $$;
+
+-- Deals already paid for when escrow moved onto the ledger: book what the
+-- buyer paid into escrow, against external_funds like the opening balances,
+-- so release and refund have it to pay out. Cash deals never touch escrow.
+DO $$
+DECLARE
+  r RECORD;
+  entry UUID;
+  escrow UUID;
+  ext UUID;
+BEGIN
+  SELECT id INTO escrow FROM ledger_accounts WHERE account_key = 'system:escrow';
+  SELECT id INTO ext FROM ledger_accounts WHERE account_key = 'system:external_funds';
+  FOR r IN
+    SELECT t.id, t.seller_receives + t.platform_fee AS amount FROM transactions t
+    WHERE t.payment_status IN ('held','disputed')
+      AND t.payment_method IS DISTINCT FROM 'cash'
+      AND t.seller_receives + t.platform_fee > 0
+      AND NOT EXISTS (
+        SELECT 1 FROM ledger_entries e WHERE e.reference_type = 'transaction' AND e.reference_id = t.id
+      )
+  LOOP
+    INSERT INTO ledger_entries (description, reference_id, reference_type)
+      VALUES ('Opening escrow balance', r.id, 'transaction') RETURNING id INTO entry;
+    INSERT INTO ledger_postings (entry_id, account_id, amount)
+      VALUES (entry, escrow, r.amount), (entry, ext, -r.amount);
+  END LOOP;
+END $$;
+
+-- ── Phase 6: Commission engine ────────────────────────────
+-- NULL commission_rate = inherit from parent_id (root falls back to PLATFORM_FEE_PERCENT).
+-- Runs once, while the old default is still in place: subcategories still on
+-- it never had a rate chosen for them, so they go back to inheriting.
+DO $$ BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'categories' AND column_name = 'commission_rate' AND column_default IS NOT NULL
+  ) THEN
+    UPDATE categories SET commission_rate = NULL WHERE parent_id IS NOT NULL AND commission_rate = 0.040;
+    ALTER TABLE categories ALTER COLUMN commission_rate DROP DEFAULT;
+  END IF;
+END $$;
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS fee_breakdown JSONB;
+
+-- ── Phase 6: Paymob refunds & webhook idempotency ─────────
+ALTER TABLE IF EXISTS payment_intents ADD COLUMN IF NOT EXISTS provider_transaction_id VARCHAR(100);
+ALTER TABLE IF EXISTS payment_intents ADD COLUMN IF NOT EXISTS refund_status VARCHAR(20) DEFAULT 'none';
+ALTER TABLE IF EXISTS payment_intents ADD COLUMN IF NOT EXISTS refund_action VARCHAR(10);
+ALTER TABLE IF EXISTS payment_intents ADD COLUMN IF NOT EXISTS refund_provider_id VARCHAR(100);
+ALTER TABLE IF EXISTS payment_intents ADD COLUMN IF NOT EXISTS refunded_amount_cents INTEGER DEFAULT 0;
+ALTER TABLE IF EXISTS payment_intents ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMP;
+DO $$ BEGIN
+  ALTER TABLE payment_intents DROP CONSTRAINT IF EXISTS payment_intents_status_check;
+  ALTER TABLE payment_intents ADD CONSTRAINT payment_intents_status_check
+    CHECK (status IN ('pending','paid','failed','refunded','voided'));
+  ALTER TABLE payment_intents DROP CONSTRAINT IF EXISTS payment_intents_refund_status_check;
+  ALTER TABLE payment_intents ADD CONSTRAINT payment_intents_refund_status_check
+    CHECK (refund_status IN ('none','pending','refunded','voided','failed'));
+EXCEPTION WHEN others THEN NULL; END $$;
+CREATE INDEX IF NOT EXISTS idx_payment_intents_order ON payment_intents (provider, provider_order_id);
+
+-- Every gateway callback is stored; processed_at marks the one that was acted on
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider VARCHAR(20) NOT NULL,
+  provider_transaction_id VARCHAR(100),
+  provider_order_id VARCHAR(100),
+  event_type VARCHAR(20) NOT NULL,
+  hmac_valid BOOLEAN NOT NULL,
+  payload JSONB NOT NULL,
+  processed_at TIMESTAMP,
+  duplicate_of UUID REFERENCES payment_webhook_events(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_provider_txn
+  ON payment_webhook_events (provider, provider_transaction_id, event_type);
+
+-- Refunds are requested inside the DB transaction that settles escrow and
+-- sent to the provider only after it commits
+CREATE TABLE IF NOT EXISTS gateway_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  intent_id UUID NOT NULL REFERENCES payment_intents(id),
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'requested' CHECK (status IN ('requested','sending','sent')),
+  action VARCHAR(10),
+  provider_refund_id VARCHAR(100),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  sent_at TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS idx_gateway_refunds_requested ON gateway_refunds (created_at) WHERE status = 'requested';
+
+-- ── Phase 6: Payment providers (Fawry, Vodafone Cash) ─────
+-- provider_reference = code shown to the buyer (Fawry reference number, wallet payment id)
+ALTER TABLE IF EXISTS payment_intents ADD COLUMN IF NOT EXISTS provider_reference VARCHAR(100);
+ALTER TABLE IF EXISTS payment_intents ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP;
+DO $$ BEGIN
+  ALTER TABLE payment_intents DROP CONSTRAINT IF EXISTS payment_intents_status_check;
+  ALTER TABLE payment_intents ADD CONSTRAINT payment_intents_status_check
+    CHECK (status IN ('pending','paid','failed','expired','refunded','voided'));
+EXCEPTION WHEN others THEN NULL; END $$;
+
+-- ── Phase 6: Withdrawal processing & payout batches ───────
+-- pending → approved → processing (in a batch) → completed; rejected / failed return the funds
+CREATE TABLE IF NOT EXISTS payout_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  method VARCHAR(20) NOT NULL CHECK (method IN ('bank_transfer','vodafone_cash','instapay','fawry')),
+  status VARCHAR(20) NOT NULL DEFAULT 'exported' CHECK (status IN ('exported','paid')),
+  item_count INTEGER NOT NULL,
+  total_amount DECIMAL(12,2) NOT NULL,
+  paid_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+ALTER TABLE IF EXISTS withdrawal_requests ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES payout_batches(id);
+ALTER TABLE IF EXISTS withdrawal_requests ADD COLUMN IF NOT EXISTS provider_reference VARCHAR(100);
+ALTER TABLE IF EXISTS withdrawal_requests ADD COLUMN IF NOT EXISTS approved_at TIMESTAMP;
+DO $$ BEGIN
+  ALTER TABLE withdrawal_requests DROP CONSTRAINT IF EXISTS withdrawal_requests_status_check;
+  ALTER TABLE withdrawal_requests ADD CONSTRAINT withdrawal_requests_status_check
+    CHECK (status IN ('pending','approved','processing','completed','rejected','failed'));
+EXCEPTION WHEN others THEN NULL; END $$;
+CREATE INDEX IF NOT EXISTS idx_withdrawal_status ON withdrawal_requests (status, method, created_at);
+CREATE INDEX IF NOT EXISTS idx_withdrawal_batch ON withdrawal_requests (batch_id);
+
+-- ── Phase 6: Promo redemption at checkout ─────────────────
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS promo_code_id UUID REFERENCES promo_codes(id);
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS promo_discount DECIMAL(10,2) DEFAULT 0;
+CREATE INDEX IF NOT EXISTS idx_promo_uses_transaction ON promo_code_uses (transaction_id);
+
+-- ── Phase 6: Spendable referral credits ───────────────────
+-- Credits live in their own ledger account per user (user_credits:<id>), never
+-- in the withdrawable wallet. users.referral_credits caches that balance.
+DO $$ BEGIN
+  ALTER TABLE ledger_accounts DROP CONSTRAINT IF EXISTS ledger_accounts_kind_check;
+  ALTER TABLE ledger_accounts ADD CONSTRAINT ledger_accounts_kind_check
+    CHECK (kind IN ('system','user_wallet','user_credits'));
+EXCEPTION WHEN others THEN NULL; END $$;
+
+INSERT INTO ledger_accounts (account_key, kind) VALUES ('system:promotions', 'system')
+ON CONFLICT (account_key) DO NOTHING;
+
+ALTER TABLE IF EXISTS users ALTER COLUMN referral_credits TYPE DECIMAL(12,2);
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS credits_applied DECIMAL(12,2) DEFAULT 0;
+
+-- Each grant expires on its own date; spending draws from the soonest-expiring first
+CREATE TABLE IF NOT EXISTS credit_grants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  source VARCHAR(30) NOT NULL CHECK (source IN ('referral_signup','referral_bonus','refund','opening_balance')),
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  remaining DECIMAL(12,2) NOT NULL CHECK (remaining >= 0),
+  reference_id UUID,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_credit_grants_user ON credit_grants (user_id, expires_at) WHERE remaining > 0;
+-- A referral pays out once per referred user
+CREATE UNIQUE INDEX IF NOT EXISTS uq_credit_grants_referral
+  ON credit_grants (user_id, source, reference_id)
+  WHERE source IN ('referral_signup','referral_bonus');
+
+CREATE TABLE IF NOT EXISTS credit_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('earned','spent','expired','refunded')),
+  amount DECIMAL(12,2) NOT NULL,
+  balance_after DECIMAL(12,2) NOT NULL,
+  description TEXT,
+  reference_id UUID,
+  reference_type VARCHAR(20),
+  journal_entry_id UUID REFERENCES ledger_entries(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_credit_transactions_user ON credit_transactions (user_id, created_at DESC);
+
+-- Opening balances for credits granted before they were spendable
+DO $$
+DECLARE
+  r RECORD;
+  acct UUID;
+  entry UUID;
+  promos UUID;
+BEGIN
+  SELECT id INTO promos FROM ledger_accounts WHERE account_key = 'system:promotions';
+  FOR r IN
+    SELECT u.id, u.referral_credits FROM users u
+    WHERE COALESCE(u.referral_credits, 0) > 0
+      AND NOT EXISTS (SELECT 1 FROM ledger_accounts a WHERE a.account_key = 'user_credits:' || u.id)
+  LOOP
+    INSERT INTO ledger_accounts (account_key, kind, user_id)
+      VALUES ('user_credits:' || r.id, 'user_credits', r.id) RETURNING id INTO acct;
+    INSERT INTO ledger_entries (description, reference_id, reference_type)
+      VALUES ('Opening credit balance', r.id, 'opening_balance') RETURNING id INTO entry;
+    INSERT INTO ledger_postings (entry_id, account_id, amount)
+      VALUES (entry, acct, r.referral_credits), (entry, promos, -r.referral_credits);
+    INSERT INTO credit_grants (user_id, source, amount, remaining, expires_at)
+      VALUES (r.id, 'opening_balance', r.referral_credits, r.referral_credits, NOW() + INTERVAL '180 days');
+    INSERT INTO credit_transactions (user_id, type, amount, balance_after, description, journal_entry_id)
+      VALUES (r.id, 'earned', r.referral_credits, r.referral_credits, 'Opening credit balance', entry);
+  END LOOP;
+END $$;
+
+-- ── Phase 6: Paid listing boosts ──────────────────────────
+-- A boost only features the listing once its purchase is paid
+CREATE TABLE IF NOT EXISTS boost_purchases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  listing_id UUID NOT NULL REFERENCES listings(id) ON DELETE CASCADE,
+  seller_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  tier VARCHAR(10) NOT NULL CHECK (tier IN ('basic','standard','premium')),
+  days INTEGER NOT NULL,
+  price DECIMAL(10,2) NOT NULL,
+  payment_method VARCHAR(20) NOT NULL CHECK (payment_method IN ('wallet','credits','paymob')),
+  status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending','paid','failed')),
+  featured_until TIMESTAMP,
+  paid_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_boost_purchases_seller ON boost_purchases (seller_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_boost_purchases_listing ON boost_purchases (listing_id);
+
+ALTER TABLE IF EXISTS payment_intents ADD COLUMN IF NOT EXISTS boost_purchase_id UUID REFERENCES boost_purchases(id);
+
+-- ── Phase 6: Premium seller subscriptions ─────────────────
+-- pending (awaiting card payment) → active → grace (unpaid renewal) → expired
+ALTER TABLE IF EXISTS subscriptions ADD COLUMN IF NOT EXISTS status VARCHAR(20) DEFAULT 'active'
+  CHECK (status IN ('pending','active','grace','expired','failed'));
+ALTER TABLE IF EXISTS subscriptions ADD COLUMN IF NOT EXISTS price DECIMAL(10,2) DEFAULT 0;
+ALTER TABLE IF EXISTS subscriptions ADD COLUMN IF NOT EXISTS payment_method VARCHAR(20);
+ALTER TABLE IF EXISTS subscriptions ADD COLUMN IF NOT EXISTS auto_renew BOOLEAN DEFAULT TRUE;
+ALTER TABLE IF EXISTS subscriptions ADD COLUMN IF NOT EXISTS period_started_at TIMESTAMP DEFAULT NOW();
+ALTER TABLE IF EXISTS subscriptions ADD COLUMN IF NOT EXISTS grace_until TIMESTAMP;
+ALTER TABLE IF EXISTS subscriptions ADD COLUMN IF NOT EXISTS reminder_sent_at TIMESTAMP;
+UPDATE subscriptions SET status = 'expired' WHERE is_active = FALSE AND status = 'active';
+ALTER TABLE IF EXISTS subscriptions ADD COLUMN IF NOT EXISTS created_at TIMESTAMP DEFAULT NOW();
+CREATE UNIQUE INDEX IF NOT EXISTS uq_subscriptions_live ON subscriptions (user_id) WHERE status IN ('active','grace');
+CREATE INDEX IF NOT EXISTS idx_subscriptions_expiry ON subscriptions (status, expires_at);
+
+ALTER TABLE IF EXISTS users ADD COLUMN IF NOT EXISTS is_verified_store BOOLEAN DEFAULT FALSE;
+ALTER TABLE IF EXISTS payment_intents ADD COLUMN IF NOT EXISTS subscription_id UUID REFERENCES subscriptions(id);
+
+-- Premium sellers can spend a monthly free boost
+DO $$ BEGIN
+  ALTER TABLE boost_purchases DROP CONSTRAINT IF EXISTS boost_purchases_payment_method_check;
+  ALTER TABLE boost_purchases ADD CONSTRAINT boost_purchases_payment_method_check
+    CHECK (payment_method IN ('wallet','credits','paymob','subscription'));
+EXCEPTION WHEN others THEN NULL; END $$;
+
+-- ── Phase 6: Offer negotiation rounds ─────────────────────
+-- Every price proposed on an offer, by either side, in order. The latest
+-- round is 'open' until the other party accepts, rejects or counters it.
+CREATE TABLE IF NOT EXISTS offer_rounds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  offer_id UUID NOT NULL REFERENCES offers(id) ON DELETE CASCADE,
+  round_number INTEGER NOT NULL,
+  proposed_by UUID NOT NULL REFERENCES users(id),
+  proposer_role VARCHAR(10) NOT NULL CHECK (proposer_role IN ('buyer','seller')),
+  price DECIMAL(10,2) NOT NULL CHECK (price > 0),
+  message TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open','countered','accepted','rejected','withdrawn','expired')),
+  expires_at TIMESTAMP NOT NULL,
+  responded_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (offer_id, round_number)
+);
+CREATE INDEX IF NOT EXISTS idx_offer_rounds_open ON offer_rounds (expires_at) WHERE status = 'open';
+
+ALTER TABLE IF EXISTS offers ADD COLUMN IF NOT EXISTS round_count INTEGER DEFAULT 1;
+
+-- Backfill: the buyer's offer is round 1, an existing seller counter round 2
+INSERT INTO offer_rounds (offer_id, round_number, proposed_by, proposer_role, price, message, status, expires_at, created_at)
+SELECT o.id, 1, o.buyer_id, 'buyer', o.offered_price, o.message,
+       CASE o.status WHEN 'pending' THEN 'open' WHEN 'countered' THEN 'countered' WHEN 'rejected' THEN 'rejected'
+                     WHEN 'accepted' THEN 'accepted' ELSE 'expired' END,
+       COALESCE(o.expires_at, o.created_at + INTERVAL '48 hours'), o.created_at
+FROM offers o
+WHERE NOT EXISTS (SELECT 1 FROM offer_rounds r WHERE r.offer_id = o.id);
+
+INSERT INTO offer_rounds (offer_id, round_number, proposed_by, proposer_role, price, status, expires_at, created_at)
+SELECT o.id, 2, l.seller_id, 'seller', o.counter_price, 'open',
+       COALESCE(o.expires_at, o.created_at + INTERVAL '48 hours'), o.created_at
+FROM offers o JOIN listings l ON l.id = o.listing_id
+WHERE o.status = 'countered' AND o.counter_price IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM offer_rounds r WHERE r.offer_id = o.id AND r.round_number = 2);
+UPDATE offers o SET round_count = (SELECT COUNT(*) FROM offer_rounds r WHERE r.offer_id = o.id)
+WHERE round_count IS DISTINCT FROM (SELECT COUNT(*) FROM offer_rounds r WHERE r.offer_id = o.id);
+
+-- ── Phase 6: Swap offers ──────────────────────────────────
+-- An accepted exchange offer becomes a swap: two linked transactions, one per
+-- listing, each "bought" by the other party. The optional cash top-up rides on
+-- the transaction of whoever pays it; the other transaction is worth zero.
+-- cash_topup > 0: the offer's buyer pays the seller; < 0: the seller pays.
+ALTER TABLE IF EXISTS offers ADD COLUMN IF NOT EXISTS cash_topup DECIMAL(10,2) DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS swaps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  offer_id UUID NOT NULL UNIQUE REFERENCES offers(id),
+  initiator_id UUID NOT NULL REFERENCES users(id),
+  responder_id UUID NOT NULL REFERENCES users(id),
+  initiator_listing_id UUID NOT NULL REFERENCES listings(id),
+  responder_listing_id UUID NOT NULL REFERENCES listings(id),
+  cash_topup DECIMAL(10,2) NOT NULL DEFAULT 0,
+  status VARCHAR(20) NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress','completed','cancelled')),
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS swap_id UUID REFERENCES swaps(id);
+CREATE INDEX IF NOT EXISTS idx_transactions_swap ON transactions (swap_id) WHERE swap_id IS NOT NULL;
+
+-- ── Phase 6: Instant buy ─────────────────────────────────
+-- Buy Now purchases a listing at final_price without an offer; the resulting
+-- transaction has no offer_id. Sellers can opt individual listings out.
+ALTER TABLE IF EXISTS listings ADD COLUMN IF NOT EXISTS instant_buy_enabled BOOLEAN DEFAULT TRUE;
+
+-- ── Phase 6: Offer windows & expiry reminders ────────────
+-- Sellers choose how long each negotiation round stays open (NULL = platform
+-- default). Buyers get one reminder per round before it expires.
+-- offer_count tracks offers still being negotiated. It is resynced once, on
+-- the boot that adds offer_window_hours; the service keeps it current after.
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns WHERE table_name = 'listings' AND column_name = 'offer_window_hours'
+  ) THEN
+    UPDATE listings l SET offer_count = (
+      SELECT COUNT(*) FROM offers o WHERE o.listing_id = l.id AND o.status IN ('pending','countered')
+    );
+  END IF;
+END $$;
+ALTER TABLE IF EXISTS listings ADD COLUMN IF NOT EXISTS offer_window_hours INTEGER CHECK (offer_window_hours > 0);
+ALTER TABLE IF EXISTS offers ADD COLUMN IF NOT EXISTS expiry_reminder_sent_at TIMESTAMP;
+CREATE INDEX IF NOT EXISTS idx_offers_live_expiry ON offers (expires_at) WHERE status IN ('pending','countered');
+
+-- ── Phase 6: Seller auto-response rules ──────────────────
+-- Per-listing rules applied to new cash offers: accept at or above
+-- auto_accept_at, decline below auto_decline_below, otherwise counter at
+-- auto_counter_at. Kept out of listings so buyers never see the thresholds.
+CREATE TABLE IF NOT EXISTS listing_offer_rules (
+  listing_id UUID PRIMARY KEY REFERENCES listings(id) ON DELETE CASCADE,
+  auto_accept_at DECIMAL(10,2) CHECK (auto_accept_at > 0),
+  auto_decline_below DECIMAL(10,2) CHECK (auto_decline_below > 0),
+  auto_counter_at DECIMAL(10,2) CHECK (auto_counter_at > 0),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+ALTER TABLE IF EXISTS offers ADD COLUMN IF NOT EXISTS auto_response VARCHAR(20)
+  CHECK (auto_response IN ('accepted','declined','countered'));
+ALTER TABLE IF EXISTS offer_rounds ADD COLUMN IF NOT EXISTS is_automatic BOOLEAN DEFAULT FALSE;
+
+-- ── Phase 6: Transaction lifecycle ────────────────────────
+-- status tracks where the deal is (payment → handover → receipt); payment_status
+-- keeps tracking where the money is. The escrow hold starts at handover.
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'awaiting_payment'
+  CHECK (status IN ('awaiting_payment','paid','handed_over','shipped','received','completed','cancelled','refunded'));
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS tracking_number VARCHAR(100);
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS handed_over_at TIMESTAMP;
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS received_at TIMESTAMP;
+
+UPDATE transactions SET status = CASE payment_status
+    WHEN 'released' THEN 'completed'
+    WHEN 'refunded' THEN 'refunded'
+    ELSE 'paid'
+  END
+WHERE status = 'awaiting_payment' AND payment_status <> 'pending';
+
+CREATE TABLE IF NOT EXISTS transaction_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+  from_status VARCHAR(20) NOT NULL,
+  to_status VARCHAR(20) NOT NULL,
+  actor_id UUID REFERENCES users(id),
+  reason VARCHAR(100),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_transaction_status_history_txn ON transaction_status_history (transaction_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_transactions_handover_release ON transactions (escrow_hold_until)
+  WHERE status IN ('handed_over','shipped') AND payment_status = 'held';
+
+-- ── Phase 6: Transaction cancellation ─────────────────────
+-- Before payment either party can cancel; after payment one party asks
+-- (cancel_requested_by) and the other agrees, or the seller refunds.
+-- cancelled_by is who walked away — NULL for a mutual abort or an admin.
+DO $$ BEGIN
+  ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_payment_status_check;
+  ALTER TABLE transactions ADD CONSTRAINT transactions_payment_status_check
+    CHECK (payment_status IN ('pending','held','released','refunded','disputed','cancelled'));
+EXCEPTION WHEN others THEN NULL; END $$;
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS cancel_requested_by UUID REFERENCES users(id);
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS cancel_requested_at TIMESTAMP;
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS cancel_reason VARCHAR(500);
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS cancelled_by UUID REFERENCES users(id);
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP;
+CREATE INDEX IF NOT EXISTS idx_transactions_awaiting_payment ON transactions (created_at)
+  WHERE status = 'awaiting_payment';
+
+-- ── Phase 6: One live deal per listing ───────────────────
+-- Offer acceptance, Buy Now and swaps all lock the listing row first; this
+-- index is the backstop that keeps a listing to one unpaid/held transaction.
+-- Deals duplicated by earlier races are cancelled first (after the section
+-- above, so they can be): a listing keeps its paid deal, else its oldest
+-- unpaid one. Two paid deals on a listing need one refunded by hand, so the
+-- index waits, with a warning, until that is done.
+DO $$ BEGIN
+  WITH ranked AS (
+    SELECT id, status, ROW_NUMBER() OVER (
+      PARTITION BY listing_id ORDER BY (payment_status = 'pending'), created_at, id
+    ) AS n
+    FROM transactions WHERE payment_status IN ('pending','held','disputed')
+  ), duplicates AS (
+    UPDATE transactions t SET status = 'cancelled', payment_status = 'cancelled',
+      cancel_reason = 'Duplicate deal on the listing', cancelled_at = NOW()
+    FROM ranked r
+    WHERE r.id = t.id AND r.n > 1 AND t.payment_status = 'pending'
+    RETURNING t.id, r.status
+  )
+  INSERT INTO transaction_status_history (transaction_id, from_status, to_status, reason)
+  SELECT id, status, 'cancelled', 'duplicate_deal' FROM duplicates;
+
+  IF EXISTS (
+    SELECT 1 FROM transactions WHERE payment_status IN ('pending','held','disputed')
+    GROUP BY listing_id HAVING COUNT(*) > 1
+  ) THEN
+    RAISE WARNING 'uq_transactions_live_listing not created: some listings have more than one paid deal to refund';
+  ELSE
+    CREATE UNIQUE INDEX IF NOT EXISTS uq_transactions_live_listing
+      ON transactions (listing_id) WHERE payment_status IN ('pending','held','disputed');
+  END IF;
+END $$;
+
+-- ── Phase 6: Cash meetups ─────────────────────────────────
+-- One-time code the buyer shows at a cash meetup; the seller entering it is
+-- the proof of handover. Kept out of transactions so it is never returned
+-- with a transaction row.
+CREATE TABLE IF NOT EXISTS transaction_handover_codes (
+  transaction_id UUID PRIMARY KEY REFERENCES transactions(id) ON DELETE CASCADE,
+  code VARCHAR(6) NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Busy public places suggested as meeting points
+CREATE TABLE IF NOT EXISTS safe_meeting_spots (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(150) NOT NULL UNIQUE,
+  name_ar VARCHAR(150),
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('police_station','mall','metro_station','bank','other')),
+  address TEXT,
+  location GEOGRAPHY(POINT,4326) NOT NULL,
+  is_active BOOLEAN DEFAULT TRUE
+);
+CREATE INDEX IF NOT EXISTS idx_safe_meeting_spots_location ON safe_meeting_spots USING GIST (location);
+
+-- ── Phase 6: Courier delivery ─────────────────────────────
+-- The buyer can have the item delivered by courier instead of meeting up.
+-- The delivery fee is paid with the item and held in escrow until the deal
+-- completes. A courier pickup moves the deal to shipped; delivery starts the
+-- escrow hold.
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS delivery_method VARCHAR(10) NOT NULL DEFAULT 'meetup'
+  CHECK (delivery_method IN ('meetup','delivery'));
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS shipping_address JSONB;
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS shipping_fee DECIMAL(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS courier VARCHAR(20);
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS courier_shipment_id VARCHAR(100);
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS tracking_url TEXT;
+ALTER TABLE IF EXISTS transactions ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP;
+DO $$ BEGIN
+  ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_status_check;
+  ALTER TABLE transactions ADD CONSTRAINT transactions_status_check
+    CHECK (status IN ('awaiting_payment','paid','handed_over','shipped','delivered','received','completed','cancelled','refunded'));
+EXCEPTION WHEN others THEN NULL; END $$;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_courier_tracking ON transactions (courier, tracking_number)
+  WHERE courier IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_transactions_delivered_release ON transactions (escrow_hold_until)
+  WHERE status = 'delivered' AND payment_status = 'held';
+
+INSERT INTO ledger_accounts (account_key, kind) VALUES ('system:shipping', 'system')
+ON CONFLICT (account_key) DO NOTHING;
+
+-- Every tracking callback is stored; processed_at marks the one that was acted on
+CREATE TABLE IF NOT EXISTS shipment_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID REFERENCES transactions(id) ON DELETE CASCADE,
+  provider VARCHAR(20) NOT NULL,
+  tracking_number VARCHAR(100),
+  event_type VARCHAR(20) NOT NULL,
+  provider_status VARCHAR(100),
+  signature_valid BOOLEAN NOT NULL,
+  payload JSONB NOT NULL,
+  occurred_at TIMESTAMP,
+  processed_at TIMESTAMP,
+  duplicate_of UUID REFERENCES shipment_events(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_shipment_events_tracking ON shipment_events (provider, tracking_number, event_type);
+CREATE INDEX IF NOT EXISTS idx_shipment_events_txn ON shipment_events (transaction_id, created_at);
+
+-- ── Phase 6: Dispute cases ────────────────────────────────
+-- A dispute is its own case: evidence from both parties, a three-way thread
+-- (buyer, seller, admin), a deadline for the other party to respond and an
+-- SLA for resolving it. transactions.dispute_status mirrors the case for
+-- the escrow logic. A partial refund splits escrow between the parties.
+DO $$ BEGIN
+  ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_dispute_status_check;
+  ALTER TABLE transactions ADD CONSTRAINT transactions_dispute_status_check
+    CHECK (dispute_status IN ('none','opened','under_review','resolved_buyer','resolved_seller','resolved_partial'));
+EXCEPTION WHEN others THEN NULL; END $$;
+
+CREATE TABLE IF NOT EXISTS disputes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID NOT NULL UNIQUE REFERENCES transactions(id) ON DELETE CASCADE,
+  opened_by UUID NOT NULL REFERENCES users(id),
+  respondent_id UUID NOT NULL REFERENCES users(id),
+  reason VARCHAR(30) NOT NULL
+    CHECK (reason IN ('item_not_received','item_not_as_described','payment_issue','fraud','other')),
+  details TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'opened' CHECK (status IN ('opened','under_review','resolved')),
+  response_due_at TIMESTAMP NOT NULL,
+  responded_at TIMESTAMP,
+  resolution_due_at TIMESTAMP NOT NULL,
+  sla_breached_at TIMESTAMP,
+  reviewed_by UUID REFERENCES users(id),
+  review_started_at TIMESTAMP,
+  resolution VARCHAR(20) CHECK (resolution IN ('resolved_buyer','resolved_seller','resolved_partial')),
+  refund_amount DECIMAL(12,2),
+  resolution_notes TEXT,
+  resolved_by UUID REFERENCES users(id),
+  resolved_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_disputes_open ON disputes (status, resolution_due_at) WHERE status <> 'resolved';
+
+-- Post-release claims: after the seller has been paid, a buyer can still claim
+-- an item wasn't as described within the claim window. The seller's proceeds
+-- are clawed back from their wallet into escrow; what the wallet couldn't
+-- cover (claim_shortfall) stays on hold against the seller's future balance
+-- until the claim is resolved.
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS kind VARCHAR(10) NOT NULL DEFAULT 'escrow';
+DO $$ BEGIN
+  ALTER TABLE disputes ADD CONSTRAINT disputes_kind_check CHECK (kind IN ('escrow','claim'));
+EXCEPTION WHEN others THEN NULL; END $$;
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS claim_amount DECIMAL(12,2);
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS clawed_back DECIMAL(12,2);
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS claim_shortfall DECIMAL(12,2) NOT NULL DEFAULT 0;
+CREATE INDEX IF NOT EXISTS idx_disputes_claim_holds ON disputes (respondent_id)
+  WHERE kind = 'claim' AND status <> 'resolved' AND claim_shortfall > 0;
+
+CREATE TABLE IF NOT EXISTS dispute_evidence (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dispute_id UUID NOT NULL REFERENCES disputes(id) ON DELETE CASCADE,
+  uploaded_by UUID NOT NULL REFERENCES users(id),
+  url TEXT NOT NULL,
+  caption VARCHAR(300),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_dispute_evidence_dispute ON dispute_evidence (dispute_id, created_at);
+
+CREATE TABLE IF NOT EXISTS dispute_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dispute_id UUID NOT NULL REFERENCES disputes(id) ON DELETE CASCADE,
+  sender_id UUID REFERENCES users(id),
+  sender_role VARCHAR(10) NOT NULL CHECK (sender_role IN ('buyer','seller','admin','system')),
+  body TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_dispute_messages_dispute ON dispute_messages (dispute_id, created_at);
+
+-- Disputes opened before cases existed: reason was stored as "reason: details"
+INSERT INTO disputes (transaction_id, opened_by, respondent_id, reason, details, status,
+                      response_due_at, resolution_due_at, resolution, resolved_at)
+SELECT t.id, t.buyer_id, t.seller_id,
+  CASE WHEN split_part(t.dispute_reason, ':', 1)
+         IN ('item_not_received','item_not_as_described','payment_issue','fraud','other')
+       THEN split_part(t.dispute_reason, ':', 1) ELSE 'other' END,
+  NULLIF(btrim(substr(t.dispute_reason, strpos(t.dispute_reason, ':') + 1)), ''),
+  CASE WHEN t.dispute_status LIKE 'resolved%' THEN 'resolved'
+       WHEN t.dispute_status = 'under_review' THEN 'under_review' ELSE 'opened' END,
+  NOW(), NOW(),
+  CASE WHEN t.dispute_status LIKE 'resolved%' THEN t.dispute_status END,
+  CASE WHEN t.dispute_status LIKE 'resolved%' THEN COALESCE(t.completed_at, t.refunded_at, NOW()) END
+FROM transactions t
+WHERE t.dispute_status <> 'none'
+ON CONFLICT (transaction_id) DO NOTHING;
+
+INSERT INTO dispute_evidence (dispute_id, uploaded_by, url)
+SELECT d.id, d.opened_by, e.url
+FROM disputes d
+JOIN transactions t ON t.id = d.transaction_id
+CROSS JOIN LATERAL jsonb_array_elements_text(
+  CASE WHEN jsonb_typeof(t.dispute_evidence) = 'array' THEN t.dispute_evidence ELSE '[]'::jsonb END
+) AS e(url)
+WHERE NOT EXISTS (SELECT 1 FROM dispute_evidence de WHERE de.dispute_id = d.id);
+
+-- ── Phase 6: Admin dispute queue ──────────────────────────
+-- Cases are worked from the admin API: each is assigned to one admin, who
+-- keeps internal notes the parties never see.
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES users(id);
+ALTER TABLE disputes ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMP;
+CREATE INDEX IF NOT EXISTS idx_disputes_assigned ON disputes (assigned_to, status) WHERE status <> 'resolved';
+
+CREATE TABLE IF NOT EXISTS dispute_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dispute_id UUID NOT NULL REFERENCES disputes(id) ON DELETE CASCADE,
+  admin_id UUID NOT NULL REFERENCES users(id),
+  body TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_dispute_notes_dispute ON dispute_notes (dispute_id, created_at);
+
+-- ── Phase 6: Admin roles & audit log ──────────────────────
+-- Admins are users with a role instead of holders of a shared API key. They
+-- step up from the normal login with a TOTP code. is_admin stays in step
+-- with admin_role for the code that only asks "is this staff?".
+ALTER TABLE users ADD COLUMN IF NOT EXISTS admin_role VARCHAR(20);
+DO $$ BEGIN
+  ALTER TABLE users ADD CONSTRAINT users_admin_role_check
+    CHECK (admin_role IN ('super_admin','moderator','finance','support'));
+EXCEPTION WHEN others THEN NULL; END $$;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS admin_totp_secret VARCHAR(64);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS admin_totp_enabled_at TIMESTAMP;
+-- Last accepted TOTP time step, so a code can't be used twice
+ALTER TABLE users ADD COLUMN IF NOT EXISTS admin_totp_last_step BIGINT;
+UPDATE users SET admin_role = 'super_admin' WHERE is_admin AND admin_role IS NULL;
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_id UUID NOT NULL REFERENCES users(id),
+  admin_role VARCHAR(20),
+  action VARCHAR(100) NOT NULL,
+  permission VARCHAR(40),
+  target_id VARCHAR(100),
+  details JSONB,
+  status_code INT NOT NULL,
+  ip VARCHAR(64),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_admin ON admin_audit_log (admin_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_target ON admin_audit_log (target_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_created ON admin_audit_log (created_at DESC);
+
+CREATE OR REPLACE FUNCTION forbid_audit_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'admin_audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+DROP TRIGGER IF EXISTS trg_admin_audit_immutable ON admin_audit_log;
+CREATE TRIGGER trg_admin_audit_immutable
+  BEFORE UPDATE OR DELETE ON admin_audit_log
+  FOR EACH ROW EXECUTE FUNCTION forbid_audit_mutation();
+
+-- ── Phase 6: Bans & suspensions ───────────────────────────
+-- users.is_banned is enforced on every authenticated request and socket.
+-- banned_until makes it a suspension that ends on its own. A banned seller's
+-- active listings are 'hidden' until the ban is lifted. user_bans keeps the
+-- history; each ban can be appealed once.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS banned_until TIMESTAMP;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS ban_reason TEXT;
+CREATE INDEX IF NOT EXISTS idx_users_suspended ON users (banned_until) WHERE is_banned AND banned_until IS NOT NULL;
+DO $$ BEGIN
+  ALTER TABLE listings DROP CONSTRAINT IF EXISTS listings_status_check;
+  ALTER TABLE listings ADD CONSTRAINT listings_status_check
+    CHECK (status IN ('active','reserved','sold','deleted','under_review','hidden'));
+EXCEPTION WHEN others THEN NULL; END $$;
+
+CREATE TABLE IF NOT EXISTS user_bans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  banned_by UUID NOT NULL REFERENCES users(id),
+  reason TEXT NOT NULL,
+  ends_at TIMESTAMP,
+  lifted_at TIMESTAMP,
+  lifted_by UUID REFERENCES users(id),
+  lift_reason TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_bans_current ON user_bans (user_id) WHERE lifted_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS ban_appeals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ban_id UUID NOT NULL UNIQUE REFERENCES user_bans(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  message TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','upheld','overturned')),
+  reviewed_by UUID REFERENCES users(id),
+  review_notes TEXT,
+  reviewed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_ban_appeals_pending ON ban_appeals (created_at) WHERE status = 'pending';
+
 -- ═══ TRIGGER: auto-update search_vector ══════════════════
 
 CREATE OR REPLACE FUNCTION update_listing_search_vector()
@@ -520,6 +1311,29 @@ CREATE INDEX IF NOT EXISTS idx_reports_listing_id
 `;
 
 const DOWN = `
+DROP TABLE IF EXISTS ban_appeals CASCADE;
+DROP TABLE IF EXISTS user_bans CASCADE;
+DROP TABLE IF EXISTS admin_audit_log CASCADE;
+DROP TABLE IF EXISTS dispute_notes CASCADE;
+DROP TABLE IF EXISTS dispute_messages CASCADE;
+DROP TABLE IF EXISTS dispute_evidence CASCADE;
+DROP TABLE IF EXISTS disputes CASCADE;
+DROP TABLE IF EXISTS shipment_events CASCADE;
+DROP TABLE IF EXISTS safe_meeting_spots CASCADE;
+DROP TABLE IF EXISTS transaction_handover_codes CASCADE;
+DROP TABLE IF EXISTS transaction_status_history CASCADE;
+DROP TABLE IF EXISTS listing_offer_rules CASCADE;
+DROP TABLE IF EXISTS swaps CASCADE;
+DROP TABLE IF EXISTS offer_rounds CASCADE;
+DROP TABLE IF EXISTS boost_purchases CASCADE;
+DROP TABLE IF EXISTS credit_transactions CASCADE;
+DROP TABLE IF EXISTS credit_grants CASCADE;
+DROP TABLE IF EXISTS payout_batches CASCADE;
+DROP TABLE IF EXISTS gateway_refunds CASCADE;
+DROP TABLE IF EXISTS payment_webhook_events CASCADE;
+DROP TABLE IF EXISTS ledger_postings CASCADE;
+DROP TABLE IF EXISTS ledger_entries CASCADE;
+DROP TABLE IF EXISTS ledger_accounts CASCADE;
 DROP TABLE IF EXISTS otp_codes CASCADE;
 DROP TABLE IF EXISTS refresh_tokens CASCADE;
 DROP TABLE IF EXISTS subscriptions CASCADE;
@@ -534,6 +1348,9 @@ DROP TABLE IF EXISTS categories CASCADE;
 DROP TABLE IF EXISTS users CASCADE;
 DROP FUNCTION IF EXISTS update_listing_search_vector CASCADE;
 DROP FUNCTION IF EXISTS update_timestamp CASCADE;
+DROP FUNCTION IF EXISTS check_ledger_entry_balanced CASCADE;
+DROP FUNCTION IF EXISTS forbid_ledger_mutation CASCADE;
+DROP FUNCTION IF EXISTS forbid_audit_mutation CASCADE;
 `;
 
 /** Exported for use by index.ts on startup */
@@ -25,7 +25,10 @@ export async function queryOne<T = any>(text: string, params?: any[]): Promise<T
   return rows[0] ?? null;
 }
 
-export async function withTransaction<T>(fn: (client: { query: typeof query; queryOne: typeof queryOne }) => Promise<T>): Promise<T> {
+/** Query helpers bound to a single connection inside withTransaction */
+export type DbClient = { query: typeof query; queryOne: typeof queryOne };
+
+export async function withTransaction<T>(fn: (client: DbClient) => Promise<T>): Promise<T> {
   const client = await pool.connect();
   try {
     await client.query('BEGIN');
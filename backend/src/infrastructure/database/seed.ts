@@ -54,6 +54,30 @@ async function seed() {
   }
 
   console.log('✓ Categories seeded.');
+
+  // ─── Safe meeting spots ──────────────────────────────
+  const spots = [
+    { name: 'City Stars Mall', name_ar: 'سيتي ستارز', kind: 'mall', address: 'Omar Ibn El Khattab St, Nasr City, Cairo', lat: 30.0729, lng: 31.3456 },
+    { name: 'Cairo Festival City Mall', name_ar: 'كايرو فستيفال سيتي', kind: 'mall', address: 'Ring Road, New Cairo', lat: 30.0287, lng: 31.4085 },
+    { name: 'Maadi Grand Mall', name_ar: 'معادي جراند مول', kind: 'mall', address: 'Road 250, Maadi, Cairo', lat: 29.9596, lng: 31.2584 },
+    { name: 'Sadat Metro Station', name_ar: 'محطة مترو السادات', kind: 'metro_station', address: 'Tahrir Square, Downtown Cairo', lat: 30.0444, lng: 31.2357 },
+    { name: 'Mall of Arabia', name_ar: 'مول العرب', kind: 'mall', address: '26th of July Corridor, 6th of October City', lat: 29.9727, lng: 30.9469 },
+    { name: 'Arkan Plaza', name_ar: 'أركان بلازا', kind: 'mall', address: '26th of July Corridor, Sheikh Zayed', lat: 30.0196, lng: 30.9818 },
+    { name: 'Dandy Mega Mall', name_ar: 'داندي ميجا مول', kind: 'mall', address: 'Cairo–Alexandria Desert Road, Giza', lat: 30.0627, lng: 31.0267 },
+    { name: 'San Stefano Grand Plaza', name_ar: 'سان ستيفانو جراند بلازا', kind: 'mall', address: 'El Geish Road, San Stefano, Alexandria', lat: 31.2454, lng: 29.9658 },
+    { name: 'City Centre Alexandria', name_ar: 'سيتي سنتر الإسكندرية', kind: 'mall', address: 'Cairo–Alexandria Desert Road, Alexandria', lat: 31.1690, lng: 29.9317 },
+  ];
+
+  for (const spot of spots) {
+    await query(
+      `INSERT INTO safe_meeting_spots (name, name_ar, kind, address, location)
+       VALUES ($1, $2, $3, $4, ST_SetSRID(ST_MakePoint($5, $6), 4326)::geography)
+       ON CONFLICT (name) DO NOTHING`,
+      [spot.name, spot.name_ar, spot.kind, spot.address, spot.lng, spot.lat]
+    );
+  }
+
+  console.log('✓ Meeting spots seeded.');
   console.log('✓ Seed complete.');
   await pool.end();
   process.exit(0);
@@ -64,6 +64,65 @@ export async function notifyOfferRejected(buyerId: string, listingTitle: string)
   });
 }
 
+export async function notifyItemBought(sellerId: string, buyerName: string, listingTitle: string, transactionId: string) {
+  await notifyUser(sellerId, 'item_bought', {
+    title: 'Your item was bought!',
+    body: `${buyerName} bought "${listingTitle}" with Buy Now. Payment is on its way.`,
+    data: { screen: 'transaction', transactionId },
+  });
+}
+
+export async function notifyOfferExpiring(buyerId: string, isCounter: boolean, listingTitle: string, hoursLeft: number, listingId: string, offerId: string) {
+  await notifyUser(buyerId, 'offer_expiring', {
+    title: isCounter ? `Counter offer expires in ${hoursLeft} hours` : `Your offer expires in ${hoursLeft} hours`,
+    body: isCounter
+      ? `Respond to the seller's counter on "${listingTitle}" before it expires.`
+      : `The seller hasn't responded to your offer on "${listingTitle}" yet.`,
+    data: { screen: 'offers', listingId, offerId },
+  });
+}
+
+export async function notifyOfferExpired(userId: string, role: 'buyer' | 'seller', wasCounter: boolean, listingTitle: string, listingId: string, offerId: string) {
+  const whose = wasCounter ? (role === 'seller' ? 'Your counter offer' : "The seller's counter offer") : (role === 'buyer' ? 'Your offer' : 'An offer');
+  await notifyUser(userId, 'offer_expired', {
+    title: 'Offer expired',
+    body: `${whose} on "${listingTitle}" expired without a response.`,
+    data: { screen: role === 'seller' ? 'listing' : 'offers', listingId, offerId },
+  });
+}
+
+const AUTO_RESPONSE_MESSAGES = {
+  accepted: { title: 'Offer accepted automatically!', body: (t: string) => `The seller's auto-accept rule accepted your offer on "${t}". Proceed to payment.` },
+  declined: { title: 'Offer declined automatically', body: (t: string) => `Your offer on "${t}" is below the seller's minimum and was declined automatically.` },
+  countered: { title: 'Automatic counter offer', body: (t: string, p?: number) => `The seller's rules countered your offer on "${t}" at ${p?.toLocaleString()} EGP.` },
+};
+
+/** Tells the buyer the seller's rules — not the seller in person — answered their offer. */
+export async function notifyOfferAutoResponse(
+  buyerId: string,
+  action: keyof typeof AUTO_RESPONSE_MESSAGES,
+  listingTitle: string,
+  ids: { listingId: string; offerId: string; transactionId?: string },
+  counterPrice?: number,
+) {
+  const msg = AUTO_RESPONSE_MESSAGES[action];
+  await notifyUser(buyerId, `offer_auto_${action}`, {
+    title: msg.title,
+    body: msg.body(listingTitle, counterPrice),
+    data: action === 'accepted'
+      ? { screen: 'payment', transactionId: ids.transactionId, listingId: ids.listingId }
+      : { screen: 'offers', listingId: ids.listingId, offerId: ids.offerId },
+  });
+}
+
+export async function notifySellerAutoAccepted(sellerId: string, buyerName: string, listingTitle: string, price: number, transactionId: string) {
+  await notifyUser(sellerId, 'offer_auto_accepted', {
+    title: 'Offer auto-accepted',
+    body: `${buyerName}'s offer of ${price.toLocaleString()} EGP on "${listingTitle}" met your auto-accept price.`,
+    data: { screen: 'transaction', transactionId },
+  });
+}
+
 export async function notifyNewMessage(recipientId: string, senderName: string, chatId: string) {
   await notifyUser(recipientId, 'new_message', {
     title: `Message from ${senderName}`,
@@ -95,3 +154,121 @@ export async function notifyOfferCountered(buyerId: string, listingTitle: string
     data: { screen: 'offers', listingId, offerId },
   });
 }
+
+export async function notifyBuyerCountered(sellerId: string, buyerName: string, listingTitle: string, price: number, listingId: string, offerId: string) {
+  await notifyUser(sellerId, 'offer_countered', {
+    title: `${buyerName} countered your price`,
+    body: `New offer of ${price.toLocaleString()} EGP on "${listingTitle}"`,
+    data: { screen: 'listing_offers', listingId, offerId },
+  });
+}
+
+export async function notifySwapUpdate(userId: string, completed: boolean, listingTitle: string, transactionId: string) {
+  await notifyUser(userId, completed ? 'swap_completed' : 'swap_confirmed', {
+    title: completed ? 'Swap complete!' : 'The other party received their item',
+    body: completed
+      ? `Your swap for "${listingTitle}" is complete.`
+      : `Confirm once you've received "${listingTitle}" to complete the swap.`,
+    data: { screen: 'transaction', transactionId },
+  });
+}
+
+export async function notifyItemHandedOver(buyerId: string, shipped: boolean, listingTitle: string, transactionId: string) {
+  await notifyUser(buyerId, shipped ? 'item_shipped' : 'item_handed_over', {
+    title: shipped ? 'Your item has shipped' : 'The seller handed over your item',
+    body: `Confirm once you've received "${listingTitle}", or open a dispute if something is wrong.`,
+    data: { screen: 'transaction', transactionId },
+  });
+}
+
+const CANCELLATION_MESSAGES: Record<string, { title: string; body: (listingTitle: string) => string }> = {
+  cancelled: { title: 'Deal cancelled', body: (t) => `The deal for "${t}" was cancelled. Any payment goes back to the buyer.` },
+  refunded: { title: 'Seller cancelled the sale', body: (t) => `The seller cancelled the sale of "${t}" and your payment is being refunded.` },
+  timeout: { title: 'Deal cancelled — not paid in time', body: (t) => `The deal for "${t}" was cancelled because payment wasn't made in time.` },
+  requested: { title: 'Cancellation requested', body: (t) => `The other party wants to cancel the deal for "${t}". Agree or keep the deal going.` },
+  declined: { title: 'Cancellation declined', body: (t) => `The other party wants to go ahead with the deal for "${t}".` },
+};
+
+export async function notifyTransactionCancellation(userId: string, event: string, listingTitle: string, transactionId: string) {
+  const msg = CANCELLATION_MESSAGES[event];
+  if (!msg) return;
+  await notifyUser(userId, `transaction_cancel_${event}`, {
+    title: msg.title,
+    body: msg.body(listingTitle),
+    data: { screen: 'transaction', transactionId },
+  });
+}
+
+const SHIPMENT_MESSAGES: Record<string, { title: string; body: (listingTitle: string) => string }> = {
+  picked_up: { title: 'Picked up by the courier', body: (t) => `The courier has collected "${t}" and it's on its way.` },
+  out_for_delivery: { title: 'Out for delivery', body: (t) => `"${t}" is out for delivery today.` },
+  delivered: { title: 'Delivered', body: (t) => `"${t}" was delivered. The buyer has 3 days to confirm or open a dispute.` },
+  delivery_failed: { title: 'Delivery attempt failed', body: (t) => `The courier couldn't deliver "${t}" and will try again.` },
+  returned: { title: 'Returned to the seller', body: (t) => `"${t}" was returned to the seller and the buyer is being refunded.` },
+  cancelled: { title: 'Courier pickup cancelled', body: (t) => `The courier pickup for "${t}" was cancelled. The seller can book a new one.` },
+};
+
+export async function notifyShipmentUpdate(userId: string, event: string, listingTitle: string, transactionId: string, note?: string) {
+  const msg = SHIPMENT_MESSAGES[event];
+  if (!msg) return;
+  await notifyUser(userId, `shipment_${event}`, {
+    title: msg.title,
+    body: note ? `${msg.body(listingTitle)} (${note})` : msg.body(listingTitle),
+    data: { screen: 'transaction', transactionId },
+  });
+}
+
+const DISPUTE_MESSAGES: Record<string, { title: string; body: (listingTitle: string) => string }> = {
+  opened: { title: 'A dispute was opened', body: (t) => `A dispute was opened on the deal for "${t}". Respond with your side and any evidence.` },
+  message: { title: 'New message in your dispute', body: (t) => `There's a new message in the dispute for "${t}".` },
+  under_review: { title: 'Dispute under review', body: (t) => `Our team is reviewing the dispute for "${t}".` },
+  resolved_buyer: { title: 'Dispute resolved', body: (t) => `The dispute for "${t}" was resolved in the buyer's favour and the payment refunded.` },
+  resolved_seller: { title: 'Dispute resolved', body: (t) => `The dispute for "${t}" was resolved in the seller's favour and the payment released.` },
+  resolved_partial: { title: 'Dispute resolved', body: (t) => `The dispute for "${t}" was resolved with a partial refund to the buyer.` },
+};
+
+export async function notifyDisputeUpdate(userId: string, event: string, listingTitle: string, transactionId: string) {
+  const msg = DISPUTE_MESSAGES[event];
+  if (!msg) return;
+  await notifyUser(userId, `dispute_${event}`, {
+    title: msg.title,
+    body: msg.body(listingTitle),
+    data: { screen: 'dispute', transactionId },
+  });
+}
+
+const WITHDRAWAL_MESSAGES: Record<string, { title: string; body: (amount: number) => string }> = {
+  approved: { title: 'Withdrawal approved', body: (a) => `Your withdrawal of ${a.toLocaleString()} EGP was approved and will be paid out shortly.` },
+  processing: { title: 'Withdrawal being paid', body: (a) => `Your withdrawal of ${a.toLocaleString()} EGP has been sent for payout.` },
+  completed: { title: 'Withdrawal paid', body: (a) => `${a.toLocaleString()} EGP has been sent to your account.` },
+  rejected: { title: 'Withdrawal rejected', body: (a) => `Your withdrawal of ${a.toLocaleString()} EGP was rejected. The funds are back in your wallet.` },
+  failed: { title: 'Withdrawal failed', body: (a) => `We couldn't pay out ${a.toLocaleString()} EGP. The funds are back in your wallet.` },
+};
+
+export async function notifyWithdrawalStatus(userId: string, status: string, amount: number, withdrawalId: string, reason?: string | null) {
+  const msg = WITHDRAWAL_MESSAGES[status];
+  if (!msg) return;
+  await notifyUser(userId, `withdrawal_${status}`, {
+    title: msg.title,
+    body: reason ? `${msg.body(amount)} Reason: ${reason}` : msg.body(amount),
+    data: { screen: 'wallet', withdrawalId },
+  });
+}
+
+const SUBSCRIPTION_MESSAGES: Record<string, { title: string; body: (until: string) => string }> = {
+  renewing: { title: 'Premium renews soon', body: (d) => `Your Premium plan renews on ${d}. Keep enough in your wallet to renew automatically.` },
+  expiring: { title: 'Premium ends soon', body: (d) => `Your Premium plan ends on ${d}. Renew to keep your benefits and verified badge.` },
+  renewed: { title: 'Premium renewed', body: () => 'Your Premium plan has been renewed for another month.' },
+  grace: { title: 'Premium renewal failed', body: () => "We couldn't renew your Premium plan. Renew in the next few days to keep your benefits." },
+  expired: { title: 'Premium expired', body: () => 'Your Premium plan has expired. Subscribe again any time to get your benefits back.' },
+};
+
+export async function notifySubscription(userId: string, event: string, expiresAt: Date) {
+  const msg = SUBSCRIPTION_MESSAGES[event];
+  if (!msg) return;
+  await notifyUser(userId, `subscription_${event}`, {
+    title: msg.title,
+    body: msg.body(new Date(expiresAt).toLocaleDateString('en-GB')),
+    data: { screen: 'subscription' },
+  });
+}
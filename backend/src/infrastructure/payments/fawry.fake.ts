@@ -0,0 +1,189 @@
+/**
+ * Fake Fawry — in-memory simulator of the PAYATFAWRY charge, status and
+ * refund endpoints. Point FAWRY_API_URL at it:
+ *
+ *   npm run fake:fawry             → http://localhost:4011
+ *   FAWRY_API_URL=http://localhost:4011
+ *
+ * `pay()` / `expire()` (or POST /_fake/charges/:merchantRefNum/pay|expire)
+ * simulate the buyer at the outlet and return the signed V2 notification to
+ * replay at /wallet/payments/fawry/webhook.
+ */
+
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createHash } from 'crypto';
+import { fawryChargeSignature, fawryNotificationSignature } from './fawry.service';
+
+interface FakeCharge {
+  merchantRefNum: string;
+  referenceNumber: string;
+  amount: number;
+  refunded: number;
+  status: 'UNPAID' | 'PAID' | 'EXPIRED' | 'REFUNDED' | 'PARTIAL_REFUNDED';
+}
+
+export interface FakeFawry {
+  url: string;
+  charges: Map<string, FakeCharge>;
+  /** Notifications the fake would have sent, oldest first */
+  notifications: Record<string, unknown>[];
+  pay(merchantRefNum: string): Record<string, unknown>;
+  expire(merchantRefNum: string): Record<string, unknown>;
+  close(): Promise<void>;
+}
+
+export async function startFakeFawry(
+  opts: { port?: number; merchantCode?: string; secureKey?: string } = {},
+): Promise<FakeFawry> {
+  const merchantCode = opts.merchantCode ?? 'fake_merchant';
+  const secureKey = opts.secureKey ?? 'fake_secure_key';
+  const charges = new Map<string, FakeCharge>();
+  const notifications: Record<string, unknown>[] = [];
+  let nextRef = 900000001;
+
+  const notify = (charge: FakeCharge, extra: Record<string, unknown> = {}) => {
+    const n: Record<string, unknown> = {
+      requestId: `req_${Date.now()}`,
+      fawryRefNumber: charge.referenceNumber,
+      merchantRefNumber: charge.merchantRefNum,
+      paymentAmount: charge.amount,
+      orderAmount: charge.amount,
+      fawryFees: 0,
+      orderStatus: charge.status,
+      paymentMethod: 'PAYATFAWRY',
+      paymentTime: Date.now(),
+      ...extra,
+    };
+    n.messageSignature = fawryNotificationSignature(n, secureKey);
+    notifications.push(n);
+    return n;
+  };
+
+  const find = (merchantRefNum: string) => {
+    const charge = charges.get(merchantRefNum);
+    if (!charge) throw new Error(`Fake Fawry: unknown charge ${merchantRefNum}`);
+    return charge;
+  };
+
+  const app = express();
+  app.use(express.json());
+  const base = '/ECommerceWeb/Fawry/payments';
+
+  app.post(`${base}/charge`, (req, res) => {
+    const b = req.body ?? {};
+    const expected = fawryChargeSignature(b, secureKey);
+    if (b.merchantCode !== merchantCode || b.signature !== expected) {
+      res.json({ type: 'ChargeResponse', statusCode: 9901, statusDescription: 'Invalid signature' });
+      return;
+    }
+    const charge: FakeCharge = {
+      merchantRefNum: b.merchantRefNum,
+      referenceNumber: String(nextRef++),
+      amount: Number(b.amount),
+      refunded: 0,
+      status: 'UNPAID',
+    };
+    charges.set(charge.merchantRefNum, charge);
+    res.json({
+      type: 'ChargeResponse',
+      referenceNumber: charge.referenceNumber,
+      merchantRefNumber: charge.merchantRefNum,
+      orderAmount: charge.amount,
+      paymentAmount: charge.amount,
+      fawryFees: 0,
+      orderStatus: charge.status,
+      statusCode: 200,
+      statusDescription: 'Operation done successfully',
+    });
+  });
+
+  app.get(`${base}/status/v2`, (req, res) => {
+    const ref = String(req.query.merchantRefNumber);
+    const sig = createHash('sha256').update(String(req.query.merchantCode) + ref + secureKey).digest('hex');
+    const charge = charges.get(ref);
+    if (sig !== req.query.signature || !charge) {
+      res.json({ statusCode: 9938, statusDescription: 'Order not found' });
+      return;
+    }
+    res.json({
+      fawryRefNumber: charge.referenceNumber,
+      merchantRefNumber: charge.merchantRefNum,
+      paymentAmount: charge.amount,
+      orderAmount: charge.amount,
+      orderStatus: charge.status,
+      refundedAmount: charge.refunded || undefined,
+      statusCode: 200,
+    });
+  });
+
+  app.post(`${base}/refund`, (req, res) => {
+    const b = req.body ?? {};
+    const sig = createHash('sha256')
+      .update(b.merchantCode + b.referenceNumber + b.refundAmount + b.reason + secureKey)
+      .digest('hex');
+    const charge = [...charges.values()].find((c) => c.referenceNumber === b.referenceNumber);
+    const amount = Number(b.refundAmount);
+    if (sig !== b.signature || !charge || !['PAID', 'PARTIAL_REFUNDED'].includes(charge.status)
+      || amount <= 0 || charge.refunded + amount > charge.amount) {
+      res.json({ statusCode: 9954, statusDescription: 'Refund not allowed' });
+      return;
+    }
+    charge.refunded = Math.round((charge.refunded + amount) * 100) / 100;
+    charge.status = charge.refunded >= charge.amount ? 'REFUNDED' : 'PARTIAL_REFUNDED';
+    notify(charge, { refundedAmount: charge.refunded });
+    res.json({ statusCode: 200, statusDescription: 'Operation done successfully' });
+  });
+
+  function pay(merchantRefNum: string) {
+    const charge = find(merchantRefNum);
+    if (charge.status !== 'UNPAID') throw new Error(`Fake Fawry: charge ${merchantRefNum} is ${charge.status}`);
+    charge.status = 'PAID';
+    return notify(charge);
+  }
+
+  function expire(merchantRefNum: string) {
+    const charge = find(merchantRefNum);
+    if (charge.status !== 'UNPAID') throw new Error(`Fake Fawry: charge ${merchantRefNum} is ${charge.status}`);
+    charge.status = 'EXPIRED';
+    return notify(charge);
+  }
+
+  // Test hooks: simulate the buyer at the outlet / the code running out
+  app.post('/_fake/charges/:ref/:action(pay|expire)', (req, res) => {
+    try {
+      res.json(req.params.action === 'pay' ? pay(req.params.ref) : expire(req.params.ref));
+    } catch (err) {
+      res.status(409).json({ detail: (err as Error).message });
+    }
+  });
+
+  const server: Server = await new Promise((resolve) => {
+    const s = app.listen(opts.port ?? 0, () => resolve(s));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    charges,
+    notifications,
+    pay,
+    expire,
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
+
+// Allow running directly: tsx src/infrastructure/payments/fawry.fake.ts
+if (require.main === module) {
+  startFakeFawry({
+    port: Number(process.env.PORT ?? 4011),
+    merchantCode: process.env.FAWRY_MERCHANT_CODE,
+    secureKey: process.env.FAWRY_SECURE_KEY,
+  })
+    .then((fake) => console.log(`Fake Fawry listening on ${fake.url}`))
+    .catch((err) => {
+      console.error('Fake Fawry failed to start:', err);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,167 @@
+/**
+ * Fawry — pay-at-outlet reference codes (PAYATFAWRY)
+ * Docs: https://developer.fawrystaging.com
+ *
+ * Flow:
+ *   1. charge()            → referenceNumber the buyer pays at any Fawry outlet/app
+ *   2. Fawry POSTs a V2 server notification (PAID / EXPIRED / REFUNDED) to
+ *      /api/v1/wallet/payments/fawry/webhook, signed with messageSignature
+ *   3. refund() returns a paid reference (always a refund — Fawry has no void)
+ *
+ * All requests are signed with SHA-256 over fixed fields + the secure key.
+ * FAWRY_API_URL can point at the local simulator (fawry.fake.ts).
+ */
+
+import { createHash } from 'crypto';
+import { config } from '../../config';
+import type { PaymentEventType, PaymentProvider, ProviderEvent } from './provider';
+
+const fawryApi = () => `${config.fawry.apiUrl}/ECommerceWeb/Fawry/payments`;
+
+const sha256 = (s: string) => createHash('sha256').update(s).digest('hex');
+const egp = (cents: number) => (cents / 100).toFixed(2);
+
+// ─── Signatures ───────────────────────────────────────────
+
+export function fawryChargeSignature(p: {
+  merchantCode: string; merchantRefNum: string; customerProfileId: string; paymentMethod: string; amount: string;
+}, secureKey: string): string {
+  return sha256(p.merchantCode + p.merchantRefNum + p.customerProfileId + p.paymentMethod + p.amount + secureKey);
+}
+
+/** messageSignature of a V2 server notification. */
+export function fawryNotificationSignature(n: Record<string, unknown>, secureKey: string): string {
+  return sha256(
+    String(n.fawryRefNumber ?? '') +
+    String(n.merchantRefNumber ?? '') +
+    Number(n.paymentAmount ?? 0).toFixed(2) +
+    Number(n.orderAmount ?? 0).toFixed(2) +
+    String(n.orderStatus ?? '') +
+    String(n.paymentMethod ?? '') +
+    String(n.paymentRefrenceNumber ?? '') +
+    secureKey,
+  );
+}
+
+const STATUS_MAP: Record<string, PaymentEventType> = {
+  NEW: 'pending',
+  UNPAID: 'pending',
+  PAID: 'paid',
+  EXPIRED: 'expired',
+  CANCELED: 'failed',
+  FAILED: 'failed',
+  REFUNDED: 'refunded',
+  PARTIAL_REFUNDED: 'refunded',
+};
+
+function toEvent(n: Record<string, unknown>): ProviderEvent {
+  const refunded = n.refundedAmount ?? n.refundAmount;
+  return {
+    type: STATUS_MAP[String(n.orderStatus).toUpperCase()] ?? 'pending',
+    providerTransactionId: n.fawryRefNumber != null ? String(n.fawryRefNumber) : null,
+    providerOrderId: n.merchantRefNumber != null ? String(n.merchantRefNumber) : null,
+    amountCents: n.paymentAmount != null ? Math.round(Number(n.paymentAmount) * 100) : undefined,
+    refundedAmountCents: refunded != null ? Math.round(Number(refunded) * 100) : undefined,
+  };
+}
+
+// ─── Provider adapter ─────────────────────────────────────
+
+export const fawryProvider: PaymentProvider = {
+  name: 'fawry',
+
+  enabled: () => config.fawry.enabled,
+
+  async initiate(input) {
+    const merchantRefNum = `KA${Date.now()}${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`;
+    const expiresAt = new Date(Date.now() + config.fawry.expiryHours * 60 * 60 * 1000);
+    const instructions = 'Pay this reference code at any Fawry outlet or in the myFawry app before it expires.';
+
+    if (!config.fawry.enabled) {
+      // Dev fallback: return a mock reference
+      return {
+        provider: 'fawry',
+        orderId: merchantRefNum,
+        referenceCode: String(Math.floor(100000000 + Math.random() * 900000000)),
+        expiresAt: expiresAt.toISOString(),
+        instructions,
+      };
+    }
+
+    const body = {
+      merchantCode: config.fawry.merchantCode,
+      merchantRefNum,
+      customerProfileId: input.transactionId,
+      customerMobile: input.buyer.phone,
+      customerEmail: input.buyer.email ?? 'notprovided@kaero.app',
+      customerName: input.buyer.full_name || 'Kaero User',
+      paymentMethod: 'PAYATFAWRY',
+      amount: egp(input.amountCents),
+      currencyCode: 'EGP',
+      description: `Kaero order ${input.transactionId}`,
+      paymentExpiry: expiresAt.getTime(),
+      chargeItems: [{ itemId: input.transactionId, description: 'Kaero order', price: egp(input.amountCents), quantity: 1 }],
+    };
+    const res = await fetch(`${fawryApi()}/charge`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...body, signature: fawryChargeSignature(body, config.fawry.secureKey) }),
+    });
+    if (!res.ok) throw new Error(`Fawry charge failed: ${res.status}`);
+    const data = await res.json() as { statusCode: number; statusDescription?: string; referenceNumber?: string };
+    if (data.statusCode !== 200 || !data.referenceNumber) {
+      throw new Error(`Fawry charge rejected: ${data.statusDescription ?? data.statusCode}`);
+    }
+
+    return {
+      provider: 'fawry',
+      orderId: merchantRefNum,
+      referenceCode: data.referenceNumber,
+      expiresAt: expiresAt.toISOString(),
+      instructions,
+    };
+  },
+
+  verifyWebhook(payload) {
+    // Unsigned callbacks are only trusted in dev, against mock intents
+    if (!config.fawry.secureKey) return config.isDev && !config.fawry.enabled;
+    return fawryNotificationSignature(payload, config.fawry.secureKey) === payload.messageSignature;
+  },
+
+  parseWebhook: toEvent,
+
+  async refund(intent, amountCents) {
+    if (!intent.provider_reference) throw new Error('Fawry reference number unknown for intent');
+    const reason = 'Kaero order refund';
+    const body = {
+      merchantCode: config.fawry.merchantCode,
+      referenceNumber: intent.provider_reference,
+      refundAmount: egp(amountCents),
+      reason,
+    };
+    const res = await fetch(`${fawryApi()}/refund`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...body,
+        signature: sha256(body.merchantCode + body.referenceNumber + body.refundAmount + reason + config.fawry.secureKey),
+      }),
+    });
+    if (!res.ok) throw new Error(`Fawry refund failed: ${res.status}`);
+    const data = await res.json() as { statusCode: number; statusDescription?: string };
+    if (data.statusCode !== 200) throw new Error(`Fawry refund was declined: ${data.statusDescription ?? data.statusCode}`);
+    return { action: 'refund', providerRefundId: `${intent.provider_reference}:${Date.now()}` };
+  },
+
+  async queryStatus(intent) {
+    const { merchantCode, secureKey } = config.fawry;
+    const params = new URLSearchParams({
+      merchantCode,
+      merchantRefNumber: intent.provider_order_id,
+      signature: sha256(merchantCode + intent.provider_order_id + secureKey),
+    });
+    const res = await fetch(`${fawryApi()}/status/v2?${params}`);
+    if (!res.ok) throw new Error(`Fawry status query failed: ${res.status}`);
+    return toEvent(await res.json() as Record<string, unknown>);
+  },
+};
@@ -0,0 +1,204 @@
+/**
+ * Fake Paymob — an in-memory stand-in for the Accept API, used by tests and
+ * for working offline. Point PAYMOB_API_URL at it:
+ *
+ *   npm run fake:paymob            → http://localhost:4010
+ *   PAYMOB_API_URL=http://localhost:4010
+ *
+ * Implements auth, orders, payment keys, void/refund and transaction inquiry. `capture()` (or
+ * POST /_fake/orders/:id/capture) simulates the buyer completing the iframe
+ * and returns a signed webhook body, as do refunds and voids, so callers can
+ * replay them at /wallet/paymob/webhook.
+ */
+
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { computePaymobHmac } from './paymob.service';
+
+type CallbackObj = Record<string, unknown> & { id: number; order: { id: number } };
+
+export interface FakePaymobCallback {
+  body: { type: 'TRANSACTION'; obj: CallbackObj };
+  hmac: string;
+}
+
+interface FakeOrder {
+  id: number;
+  amountCents: number;
+}
+
+interface FakeTransaction {
+  id: number;
+  orderId: number;
+  amountCents: number;
+  refundedCents: number;
+  voided: boolean;
+}
+
+export interface FakePaymob {
+  url: string;
+  orders: Map<number, FakeOrder>;
+  transactions: Map<number, FakeTransaction>;
+  /** Webhooks the fake would have sent, oldest first */
+  callbacks: FakePaymobCallback[];
+  capture(orderId: string | number, opts?: { success?: boolean }): FakePaymobCallback;
+  close(): Promise<void>;
+}
+
+export async function startFakePaymob(
+  opts: { port?: number; hmacSecret?: string } = {},
+): Promise<FakePaymob> {
+  const hmacSecret = opts.hmacSecret ?? 'fake_paymob_hmac';
+  const orders = new Map<number, FakeOrder>();
+  const transactions = new Map<number, FakeTransaction>();
+  const callbacks: FakePaymobCallback[] = [];
+  const tokens = new Set<string>();
+  let nextId = 1000;
+
+  const sign = (obj: CallbackObj): FakePaymobCallback => {
+    const cb: FakePaymobCallback = {
+      body: { type: 'TRANSACTION', obj },
+      hmac: computePaymobHmac(obj, hmacSecret),
+    };
+    callbacks.push(cb);
+    return cb;
+  };
+
+  const callbackObj = (txn: FakeTransaction, fields: Record<string, unknown>) => ({
+    id: txn.id,
+    amount_cents: txn.amountCents,
+    created_at: new Date().toISOString(),
+    currency: 'EGP',
+    error_occured: false,
+    has_parent_transaction: false,
+    integration_id: 1,
+    is_3d_secure: true,
+    is_auth: false,
+    is_capture: false,
+    is_refunded: false,
+    is_standalone_payment: true,
+    is_voided: false,
+    order: { id: txn.orderId },
+    owner: 1,
+    pending: false,
+    source_data: { pan: '2346', sub_type: 'MasterCard', type: 'card' },
+    success: true,
+    ...fields,
+  });
+
+  const app = express();
+  app.use(express.json());
+
+  const authed = (req: express.Request) => {
+    const token = req.body?.auth_token ?? req.query.token;
+    return typeof token === 'string' && tokens.has(token);
+  };
+
+  app.post('/auth/tokens', (req, res) => {
+    if (!req.body?.api_key) {
+      res.status(403).json({ detail: 'Incorrect credentials' });
+      return;
+    }
+    const token = `fake_token_${nextId++}`;
+    tokens.add(token);
+    res.status(201).json({ token });
+  });
+
+  app.post('/ecommerce/orders', (req, res) => {
+    if (!authed(req)) { res.sendStatus(401); return; }
+    const order = { id: nextId++, amountCents: Number(req.body.amount_cents) };
+    orders.set(order.id, order);
+    res.status(201).json({ id: order.id, amount_cents: order.amountCents });
+  });
+
+  app.post('/acceptance/payment_keys', (req, res) => {
+    if (!authed(req)) { res.sendStatus(401); return; }
+    if (!orders.has(Number(req.body.order_id))) { res.status(404).json({ detail: 'Order not found' }); return; }
+    res.status(201).json({ token: `fake_payment_key_${req.body.order_id}` });
+  });
+
+  app.post('/acceptance/void_refund/refund', (req, res) => {
+    if (!authed(req)) { res.sendStatus(401); return; }
+    const txn = transactions.get(Number(req.body.transaction_id));
+    const amount = Number(req.body.amount_cents);
+    if (!txn || txn.voided || amount <= 0 || txn.refundedCents + amount > txn.amountCents) {
+      res.status(400).json({ id: null, success: false });
+      return;
+    }
+    txn.refundedCents += amount;
+    const refundId = nextId++;
+    sign(callbackObj(txn, {
+      id: refundId,
+      amount_cents: amount,
+      refunded_amount_cents: txn.refundedCents,
+      has_parent_transaction: true,
+      is_refunded: true,
+      is_refund: true,
+    }));
+    res.json({ id: refundId, success: true, amount_cents: amount });
+  });
+
+  app.post('/acceptance/void_refund/void', (req, res) => {
+    if (!authed(req)) { res.sendStatus(401); return; }
+    const txn = transactions.get(Number(req.body.transaction_id));
+    if (!txn || txn.voided || txn.refundedCents > 0) {
+      res.status(400).json({ id: null, success: false });
+      return;
+    }
+    txn.voided = true;
+    const voidId = nextId++;
+    sign(callbackObj(txn, { id: voidId, has_parent_transaction: true, is_voided: true, is_void: true }));
+    res.json({ id: voidId, success: true, amount_cents: txn.amountCents });
+  });
+
+  app.post('/ecommerce/orders/transaction_inquiry', (req, res) => {
+    if (!authed(req)) { res.sendStatus(401); return; }
+    const latest = callbacks.filter((cb) => String(cb.body.obj.order.id) === String(req.body.order_id)).pop();
+    if (!latest) { res.status(404).json({ detail: 'Not found' }); return; }
+    res.json(latest.body.obj);
+  });
+
+  // Test hook: simulate the buyer paying in the iframe
+  app.post('/_fake/orders/:id/capture', (req, res) => {
+    try {
+      res.json(capture(req.params.id, { success: req.body?.success !== false }));
+    } catch {
+      res.status(404).json({ detail: 'Order not found' });
+    }
+  });
+
+  function capture(orderId: string | number, { success = true }: { success?: boolean } = {}) {
+    const order = orders.get(Number(orderId));
+    if (!order) throw new Error(`Fake Paymob: unknown order ${orderId}`);
+    const txn: FakeTransaction = {
+      id: nextId++, orderId: order.id, amountCents: order.amountCents, refundedCents: 0, voided: false,
+    };
+    if (success) transactions.set(txn.id, txn);
+    return sign(callbackObj(txn, { success }));
+  }
+
+  const server: Server = await new Promise((resolve) => {
+    const s = app.listen(opts.port ?? 0, () => resolve(s));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    orders,
+    transactions,
+    callbacks,
+    capture,
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
+
+// Allow running directly: tsx src/infrastructure/payments/paymob.fake.ts
+if (require.main === module) {
+  startFakePaymob({ port: Number(process.env.PORT ?? 4010), hmacSecret: process.env.PAYMOB_HMAC_SECRET })
+    .then((fake) => console.log(`Fake Paymob listening on ${fake.url}`))
+    .catch((err) => {
+      console.error('Fake Paymob failed to start:', err);
+      process.exit(1);
+    });
+}
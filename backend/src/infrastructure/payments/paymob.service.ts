@@ -7,13 +7,17 @@
  *   2. createOrder()        → order_id
  *   3. createPaymentKey()   → payment_key (expires in ~1hr)
  *   4. Redirect buyer to iframe or card widget using payment_key
- *   5. Paymob POSTs webhook to /api/v1/payments/webhook on completion
+ *   5. Paymob POSTs webhook to /api/v1/wallet/paymob/webhook on completion
+ *   6. paymobProvider.refund() voids (same day) or refunds a captured payment
+ *
+ * PAYMOB_API_URL can point at the local fake server (paymob.fake.ts).
  */
 
+import { createHmac } from 'crypto';
 import { config } from '../../config';
-import { query, queryOne } from '../database/pool';
+import type { PaymentEventType, PaymentProvider } from './provider';
 
-const PAYMOB_API = 'https://accept.paymob.com/api';
+const paymobApi = () => config.paymob.apiUrl;
 
 // ─── Auth token (cached in memory, refresh on 401) ────────
 
@@ -25,7 +29,7 @@ async function authenticate(): Promise<string> {
   if (cachedToken && Date.now() - tokenFetchedAt < 55 * 60 * 1000) {
     return cachedToken;
   }
-  const res = await fetch(`${PAYMOB_API}/auth/tokens`, {
+  const res = await fetch(`${paymobApi()}/auth/tokens`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ api_key: config.paymob.apiKey }),
@@ -40,7 +44,7 @@ async function authenticate(): Promise<string> {
 // ─── Create Paymob order ──────────────────────────────────
 
 async function createOrder(token: string, amountCents: number, currency = 'EGP'): Promise<string> {
-  const res = await fetch(`${PAYMOB_API}/ecommerce/orders`, {
+  const res = await fetch(`${paymobApi()}/ecommerce/orders`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
@@ -58,6 +62,11 @@ async function createOrder(token: string, amountCents: number, currency = 'EGP')
 
 // ─── Create payment key ───────────────────────────────────
 
+/** How long the buyer has to complete the card payment */
+const PAYMENT_KEY_TTL_SECONDS = 3600;
+
+const paymentKeyExpiry = () => new Date(Date.now() + PAYMENT_KEY_TTL_SECONDS * 1000).toISOString();
+
 interface BillingData {
   firstName: string;
   lastName: string;
@@ -72,13 +81,13 @@ async function createPaymentKey(
   billing: BillingData,
   integrationId: number,
 ): Promise<string> {
-  const res = await fetch(`${PAYMOB_API}/acceptance/payment_keys`, {
+  const res = await fetch(`${paymobApi()}/acceptance/payment_keys`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
       auth_token: token,
       amount_cents: amountCents,
-      expiration: 3600,
+      expiration: PAYMENT_KEY_TTL_SECONDS,
       order_id: orderId,
       billing_data: {
         first_name: billing.firstName || 'N/A',
@@ -104,77 +113,158 @@ async function createPaymentKey(
   return data.token;
 }
 
-// ─── Public: initiate a payment ───────────────────────────
+// ─── Refunds, voids & inquiry ─────────────────────────────
 
-export interface PaymobPaymentResult {
-  paymentKey: string;
-  orderId: string;
-  iframeUrl: string;
+interface PaymobRefundResponse {
+  id: number;
+  success: boolean;
+  amount_cents?: number;
 }
 
-export async function initiatePaymobPayment(
-  transactionId: string,
-  amountEGP: number,
-  buyer: { full_name: string; email?: string; phone: string },
-): Promise<PaymobPaymentResult> {
-  if (!config.paymob.enabled) {
-    // Dev fallback: return a mock result
-    return {
-      paymentKey: 'mock_payment_key_dev',
-      orderId: 'mock_order_' + Date.now(),
-      iframeUrl: `https://accept.paymob.com/api/acceptance/iframes/${config.paymob.iframeId}?payment_token=mock`,
-    };
-  }
+export async function paymobRefund(paymobTransactionId: string, amountCents: number): Promise<PaymobRefundResponse> {
+  const token = await authenticate();
+  const res = await fetch(`${paymobApi()}/acceptance/void_refund/refund`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ auth_token: token, transaction_id: paymobTransactionId, amount_cents: amountCents }),
+  });
+  if (!res.ok) throw new Error(`Paymob refund failed: ${res.status}`);
+  return await res.json() as PaymobRefundResponse;
+}
 
-  const amountCents = Math.round(amountEGP * 100);
-  const nameParts = (buyer.full_name || 'Kaero User').split(' ');
+export async function paymobVoid(paymobTransactionId: string): Promise<PaymobRefundResponse> {
+  const token = await authenticate();
+  const res = await fetch(`${paymobApi()}/acceptance/void_refund/void?token=${encodeURIComponent(token)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ auth_token: token, transaction_id: paymobTransactionId }),
+  });
+  if (!res.ok) throw new Error(`Paymob void failed: ${res.status}`);
+  return await res.json() as PaymobRefundResponse;
+}
 
+/** Latest transaction on an order — used when a webhook was missed. */
+async function paymobInquiry(orderId: string): Promise<Record<string, unknown> | null> {
   const token = await authenticate();
-  const orderId = await createOrder(token, amountCents);
-  const paymentKey = await createPaymentKey(token, orderId, amountCents, {
-    firstName: nameParts[0] ?? 'Kaero',
-    lastName: nameParts.slice(1).join(' ') || 'User',
-    email: buyer.email ?? 'notprovided@kaero.app',
-    phone: buyer.phone,
-  }, config.paymob.integrationId);
-
-  const iframeUrl = `https://accept.paymob.com/api/acceptance/iframes/${config.paymob.iframeId}?payment_token=${paymentKey}`;
-
-  // Persist intent
-  await query(
-    `INSERT INTO payment_intents (transaction_id, provider, provider_order_id, provider_payment_key, amount_cents)
-     VALUES ($1, 'paymob', $2, $3, $4)
-     ON CONFLICT DO NOTHING`,
-    [transactionId, orderId, paymentKey, amountCents],
-  );
-
-  return { paymentKey, orderId, iframeUrl };
+  const res = await fetch(`${paymobApi()}/ecommerce/orders/transaction_inquiry`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ auth_token: token, order_id: orderId }),
+  });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Paymob inquiry failed: ${res.status}`);
+  return await res.json() as Record<string, unknown>;
+}
+
+export function classifyPaymobCallback(obj: Record<string, unknown>): PaymentEventType {
+  if (obj.is_voided || obj.is_void) return 'voided';
+  if (obj.is_refunded || obj.is_refund) return 'refunded';
+  if (obj.pending) return 'pending';
+  return obj.success ? 'paid' : 'failed';
 }
 
+// ─── Provider adapter ─────────────────────────────────────
+
+export const paymobProvider: PaymentProvider = {
+  name: 'paymob',
+
+  enabled: () => config.paymob.enabled,
+
+  async initiate(input) {
+    if (!config.paymob.enabled) {
+      // Dev fallback: return a mock result
+      return {
+        provider: 'paymob',
+        paymentKey: 'mock_payment_key_dev',
+        orderId: 'mock_order_' + Date.now(),
+        iframeUrl: `${paymobApi()}/acceptance/iframes/${config.paymob.iframeId}?payment_token=mock`,
+        expiresAt: paymentKeyExpiry(),
+        instructions: 'Complete the card payment in the secure Paymob window.',
+      };
+    }
+
+    const nameParts = (input.buyer.full_name || 'Kaero User').split(' ');
+    const token = await authenticate();
+    const orderId = await createOrder(token, input.amountCents);
+    const paymentKey = await createPaymentKey(token, orderId, input.amountCents, {
+      firstName: nameParts[0] ?? 'Kaero',
+      lastName: nameParts.slice(1).join(' ') || 'User',
+      email: input.buyer.email ?? 'notprovided@kaero.app',
+      phone: input.buyer.phone,
+    }, config.paymob.integrationId);
+
+    return {
+      provider: 'paymob',
+      paymentKey,
+      orderId,
+      iframeUrl: `${paymobApi()}/acceptance/iframes/${config.paymob.iframeId}?payment_token=${paymentKey}`,
+      expiresAt: paymentKeyExpiry(),
+      instructions: 'Complete the card payment in the secure Paymob window.',
+    };
+  },
+
+  verifyWebhook: (payload, signature) => verifyPaymobWebhook(payload, signature ?? ''),
+
+  parseWebhook(obj) {
+    // Callbacks nest the order; inquiry responses may carry just its id
+    const orderId = typeof obj.order === 'object' && obj.order !== null ? (obj.order as { id?: unknown }).id : obj.order;
+    return {
+      type: classifyPaymobCallback(obj),
+      providerTransactionId: obj.id != null ? String(obj.id) : null,
+      providerOrderId: orderId != null ? String(orderId) : null,
+      amountCents: obj.amount_cents != null ? Number(obj.amount_cents) : undefined,
+      refundedAmountCents: obj.refunded_amount_cents != null ? Number(obj.refunded_amount_cents) : undefined,
+    };
+  },
+
+  /** Voids when the full amount is returned on the day of capture (before settlement), refunds otherwise. */
+  async refund(intent, amountCents) {
+    if (!intent.provider_transaction_id) throw new Error('Paymob transaction id unknown for intent');
+    const action: 'void' | 'refund' = intent.captured_today && amountCents === intent.amount_cents ? 'void' : 'refund';
+    const result = action === 'void'
+      ? await paymobVoid(intent.provider_transaction_id)
+      : await paymobRefund(intent.provider_transaction_id, amountCents);
+    if (!result.success) throw new Error(`Paymob ${action} was declined`);
+    return { action, providerRefundId: String(result.id) };
+  },
+
+  async queryStatus(intent) {
+    const obj = await paymobInquiry(intent.provider_order_id);
+    if (!obj) {
+      return { type: 'pending', providerTransactionId: null, providerOrderId: intent.provider_order_id };
+    }
+    return paymobProvider.parseWebhook(obj);
+  },
+};
+
 // ─── Webhook HMAC verification ────────────────────────────
 
-import { createHmac } from 'crypto';
+const HMAC_FIELDS = [
+  'amount_cents', 'created_at', 'currency', 'error_occured',
+  'has_parent_transaction', 'id', 'integration_id', 'is_3d_secure',
+  'is_auth', 'is_capture', 'is_refunded', 'is_standalone_payment',
+  'is_voided', 'order', 'owner', 'pending', 'source_data.pan',
+  'source_data.sub_type', 'source_data.type', 'success',
+];
 
-/**
- * Paymob sends a webhook with HMAC-SHA512 signature.
- * Concatenate specific fields in order and verify.
- */
-export function verifyPaymobWebhook(body: Record<string, any>, receivedHmac: string): boolean {
-  if (!config.paymob.hmacSecret) return true; // skip in dev
-  const fields = [
-    'amount_cents', 'created_at', 'currency', 'error_occured',
-    'has_parent_transaction', 'id', 'integration_id', 'is_3d_secure',
-    'is_auth', 'is_capture', 'is_refunded', 'is_standalone_payment',
-    'is_voided', 'order', 'owner', 'pending', 'source_data.pan',
-    'source_data.sub_type', 'source_data.type', 'success',
-  ];
-  const obj = body as Record<string, any>;
-  const str = fields.map(f => {
+/** HMAC-SHA512 over Paymob's fixed field order. `order` is the order id. */
+export function computePaymobHmac(obj: Record<string, unknown>, secret: string): string {
+  const str = HMAC_FIELDS.map(f => {
     const keys = f.split('.');
     let val: any = obj;
     for (const k of keys) val = val?.[k];
+    if (f === 'order' && typeof val === 'object' && val !== null) val = val.id;
     return String(val ?? '');
   }).join('');
-  const expected = createHmac('sha512', config.paymob.hmacSecret).update(str).digest('hex');
-  return expected === receivedHmac;
+  return createHmac('sha512', secret).update(str).digest('hex');
+}
+
+/**
+ * Paymob sends a webhook with HMAC-SHA512 signature.
+ * Concatenate specific fields in order and verify.
+ */
+export function verifyPaymobWebhook(body: Record<string, unknown>, receivedHmac: string): boolean {
+  // Unsigned callbacks are only trusted in dev, against mock intents
+  if (!config.paymob.hmacSecret) return config.isDev && !config.paymob.enabled;
+  return computePaymobHmac(body, config.paymob.hmacSecret) === receivedHmac;
 }
@@ -0,0 +1,69 @@
+/**
+ * Payment provider contract. Every gateway adapter (Paymob cards, Fawry
+ * reference codes, Vodafone Cash wallets) implements this; intents for all of
+ * them live in payment_intents, keyed by (provider, provider_order_id).
+ */
+
+export type PaymentProviderName = 'paymob' | 'fawry' | 'vodafone_cash';
+
+export type PaymentEventType = 'paid' | 'failed' | 'pending' | 'expired' | 'refunded' | 'voided';
+
+export interface InitiatePaymentInput {
+  /** What is being paid for — a transaction, boost purchase or subscription id */
+  transactionId: string;
+  amountCents: number;
+  buyer: { full_name: string; email?: string; phone: string };
+  /** Wallet to charge (Vodafone Cash); defaults to the buyer's phone */
+  walletNumber?: string;
+}
+
+export interface InitiatedPayment {
+  provider: PaymentProviderName;
+  /** Our reference at the provider — stored as payment_intents.provider_order_id */
+  orderId: string;
+  /** Card iframe (Paymob) */
+  paymentKey?: string;
+  iframeUrl?: string;
+  /** Code the buyer pays at an outlet (Fawry) */
+  referenceCode?: string;
+  expiresAt?: string;
+  instructions: string;
+}
+
+/** A provider callback or status poll, normalised. */
+export interface ProviderEvent {
+  type: PaymentEventType;
+  providerTransactionId: string | null;
+  providerOrderId: string | null;
+  amountCents?: number;
+  refundedAmountCents?: number;
+}
+
+/** The payment_intents columns adapters need for refunds and status queries. */
+export interface GatewayIntent {
+  id: string;
+  provider: PaymentProviderName;
+  provider_order_id: string;
+  provider_transaction_id: string | null;
+  provider_reference: string | null;
+  amount_cents: number;
+  refunded_amount_cents: number;
+  captured_today?: boolean;
+}
+
+export interface ProviderRefund {
+  action: 'void' | 'refund';
+  providerRefundId: string;
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  /** False when credentials are missing — callers fall back to dev mocks */
+  enabled(): boolean;
+  initiate(input: InitiatePaymentInput): Promise<InitiatedPayment>;
+  /** `signature` is whatever the provider sends outside the body (query string or header) */
+  verifyWebhook(payload: Record<string, unknown>, signature: string | undefined): boolean;
+  parseWebhook(payload: Record<string, unknown>): ProviderEvent;
+  refund(intent: GatewayIntent, amountCents: number): Promise<ProviderRefund>;
+  queryStatus(intent: GatewayIntent): Promise<ProviderEvent>;
+}
@@ -0,0 +1,106 @@
+/**
+ * Provider registry — maps a transaction's payment_method to its gateway
+ * adapter, and refunds captured gateway payments whichever provider took them.
+ */
+
+import { DbClient } from '../database/pool';
+import { paymobProvider } from './paymob.service';
+import { fawryProvider } from './fawry.service';
+import { vodafoneCashProvider } from './vodafone-cash.service';
+import type { GatewayIntent, PaymentProvider, PaymentProviderName } from './provider';
+
+export const paymentProviders: Record<PaymentProviderName, PaymentProvider> = {
+  paymob: paymobProvider,
+  fawry: fawryProvider,
+  vodafone_cash: vodafoneCashProvider,
+};
+
+export function isGatewayMethod(method: string | null | undefined): method is PaymentProviderName {
+  return !!method && Object.prototype.hasOwnProperty.call(paymentProviders, method);
+}
+
+export function getPaymentProvider(name: string): PaymentProvider | null {
+  return isGatewayMethod(name) ? paymentProviders[name] : null;
+}
+
+export interface GatewayRefundResult {
+  refundId: string;
+  intentId: string;
+  provider: PaymentProviderName;
+  amountCents: number;
+}
+
+/**
+ * Requests a refund of a captured gateway payment to the buyer. Only the
+ * request is written here, inside the caller's DB transaction; the provider is
+ * called by sendRequestedRefunds once that transaction has committed, so a
+ * rollback never leaves money refunded that escrow still holds. The intent is
+ * marked refund 'pending' until the provider's callback confirms it
+ * (immediately 'refunded' when the provider isn't configured).
+ */
+export async function refundGatewayPayment(
+  client: DbClient,
+  transactionId: string,
+  amountEGP: number,
+): Promise<GatewayRefundResult | null> {
+  const intent = await client.queryOne<GatewayIntent>(
+    `SELECT * FROM payment_intents
+     WHERE transaction_id = $1 AND status = 'paid'
+     ORDER BY created_at DESC LIMIT 1 FOR UPDATE`,
+    [transactionId],
+  );
+  return intent ? requestRefund(client, intent, Math.round(amountEGP * 100)) : null;
+}
+
+/** Like refundGatewayPayment, for one specific captured intent. */
+export async function refundCapturedIntent(
+  client: DbClient,
+  intentId: string,
+  amountCents: number,
+): Promise<GatewayRefundResult | null> {
+  const intent = await client.queryOne<GatewayIntent>(
+    `SELECT * FROM payment_intents WHERE id = $1 AND status = 'paid' FOR UPDATE`,
+    [intentId],
+  );
+  return intent ? requestRefund(client, intent, amountCents) : null;
+}
+
+async function requestRefund(
+  client: DbClient,
+  intent: GatewayIntent,
+  amountCents: number,
+): Promise<GatewayRefundResult | null> {
+  const provider = paymentProviders[intent.provider];
+  if (!provider) return null;
+
+  // Requested refunds count at once, so the same money is never requested twice
+  const remaining = intent.amount_cents - (intent.refunded_amount_cents ?? 0);
+  if (amountCents <= 0 || amountCents > remaining) {
+    throw new Error(`Refund of ${amountCents} cents exceeds refundable ${remaining}`);
+  }
+
+  // Dev fallback: nothing to send, pretend the gateway accepted and confirmed it
+  const live = provider.enabled();
+  const mockId = live ? null : 'mock_refund_' + Date.now();
+  const [refund] = await client.query<{ id: string }>(
+    `INSERT INTO gateway_refunds (intent_id, amount_cents, status, action, provider_refund_id, sent_at)
+     VALUES ($1, $2, $3, $4, $5, CASE WHEN $3 = 'sent' THEN NOW() END) RETURNING id`,
+    [intent.id, amountCents, live ? 'requested' : 'sent', live ? null : 'refund', mockId],
+  );
+
+  // updated_at is left alone: it still dates the capture, which decides whether a void is possible
+  await client.query(
+    `UPDATE payment_intents SET
+       refund_status = $3,
+       refund_action = COALESCE($4, refund_action),
+       refund_provider_id = COALESCE($5, refund_provider_id),
+       refunded_amount_cents = COALESCE(refunded_amount_cents, 0) + $2,
+       status = CASE WHEN $3 = 'refunded' AND COALESCE(refunded_amount_cents, 0) + $2 >= amount_cents
+                THEN 'refunded' ELSE status END,
+       refunded_at = CASE WHEN $3 = 'refunded' THEN NOW() ELSE refunded_at END
+     WHERE id = $1`,
+    [intent.id, amountCents, live ? 'pending' : 'refunded', live ? null : 'refund', mockId],
+  );
+
+  return { refundId: refund.id, intentId: intent.id, provider: intent.provider, amountCents };
+}
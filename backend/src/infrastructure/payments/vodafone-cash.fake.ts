@@ -0,0 +1,150 @@
+/**
+ * Fake Vodafone Cash — in-memory simulator of the merchant wallet-payment
+ * API. Point VODAFONE_CASH_API_URL at it:
+ *
+ *   npm run fake:vodafone-cash     → http://localhost:4012
+ *   VODAFONE_CASH_API_URL=http://localhost:4012
+ *
+ * `approve()` / `reject()` (or POST /_fake/payments/:reference/approve|reject)
+ * simulate the buyer answering the PIN prompt and return the signed callback
+ * to replay at /wallet/payments/vodafone_cash/webhook with its X-Signature.
+ */
+
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { vodafoneCashSignature } from './vodafone-cash.service';
+
+interface FakeWalletPayment {
+  payment_id: string;
+  merchant_reference: string;
+  msisdn: string;
+  amount_cents: number;
+  refunded_amount_cents: number;
+  status: 'PENDING_CUSTOMER_APPROVAL' | 'SUCCESS' | 'REJECTED' | 'REFUNDED';
+}
+
+export interface FakeVodafoneCashCallback {
+  body: Record<string, unknown>;
+  signature: string;
+}
+
+export interface FakeVodafoneCash {
+  url: string;
+  payments: Map<string, FakeWalletPayment>;
+  /** Callbacks the fake would have sent, oldest first */
+  callbacks: FakeVodafoneCashCallback[];
+  approve(merchantReference: string): FakeVodafoneCashCallback;
+  reject(merchantReference: string): FakeVodafoneCashCallback;
+  close(): Promise<void>;
+}
+
+export async function startFakeVodafoneCash(
+  opts: { port?: number; apiKey?: string; webhookSecret?: string } = {},
+): Promise<FakeVodafoneCash> {
+  const apiKey = opts.apiKey ?? 'fake_vf_key';
+  const webhookSecret = opts.webhookSecret ?? 'fake_vf_secret';
+  const payments = new Map<string, FakeWalletPayment>();
+  const callbacks: FakeVodafoneCashCallback[] = [];
+  let nextId = 5000;
+
+  const view = (p: FakeWalletPayment) => ({ ...p });
+
+  const send = (p: FakeWalletPayment) => {
+    const body = view(p);
+    const cb = { body, signature: vodafoneCashSignature(body, webhookSecret) };
+    callbacks.push(cb);
+    return cb;
+  };
+
+  const answer = (merchantReference: string, status: 'SUCCESS' | 'REJECTED') => {
+    const p = payments.get(merchantReference);
+    if (!p) throw new Error(`Fake Vodafone Cash: unknown payment ${merchantReference}`);
+    if (p.status !== 'PENDING_CUSTOMER_APPROVAL') {
+      throw new Error(`Fake Vodafone Cash: payment ${merchantReference} is ${p.status}`);
+    }
+    p.status = status;
+    return send(p);
+  };
+
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, nextFn) => {
+    if (req.path.startsWith('/_fake/') || req.get('authorization') === `Bearer ${apiKey}`) return nextFn();
+    res.sendStatus(401);
+  });
+
+  app.post('/payments', (req, res) => {
+    const b = req.body ?? {};
+    if (!/^01[0-9]{9}$/.test(String(b.msisdn)) || !(Number(b.amount_cents) > 0)) {
+      res.status(400).json({ error: 'Invalid wallet number or amount' });
+      return;
+    }
+    const p: FakeWalletPayment = {
+      payment_id: `vf_${nextId++}`,
+      merchant_reference: String(b.merchant_reference),
+      msisdn: String(b.msisdn),
+      amount_cents: Number(b.amount_cents),
+      refunded_amount_cents: 0,
+      status: 'PENDING_CUSTOMER_APPROVAL',
+    };
+    payments.set(p.merchant_reference, p);
+    res.status(201).json({ ...view(p), expires_at: new Date(Date.now() + 15 * 60 * 1000).toISOString() });
+  });
+
+  app.get('/payments/by-reference/:ref', (req, res) => {
+    const p = payments.get(req.params.ref);
+    if (!p) { res.sendStatus(404); return; }
+    res.json(view(p));
+  });
+
+  app.post('/payments/:paymentId/refunds', (req, res) => {
+    const p = [...payments.values()].find((x) => x.payment_id === req.params.paymentId);
+    const amount = Number(req.body?.amount_cents);
+    if (!p || p.status !== 'SUCCESS' || amount <= 0 || p.refunded_amount_cents + amount > p.amount_cents) {
+      res.status(422).json({ refund_id: null, status: 'FAILED' });
+      return;
+    }
+    p.refunded_amount_cents += amount;
+    if (p.refunded_amount_cents >= p.amount_cents) p.status = 'REFUNDED';
+    send({ ...p, status: 'REFUNDED' });
+    res.json({ refund_id: `vfr_${nextId++}`, status: 'SUCCESS' });
+  });
+
+  // Test hooks: simulate the buyer answering the PIN prompt
+  app.post('/_fake/payments/:ref/:action(approve|reject)', (req, res) => {
+    try {
+      res.json(answer(req.params.ref, req.params.action === 'approve' ? 'SUCCESS' : 'REJECTED'));
+    } catch (err) {
+      res.status(409).json({ detail: (err as Error).message });
+    }
+  });
+
+  const server: Server = await new Promise((resolve) => {
+    const s = app.listen(opts.port ?? 0, () => resolve(s));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    payments,
+    callbacks,
+    approve: (ref) => answer(ref, 'SUCCESS'),
+    reject: (ref) => answer(ref, 'REJECTED'),
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
+
+// Allow running directly: tsx src/infrastructure/payments/vodafone-cash.fake.ts
+if (require.main === module) {
+  startFakeVodafoneCash({
+    port: Number(process.env.PORT ?? 4012),
+    apiKey: process.env.VODAFONE_CASH_API_KEY,
+    webhookSecret: process.env.VODAFONE_CASH_WEBHOOK_SECRET,
+  })
+    .then((fake) => console.log(`Fake Vodafone Cash listening on ${fake.url}`))
+    .catch((err) => {
+      console.error('Fake Vodafone Cash failed to start:', err);
+      process.exit(1);
+    });
+}
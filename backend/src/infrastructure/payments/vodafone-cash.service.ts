@@ -0,0 +1,119 @@
+/**
+ * Vodafone Cash — merchant wallet payments
+ *
+ * Flow:
+ *   1. initiate()   → payment request pushed to the buyer's wallet number;
+ *                     the buyer approves it with their wallet PIN
+ *   2. The gateway POSTs the outcome (SUCCESS / FAILED / EXPIRED / REFUNDED) to
+ *      /api/v1/wallet/payments/vodafone_cash/webhook with an X-Signature header
+ *   3. refund() sends the money back to the same wallet
+ *
+ * Callback signature: HMAC-SHA256 over `payment_id|merchant_reference|status|amount_cents`.
+ * VODAFONE_CASH_API_URL can point at the local simulator (vodafone-cash.fake.ts).
+ */
+
+import { createHmac } from 'crypto';
+import { config } from '../../config';
+import type { PaymentEventType, PaymentProvider, ProviderEvent } from './provider';
+
+const vfApi = () => config.vodafoneCash.apiUrl;
+
+const headers = () => ({
+  'Content-Type': 'application/json',
+  Authorization: `Bearer ${config.vodafoneCash.apiKey}`,
+});
+
+export function vodafoneCashSignature(p: Record<string, unknown>, secret: string): string {
+  const str = [p.payment_id, p.merchant_reference, p.status, p.amount_cents].map((v) => String(v ?? '')).join('|');
+  return createHmac('sha256', secret).update(str).digest('hex');
+}
+
+const STATUS_MAP: Record<string, PaymentEventType> = {
+  PENDING_CUSTOMER_APPROVAL: 'pending',
+  SUCCESS: 'paid',
+  FAILED: 'failed',
+  REJECTED: 'failed',
+  EXPIRED: 'expired',
+  REFUNDED: 'refunded',
+};
+
+function toEvent(p: Record<string, unknown>): ProviderEvent {
+  return {
+    type: STATUS_MAP[String(p.status).toUpperCase()] ?? 'pending',
+    providerTransactionId: p.payment_id != null ? String(p.payment_id) : null,
+    providerOrderId: p.merchant_reference != null ? String(p.merchant_reference) : null,
+    amountCents: p.amount_cents != null ? Number(p.amount_cents) : undefined,
+    refundedAmountCents: p.refunded_amount_cents != null ? Number(p.refunded_amount_cents) : undefined,
+  };
+}
+
+// ─── Provider adapter ─────────────────────────────────────
+
+export const vodafoneCashProvider: PaymentProvider = {
+  name: 'vodafone_cash',
+
+  enabled: () => config.vodafoneCash.enabled,
+
+  async initiate(input) {
+    const merchantReference = `KV${Date.now()}${Math.floor(Math.random() * 1000).toString().padStart(3, '0')}`;
+    const msisdn = input.walletNumber ?? input.buyer.phone;
+    const instructions = `Approve the payment request sent to your Vodafone Cash wallet ${msisdn} using your wallet PIN.`;
+
+    if (!config.vodafoneCash.enabled) {
+      // Dev fallback: pretend the request was pushed
+      return { provider: 'vodafone_cash', orderId: merchantReference, instructions };
+    }
+
+    const res = await fetch(`${vfApi()}/payments`, {
+      method: 'POST',
+      headers: headers(),
+      body: JSON.stringify({
+        merchant_id: config.vodafoneCash.merchantId,
+        merchant_reference: merchantReference,
+        msisdn,
+        amount_cents: input.amountCents,
+        currency: 'EGP',
+      }),
+    });
+    if (!res.ok) throw new Error(`Vodafone Cash payment request failed: ${res.status}`);
+    const data = await res.json() as { payment_id: string; expires_at?: string };
+
+    return {
+      provider: 'vodafone_cash',
+      orderId: merchantReference,
+      referenceCode: data.payment_id,
+      expiresAt: data.expires_at,
+      instructions,
+    };
+  },
+
+  verifyWebhook(payload, signature) {
+    // Unsigned callbacks are only trusted in dev, against mock intents
+    if (!config.vodafoneCash.webhookSecret) return config.isDev && !config.vodafoneCash.enabled;
+    return vodafoneCashSignature(payload, config.vodafoneCash.webhookSecret) === signature;
+  },
+
+  parseWebhook: toEvent,
+
+  async refund(intent, amountCents) {
+    const paymentId = intent.provider_transaction_id ?? intent.provider_reference;
+    if (!paymentId) throw new Error('Vodafone Cash payment id unknown for intent');
+    const res = await fetch(`${vfApi()}/payments/${encodeURIComponent(paymentId)}/refunds`, {
+      method: 'POST',
+      headers: headers(),
+      body: JSON.stringify({ amount_cents: amountCents }),
+    });
+    if (!res.ok) throw new Error(`Vodafone Cash refund failed: ${res.status}`);
+    const data = await res.json() as { refund_id: string; status: string };
+    if (data.status !== 'SUCCESS') throw new Error('Vodafone Cash refund was declined');
+    return { action: 'refund', providerRefundId: data.refund_id };
+  },
+
+  async queryStatus(intent) {
+    const res = await fetch(`${vfApi()}/payments/by-reference/${encodeURIComponent(intent.provider_order_id)}`, {
+      headers: headers(),
+    });
+    if (!res.ok) throw new Error(`Vodafone Cash status query failed: ${res.status}`);
+    return toEvent(await res.json() as Record<string, unknown>);
+  },
+};
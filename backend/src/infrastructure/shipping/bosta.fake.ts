@@ -0,0 +1,159 @@
+/**
+ * Fake Bosta — in-memory simulator of the pricing and deliveries endpoints.
+ * Point BOSTA_API_URL at it:
+ *
+ *   npm run fake:bosta             → http://localhost:4013
+ *   BOSTA_API_URL=http://localhost:4013
+ *
+ * `advance()` (or POST /_fake/deliveries/:trackingNumber/:state) moves a
+ * delivery along — picked up, out for delivery, delivered, returned… — and
+ * returns the webhook Bosta would send, to replay at
+ * /shipping/bosta/webhook with its Authorization header.
+ */
+
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+const STATES = {
+  pickup_requested: { code: 10, value: 'Pickup requested' },
+  picked_up: { code: 21, value: 'Picked up from business' },
+  in_transit: { code: 30, value: 'In transit between Hubs' },
+  out_for_delivery: { code: 41, value: 'Picked up' },
+  delivered: { code: 45, value: 'Delivered' },
+  returned: { code: 46, value: 'Returned to business' },
+  exception: { code: 47, value: 'Exception' },
+  canceled: { code: 49, value: 'Canceled' },
+} as const;
+
+export type FakeBostaState = keyof typeof STATES;
+
+interface FakeDelivery {
+  _id: string;
+  trackingNumber: string;
+  businessReference: string;
+  dropOffCity: string;
+  state: FakeBostaState;
+}
+
+export interface FakeBostaWebhook {
+  body: Record<string, unknown>;
+  signature: string;
+}
+
+export interface FakeBosta {
+  url: string;
+  deliveries: Map<string, FakeDelivery>;
+  /** Webhooks the fake would have sent, oldest first */
+  webhooks: FakeBostaWebhook[];
+  advance(trackingNumber: string, state: FakeBostaState, exceptionReason?: string): FakeBostaWebhook;
+  close(): Promise<void>;
+}
+
+/** Fee by drop-off city; anywhere else costs the outer-governorate rate */
+const PRICES: Record<string, number> = { Cairo: 65, Giza: 65, Alexandria: 75 };
+const OTHER_CITY_PRICE = 95;
+
+export async function startFakeBosta(
+  opts: { port?: number; apiKey?: string; webhookSecret?: string } = {},
+): Promise<FakeBosta> {
+  const apiKey = opts.apiKey ?? 'fake_bosta_key';
+  const webhookSecret = opts.webhookSecret ?? 'fake_bosta_secret';
+  const deliveries = new Map<string, FakeDelivery>();
+  const webhooks: FakeBostaWebhook[] = [];
+  let nextTracking = 7000001;
+
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, next) => {
+    if (req.path.startsWith('/_fake') || req.get('authorization') === apiKey) return next();
+    res.status(401).json({ success: false, message: 'Invalid API key' });
+  });
+
+  app.get('/pricing/shipment/calculator', (req, res) => {
+    const city = String(req.query.dropOffCity ?? '');
+    res.json({ success: true, data: { priceAfterVat: PRICES[city] ?? OTHER_CITY_PRICE } });
+  });
+
+  app.post('/deliveries', (req, res) => {
+    const b = req.body ?? {};
+    if (!b.dropOffAddress?.city || !b.receiver?.phone || !b.pickupAddress?.city) {
+      res.status(400).json({ success: false, message: 'Missing address or receiver' });
+      return;
+    }
+    const delivery: FakeDelivery = {
+      _id: `fake_${nextTracking}`,
+      trackingNumber: String(nextTracking++),
+      businessReference: b.businessReference,
+      dropOffCity: b.dropOffAddress.city,
+      state: 'pickup_requested',
+    };
+    deliveries.set(delivery.trackingNumber, delivery);
+    res.json({
+      success: true,
+      message: 'Delivery created successfully',
+      data: { _id: delivery._id, trackingNumber: delivery.trackingNumber, state: STATES.pickup_requested },
+    });
+  });
+
+  function advance(trackingNumber: string, state: FakeBostaState, exceptionReason?: string) {
+    const delivery = deliveries.get(trackingNumber);
+    if (!delivery) throw new Error(`Fake Bosta: unknown delivery ${trackingNumber}`);
+    delivery.state = state;
+    const webhook = {
+      body: {
+        _id: delivery._id,
+        trackingNumber: delivery.trackingNumber,
+        state: STATES[state].code,
+        type: 'SEND',
+        cod: 0,
+        timeStamp: Date.now(),
+        businessReference: delivery.businessReference,
+        ...(exceptionReason ? { exceptionReason } : {}),
+      },
+      signature: webhookSecret,
+    };
+    webhooks.push(webhook);
+    return webhook;
+  }
+
+  // Test hook: move a delivery along
+  app.post('/_fake/deliveries/:trackingNumber/:state', (req, res) => {
+    if (!(req.params.state in STATES)) {
+      res.status(400).json({ detail: `Unknown state ${req.params.state}` });
+      return;
+    }
+    try {
+      res.json(advance(req.params.trackingNumber, req.params.state as FakeBostaState, req.body?.exceptionReason));
+    } catch (err) {
+      res.status(404).json({ detail: (err as Error).message });
+    }
+  });
+
+  const server: Server = await new Promise((resolve) => {
+    const s = app.listen(opts.port ?? 0, () => resolve(s));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    deliveries,
+    webhooks,
+    advance,
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
+
+// Allow running directly: tsx src/infrastructure/shipping/bosta.fake.ts
+if (require.main === module) {
+  startFakeBosta({
+    port: Number(process.env.PORT ?? 4013),
+    apiKey: process.env.BOSTA_API_KEY,
+    webhookSecret: process.env.BOSTA_WEBHOOK_SECRET,
+  })
+    .then((fake) => console.log(`Fake Bosta listening on ${fake.url}`))
+    .catch((err) => {
+      console.error('Fake Bosta failed to start:', err);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,139 @@
+/**
+ * Bosta — door-to-door courier deliveries within Egypt
+ * Docs: https://docs.bosta.co
+ *
+ * Flow:
+ *   1. quote()          → delivery fee for the buyer's city, added to what they pay
+ *   2. createWaybill()  → a SEND delivery; Bosta collects from the seller
+ *   3. Bosta POSTs every state change to /api/v1/shipping/bosta/webhook with
+ *      the webhook secret configured in the Bosta dashboard as Authorization
+ *
+ * Requests are authenticated with the API key in the Authorization header.
+ * BOSTA_API_URL can point at the local simulator (bosta.fake.ts).
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { config } from '../../config';
+import type { ShipmentEventType, ShippingAddress, ShippingProvider, TrackingEvent } from './provider';
+
+/** Bosta delivery type for a forward shipment */
+const DELIVERY_TYPE_SEND = 10;
+
+const headers = () => ({ 'Content-Type': 'application/json', Authorization: config.bosta.apiKey });
+const egp = (cents: number) => Math.round(cents) / 100;
+
+export const bostaTrackingUrl = (trackingNumber: string) => `https://bosta.co/tracking-shipments?shipment-number=${trackingNumber}`;
+
+/**
+ * Bosta state codes we act on. Anything else (route assigned, received at
+ * warehouse, on hold…) is recorded as in transit.
+ */
+const STATE_MAP: Record<number, ShipmentEventType> = {
+  10: 'created',
+  21: 'picked_up',
+  24: 'in_transit',
+  30: 'in_transit',
+  41: 'out_for_delivery',
+  45: 'delivered',
+  46: 'returned',
+  47: 'delivery_failed',
+  48: 'cancelled',
+  49: 'cancelled',
+};
+
+function toBostaAddress(a: ShippingAddress) {
+  return {
+    city: a.city,
+    district: a.district,
+    firstLine: a.street,
+    buildingNumber: a.building,
+    floor: a.floor,
+    apartment: a.apartment,
+  };
+}
+
+function splitName(name: string) {
+  const [firstName, ...rest] = name.trim().split(/\s+/);
+  return { firstName, lastName: rest.join(' ') || firstName };
+}
+
+function toEvent(p: Record<string, unknown>): TrackingEvent {
+  const state = (typeof p.state === 'object' && p.state !== null ? p.state : { code: p.state }) as {
+    code?: unknown;
+    value?: unknown;
+  };
+  const code = Number(state.code);
+  return {
+    type: STATE_MAP[code] ?? 'in_transit',
+    trackingNumber: p.trackingNumber != null ? String(p.trackingNumber) : null,
+    providerStatus: String(state.value ?? code),
+    occurredAt: p.timeStamp != null ? new Date(Number(p.timeStamp)).toISOString() : null,
+    note: p.exceptionReason != null ? String(p.exceptionReason) : undefined,
+  };
+}
+
+// ─── Provider adapter ─────────────────────────────────────
+
+export const bostaProvider: ShippingProvider = {
+  name: 'bosta',
+
+  enabled: () => config.bosta.enabled,
+
+  async quote(dropOffCity) {
+    if (!config.bosta.enabled) {
+      // Dev fallback: flat fee
+      return { provider: 'bosta', feeCents: Math.round(config.shipping.flatFeeEgp * 100) };
+    }
+    const params = new URLSearchParams({ dropOffCity, type: 'SEND', size: 'Normal' });
+    const res = await fetch(`${config.bosta.apiUrl}/pricing/shipment/calculator?${params}`, { headers: headers() });
+    if (!res.ok) throw new Error(`Bosta pricing failed: ${res.status}`);
+    const data = await res.json() as { success: boolean; data?: { priceAfterVat?: number } };
+    if (!data.success || data.data?.priceAfterVat == null) throw new Error('Bosta pricing returned no price');
+    return { provider: 'bosta', feeCents: Math.round(data.data.priceAfterVat * 100) };
+  },
+
+  async createWaybill(input) {
+    if (!config.bosta.enabled) {
+      // Dev fallback: return a mock waybill
+      const trackingNumber = String(Math.floor(1000000 + Math.random() * 9000000));
+      return { provider: 'bosta', shipmentId: `mock_${trackingNumber}`, trackingNumber, trackingUrl: bostaTrackingUrl(trackingNumber) };
+    }
+
+    const res = await fetch(`${config.bosta.apiUrl}/deliveries?apiVersion=1`, {
+      method: 'POST',
+      headers: headers(),
+      body: JSON.stringify({
+        type: DELIVERY_TYPE_SEND,
+        specs: { packageType: 'Parcel', size: 'SMALL', packageDetails: { itemsCount: 1, description: input.description } },
+        notes: input.dropOff.notes,
+        cod: 0,
+        goodsInfo: { amount: egp(input.valueCents) },
+        businessReference: input.transactionId,
+        pickupAddress: toBostaAddress(input.pickup),
+        dropOffAddress: toBostaAddress(input.dropOff),
+        receiver: { ...splitName(input.dropOff.name), phone: input.dropOff.phone },
+      }),
+    });
+    if (!res.ok) throw new Error(`Bosta delivery creation failed: ${res.status}`);
+    const data = await res.json() as { success: boolean; message?: string; data?: { _id: string; trackingNumber: string } };
+    if (!data.success || !data.data) throw new Error(`Bosta delivery was rejected: ${data.message ?? 'unknown error'}`);
+
+    return {
+      provider: 'bosta',
+      shipmentId: data.data._id,
+      trackingNumber: String(data.data.trackingNumber),
+      trackingUrl: bostaTrackingUrl(String(data.data.trackingNumber)),
+    };
+  },
+
+  verifyWebhook(_payload, signature) {
+    // Unsigned callbacks are only trusted in dev, when no real courier is booked
+    if (!config.bosta.webhookSecret) return config.isDev && !config.bosta.enabled;
+    if (!signature) return false;
+    const expected = Buffer.from(config.bosta.webhookSecret);
+    const given = Buffer.from(signature);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  },
+
+  parseWebhook: toEvent,
+};
@@ -0,0 +1,59 @@
+/**
+ * Shipping provider contract. Every courier adapter (Bosta first) implements
+ * this; a transaction with delivery_method = 'delivery' records which courier
+ * carries it and the waybill's tracking number, and tracking callbacks are
+ * stored in shipment_events keyed by (provider, tracking_number).
+ */
+
+import type { ShippingAddress } from '../../domain/entities';
+
+export type ShippingProviderName = 'bosta';
+
+export type ShipmentEventType =
+  | 'created' | 'picked_up' | 'in_transit' | 'out_for_delivery'
+  | 'delivered' | 'delivery_failed' | 'returned' | 'cancelled';
+
+export type { ShippingAddress };
+
+export interface ShippingQuote {
+  provider: ShippingProviderName;
+  feeCents: number;
+}
+
+export interface CreateWaybillInput {
+  transactionId: string;
+  pickup: ShippingAddress;
+  dropOff: ShippingAddress;
+  description: string;
+  /** Declared value, for the courier's insurance */
+  valueCents: number;
+}
+
+export interface Waybill {
+  provider: ShippingProviderName;
+  /** The courier's id for the delivery — stored as transactions.courier_shipment_id */
+  shipmentId: string;
+  trackingNumber: string;
+  trackingUrl: string;
+}
+
+/** A tracking callback, normalised. */
+export interface TrackingEvent {
+  type: ShipmentEventType;
+  trackingNumber: string | null;
+  /** The courier's own status, kept for support */
+  providerStatus: string;
+  occurredAt: string | null;
+  note?: string;
+}
+
+export interface ShippingProvider {
+  readonly name: ShippingProviderName;
+  /** False when credentials are missing — callers fall back to dev mocks */
+  enabled(): boolean;
+  quote(dropOffCity: string): Promise<ShippingQuote>;
+  createWaybill(input: CreateWaybillInput): Promise<Waybill>;
+  /** `signature` is whatever the courier sends outside the body (a header) */
+  verifyWebhook(payload: Record<string, unknown>, signature: string | undefined): boolean;
+  parseWebhook(payload: Record<string, unknown>): TrackingEvent;
+}
@@ -0,0 +1,19 @@
+/**
+ * Courier registry — maps a transaction's courier to its shipping adapter.
+ */
+
+import { bostaProvider } from './bosta.service';
+import type { ShippingProvider, ShippingProviderName } from './provider';
+
+export const shippingProviders: Record<ShippingProviderName, ShippingProvider> = {
+  bosta: bostaProvider,
+};
+
+/** Courier used for new deliveries */
+export const DEFAULT_COURIER: ShippingProviderName = 'bosta';
+
+export function getShippingProvider(name: string): ShippingProvider | null {
+  return Object.prototype.hasOwnProperty.call(shippingProviders, name)
+    ? shippingProviders[name as ShippingProviderName]
+    : null;
+}
@@ -3,6 +3,7 @@ import { Server, Socket } from 'socket.io';
 import jwt from 'jsonwebtoken';
 import { config } from '../../config';
 import { query, queryOne } from '../database/pool';
+import { findActiveBan } from '../../application/ban.service';
 
 let io: Server;
 
@@ -17,20 +18,29 @@ export function initSocket(httpServer: HttpServer): Server {
   });
 
   // ── JWT auth middleware ─────────────────────────────────
-  io.use((socket: AuthSocket, next) => {
+  // Banned and suspended users are turned away; banning someone also drops
+  // the connections they already have (see disconnectUser)
+  io.use(async (socket: AuthSocket, next) => {
     const token = socket.handshake.auth?.token || socket.handshake.headers?.authorization?.replace('Bearer ', '');
     if (!token) return next(new Error('Missing auth token'));
+    let userId: string;
     try {
-      const decoded = jwt.verify(token, config.jwt.secret) as { userId: string };
-      socket.userId = decoded.userId;
+      userId = (jwt.verify(token, config.jwt.secret) as { sub: string }).sub;
+    } catch {
+      return next(new Error('Invalid token'));
+    }
+    try {
+      if (await findActiveBan({ queryOne }, userId)) return next(new Error('Account banned'));
+      socket.userId = userId;
       next();
     } catch {
-      next(new Error('Invalid token'));
+      next(new Error('Authentication failed'));
     }
   });
 
   io.on('connection', (socket: AuthSocket) => {
     const userId = socket.userId!;
+    socket.join(`user_${userId}`);
 
     // ── Join a chat room ────────────────────────────────
     socket.on('join_chat', async (chatId: string) => {
@@ -97,3 +107,13 @@ export function getIO(): Server {
   if (!io) throw new Error('Socket.io not initialized');
   return io;
 }
+
+/** Pushes a message created outside the socket handlers (e.g. offer events) to the chat room. */
+export function emitChatMessage(chatId: string, message: unknown): void {
+  io?.to(`chat_${chatId}`).emit('new_message', message);
+}
+
+/** Drops every live connection the user has, e.g. when they're banned. */
+export function disconnectUser(userId: string): void {
+  io?.in(`user_${userId}`).disconnectSockets(true);
+}
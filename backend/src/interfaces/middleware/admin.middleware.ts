@@ -0,0 +1,77 @@
+import { Response, NextFunction } from 'express';
+import { AppError, verifyAccessToken } from '../../application/auth.service';
+import { AdminPermission, getAdminRole, hasPermission, recordAdminAction } from '../../application/admin.service';
+import { logger } from '../../infrastructure/logging/logger';
+import type { AdminRole } from '../../domain/entities';
+import type { AuthRequest } from './auth.middleware';
+
+export interface AdminRequest extends AuthRequest {
+  adminId?: string;
+  adminRole?: AdminRole;
+  /** What auditTrail writes once the response is sent; set by can() */
+  adminAudit?: { action: string; permission: string | null; targetId: string | null };
+}
+
+/** Request fields that never go into the audit log */
+const UNAUDITED_FIELDS = new Set(['code', 'otp']);
+
+/**
+ * An admin token (issued after the two-factor step) from a user who still
+ * holds an admin role. The role is read fresh so revoking it takes effect
+ * on the next request.
+ */
+export async function requireAdmin(req: AdminRequest, _res: Response, next: NextFunction): Promise<void> {
+  const header = req.headers.authorization;
+  if (!header?.startsWith('Bearer ')) return next(new AppError('Missing authorization header.', 401));
+
+  try {
+    const payload = verifyAccessToken(header.slice(7));
+    if (!payload.mfa) return next(new AppError('Two-factor authentication required.', 401));
+    const role = await getAdminRole(payload.sub);
+    if (!role) return next(new AppError('Forbidden.', 403));
+    req.userId = payload.sub;
+    req.adminId = payload.sub;
+    req.adminRole = role;
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+/** The admin's role must grant `permission`. Also names the action for the audit log. */
+export function can(permission: AdminPermission) {
+  return (req: AdminRequest, _res: Response, next: NextFunction): void => {
+    req.adminAudit = {
+      action: `${req.method} ${req.route?.path ?? req.path}`,
+      permission,
+      targetId: req.params.id ?? null,
+    };
+    if (!req.adminRole || !hasPermission(req.adminRole, permission)) {
+      return next(new AppError(`Your admin role doesn't allow ${permission}.`, 403));
+    }
+    next();
+  };
+}
+
+/**
+ * Writes every admin action — anything but a read — to admin_audit_log once
+ * the response is sent, including refused and failed ones.
+ */
+export function auditTrail(req: AdminRequest, res: Response, next: NextFunction): void {
+  if (req.method === 'GET' || req.method === 'HEAD') return next();
+  res.on('finish', () => {
+    if (!req.adminId || !req.adminAudit) return;
+    const details = Object.fromEntries(
+      Object.entries(req.body ?? {}).filter(([key]) => !UNAUDITED_FIELDS.has(key)),
+    );
+    recordAdminAction({
+      adminId: req.adminId,
+      role: req.adminRole ?? null,
+      ...req.adminAudit,
+      details: Object.keys(details).length ? details : null,
+      statusCode: res.statusCode,
+      ip: req.ip ?? null,
+    }).catch((err) => logger.error({ err, adminId: req.adminId, ...req.adminAudit }, '[ADMIN] Failed to write audit log'));
+  });
+  next();
+}
@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken, AppError } from '../../application/auth.service';
+import { accountBannedError, findActiveBan } from '../../application/ban.service';
+import { queryOne } from '../../infrastructure/database/pool';
 
 export interface AuthRequest extends Request {
   userId?: string;
@@ -8,18 +10,36 @@ export interface AuthRequest extends Request {
   user?: { id: string; phone: string };
 }
 
-export function requireAuth(req: AuthRequest, _res: Response, next: NextFunction): void {
+/** Sets the caller from the bearer token and returns their id. */
+function authenticate(req: AuthRequest): string {
   const header = req.headers.authorization;
   if (!header?.startsWith('Bearer ')) {
-    return next(new AppError('Missing authorization header.', 401));
+    throw new AppError('Missing authorization header.', 401);
   }
 
-  const token = header.slice(7);
+  const payload = verifyAccessToken(header.slice(7));
+  req.userId = payload.sub;
+  req.userPhone = payload.phone;
+  req.user = { id: payload.sub, phone: payload.phone };
+  return payload.sub;
+}
+
+/** A signed-in user who isn't banned or suspended. */
+export async function requireAuth(req: AuthRequest, _res: Response, next: NextFunction): Promise<void> {
   try {
-    const payload = verifyAccessToken(token);
-    req.userId = payload.sub;
-    req.userPhone = payload.phone;
-    req.user = { id: payload.sub, phone: payload.phone };
+    const userId = authenticate(req);
+    const ban = await findActiveBan({ queryOne }, userId);
+    if (ban) return next(accountBannedError(ban));
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+/** Like requireAuth but lets banned users through — only for their ban status and appeal. */
+export function requireAuthAllowBanned(req: AuthRequest, _res: Response, next: NextFunction): void {
+  try {
+    authenticate(req);
     next();
   } catch (err) {
     next(err);
@@ -7,6 +7,7 @@ export function errorHandler(err: Error, _req: Request, res: Response, _next: Ne
   if (err instanceof AppError) {
     res.status(err.statusCode).json({
       error: err.message,
+      ...err.details,
     });
     return;
   }
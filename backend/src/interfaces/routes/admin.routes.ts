@@ -1,25 +1,80 @@
 import { Router, Request, Response, NextFunction } from 'express';
+import rateLimit from 'express-rate-limit';
 import { z } from 'zod';
-import { query } from '../../infrastructure/database/pool';
-import { AppError } from '../../application/auth.service';
+import { config } from '../../config';
+import { query, queryOne } from '../../infrastructure/database/pool';
+import {
+  ADMIN_ROLES, ROLE_PERMISSIONS, listAdmins, queryAuditLog, setAdminRole, startTwoFactorEnrollment, verifyAdminTwoFactor,
+} from '../../application/admin.service';
+import {
+  addDisputeNote, assignDispute, getDisputeCase, listDisputeQueue, postAdminDisputeMessage, resolveDispute,
+} from '../../application/dispute.service';
+import { banUser, listBanAppeals, reviewBanAppeal, unbanUser } from '../../application/ban.service';
+import { reconcileLedger } from '../../application/ledger.service';
+import {
+  approveWithdrawal, rejectWithdrawal, createPayoutBatch, getPayoutBatchCsv, markPayoutBatchPaid,
+} from '../../application/withdrawal.service';
+import { requireAuth } from '../middleware/auth.middleware';
+import { AdminRequest, auditTrail, can, requireAdmin } from '../middleware/admin.middleware';
 
 const router = Router();
 
-// ─── Admin Auth Middleware ────────────────────────────────────────────────────
+router.use(auditTrail);
 
-function adminAuth(req: Request, _res: Response, next: NextFunction): void {
-  const adminKey = process.env.ADMIN_API_KEY;
-  if (!adminKey) return next(new AppError('Admin API not configured.', 503));
-  const provided = req.headers['x-admin-key'];
-  if (!provided || provided !== adminKey) return next(new AppError('Unauthorized.', 401));
+// ─── Two-factor sign-in ───────────────────────────────────────────────────────
+// Admins log in through /auth like everyone else, then trade an authenticator
+// code for an admin token here. Attempts are audited like any admin action.
+
+const twoFactorLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: { error: 'Too many two-factor attempts. Try again later.' },
+});
+
+function auditSignIn(req: AdminRequest, _res: Response, next: NextFunction): void {
+  req.adminId = req.userId;
+  req.adminAudit = { action: `${req.method} ${req.route.path}`, permission: null, targetId: null };
   next();
 }
 
-router.use(adminAuth);
+// ─── POST /api/v1/admin/auth/2fa/setup ────────────────────────────────────────
+// A new authenticator secret, until the first good code confirms it
+
+router.post('/auth/2fa/setup', twoFactorLimiter, requireAuth, auditSignIn, async (req: AdminRequest, res: Response, next: NextFunction) => {
+  try {
+    const { secret, otpauthUrl } = await startTwoFactorEnrollment(req.userId!);
+    res.json({ secret, otpauth_url: otpauthUrl });
+  } catch (err) { next(err); }
+});
+
+// ─── POST /api/v1/admin/auth/2fa ──────────────────────────────────────────────
+// Authenticator code → admin token for the rest of this API
+
+router.post('/auth/2fa', twoFactorLimiter, requireAuth, auditSignIn, async (req: AdminRequest, res: Response, next: NextFunction) => {
+  try {
+    const { code } = z.object({ code: z.string().regex(/^\d{6}$/) }).parse(req.body);
+    const { accessToken, role } = await verifyAdminTwoFactor(req.userId!, code);
+    req.adminRole = role;
+    res.json({
+      access_token: accessToken,
+      expires_in: config.admin.sessionMinutes * 60,
+      role,
+      permissions: ROLE_PERMISSIONS[role],
+    });
+  } catch (err) { next(err); }
+});
+
+router.use(requireAdmin);
+
+// ─── GET /api/v1/admin/me ─────────────────────────────────────────────────────
+
+router.get('/me', (req: AdminRequest, res: Response) => {
+  res.json({ id: req.adminId, role: req.adminRole, permissions: ROLE_PERMISSIONS[req.adminRole!] });
+});
 
 // ─── GET /api/v1/admin/stats ──────────────────────────────────────────────────
 
-router.get('/stats', async (_req, res: Response, next: NextFunction) => {
+router.get('/stats', can('stats:read'), async (_req, res: Response, next: NextFunction) => {
   try {
     const [users, active, txns, volume, flagged, disputes] = await Promise.all([
       query<{ count: string }>('SELECT COUNT(*) AS count FROM users'),
@@ -27,7 +82,7 @@ router.get('/stats', async (_req, res: Response, next: NextFunction) => {
       query<{ count: string }>('SELECT COUNT(*) AS count FROM transactions'),
       query<{ total: string }>(`SELECT COALESCE(SUM(final_price),0) AS total FROM transactions WHERE status IN ('completed','held')`),
       query<{ count: string }>(`SELECT COUNT(*) AS count FROM listings WHERE moderation_status = 'flagged'`),
-      query<{ count: string }>(`SELECT COUNT(*) AS count FROM transactions WHERE dispute_status = 'open'`),
+      query<{ count: string }>(`SELECT COUNT(*) AS count FROM disputes WHERE status <> 'resolved'`),
     ]);
     res.json({
       total_users:        parseInt(users[0]?.count    ?? '0', 10),
@@ -42,7 +97,7 @@ router.get('/stats', async (_req, res: Response, next: NextFunction) => {
 
 // ─── GET /api/v1/admin/listings/flagged ───────────────────────────────────────
 
-router.get('/listings/flagged', async (_req, res: Response, next: NextFunction) => {
+router.get('/listings/flagged', can('listings:read'), async (_req, res: Response, next: NextFunction) => {
   try {
     const listings = await query(
       `SELECT l.*, u.full_name AS seller_name, u.phone AS seller_phone,
@@ -59,7 +114,7 @@ router.get('/listings/flagged', async (_req, res: Response, next: NextFunction)
 
 // ─── PATCH /api/v1/admin/listings/:id/moderate ───────────────────────────────
 
-router.patch('/listings/:id/moderate', async (req: Request, res: Response, next: NextFunction) => {
+router.patch('/listings/:id/moderate', can('listings:moderate'), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const { action } = z.object({ action: z.enum(['approve', 'reject']) }).parse(req.body);
     if (action === 'approve') {
@@ -73,11 +128,12 @@ router.patch('/listings/:id/moderate', async (req: Request, res: Response, next:
 
 // ─── GET /api/v1/admin/users ──────────────────────────────────────────────────
 
-router.get('/users', async (_req, res: Response, next: NextFunction) => {
+router.get('/users', can('users:read'), async (_req, res: Response, next: NextFunction) => {
   try {
     const users = await query(
       `SELECT id, full_name, phone, email, trust_score, behavioral_score,
-         is_id_verified, is_phone_verified, total_reviews, created_at
+         is_id_verified, is_phone_verified, total_reviews,
+         is_banned, banned_until, ban_reason, created_at
        FROM users ORDER BY created_at DESC LIMIT 50`,
     );
     res.json({ users });
@@ -85,37 +141,302 @@ router.get('/users', async (_req, res: Response, next: NextFunction) => {
 });
 
 // ─── PATCH /api/v1/admin/users/:id/ban ───────────────────────────────────────
+// Ban, or suspend for suspend_days; { banned: false } lifts it
 
-router.patch('/users/:id/ban', async (req: Request, res: Response, next: NextFunction) => {
+router.patch('/users/:id/ban', can('users:ban'), async (req: AdminRequest, res: Response, next: NextFunction) => {
   try {
-    const { banned } = z.object({ banned: z.boolean() }).parse(req.body);
-    if (banned) {
-      await query(`UPDATE users SET behavioral_score = 0, trust_score = 1 WHERE id = $1`, [req.params.id]);
-    } else {
-      await query(`UPDATE users SET behavioral_score = 100 WHERE id = $1`, [req.params.id]);
+    const input = z.discriminatedUnion('banned', [
+      z.object({
+        banned: z.literal(true),
+        reason: z.string().trim().min(3).max(1000),
+        suspend_days: z.number().int().min(1).max(365).optional(),
+      }),
+      z.object({ banned: z.literal(false), reason: z.string().trim().min(3).max(1000) }),
+    ]).parse(req.body);
+
+    if (!input.banned) {
+      const { listingsRestored } = await unbanUser(req.params.id, req.adminId!, input.reason);
+      res.json({ ok: true, id: req.params.id, banned: false, listings_restored: listingsRestored });
+      return;
     }
-    res.json({ ok: true, id: req.params.id, banned });
+    const until = input.suspend_days ? new Date(Date.now() + input.suspend_days * 86_400_000) : null;
+    const { ban, listingsHidden } = await banUser(req.params.id, req.adminId!, { reason: input.reason, until });
+    res.json({ ok: true, id: req.params.id, banned: true, ban, listings_hidden: listingsHidden });
+  } catch (err) { next(err); }
+});
+
+// ─── GET /api/v1/admin/ban-appeals ────────────────────────────────────────────
+
+router.get('/ban-appeals', can('users:ban'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { status } = z.object({
+      status: z.enum(['pending', 'upheld', 'overturned']).optional(),
+    }).parse(req.query);
+    res.json({ appeals: await listBanAppeals(status) });
+  } catch (err) { next(err); }
+});
+
+// ─── PATCH /api/v1/admin/ban-appeals/:id ──────────────────────────────────────
+// Overturning lifts the ban
+
+router.patch('/ban-appeals/:id', can('users:ban'), async (req: AdminRequest, res: Response, next: NextFunction) => {
+  try {
+    const { decision, notes } = z.object({
+      decision: z.enum(['upheld', 'overturned']),
+      notes: z.string().trim().min(3).max(1000),
+    }).parse(req.body);
+    res.json({ appeal: await reviewBanAppeal(req.params.id, req.adminId!, { decision, notes }) });
   } catch (err) { next(err); }
 });
 
 // ─── GET /api/v1/admin/disputes ───────────────────────────────────────────────
+// The queue; open cases by default, most urgent first
 
-router.get('/disputes', async (_req, res: Response, next: NextFunction) => {
-  try {
-    const disputes = await query(
-      `SELECT t.*,
-         buyer.full_name  AS buyer_name,
-         seller.full_name AS seller_name,
-         l.user_edited_title AS listing_title
-       FROM transactions t
-       JOIN users buyer  ON buyer.id  = t.buyer_id
-       JOIN users seller ON seller.id = t.seller_id
-       JOIN listings l   ON l.id      = t.listing_id
-       WHERE t.dispute_status = 'open'
-       ORDER BY t.created_at DESC LIMIT 50`,
-    );
+router.get('/disputes', can('disputes:read'), async (req: AdminRequest, res: Response, next: NextFunction) => {
+  try {
+    const { status, assigned_to, kind, overdue } = z.object({
+      status: z.enum(['open', 'opened', 'under_review', 'resolved']).optional(),
+      assigned_to: z.union([z.enum(['me', 'unassigned']), z.string().uuid()]).optional(),
+      kind: z.enum(['escrow', 'claim']).optional(),
+      overdue: z.enum(['true', 'false']).optional(),
+    }).parse(req.query);
+
+    const disputes = await listDisputeQueue({
+      status,
+      assignedTo: assigned_to === 'me' ? req.adminId : assigned_to,
+      kind,
+      overdue: overdue === 'true',
+    });
     res.json({ disputes });
   } catch (err) { next(err); }
 });
 
+// ─── GET /api/v1/admin/disputes/:id ───────────────────────────────────────────
+// The case, its transaction, evidence, thread and internal notes
+
+router.get('/disputes/:id', can('disputes:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(await getDisputeCase(req.params.id));
+  } catch (err) { next(err); }
+});
+
+// ─── PATCH /api/v1/admin/disputes/:id/assign ──────────────────────────────────
+// To the caller unless admin_id names someone else; puts the case under review
+
+router.patch('/disputes/:id/assign', can('disputes:manage'), async (req: AdminRequest, res: Response, next: NextFunction) => {
+  try {
+    const { admin_id } = z.object({ admin_id: z.string().uuid().optional() }).parse(req.body ?? {});
+    const { dispute, transaction } = await assignDispute(req.params.id, req.adminId!, admin_id ?? req.adminId!);
+    res.json({ dispute, transaction });
+  } catch (err) { next(err); }
+});
+
+// ─── POST /api/v1/admin/disputes/:id/notes ────────────────────────────────────
+// Internal; the parties never see these
+
+router.post('/disputes/:id/notes', can('disputes:manage'), async (req: AdminRequest, res: Response, next: NextFunction) => {
+  try {
+    const { body } = z.object({ body: z.string().trim().min(1).max(2000) }).parse(req.body);
+    res.status(201).json({ note: await addDisputeNote(req.params.id, req.adminId!, body) });
+  } catch (err) { next(err); }
+});
+
+// ─── POST /api/v1/admin/disputes/:id/messages ─────────────────────────────────
+// To the thread both parties see
+
+router.post('/disputes/:id/messages', can('disputes:manage'), async (req: AdminRequest, res: Response, next: NextFunction) => {
+  try {
+    const { body } = z.object({ body: z.string().trim().min(1).max(2000) }).parse(req.body);
+    res.status(201).json({ message: await postAdminDisputeMessage(req.params.id, req.adminId!, body) });
+  } catch (err) { next(err); }
+});
+
+// ─── PATCH /api/v1/admin/disputes/:id/resolve ─────────────────────────────────
+// Moves the money, notifies both parties and penalises the losing party
+
+router.patch('/disputes/:id/resolve', can('disputes:resolve'), async (req: AdminRequest, res: Response, next: NextFunction) => {
+  try {
+    const { resolution, refund_amount, notes } = z.object({
+      resolution: z.enum(['resolved_buyer', 'resolved_seller', 'resolved_partial']),
+      refund_amount: z.number().positive().optional(),
+      notes: z.string().trim().min(3).max(1000),
+    }).parse(req.body);
+
+    const { dispute, transaction } = await resolveDispute(req.params.id, req.adminId!, {
+      resolution, refundAmount: refund_amount, notes,
+    });
+    res.json({ dispute, transaction });
+  } catch (err) { next(err); }
+});
+
+// ─── GET /api/v1/admin/promo-codes ────────────────────────────────────────────
+
+router.get('/promo-codes', can('promos:manage'), async (_req, res: Response, next: NextFunction) => {
+  try {
+    const codes = await query('SELECT * FROM promo_codes ORDER BY created_at DESC LIMIT 100');
+    res.json({ codes });
+  } catch (err) { next(err); }
+});
+
+// ─── POST /api/v1/admin/promo-codes ───────────────────────────────────────────
+// The platform absorbs the discount, so creating one is a finance decision
+
+router.post('/promo-codes', can('promos:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const body = z.object({
+      code: z.string().min(3).max(20).toUpperCase(),
+      discount_type: z.enum(['percent', 'fixed']),
+      discount_value: z.number().positive(),
+      max_uses: z.number().int().positive().default(100),
+      min_order_amount: z.number().min(0).default(0),
+      expires_at: z.string().datetime().optional(),
+    }).parse(req.body);
+
+    const promo = await queryOne<{ id: string; code: string }>(
+      `INSERT INTO promo_codes (code, discount_type, discount_value, max_uses, min_order_amount, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING id, code`,
+      [body.code, body.discount_type, body.discount_value, body.max_uses, body.min_order_amount, body.expires_at ?? null],
+    );
+    res.status(201).json({ promo });
+  } catch (err) { next(err); }
+});
+
+// ─── GET /api/v1/admin/ledger/reconciliation ─────────────────────────────────
+// Drift between cached users.wallet_balance and the journal
+
+router.get('/ledger/reconciliation', can('ledger:read'), async (_req, res: Response, next: NextFunction) => {
+  try {
+    const report = await reconcileLedger();
+    res.json({ ...report, ok: report.wallet_drift.length === 0 && report.credit_drift.length === 0 && report.unbalanced_entries.length === 0 });
+  } catch (err) { next(err); }
+});
+
+// ─── GET /api/v1/admin/withdrawals ────────────────────────────────────────────
+
+router.get('/withdrawals', can('withdrawals:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { status = 'pending', method } = z.object({
+      status: z.enum(['pending', 'approved', 'processing', 'completed', 'rejected', 'failed']).optional(),
+      method: z.enum(['bank_transfer', 'vodafone_cash', 'instapay', 'fawry']).optional(),
+    }).parse(req.query);
+    const withdrawals = await query(
+      `SELECT w.*, u.full_name, u.phone, u.wallet_balance
+       FROM withdrawal_requests w
+       JOIN users u ON u.id = w.user_id
+       WHERE w.status = $1 AND ($2::text IS NULL OR w.method = $2)
+       ORDER BY w.created_at ASC LIMIT 200`,
+      [status, method ?? null],
+    );
+    res.json({ withdrawals });
+  } catch (err) { next(err); }
+});
+
+// ─── PATCH /api/v1/admin/withdrawals/:id/approve ─────────────────────────────
+
+router.patch('/withdrawals/:id/approve', can('withdrawals:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { notes } = z.object({ notes: z.string().max(500).optional() }).parse(req.body ?? {});
+    const withdrawal = await approveWithdrawal(req.params.id, notes);
+    res.json({ withdrawal });
+  } catch (err) { next(err); }
+});
+
+// ─── PATCH /api/v1/admin/withdrawals/:id/reject ──────────────────────────────
+// Funds go back to the user's wallet
+
+router.patch('/withdrawals/:id/reject', can('withdrawals:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { reason } = z.object({ reason: z.string().min(3).max(500) }).parse(req.body);
+    const withdrawal = await rejectWithdrawal(req.params.id, reason);
+    res.json({ withdrawal });
+  } catch (err) { next(err); }
+});
+
+// ─── GET /api/v1/admin/payout-batches ─────────────────────────────────────────
+
+router.get('/payout-batches', can('payouts:read'), async (_req, res: Response, next: NextFunction) => {
+  try {
+    const batches = await query('SELECT * FROM payout_batches ORDER BY created_at DESC LIMIT 50');
+    res.json({ batches });
+  } catch (err) { next(err); }
+});
+
+// ─── POST /api/v1/admin/payout-batches ────────────────────────────────────────
+// Batches every approved withdrawal for one payout method
+
+router.post('/payout-batches', can('payouts:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { method } = z.object({
+      method: z.enum(['bank_transfer', 'vodafone_cash', 'instapay', 'fawry']),
+    }).parse(req.body);
+    const { batch, items } = await createPayoutBatch(method);
+    res.status(201).json({ batch, withdrawals: items, csv_url: `/api/v1/admin/payout-batches/${batch.id}/csv` });
+  } catch (err) { next(err); }
+});
+
+// ─── GET /api/v1/admin/payout-batches/:id/csv ─────────────────────────────────
+
+router.get('/payout-batches/:id/csv', can('payouts:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { filename, csv } = await getPayoutBatchCsv(req.params.id);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(csv);
+  } catch (err) { next(err); }
+});
+
+// ─── POST /api/v1/admin/payout-batches/:id/paid ───────────────────────────────
+// Provider reference per paid withdrawal; failed payouts are refunded to the wallet
+
+router.post('/payout-batches/:id/paid', can('payouts:manage'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { results } = z.object({
+      results: z.array(z.object({
+        withdrawal_id: z.string().uuid(),
+        provider_reference: z.string().min(1).max(100).optional(),
+        failure_reason: z.string().min(3).max(500).optional(),
+      })).min(1),
+    }).parse(req.body);
+    const result = await markPayoutBatchPaid(req.params.id, results);
+    res.json(result);
+  } catch (err) { next(err); }
+});
+
+// ─── GET /api/v1/admin/admins ─────────────────────────────────────────────────
+
+router.get('/admins', can('admins:manage'), async (_req, res: Response, next: NextFunction) => {
+  try {
+    res.json({ admins: await listAdmins() });
+  } catch (err) { next(err); }
+});
+
+// ─── PUT /api/v1/admin/admins/:id/role ────────────────────────────────────────
+// Grant or change a role; null revokes admin access
+
+router.put('/admins/:id/role', can('admins:manage'), async (req: AdminRequest, res: Response, next: NextFunction) => {
+  try {
+    const { role } = z.object({ role: z.enum(ADMIN_ROLES).nullable() }).parse(req.body);
+    res.json({ user: await setAdminRole(req.adminId!, req.params.id, role) });
+  } catch (err) { next(err); }
+});
+
+// ─── GET /api/v1/admin/audit-log ──────────────────────────────────────────────
+// Newest first; page back with ?before=<created_at of the last entry>
+
+router.get('/audit-log', can('audit:read'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { admin_id, action, target_id, from, to, before, limit } = z.object({
+      admin_id: z.string().uuid().optional(),
+      action: z.string().max(100).optional(),
+      target_id: z.string().max(100).optional(),
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+      before: z.coerce.date().optional(),
+      limit: z.coerce.number().int().min(1).max(200).optional(),
+    }).parse(req.query);
+    const entries = await queryAuditLog({ adminId: admin_id, action, targetId: target_id, from, to, before, limit });
+    res.json({ entries });
+  } catch (err) { next(err); }
+});
+
 export default router;
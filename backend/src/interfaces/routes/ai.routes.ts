@@ -3,6 +3,7 @@ import { AuthRequest, requireAuth } from '../middleware/auth.middleware';
 import { AppError } from '../../application/auth.service';
 import { query, queryOne } from '../../infrastructure/database/pool';
 import { logger } from '../../infrastructure/logging/logger';
+import { config } from '../../config';
 import { z } from 'zod';
 
 // Maps GPT-4o category slug → DB category name_en
@@ -212,7 +213,7 @@ Key platform facts:
 - Wallet: sellers accumulate earnings, withdraw via bank/Vodafone Cash/InstaPay/Fawry (min 100 EGP)
 - Listing boost: Basic 15 EGP/1 day, Standard 49 EGP/7 days, Premium 149 EGP/30 days
 - Referral program: share code → friend joins → both get 50 EGP credits; friend's first transaction → extra 100 EGP
-- Disputes: buyers can open a dispute within 3 days of confirming receipt with photo evidence
+- Disputes: either party can open a dispute with photo evidence while the payment is in escrow; after the seller is paid, buyers have ${config.disputes.claimWindowDays} days to claim an item wasn't as described
 - Safety: meet in public, verify item before paying, use escrow never bank transfer outside app
 
 Answer in the same language the user writes in (Arabic or English). Be concise, friendly, and accurate.`;
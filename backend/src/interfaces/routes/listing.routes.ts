@@ -5,11 +5,24 @@ import { AuthRequest, requireAuth, optionalAuth } from '../middleware/auth.middl
 import { AppError } from '../../application/auth.service';
 import { moderateListing } from '../../infrastructure/moderation/automod.service';
 import { logger } from '../../infrastructure/logging/logger';
+import { BOOST_TIERS, purchaseBoost } from '../../application/boost.service';
+import { initiateBoostPayment } from '../../application/payment.service';
+import { assertCanCreateListing } from '../../application/subscription.service';
+import { buyNow } from '../../application/purchase.service';
+import { getOfferRules, setOfferRules } from '../../application/offer.service';
+import { notifyItemBought, notifyOfferRejected } from '../../infrastructure/notifications/push';
+import { config } from '../../config';
 
 const router = Router();
 
 // ─── Validation ──────────────────────────────────────────
 
+/** Hours each negotiation round stays open on this listing; null = platform default */
+const offerWindowSchema = z.number().int()
+  .min(config.offers.minWindowHours)
+  .max(config.offers.maxWindowHours)
+  .nullable();
+
 const createListingSchema = z.object({
   user_edited_title: z.string().min(3).max(200),
   user_edited_description: z.string().min(0).max(5000).default(''),
@@ -32,6 +45,8 @@ const createListingSchema = z.object({
   ai_suggested_price: z.number().optional(),
   ai_confidence_score: z.number().min(0).max(1).optional(),
   is_ai_generated: z.boolean().optional(),
+  instant_buy_enabled: z.boolean().default(true),
+  offer_window_hours: offerWindowSchema.optional(),
 });
 
 const nearbyQuerySchema = z.object({
@@ -118,6 +133,7 @@ function getPriceRange(price: number): string {
 router.post('/', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const data = createListingSchema.parse(req.body);
+    await assertCanCreateListing(req.userId!);
 
     const fraudRisk = await computeFraudRisk(req.userId!, data.final_price, data.category_id ?? null);
 
@@ -127,11 +143,12 @@ router.post('/', requireAuth, async (req: AuthRequest, res: Response, next: Next
         original_price, category_id, condition, location, primary_image_url,
         additional_images, verification_images, ai_generated_title,
         ai_generated_description, ai_suggested_price, ai_confidence_score,
-        is_ai_generated, moderation_status, fraud_risk_score
+        is_ai_generated, moderation_status, fraud_risk_score, instant_buy_enabled,
+        offer_window_hours
       ) VALUES (
         $1, $2, $3, $4, $5, $6, $7,
         ST_SetSRID(ST_MakePoint($8, $9), 4326)::geography,
-        $10, $11, $12, $13, $14, $15, $16, $17, $18, $19
+        $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21
       ) RETURNING *`,
       [
         req.userId,
@@ -152,6 +169,8 @@ router.post('/', requireAuth, async (req: AuthRequest, res: Response, next: Next
         data.is_ai_generated ?? false,
         fraudRisk >= 0.7 ? 'flagged' : 'approved',
         fraudRisk,
+        data.instant_buy_enabled,
+        data.offer_window_hours ?? null,
       ]
     );
 
@@ -371,7 +390,8 @@ router.get('/:id', optionalAuth, async (req: AuthRequest, res: Response, next: N
         u.trust_score AS seller_trust_score,
         u.total_reviews AS seller_total_reviews,
         u.is_id_verified AS seller_id_verified,
-        u.is_phone_verified AS seller_phone_verified
+        u.is_phone_verified AS seller_phone_verified,
+        u.is_verified_store AS seller_verified_store
       FROM listings l
       JOIN users u ON u.id = l.seller_id
       WHERE l.id = $1`,
@@ -379,6 +399,8 @@ router.get('/:id', optionalAuth, async (req: AuthRequest, res: Response, next: N
     ) as any;
 
     if (!listing) throw new AppError('Listing not found.', 404);
+    // Off sale while the seller is banned
+    if (listing.status === 'hidden' && listing.seller_id !== req.userId) throw new AppError('Listing not found.', 404);
 
     query('UPDATE listings SET view_count = view_count + 1 WHERE id = $1', [req.params.id]);
 
@@ -393,6 +415,7 @@ router.get('/:id', optionalAuth, async (req: AuthRequest, res: Response, next: N
           total_reviews: listing.seller_total_reviews,
           is_id_verified: listing.seller_id_verified,
           is_phone_verified: listing.seller_phone_verified,
+          is_verified_store: listing.seller_verified_store,
         },
       },
     });
@@ -482,7 +505,12 @@ router.patch('/:id', requireAuth, async (req: AuthRequest, res: Response, next:
     if (!existing) throw new AppError('Listing not found.', 404);
     if (existing.seller_id !== req.userId) throw new AppError('Not authorized.', 403);
 
-    const allowed = ['user_edited_title', 'user_edited_description', 'final_price', 'condition', 'status'];
+    if (req.body.offer_window_hours !== undefined) offerWindowSchema.parse(req.body.offer_window_hours);
+
+    const allowed = [
+      'user_edited_title', 'user_edited_description', 'final_price', 'condition', 'status',
+      'instant_buy_enabled', 'offer_window_hours',
+    ];
     const fields: string[] = [];
     const values: any[] = [];
     let idx = 1;
@@ -509,6 +537,39 @@ router.patch('/:id', requireAuth, async (req: AuthRequest, res: Response, next:
   }
 });
 
+// GET /api/v1/listings/:id/offer-rules  — seller's auto-response rules (owner only)
+router.get('/:id/offer-rules', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const existing = await queryOne<{ seller_id: string }>('SELECT seller_id FROM listings WHERE id = $1', [req.params.id]);
+    if (!existing) throw new AppError('Listing not found.', 404);
+    if (existing.seller_id !== req.userId) throw new AppError('Not authorized.', 403);
+
+    res.json({ rules: await getOfferRules({ query, queryOne }, req.params.id) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// PUT /api/v1/listings/:id/offer-rules  — all thresholds null clears the rules
+router.put('/:id/offer-rules', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const price = z.number().positive().nullable().default(null);
+    const rules = z.object({
+      auto_accept_at: price,
+      auto_decline_below: price,
+      auto_counter_at: price,
+    }).parse(req.body);
+
+    const existing = await queryOne<{ seller_id: string }>('SELECT seller_id FROM listings WHERE id = $1', [req.params.id]);
+    if (!existing) throw new AppError('Listing not found.', 404);
+    if (existing.seller_id !== req.userId) throw new AppError('Not authorized.', 403);
+
+    res.json({ rules: await setOfferRules(req.params.id, rules) });
+  } catch (err) {
+    next(err);
+  }
+});
+
 // DELETE /api/v1/listings/:id
 router.delete('/:id', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -543,38 +604,51 @@ router.get('/user/:userId', optionalAuth, async (req: AuthRequest, res: Response
   }
 });
 
-// ─── POST /listings/:id/boost ─────────────────────────────
-// Boost a listing to the top for a given duration (mock payment for now)
+// POST /api/v1/listings/:id/buy
+// Buy Now: an accepted transaction at the listing price, ready for payment.
+router.post('/:id/buy', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { transaction, listing, rejectedOffers } = await buyNow(req.params.id, req.userId!);
+
+    const buyer = await queryOne<{ full_name: string | null }>('SELECT full_name FROM users WHERE id = $1', [req.userId]);
+    notifyItemBought(listing.seller_id, buyer?.full_name ?? 'A buyer', listing.user_edited_title, transaction.id).catch((err) => logger.warn({ sellerId: listing.seller_id, err }, '[NOTIFY] Failed to send item-bought notification'));
+    for (const offer of rejectedOffers.filter((o) => o.buyer_id !== req.userId)) {
+      notifyOfferRejected(offer.buyer_id, listing.user_edited_title).catch((err) => logger.warn({ buyerId: offer.buyer_id, err }, '[NOTIFY] Failed to send offer-rejected notification'));
+    }
+
+    res.status(201).json({ message: 'Item reserved — complete payment to finish your purchase.', transaction });
+  } catch (err) {
+    next(err);
+  }
+});
 
-const BOOST_TIERS: Record<string, { days: number; price: number; label: string }> = {
-  basic:    { days: 1,  price: 15,  label: '1 day' },
-  standard: { days: 7,  price: 49,  label: '7 days' },
-  premium:  { days: 30, price: 149, label: '30 days' },
-};
+// ─── POST /listings/:id/boost ─────────────────────────────
+// Boost a listing to the top for a given duration. Wallet, credit and Premium
+// free-boost payments feature the listing immediately; card payments once
+// Paymob confirms.
 
 router.post('/:id/boost', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { id } = req.params;
-    const { tier } = z.object({ tier: z.enum(['basic', 'standard', 'premium']) }).parse(req.body);
-
-    const listing = await queryOne<any>('SELECT seller_id, user_edited_title FROM listings WHERE id = $1', [id]);
-    if (!listing) { res.status(404).json({ error: 'Listing not found.' }); return; }
-    if (listing.seller_id !== req.userId) { res.status(403).json({ error: 'Forbidden.' }); return; }
+    const { tier, payment_method } = z.object({
+      tier: z.enum(['basic', 'standard', 'premium']),
+      payment_method: z.enum(['wallet', 'credits', 'paymob', 'subscription']),
+    }).parse(req.body);
 
+    const purchase = await purchaseBoost(req.userId!, req.params.id, tier, payment_method);
     const t = BOOST_TIERS[tier];
-    const boostedUntil = new Date(Date.now() + t.days * 86400000);
 
-    await query(
-      `UPDATE listings SET is_featured = TRUE, featured_until = $1, boost_tier = $2, updated_at = NOW()
-       WHERE id = $3`,
-      [boostedUntil.toISOString(), tier, id],
-    );
+    if (purchase.status === 'pending') {
+      const payment = await initiateBoostPayment(req.userId!, purchase);
+      res.status(202).json({ purchase, payment, tier, price_egp: t.price });
+      return;
+    }
 
     res.json({
       message: `Listing boosted for ${t.label}.`,
-      boosted_until: boostedUntil.toISOString(),
+      purchase,
+      boosted_until: purchase.featured_until,
       tier,
-      price_egp: t.price,
+      price_egp: Number(purchase.price),
     });
   } catch (err) {
     next(err);
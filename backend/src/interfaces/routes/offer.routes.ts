@@ -3,17 +3,37 @@ import { z } from 'zod';
 import { query, queryOne, withTransaction } from '../../infrastructure/database/pool';
 import { AuthRequest, requireAuth } from '../middleware/auth.middleware';
 import { AppError } from '../../application/auth.service';
-import { notifyNewOffer, notifyOfferAccepted, notifyOfferRejected, notifyOfferCountered } from '../../infrastructure/notifications/push';
+import {
+  notifyNewOffer, notifyOfferAccepted, notifyOfferRejected, notifyOfferCountered, notifyBuyerCountered,
+  notifyOfferAutoResponse, notifySellerAutoAccepted,
+} from '../../infrastructure/notifications/push';
 import { logger } from '../../infrastructure/logging/logger';
+import { emitChatMessage } from '../../infrastructure/socket/socket.service';
+import {
+  acceptOffer, applyOfferRules, counterOffer, getNegotiation, lockListingForSale, openFirstRound, postOfferChatMessage,
+  rejectOffer, withdrawOffer,
+} from '../../application/offer.service';
+import { acceptSwapOffer, assertExchangeListing } from '../../application/swap.service';
 
 const router = Router();
 
+/** Tells buyers whose offers lost out to an accepted deal. */
+function notifyCompetingBuyers(rejected: { buyer_id: string }[], listingTitle: string) {
+  for (const { buyer_id } of rejected) {
+    notifyOfferRejected(buyer_id, listingTitle).catch((err) => logger.warn({ buyerId: buyer_id, err }, '[NOTIFY] Failed to send offer-rejected notification'));
+  }
+}
+
 const createOfferSchema = z.object({
   listing_id: z.string().uuid(),
-  offered_price: z.number().positive(),
+  offered_price: z.number().positive().optional(),
   message: z.string().max(500).optional(),
   is_exchange_proposal: z.boolean().optional(),
   exchange_listing_id: z.string().uuid().optional(),
+  /** Swaps only: cash added by the buyer (> 0) or asked from the seller (< 0) */
+  cash_topup: z.number().default(0),
+}).refine((d) => (d.is_exchange_proposal ? !!d.exchange_listing_id : d.offered_price !== undefined), {
+  message: 'Swap offers need exchange_listing_id; other offers need offered_price',
 });
 
 // POST /api/v1/offers
@@ -21,44 +41,77 @@ router.post('/', requireAuth, async (req: AuthRequest, res: Response, next: Next
   try {
     const data = createOfferSchema.parse(req.body);
 
-    // Verify listing exists and is active
-    const listing = await queryOne<any>(
-      `SELECT id, seller_id, status FROM listings WHERE id = $1`,
-      [data.listing_id]
-    );
-    if (!listing) throw new AppError('Listing not found.', 404);
-    if (listing.status !== 'active') throw new AppError('Listing is no longer active.', 400);
-    if (listing.seller_id === req.userId) throw new AppError('Cannot make an offer on your own listing.', 400);
-
-    // Check for existing pending offer from this buyer
-    const existing = await queryOne<any>(
-      `SELECT id FROM offers WHERE listing_id = $1 AND buyer_id = $2 AND status = 'pending'`,
-      [data.listing_id, req.userId]
-    );
-    if (existing) throw new AppError('You already have a pending offer on this listing.', 409);
+    // Listing first, as acceptOffer does, so the checks below hold until the offer is in
+    const { listing, offer, offeredPrice, auto } = await withTransaction(async (client) => {
+      const listing = await lockListingForSale<{ id: string; seller_id: string; user_edited_title: string }>(
+        client, data.listing_id, 'id, seller_id, status, user_edited_title',
+      );
+      if (listing.seller_id === req.userId) throw new AppError('Cannot make an offer on your own listing.', 400);
 
-    const rows = await query(
-      `INSERT INTO offers (listing_id, buyer_id, offered_price, message, is_exchange_proposal, exchange_listing_id)
-       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
-      [
-        data.listing_id,
-        req.userId,
-        data.offered_price,
-        data.message ?? null,
-        data.is_exchange_proposal ?? false,
-        data.exchange_listing_id ?? null,
-      ]
-    );
+      // Check for an offer from this buyer that is still being negotiated
+      const existing = await client.queryOne(
+        `SELECT id FROM offers WHERE listing_id = $1 AND buyer_id = $2 AND status IN ('pending','countered')`,
+        [data.listing_id, req.userId]
+      );
+      if (existing) throw new AppError('You already have a pending offer on this listing.', 409);
+
+      // A swap is valued at the offered listing's price plus the top-up
+      let offeredPrice = data.offered_price ?? 0;
+      if (data.is_exchange_proposal) {
+        const exchange = await assertExchangeListing(client, req.userId!, data.listing_id, data.exchange_listing_id!);
+        offeredPrice = Math.max(Number(exchange.final_price) + data.cash_topup, 0);
+      }
+
+      const offer = await client.queryOne(
+        `INSERT INTO offers (listing_id, buyer_id, offered_price, message, is_exchange_proposal, exchange_listing_id, cash_topup)
+         VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+        [
+          data.listing_id,
+          req.userId,
+          offeredPrice,
+          data.message ?? null,
+          data.is_exchange_proposal ?? false,
+          data.is_exchange_proposal ? data.exchange_listing_id : null,
+          data.is_exchange_proposal ? data.cash_topup : 0,
+        ]
+      );
+      await openFirstRound(client, offer);
 
-    // Increment offer count on listing
-    await query('UPDATE listings SET offer_count = offer_count + 1 WHERE id = $1', [data.listing_id]);
+      // The seller's auto-response rules may answer the offer straight away
+      const auto = await applyOfferRules(client, offer, listing.seller_id);
+      return { listing, offer, offeredPrice, auto };
+    });
 
-    // Notify seller
     const buyer = await queryOne<any>(`SELECT full_name FROM users WHERE id = $1`, [req.userId]);
-    const listingRow = await queryOne<any>(`SELECT user_edited_title FROM listings WHERE id = $1`, [data.listing_id]);
-    notifyNewOffer(listing.seller_id, buyer?.full_name ?? 'Someone', listingRow?.user_edited_title ?? '', data.listing_id, (rows[0] as any).id).catch((err) => logger.warn({ sellerId: listing.seller_id, err }, '[NOTIFY] Failed to send new-offer notification'));
-
-    res.status(201).json({ offer: rows[0] });
+    const title = listing.user_edited_title ?? '';
+    if (auto) {
+      const ids = { listingId: data.listing_id, offerId: offer.id, transactionId: auto.action === 'accepted' ? auto.transaction.id : undefined };
+      const counterPrice = auto.action === 'countered' ? Number(auto.round.price) : undefined;
+      notifyOfferAutoResponse(req.userId!, auto.action, title, ids, counterPrice).catch((err) => logger.warn({ buyerId: req.userId, err }, '[NOTIFY] Failed to send auto-response notification'));
+    }
+    if (auto?.action === 'accepted') {
+      notifySellerAutoAccepted(listing.seller_id, buyer?.full_name ?? 'A buyer', title, offeredPrice, auto.transaction.id).catch((err) => logger.warn({ sellerId: listing.seller_id, err }, '[NOTIFY] Failed to send auto-accepted notification'));
+      notifyCompetingBuyers(auto.rejectedOffers, title);
+    } else if (auto?.action !== 'declined') {
+      notifyNewOffer(listing.seller_id, buyer?.full_name ?? 'Someone', title, data.listing_id, offer.id).catch((err) => logger.warn({ sellerId: listing.seller_id, err }, '[NOTIFY] Failed to send new-offer notification'));
+    }
+    if (auto?.action === 'countered') {
+      try {
+        const { chatId, message: chatMessage } = await postOfferChatMessage(
+          { query, queryOne }, auto.offer, listing.seller_id, Number(auto.round.price),
+          `Seller automatically countered with ${Number(auto.round.price).toLocaleString()} EGP`,
+        );
+        emitChatMessage(chatId, chatMessage);
+      } catch (err) {
+        logger.warn({ offerId: offer.id, err }, '[OFFER] Failed to post automatic counter to chat');
+      }
+    }
+
+    res.status(201).json({
+      offer: auto?.offer ?? offer,
+      auto_response: auto?.action ?? null,
+      ...(auto?.action === 'accepted' ? { transaction: auto.transaction } : {}),
+    });
   } catch (err) {
     next(err);
   }
@@ -76,9 +129,13 @@ router.get('/listing/:listingId', requireAuth, async (req: AuthRequest, res: Res
         u.full_name AS buyer_name,
         u.avatar_url AS buyer_avatar,
         u.trust_score AS buyer_trust_score,
-        u.is_id_verified AS buyer_verified
+        u.is_id_verified AS buyer_verified,
+        x.user_edited_title AS exchange_listing_title,
+        x.primary_image_url AS exchange_listing_image,
+        x.final_price AS exchange_listing_price
       FROM offers o
       JOIN users u ON u.id = o.buyer_id
+      LEFT JOIN listings x ON x.id = o.exchange_listing_id
       WHERE o.listing_id = $1
       ORDER BY o.created_at DESC`,
       [req.params.listingId]
@@ -112,41 +169,27 @@ router.get('/my', requireAuth, async (req: AuthRequest, res: Response, next: Nex
   }
 });
 
-// PATCH /api/v1/offers/:id/accept
+// PATCH /api/v1/offers/:id/accept  — seller accepts the buyer's price
 router.patch('/:id/accept', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const offer = await queryOne<any>(
-      `SELECT o.*, l.seller_id FROM offers o JOIN listings l ON l.id = o.listing_id WHERE o.id = $1`,
-      [req.params.id]
-    );
-    if (!offer) throw new AppError('Offer not found.', 404);
-    if (offer.seller_id !== req.userId) throw new AppError('Not authorized.', 403);
-    if (offer.status !== 'pending') throw new AppError('Offer is no longer pending.', 400);
-
-    // Accept offer — wrapped in DB transaction to prevent partial state on failure
-    const fee = offer.offered_price * 0.04;
-    const sellerReceives = offer.offered_price - (offer.offered_price * 0.02);
-
-    await withTransaction(async ({ query: txq }) => {
-      await txq(`UPDATE offers SET status = 'accepted' WHERE id = $1`, [req.params.id]);
-      await txq(
-        `UPDATE offers SET status = 'rejected' WHERE listing_id = $1 AND id != $2 AND status = 'pending'`,
-        [offer.listing_id, req.params.id]
-      );
-      await txq(`UPDATE listings SET status = 'reserved' WHERE id = $1`, [offer.listing_id]);
-      await txq(
-        `INSERT INTO transactions (offer_id, listing_id, buyer_id, seller_id, agreed_price, platform_fee, seller_receives)
-         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-        [req.params.id, offer.listing_id, offer.buyer_id, req.userId, offer.offered_price, fee, sellerReceives]
-      );
-    });
+    const target = await queryOne<{ is_exchange_proposal: boolean }>('SELECT is_exchange_proposal FROM offers WHERE id = $1', [req.params.id]);
+    if (!target) throw new AppError('Offer not found.', 404);
+
+    if (target.is_exchange_proposal) {
+      const { swap, transactions } = await acceptSwapOffer(req.params.id, req.userId!);
+      const buyerTxn = transactions[0];
+      const listingS = await queryOne<{ user_edited_title: string }>(`SELECT user_edited_title FROM listings WHERE id = $1`, [buyerTxn.listing_id]);
+      notifyOfferAccepted(buyerTxn.buyer_id, listingS?.user_edited_title ?? '', buyerTxn.listing_id, buyerTxn.id).catch((err) => logger.warn({ buyerId: buyerTxn.buyer_id, err }, '[NOTIFY] Failed to send offer-accepted notification'));
+      res.json({ message: 'Swap accepted.', offer: { id: req.params.id, status: 'accepted' }, swap, transactions });
+      return;
+    }
 
-    // Notify buyer
-    const listing2 = await queryOne<any>(`SELECT user_edited_title FROM listings WHERE id = $1`, [offer.listing_id]);
-    const tx2 = await queryOne<any>(`SELECT id FROM transactions WHERE offer_id = $1`, [req.params.id]);
-    notifyOfferAccepted(offer.buyer_id, listing2?.user_edited_title ?? '', offer.listing_id, tx2?.id ?? '').catch((err) => logger.warn({ buyerId: offer.buyer_id, err }, '[NOTIFY] Failed to send offer-accepted notification'));
+    const { offer, transaction, rejectedOffers } = await acceptOffer(req.params.id, req.userId!, 'seller');
 
-    res.json({ message: 'Offer accepted.', offer: { ...offer, status: 'accepted' } });
+    notifyOfferAccepted(offer.buyer_id, offer.user_edited_title ?? '', offer.listing_id, transaction.id).catch((err) => logger.warn({ buyerId: offer.buyer_id, err }, '[NOTIFY] Failed to send offer-accepted notification'));
+    notifyCompetingBuyers(rejectedOffers, offer.user_edited_title ?? '');
+
+    res.json({ message: 'Offer accepted.', offer, transaction });
   } catch (err) {
     next(err);
   }
@@ -155,45 +198,53 @@ router.patch('/:id/accept', requireAuth, async (req: AuthRequest, res: Response,
 // PATCH /api/v1/offers/:id/reject
 router.patch('/:id/reject', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const offer = await queryOne<any>(
-      `SELECT o.*, l.seller_id FROM offers o JOIN listings l ON l.id = o.listing_id WHERE o.id = $1`,
-      [req.params.id]
-    );
-    if (!offer) throw new AppError('Offer not found.', 404);
-    if (offer.seller_id !== req.userId) throw new AppError('Not authorized.', 403);
-    if (offer.status !== 'pending') throw new AppError('Offer is no longer pending.', 400);
-
-    await query(`UPDATE offers SET status = 'rejected' WHERE id = $1`, [req.params.id]);
-    const listingR = await queryOne<any>(`SELECT user_edited_title FROM listings WHERE id = $1`, [offer.listing_id]);
-    notifyOfferRejected(offer.buyer_id, listingR?.user_edited_title ?? '').catch((err) => logger.warn({ buyerId: offer.buyer_id, err }, '[NOTIFY] Failed to send offer-rejected notification'));
+    const offer = await rejectOffer(req.params.id, req.userId!);
+    notifyOfferRejected(offer.buyer_id, offer.user_edited_title ?? '').catch((err) => logger.warn({ buyerId: offer.buyer_id, err }, '[NOTIFY] Failed to send offer-rejected notification'));
     res.json({ message: 'Offer rejected.' });
   } catch (err) {
     next(err);
   }
 });
 
-// PATCH /api/v1/offers/:id/counter  — seller counters with a different price
+// PATCH /api/v1/offers/:id/counter  — either side proposes a new price on their turn
 router.patch('/:id/counter', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { counter_price } = z.object({ counter_price: z.number().positive() }).parse(req.body);
-
-    const offer = await queryOne<any>(
-      `SELECT o.*, l.seller_id FROM offers o JOIN listings l ON l.id = o.listing_id WHERE o.id = $1`,
-      [req.params.id]
-    );
-    if (!offer) throw new AppError('Offer not found.', 404);
-    if (offer.seller_id !== req.userId) throw new AppError('Not authorized.', 403);
-    if (offer.status !== 'pending') throw new AppError('Offer is no longer pending.', 400);
-
-    await query(
-      `UPDATE offers SET status = 'countered', counter_price = $1 WHERE id = $2`,
-      [counter_price, req.params.id]
-    );
-
-    const listingC = await queryOne<any>(`SELECT user_edited_title FROM listings WHERE id = $1`, [offer.listing_id]);
-    notifyOfferCountered(offer.buyer_id, listingC?.user_edited_title ?? '', counter_price, offer.listing_id, req.params.id).catch((err) => logger.warn({ buyerId: offer.buyer_id, err }, '[NOTIFY] Failed to send counter-offer notification'));
+    const { counter_price, message } = z.object({
+      counter_price: z.number().positive(),
+      message: z.string().max(500).optional(),
+    }).parse(req.body);
+
+    const { offer, round, role } = await counterOffer(req.userId!, req.params.id, counter_price, message);
+
+    // Mirror the counter into the buyer/seller chat so both see it in the conversation
+    try {
+      const content = `${role === 'seller' ? 'Seller' : 'Buyer'} countered with ${counter_price.toLocaleString()} EGP`
+        + (message ? ` — "${message}"` : '');
+      const { chatId, message: chatMessage } = await postOfferChatMessage(
+        { query, queryOne }, offer, req.userId!, counter_price, content,
+      );
+      emitChatMessage(chatId, chatMessage);
+    } catch (err) {
+      logger.warn({ offerId: offer.id, err }, '[OFFER] Failed to post counter to chat');
+    }
+
+    if (role === 'seller') {
+      notifyOfferCountered(offer.buyer_id, offer.user_edited_title ?? '', counter_price, offer.listing_id, offer.id).catch((err) => logger.warn({ buyerId: offer.buyer_id, err }, '[NOTIFY] Failed to send counter-offer notification'));
+    } else {
+      const buyer = await queryOne<{ full_name: string | null }>(`SELECT full_name FROM users WHERE id = $1`, [req.userId]);
+      notifyBuyerCountered(offer.seller_id, buyer?.full_name ?? 'The buyer', offer.user_edited_title ?? '', counter_price, offer.listing_id, offer.id).catch((err) => logger.warn({ sellerId: offer.seller_id, err }, '[NOTIFY] Failed to send counter-offer notification'));
+    }
+
+    res.json({ message: 'Counter offer sent.', counter_price, round });
+  } catch (err) {
+    next(err);
+  }
+});
 
-    res.json({ message: 'Counter offer sent.', counter_price });
+// GET /api/v1/offers/:id/rounds  — negotiation timeline for buyer or seller
+router.get('/:id/rounds', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    res.json(await getNegotiation(req.userId!, req.params.id));
   } catch (err) {
     next(err);
   }
@@ -202,14 +253,7 @@ router.patch('/:id/counter', requireAuth, async (req: AuthRequest, res: Response
 // PATCH /api/v1/offers/:id/cancel  — buyer cancels their own pending offer
 router.patch('/:id/cancel', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const offer = await queryOne<any>(`SELECT * FROM offers WHERE id = $1`, [req.params.id]);
-    if (!offer) throw new AppError('Offer not found.', 404);
-    if (offer.buyer_id !== req.userId) throw new AppError('Not authorized.', 403);
-    if (!['pending', 'countered'].includes(offer.status)) throw new AppError('Cannot cancel this offer.', 400);
-
-    await query(`UPDATE offers SET status = 'rejected' WHERE id = $1`, [req.params.id]);
-    // Decrement offer count on listing
-    await query('UPDATE listings SET offer_count = GREATEST(0, offer_count - 1) WHERE id = $1', [offer.listing_id]);
+    await withdrawOffer(req.params.id, req.userId!);
     res.json({ message: 'Offer cancelled.' });
   } catch (err) {
     next(err);
@@ -219,36 +263,12 @@ router.patch('/:id/cancel', requireAuth, async (req: AuthRequest, res: Response,
 // PATCH /api/v1/offers/:id/accept-counter  — buyer accepts the seller's counter price
 router.patch('/:id/accept-counter', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const offer = await queryOne<any>(
-      `SELECT o.*, l.seller_id FROM offers o JOIN listings l ON l.id = o.listing_id WHERE o.id = $1`,
-      [req.params.id]
-    );
-    if (!offer) throw new AppError('Offer not found.', 404);
-    if (offer.buyer_id !== req.userId) throw new AppError('Not authorized.', 403);
-    if (offer.status !== 'countered') throw new AppError('No active counter offer.', 400);
-
-    const agreedPrice = Number(offer.counter_price);
-
-    await query(`UPDATE offers SET status = 'accepted', offered_price = $1 WHERE id = $2`, [agreedPrice, req.params.id]);
-    await query(
-      `UPDATE offers SET status = 'rejected' WHERE listing_id = $1 AND id != $2 AND status IN ('pending','countered')`,
-      [offer.listing_id, req.params.id]
-    );
-    await query(`UPDATE listings SET status = 'reserved' WHERE id = $1`, [offer.listing_id]);
-
-    const fee = agreedPrice * 0.04;
-    const sellerReceives = agreedPrice - (agreedPrice * 0.02);
-    await query(
-      `INSERT INTO transactions (offer_id, listing_id, buyer_id, seller_id, agreed_price, platform_fee, seller_receives)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-      [req.params.id, offer.listing_id, req.userId, offer.seller_id, agreedPrice, fee, sellerReceives]
-    );
+    const { offer, transaction, rejectedOffers } = await acceptOffer(req.params.id, req.userId!, 'buyer');
 
-    const listingAC = await queryOne<any>(`SELECT user_edited_title FROM listings WHERE id = $1`, [offer.listing_id]);
-    const txAC = await queryOne<any>(`SELECT id FROM transactions WHERE offer_id = $1`, [req.params.id]);
-    notifyOfferAccepted(offer.seller_id, listingAC?.user_edited_title ?? '', offer.listing_id, txAC?.id ?? '').catch((err) => logger.warn({ sellerId: offer.seller_id, err }, '[NOTIFY] Failed to send counter-accepted notification'));
+    notifyOfferAccepted(offer.seller_id, offer.user_edited_title ?? '', offer.listing_id, transaction.id).catch((err) => logger.warn({ sellerId: offer.seller_id, err }, '[NOTIFY] Failed to send counter-accepted notification'));
+    notifyCompetingBuyers(rejectedOffers, offer.user_edited_title ?? '');
 
-    res.json({ message: 'Counter offer accepted.' });
+    res.json({ message: 'Counter offer accepted.', offer, transaction });
   } catch (err) {
     next(err);
   }
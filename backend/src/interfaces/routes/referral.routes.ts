@@ -1,9 +1,10 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import crypto from 'crypto';
-import { query, queryOne } from '../../infrastructure/database/pool';
+import { query, queryOne, withTransaction } from '../../infrastructure/database/pool';
 import { AuthRequest, requireAuth } from '../middleware/auth.middleware';
 import { notifyUser } from '../../infrastructure/notifications/push';
+import { getCreditSummary, grantCredits } from '../../application/credit.service';
 
 const router = Router();
 
@@ -15,7 +16,7 @@ router.get('/me', requireAuth, async (req: AuthRequest, res, next) => {
     const userId = req.userId!;
 
     // Ensure user has a referral code (generate if missing)
-    const user = await queryOne<{ referral_code: string | null; referral_credits: number }>(
+    const user = await queryOne<{ referral_code: string | null; referral_credits: string | null }>(
       'SELECT referral_code, referral_credits FROM users WHERE id = $1',
       [userId],
     );
@@ -44,7 +45,7 @@ router.get('/me', requireAuth, async (req: AuthRequest, res, next) => {
 
     res.json({
       referral_code: code,
-      referral_credits: user?.referral_credits ?? 0,
+      referral_credits: Number(user?.referral_credits ?? 0),
       total_referred: friends.length,
       friends: friends,
     });
@@ -53,6 +54,18 @@ router.get('/me', requireAuth, async (req: AuthRequest, res, next) => {
   }
 });
 
+// ─── GET /referral/credits ────────────────────────────────
+// Spendable credit balance, upcoming expiries and credit history
+
+router.get('/credits', requireAuth, async (req: AuthRequest, res, next) => {
+  try {
+    const { limit = '30', offset = '0' } = req.query as Record<string, string>;
+    res.json(await getCreditSummary(req.userId!, parseInt(limit), parseInt(offset)));
+  } catch (err) {
+    next(err);
+  }
+});
+
 // ─── POST /referral/apply ──────────────────────────────────
 // A new user applies someone else's referral code during onboarding
 
@@ -92,14 +105,24 @@ router.post('/apply', requireAuth, async (req: AuthRequest, res, next) => {
     }
 
     // Link referral + give both parties 50 EGP credits
-    await query(
-      `UPDATE users SET referred_by = $1, referral_credits = referral_credits + 50 WHERE id = $2`,
-      [referrer.id, userId],
-    );
-    await query(
-      `UPDATE users SET referral_credits = referral_credits + 50 WHERE id = $1`,
-      [referrer.id],
-    );
+    const linked = await withTransaction(async (client) => {
+      const row = await client.queryOne<{ id: string }>(
+        'UPDATE users SET referred_by = $1 WHERE id = $2 AND referred_by IS NULL RETURNING id',
+        [referrer.id, userId],
+      );
+      if (!row) return false;
+      await grantCredits(client, userId, 50, {
+        source: 'referral_signup', referenceId: userId, description: 'Referral welcome credit',
+      });
+      await grantCredits(client, referrer.id, 50, {
+        source: 'referral_signup', referenceId: userId, description: 'Friend joined with your referral code',
+      });
+      return true;
+    });
+    if (!linked) {
+      res.status(400).json({ error: 'You have already used a referral code.' });
+      return;
+    }
 
     // Notify referrer
     await notifyUser(referrer.id, 'referral_joined', {
@@ -133,7 +156,11 @@ export async function checkAndRewardReferral(userId: string): Promise<void> {
   if (alreadyRewarded) return;
 
   // +100 EGP bonus for first completed transaction of referred user
-  await query('UPDATE users SET referral_credits = referral_credits + 100 WHERE id = $1', [user.referred_by]);
+  const referrerId = user.referred_by;
+  const grant = await withTransaction((client) => grantCredits(client, referrerId, 100, {
+    source: 'referral_bonus', referenceId: userId, description: 'Referred friend completed their first transaction',
+  }));
+  if (!grant) return;
   await notifyUser(user.referred_by, 'referral_transacted', {
     title: 'Referral bonus unlocked!',
     body: 'Your referred friend completed their first transaction. You earned 100 EGP credits!',
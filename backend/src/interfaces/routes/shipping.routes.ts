@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { AppError } from '../../application/auth.service';
+import { handleShipmentCallback } from '../../application/shipping.service';
+import { getShippingProvider } from '../../infrastructure/shipping/providers';
+
+const router = Router();
+
+// ─── Courier tracking webhooks ───────────────────────────
+// Every callback is stored; retries of an already-processed event are
+// acknowledged and ignored. Invalid signatures are stored but never acted on.
+
+router.post('/:provider/webhook', async (req, res, next) => {
+  try {
+    const provider = getShippingProvider(req.params.provider);
+    if (!provider) throw new AppError('Unknown courier', 404);
+
+    const payload = req.body ?? {};
+    const signatureValid = provider.verifyWebhook(payload, req.get('authorization'));
+    await handleShipmentCallback(provider, payload, signatureValid);
+
+    if (!signatureValid) {
+      res.status(400).json({ error: 'Invalid signature' });
+      return;
+    }
+    res.sendStatus(200);
+  } catch (err) { next(err); }
+});
+
+export default router;
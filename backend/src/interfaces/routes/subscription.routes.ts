@@ -0,0 +1,81 @@
+import { Router, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { AuthRequest, requireAuth } from '../middleware/auth.middleware';
+import {
+  SUBSCRIPTION_PLANS, getSubscriptionSummary, renewSubscription, setAutoRenew, subscribe,
+} from '../../application/subscription.service';
+import { initiateSubscriptionPayment } from '../../application/payment.service';
+
+const router = Router();
+
+// ─── GET /subscriptions/plans ─────────────────────────────
+
+router.get('/plans', async (_req, res: Response, next: NextFunction) => {
+  try {
+    res.json({
+      plans: Object.entries(SUBSCRIPTION_PLANS).map(([plan, b]) => ({ plan, ...b })),
+    });
+  } catch (err) { next(err); }
+});
+
+// ─── GET /subscriptions/me ────────────────────────────────
+// Current plan, benefits, free boosts left this period and past payments
+
+router.get('/me', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    res.json(await getSubscriptionSummary(req.userId!));
+  } catch (err) { next(err); }
+});
+
+// ─── POST /subscriptions ──────────────────────────────────
+// Wallet payments activate immediately; card payments once Paymob confirms.
+
+router.post('/', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { plan, payment_method, auto_renew } = z.object({
+      plan: z.enum(['premium']),
+      payment_method: z.enum(['wallet', 'paymob']),
+      auto_renew: z.boolean().default(true),
+    }).parse(req.body);
+
+    const subscription = await subscribe(req.userId!, plan, payment_method, auto_renew);
+    if (subscription.status === 'pending') {
+      const payment = await initiateSubscriptionPayment(req.userId!, subscription, SUBSCRIPTION_PLANS[plan].price);
+      res.status(202).json({ subscription, payment });
+      return;
+    }
+    res.status(201).json({ subscription });
+  } catch (err) { next(err); }
+});
+
+// ─── POST /subscriptions/renew ────────────────────────────
+// Renew early or during the grace period; the new period starts when the current one ends.
+
+router.post('/renew', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { payment_method } = z.object({
+      payment_method: z.enum(['wallet', 'paymob']),
+    }).parse(req.body);
+
+    const subscription = await renewSubscription(req.userId!, payment_method);
+    if (payment_method === 'paymob') {
+      const payment = await initiateSubscriptionPayment(
+        req.userId!, subscription, SUBSCRIPTION_PLANS[subscription.plan_type].price,
+      );
+      res.status(202).json({ subscription, payment });
+      return;
+    }
+    res.json({ subscription });
+  } catch (err) { next(err); }
+});
+
+// ─── PATCH /subscriptions/me ──────────────────────────────
+
+router.patch('/me', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { auto_renew } = z.object({ auto_renew: z.boolean() }).parse(req.body);
+    res.json({ subscription: await setAutoRenew(req.userId!, auto_renew) });
+  } catch (err) { next(err); }
+});
+
+export default router;
@@ -1,15 +1,44 @@
 import { Router, Response, NextFunction } from 'express';
 import { AuthRequest, requireAuth } from '../middleware/auth.middleware';
-import { query, queryOne } from '../../infrastructure/database/pool';
+import { query, queryOne, withTransaction } from '../../infrastructure/database/pool';
 import { AppError } from '../../application/auth.service';
 import { logger } from '../../infrastructure/logging/logger';
 import { z } from 'zod';
-import { notifyPaymentReceived, notifyReviewReceived } from '../../infrastructure/notifications/push';
-import { creditSellerWallet } from './wallet.routes';
+import { config } from '../../config';
+import {
+  notifyItemHandedOver, notifyPaymentReceived, notifyReviewReceived, notifySwapUpdate, notifyTransactionCancellation,
+} from '../../infrastructure/notifications/push';
+import { fundEscrowFromCredits, fundEscrowFromWallet, releaseTransaction } from '../../application/escrow.service';
 import { checkAndRewardReferral } from './referral.routes';
+import { assertNoOpenPayment, initiateGatewayPayment } from '../../application/payment.service';
+import { redeemPromoCode } from '../../application/promo.service';
+import { confirmSwapReceipt } from '../../application/swap.service';
+import { getTransactionHistory, markHandedOver, transitionTransaction } from '../../application/transaction.service';
+import { cancelTransaction, declineCancellation } from '../../application/cancellation.service';
+import { getHandoverCode, redeemHandoverCode, setMeetingSpot, suggestMeetingSpot } from '../../application/meetup.service';
+import {
+  bookCourierPickup, chooseDelivery, chooseMeetup, getShipmentEvents, quoteDelivery,
+} from '../../application/shipping.service';
+import {
+  DISPUTE_REASONS, addEvidence, getDispute, openDispute, postDisputeMessage,
+} from '../../application/dispute.service';
+import { isGatewayMethod } from '../../infrastructure/payments/providers';
+import type { Transaction } from '../../domain/entities';
 
 const router = Router();
 
+const addressSchema = z.object({
+  name: z.string().trim().min(2).max(100),
+  phone: z.string().regex(/^01[0-9]{9}$/),
+  city: z.string().trim().min(2).max(50),
+  district: z.string().trim().max(100).optional(),
+  street: z.string().trim().min(3).max(200),
+  building: z.string().trim().max(20).optional(),
+  floor: z.string().trim().max(10).optional(),
+  apartment: z.string().trim().max(10).optional(),
+  notes: z.string().trim().max(300).optional(),
+});
+
 // GET /api/v1/transactions
 router.get('/', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -44,15 +73,20 @@ router.get('/:id', requireAuth, async (req: AuthRequest, res: Response, next: Ne
     const userId = req.userId!;
     const txn = await queryOne(
       `SELECT t.*,
+        ST_Y(t.meeting_location::geometry) AS meeting_lat,
+        ST_X(t.meeting_location::geometry) AS meeting_lng,
         l.user_edited_title as listing_title, l.primary_image_url as listing_image,
         buyer.full_name as buyer_name, buyer.phone as buyer_phone,
-        seller.full_name as seller_name, seller.phone as seller_phone
+        seller.full_name as seller_name, seller.phone as seller_phone,
+        -- Last moment the buyer can still claim the item wasn't as described
+        CASE WHEN t.payment_status = 'released' AND t.payment_method <> 'cash'
+             THEN t.completed_at + make_interval(days => $2) END AS claim_until
        FROM transactions t
        JOIN listings l ON t.listing_id = l.id
        JOIN users buyer ON t.buyer_id = buyer.id
        JOIN users seller ON t.seller_id = seller.id
        WHERE t.id = $1`,
-      [req.params.id]
+      [req.params.id, config.disputes.claimWindowDays]
     );
     if (!txn) throw new AppError('Transaction not found', 404);
     if (txn.buyer_id !== userId && txn.seller_id !== userId) throw new AppError('Forbidden', 403);
@@ -60,32 +94,185 @@ router.get('/:id', requireAuth, async (req: AuthRequest, res: Response, next: Ne
   } catch (err) { next(err); }
 });
 
+// GET /api/v1/transactions/:id/history
+router.get('/:id/history', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const txn = await queryOne<{ buyer_id: string; seller_id: string }>('SELECT buyer_id, seller_id FROM transactions WHERE id = $1', [req.params.id]);
+    if (!txn) throw new AppError('Transaction not found', 404);
+    if (txn.buyer_id !== userId && txn.seller_id !== userId) throw new AppError('Forbidden', 403);
+    res.json({ history: await getTransactionHistory(req.params.id) });
+  } catch (err) { next(err); }
+});
+
 // PATCH /api/v1/transactions/:id/payment
+// Wallet and cash settle immediately; Fawry and Vodafone Cash start a gateway
+// payment and the transaction is held once the provider confirms it.
+// An optional promo code is redeemed first, lowering what the buyer pays.
 router.patch('/:id/payment', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const userId = req.userId!;
-    const { payment_method } = z.object({
+    const { payment_method, wallet_number, promo_code, credits } = z.object({
       payment_method: z.enum(['fawry', 'instapay', 'vodafone_cash', 'wallet', 'cash']),
+      wallet_number: z.string().regex(/^01[0-9]{9}$/).optional(),
+      promo_code: z.string().min(1).max(30).optional(),
+      credits: z.number().positive().optional(),
     }).parse(req.body);
 
-    const txn = await queryOne('SELECT * FROM transactions WHERE id = $1', [req.params.id]);
-    if (!txn) throw new AppError('Transaction not found', 404);
-    if (txn.buyer_id !== userId) throw new AppError('Only buyer can initiate payment', 403);
-    if (txn.payment_status !== 'pending') throw new AppError('Payment already initiated', 400);
-
-    // Cash = meet in person, no escrow timer — funds tracked but buyer confirms on delivery
-    const updated = await queryOne(
-      payment_method === 'cash'
-        ? `UPDATE transactions SET payment_method = $1, payment_status = 'held',
-           escrow_hold_until = NULL WHERE id = $2 RETURNING *`
-        : `UPDATE transactions SET payment_method = $1, payment_status = 'held',
-           escrow_hold_until = NOW() + INTERVAL '3 days' WHERE id = $2 RETURNING *`,
-      [payment_method, req.params.id]
-    );
+    if (payment_method === 'instapay') {
+      // No merchant collection API yet — never mark a transaction held without funds
+      throw new AppError('InstaPay is not available yet, please choose another payment method', 400);
+    }
+    if (promo_code && payment_method === 'cash') {
+      // Cash never passes through escrow, so the platform has nothing to absorb the discount from
+      throw new AppError('Promo codes can only be used with online payments', 400);
+    }
+    if (credits && payment_method === 'cash') {
+      throw new AppError('Credits can only be used with online payments', 400);
+    }
+
+    const updated = await withTransaction(async (client) => {
+      let txn = await client.queryOne<Transaction>('SELECT * FROM transactions WHERE id = $1 FOR UPDATE', [req.params.id]);
+      if (!txn) throw new AppError('Transaction not found', 404);
+      if (txn.buyer_id !== userId) throw new AppError('Only buyer can initiate payment', 403);
+      if (txn.status === 'cancelled') throw new AppError('This transaction was cancelled', 409);
+      if (txn.payment_status !== 'pending') throw new AppError('Payment already initiated', 400);
+      if (payment_method === 'cash' && txn.delivery_method === 'delivery') {
+        throw new AppError('Courier deliveries must be paid online', 400);
+      }
+
+      // A started card or Fawry payment was created for the full amount
+      if (promo_code || credits) {
+        await assertNoOpenPayment(client, txn.id, 'applying a promo code or credits');
+      }
+      if (promo_code) {
+        ({ transaction: txn } = await redeemPromoCode(client, txn, userId, promo_code));
+      }
+      // Credits go into escrow now; the wallet or gateway covers the rest
+      if (credits) {
+        txn = await fundEscrowFromCredits(client, txn, credits);
+      }
+      // Gateway payments are held later, when the provider confirms
+      if (isGatewayMethod(payment_method)) return txn;
+
+      // Wallet payments move the buyer's funds into escrow in the same DB transaction
+      if (payment_method === 'wallet') {
+        await fundEscrowFromWallet(client, txn, 'Payment held in escrow');
+      }
+
+      // The escrow timer starts at handover, not here — see markHandedOver
+      const held = await client.queryOne(
+        `UPDATE transactions SET payment_method = $1, payment_status = 'held' WHERE id = $2 RETURNING *`,
+        [payment_method, req.params.id]
+      );
+      return transitionTransaction(client, held, 'paid', userId, payment_method);
+    });
+
+    if (isGatewayMethod(payment_method)) {
+      const payment = await initiateGatewayPayment(userId, req.params.id, payment_method, { walletNumber: wallet_number });
+      res.json({ transaction: updated, payment });
+      return;
+    }
     res.json({ transaction: updated });
   } catch (err) { next(err); }
 });
 
+// PATCH /api/v1/transactions/:id/handover
+// Seller hands the item over in person or ships it; the escrow hold starts now.
+router.patch('/:id/handover', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const { method, tracking_number } = z.object({
+      method: z.enum(['in_person', 'shipping']).default('in_person'),
+      tracking_number: z.string().trim().min(3).max(100).optional(),
+    }).parse(req.body);
+
+    const updated = await markHandedOver(req.params.id, userId, {
+      shipped: method === 'shipping',
+      trackingNumber: tracking_number,
+    });
+    const listing = await queryOne<{ user_edited_title: string }>('SELECT user_edited_title FROM listings WHERE id = $1', [updated.listing_id]);
+    notifyItemHandedOver(updated.buyer_id, method === 'shipping', listing?.user_edited_title ?? '', updated.id).catch((err) => logger.warn({ buyerId: updated.buyer_id, err }, '[NOTIFY] Failed to send handover notification'));
+    res.json({ transaction: updated });
+  } catch (err) { next(err); }
+});
+
+// GET /api/v1/transactions/:id/delivery/quote?city=
+router.get('/:id/delivery/quote', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { city } = z.object({ city: z.string().trim().min(2).max(50) }).parse(req.query);
+    res.json({ quote: await quoteDelivery(req.params.id, req.userId!, city) });
+  } catch (err) { next(err); }
+});
+
+// PUT /api/v1/transactions/:id/delivery  (buyer, before paying)
+// Switches the deal to courier delivery; the fee is added to what the buyer pays.
+router.put('/:id/delivery', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { address } = z.object({ address: addressSchema }).parse(req.body);
+    res.json({ transaction: await chooseDelivery(req.params.id, req.userId!, address) });
+  } catch (err) { next(err); }
+});
+
+// DELETE /api/v1/transactions/:id/delivery  (buyer, back to meeting up)
+router.delete('/:id/delivery', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    res.json({ transaction: await chooseMeetup(req.params.id, req.userId!) });
+  } catch (err) { next(err); }
+});
+
+// POST /api/v1/transactions/:id/shipment  (seller books the courier pickup)
+router.post('/:id/shipment', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { pickup_address } = z.object({ pickup_address: addressSchema }).parse(req.body);
+    res.json({ transaction: await bookCourierPickup(req.params.id, req.userId!, pickup_address) });
+  } catch (err) { next(err); }
+});
+
+// GET /api/v1/transactions/:id/shipment/events
+router.get('/:id/shipment/events', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    res.json({ events: await getShipmentEvents(req.params.id, req.userId!) });
+  } catch (err) { next(err); }
+});
+
+// GET /api/v1/transactions/:id/handover-code  (buyer, cash deals)
+router.get('/:id/handover-code', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    res.json(await getHandoverCode(req.params.id, req.userId!));
+  } catch (err) { next(err); }
+});
+
+// POST /api/v1/transactions/:id/handover-code  (seller enters or scans the buyer's code)
+// A correct code hands the item over and completes the cash deal.
+router.post('/:id/handover-code', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { code } = z.object({
+      code: z.string().trim().min(6).max(120),
+    }).parse(req.body);
+
+    const { transaction } = await redeemHandoverCode(req.params.id, req.userId!, code);
+    checkAndRewardReferral(transaction.buyer_id).catch((err) => logger.warn({ userId: transaction.buyer_id, err }, '[REFERRAL] Failed to check/reward referral bonus'));
+    res.json({ transaction });
+  } catch (err) { next(err); }
+});
+
+// GET /api/v1/transactions/:id/meeting-point
+// Suggests a safe public place near the midpoint between the buyer and the item.
+router.get('/:id/meeting-point', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    res.json({ meeting_point: await suggestMeetingSpot(req.params.id, req.userId!) });
+  } catch (err) { next(err); }
+});
+
+// PUT /api/v1/transactions/:id/meeting-point
+router.put('/:id/meeting-point', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { spot_id } = z.object({ spot_id: z.number().int().positive() }).parse(req.body);
+    res.json({ transaction: await setMeetingSpot(req.params.id, req.userId!, spot_id) });
+  } catch (err) { next(err); }
+});
+
 // PATCH /api/v1/transactions/:id/confirm
 router.patch('/:id/confirm', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -95,17 +282,19 @@ router.patch('/:id/confirm', requireAuth, async (req: AuthRequest, res: Response
     if (txn.buyer_id !== userId) throw new AppError('Only buyer can confirm', 403);
     if (txn.payment_status !== 'held') throw new AppError('Transaction not in escrow', 400);
 
-    const updated = await queryOne(
-      `UPDATE transactions SET buyer_confirmation = true, payment_status = 'released',
-       completed_at = NOW() WHERE id = $1 RETURNING *`,
-      [req.params.id]
-    );
-    await query(`UPDATE listings SET status = 'sold' WHERE id = $1`, [txn.listing_id]);
-    const lstRow = await queryOne<any>(`SELECT user_edited_title FROM listings WHERE id = $1`, [txn.listing_id]);
-    const title = lstRow?.user_edited_title ?? '';
-    // Credit seller wallet
-    creditSellerWallet(txn.seller_id, Number(txn.seller_receives), req.params.id,
-      `Sale: ${title}`).catch((err) => logger.error({ sellerId: txn.seller_id, transactionId: req.params.id, amount: txn.seller_receives, err }, '[WALLET] CRITICAL: Failed to credit seller wallet'));
+    // Swaps complete only once both parties have confirmed receipt
+    if (txn.swap_id) {
+      const { completed, transaction, partner } = await confirmSwapReceipt(req.params.id, userId);
+      const partnerListing = await queryOne<{ user_edited_title: string }>('SELECT user_edited_title FROM listings WHERE id = $1', [partner.listing_id]);
+      notifySwapUpdate(partner.buyer_id, completed, partnerListing?.user_edited_title ?? '', partner.id).catch((err) => logger.warn({ userId: partner.buyer_id, err }, '[NOTIFY] Failed to send swap notification'));
+      res.json({ transaction, swap_completed: completed });
+      return;
+    }
+
+    // Status change, listing sale and escrow payout are one atomic step
+    const released = await releaseTransaction(req.params.id, { actorId: userId });
+    if (!released) throw new AppError('Transaction not in escrow', 400);
+    const { transaction: updated, listingTitle: title } = released;
     // Notify seller
     notifyPaymentReceived(txn.seller_id, Number(txn.seller_receives), title, req.params.id).catch((err) => logger.warn({ sellerId: txn.seller_id, err }, '[NOTIFY] Failed to send payment-received notification'));
     // Referral bonus for buyer's first completed transaction
@@ -114,64 +303,75 @@ router.patch('/:id/confirm', requireAuth, async (req: AuthRequest, res: Response
   } catch (err) { next(err); }
 });
 
+// POST /api/v1/transactions/:id/cancel
+// Before payment this cancels. After payment it asks the other party to agree
+// (or agrees to their request); the seller can instead cancel with a refund.
+router.post('/:id/cancel', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const { reason, refund } = z.object({
+      reason: z.string().trim().max(500).optional(),
+      refund: z.boolean().optional(),
+    }).parse(req.body ?? {});
+
+    const result = await cancelTransaction(req.params.id, userId, { refund, note: reason });
+    const event = !result.cancelled ? 'requested' : result.reason === 'seller_refunded' ? 'refunded' : 'cancelled';
+    notifyTransactionCancellation(result.counterpartyId, event, result.listingTitle, req.params.id).catch((err) => logger.warn({ userId: result.counterpartyId, err }, '[NOTIFY] Failed to send cancellation notification'));
+    res.json({ transaction: result.transaction, cancelled: result.cancelled });
+  } catch (err) { next(err); }
+});
+
+// POST /api/v1/transactions/:id/cancel/decline
+router.post('/:id/cancel/decline', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { transaction, requesterId, listingTitle } = await declineCancellation(req.params.id, req.userId!);
+    notifyTransactionCancellation(requesterId, 'declined', listingTitle, req.params.id).catch((err) => logger.warn({ userId: requesterId, err }, '[NOTIFY] Failed to send cancellation notification'));
+    res.json({ transaction });
+  } catch (err) { next(err); }
+});
+
 // POST /api/v1/transactions/:id/dispute
 router.post('/:id/dispute', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const userId = req.userId!;
     const { reason, details, evidence_urls } = z.object({
-      reason: z.enum(['item_not_received', 'item_not_as_described', 'payment_issue', 'fraud', 'other']),
+      reason: z.enum(DISPUTE_REASONS),
       details: z.string().max(2000).optional(),
       evidence_urls: z.array(z.string().url()).max(5).optional(),
     }).parse(req.body);
 
-    const txn = await queryOne('SELECT * FROM transactions WHERE id = $1', [req.params.id]);
-    if (!txn) throw new AppError('Transaction not found', 404);
-    if (txn.buyer_id !== userId && txn.seller_id !== userId) throw new AppError('Forbidden', 403);
-    if (txn.dispute_status !== 'none') throw new AppError('Dispute already opened', 400);
-    if (txn.payment_status !== 'held') throw new AppError('Can only dispute transactions in escrow', 400);
-
-    const updated = await queryOne(
-      `UPDATE transactions SET
-         dispute_status = 'opened',
-         dispute_reason = $1,
-         dispute_evidence = $2,
-         payment_status = 'disputed'
-       WHERE id = $3 RETURNING *`,
-      [reason + (details ? `: ${details}` : ''), JSON.stringify(evidence_urls ?? []), req.params.id]
-    );
-    res.json({ transaction: updated });
+    const { dispute, transaction } = await openDispute(req.params.id, req.userId!, {
+      reason, details, evidence: (evidence_urls ?? []).map((url) => ({ url })),
+    });
+    res.status(201).json({ dispute, transaction });
   } catch (err) { next(err); }
 });
 
-// PATCH /api/v1/transactions/:id/dispute/resolve  (admin only)
-router.patch('/:id/dispute/resolve', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+// GET /api/v1/transactions/:id/dispute — the case, its evidence and thread
+router.get('/:id/dispute', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { resolution, notes } = z.object({
-      resolution: z.enum(['resolved_buyer', 'resolved_seller']),
-      notes: z.string().max(1000).optional(),
-    }).parse(req.body);
+    res.json(await getDispute(req.params.id, req.userId!));
+  } catch (err) { next(err); }
+});
 
-    const admin = await queryOne<any>(`SELECT is_admin FROM users WHERE id = $1`, [req.userId]);
-    if (!admin?.is_admin) throw new AppError('Admin access required', 403);
+// POST /api/v1/transactions/:id/dispute/evidence
+router.post('/:id/dispute/evidence', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { evidence } = z.object({
+      evidence: z.array(z.object({
+        url: z.string().url(),
+        caption: z.string().trim().max(300).optional(),
+      })).min(1).max(5),
+    }).parse(req.body);
 
-    const txn = await queryOne<any>('SELECT * FROM transactions WHERE id = $1', [req.params.id]);
-    if (!txn) throw new AppError('Transaction not found', 404);
-    if (!['opened', 'under_review'].includes(txn.dispute_status)) throw new AppError('No active dispute', 400);
-
-    const payStatus = resolution === 'resolved_buyer' ? 'refunded' : 'released';
-    const updated = await queryOne(
-      `UPDATE transactions SET
-         dispute_status = $1,
-         payment_status = $2,
-         completed_at = CASE WHEN $2 = 'released' THEN NOW() ELSE completed_at END
-       WHERE id = $3 RETURNING *`,
-      [resolution, payStatus, req.params.id]
-    );
+    res.status(201).json({ evidence: await addEvidence(req.params.id, req.userId!, evidence) });
+  } catch (err) { next(err); }
+});
 
-    if (resolution === 'resolved_seller') {
-      await query(`UPDATE listings SET status = 'sold' WHERE id = $1`, [txn.listing_id]);
-    }
-    res.json({ transaction: updated });
+// POST /api/v1/transactions/:id/dispute/messages
+router.post('/:id/dispute/messages', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { body } = z.object({ body: z.string().trim().min(1).max(2000) }).parse(req.body);
+    res.status(201).json({ message: await postDisputeMessage(req.params.id, req.userId!, body) });
   } catch (err) { next(err); }
 });
 
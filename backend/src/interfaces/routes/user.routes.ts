@@ -1,8 +1,9 @@
 import { Router, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { query, queryOne } from '../../infrastructure/database/pool';
-import { AuthRequest, requireAuth } from '../middleware/auth.middleware';
+import { AuthRequest, requireAuth, requireAuthAllowBanned } from '../middleware/auth.middleware';
 import { AppError } from '../../application/auth.service';
+import { fileBanAppeal, getBanStatus } from '../../application/ban.service';
 import { logger } from '../../infrastructure/logging/logger';
 import type { User } from '../../domain/entities';
 
@@ -124,6 +125,21 @@ router.post('/me/id-verify', requireAuth, async (req: AuthRequest, res: Response
   } catch (err) { next(err); }
 });
 
+// GET /api/v1/users/me/ban — the ban or suspension in force and any appeal; open to banned users
+router.get('/me/ban', requireAuthAllowBanned, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    res.json(await getBanStatus(req.userId!));
+  } catch (err) { next(err); }
+});
+
+// POST /api/v1/users/me/ban/appeal
+router.post('/me/ban/appeal', requireAuthAllowBanned, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { message } = z.object({ message: z.string().trim().min(10).max(2000) }).parse(req.body);
+    res.status(201).json({ appeal: await fileBanAppeal(req.userId!, message) });
+  } catch (err) { next(err); }
+});
+
 // GET /api/v1/users/:id (public profile)
 router.get('/:id', async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
@@ -144,6 +160,7 @@ function sanitizeUser(u: any) {
     avatar_url: u.avatar_url,
     is_phone_verified: u.is_phone_verified,
     is_id_verified: u.is_id_verified,
+    is_verified_store: u.is_verified_store ?? false,
     trust_score: parseFloat(u.trust_score),
     total_reviews: u.total_reviews,
     preferred_language: u.preferred_language,
@@ -159,6 +176,7 @@ function publicProfile(u: any) {
     avatar_url: u.avatar_url,
     is_phone_verified: u.is_phone_verified,
     is_id_verified: u.is_id_verified,
+    is_verified_store: u.is_verified_store ?? false,
     trust_score: parseFloat(u.trust_score),
     total_reviews: u.total_reviews,
     created_at: u.created_at,
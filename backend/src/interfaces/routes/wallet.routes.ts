@@ -1,11 +1,15 @@
 import { Router, Response, NextFunction } from 'express';
 import { z } from 'zod';
-import { query, queryOne } from '../../infrastructure/database/pool';
+import { query, queryOne, withTransaction } from '../../infrastructure/database/pool';
 import { AuthRequest, requireAuth } from '../middleware/auth.middleware';
 import { AppError } from '../../application/auth.service';
+import { postJournalEntry, systemAccount, userWallet } from '../../application/ledger.service';
+import { handlePaymentCallback, initiateGatewayPayment, syncPaymentIntent } from '../../application/payment.service';
+import { listBoostPurchases } from '../../application/boost.service';
+import { outstandingClaimHold } from '../../application/dispute.service';
 import { config } from '../../config';
-import { initiatePaymobPayment } from '../../infrastructure/payments/paymob.service';
-import { verifyPaymobWebhook } from '../../infrastructure/payments/paymob.service';
+import { getPaymentProvider, paymentProviders } from '../../infrastructure/payments/providers';
+import type { PaymentProvider } from '../../infrastructure/payments/provider';
 
 const router = Router();
 
@@ -15,8 +19,8 @@ const router = Router();
 router.get('/me', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const userId = req.userId!;
-    const user = await queryOne<{ wallet_balance: number; wallet_pending: number }>(
-      'SELECT wallet_balance, wallet_pending FROM users WHERE id = $1',
+    const user = await queryOne<{ wallet_balance: number; wallet_pending: number; referral_credits: string | null }>(
+      'SELECT wallet_balance, wallet_pending, referral_credits FROM users WHERE id = $1',
       [userId],
     );
 
@@ -27,6 +31,8 @@ router.get('/me', requireAuth, async (req: AuthRequest, res: Response, next: Nex
       [userId],
     );
 
+    const onHold = await outstandingClaimHold({ queryOne }, userId);
+
     const stats = await queryOne<{ total_earned: number; total_withdrawn: number }>(
       `SELECT
          COALESCE(SUM(CASE WHEN type = 'credit' THEN amount ELSE 0 END), 0) as total_earned,
@@ -38,6 +44,10 @@ router.get('/me', requireAuth, async (req: AuthRequest, res: Response, next: Nex
     res.json({
       balance: Number(user?.wallet_balance ?? 0),
       pending: Number(user?.wallet_pending ?? 0),
+      // Part of the balance that can't be withdrawn while buyer claims against the user are open
+      on_hold: onHold,
+      // Spendable at checkout and on boosts, but not part of the withdrawable balance
+      credits: Number(user?.referral_credits ?? 0),
       total_earned: Number(stats?.total_earned ?? 0),
       total_withdrawn: Number(stats?.total_withdrawn ?? 0),
       recent_transactions: recent,
@@ -62,6 +72,17 @@ router.get('/transactions', requireAuth, async (req: AuthRequest, res: Response,
   } catch (err) { next(err); }
 });
 
+// ─── GET /wallet/boosts ───────────────────────────────────
+// Boost purchase receipts (wallet, credit and card payments)
+
+router.get('/boosts', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { limit = '30', offset = '0' } = req.query as Record<string, string>;
+    const purchases = await listBoostPurchases(req.userId!, parseInt(limit), parseInt(offset));
+    res.json({ purchases });
+  } catch (err) { next(err); }
+});
+
 // ─── POST /wallet/withdraw ────────────────────────────────
 
 const withdrawSchema = z.object({
@@ -86,32 +107,34 @@ router.post('/withdraw', requireAuth, async (req: AuthRequest, res: Response, ne
       throw new AppError(`Minimum withdrawal is ${minAmount} EGP`, 400);
     }
 
-    const user = await queryOne<{ wallet_balance: number }>(
-      'SELECT wallet_balance FROM users WHERE id = $1',
-      [userId],
-    );
-    if (!user || Number(user.wallet_balance) < body.amount) {
-      throw new AppError('Insufficient wallet balance', 400);
-    }
-
-    // Deduct balance immediately and create pending withdrawal
-    await query(
-      'UPDATE users SET wallet_balance = wallet_balance - $1 WHERE id = $2',
-      [body.amount, userId],
-    );
-
-    const withdrawal = await queryOne(
-      `INSERT INTO withdrawal_requests (user_id, amount, method, account_details)
-       VALUES ($1, $2, $3, $4) RETURNING *`,
-      [userId, body.amount, body.method, JSON.stringify(body.account_details)],
-    );
-
-    // Log wallet transaction
-    await query(
-      `INSERT INTO wallet_transactions (user_id, type, amount, description, reference_id, reference_type, status)
-       VALUES ($1, 'withdrawal', $2, $3, $4, 'withdrawal', 'pending')`,
-      [userId, body.amount, `Withdrawal via ${body.method}`, withdrawal?.id],
-    );
+    // Request row, balance debit and history are one atomic journal entry
+    const withdrawal = await withTransaction(async (client) => {
+      const onHold = await outstandingClaimHold(client, userId);
+      if (onHold > 0) {
+        const user = await client.queryOne<{ wallet_balance: string }>(
+          'SELECT wallet_balance FROM users WHERE id = $1 FOR UPDATE',
+          [userId],
+        );
+        if (Number(user?.wallet_balance ?? 0) - body.amount < onHold) {
+          throw new AppError(`${onHold} EGP of your balance is on hold for an open buyer claim`, 400);
+        }
+      }
+      const row = await client.queryOne<{ id: string }>(
+        `INSERT INTO withdrawal_requests (user_id, amount, method, account_details)
+         VALUES ($1, $2, $3, $4) RETURNING *`,
+        [userId, body.amount, body.method, JSON.stringify(body.account_details)],
+      );
+      await postJournalEntry(client, {
+        description: `Withdrawal via ${body.method}`,
+        referenceId: row!.id,
+        referenceType: 'withdrawal',
+        lines: [
+          { account: userWallet(userId), amount: -body.amount, historyType: 'withdrawal', historyStatus: 'pending' },
+          { account: systemAccount('payouts_in_flight'), amount: body.amount },
+        ],
+      });
+      return row;
+    });
 
     res.status(201).json({
       message: 'Withdrawal request submitted. Processing within 1–3 business days.',
@@ -139,98 +162,76 @@ router.get('/withdrawals', requireAuth, async (req: AuthRequest, res: Response,
 
 router.post('/paymob/initiate', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const userId = req.userId!;
     const { transaction_id } = z.object({ transaction_id: z.string().uuid() }).parse(req.body);
-
-    const txn = await queryOne<any>(
-      `SELECT t.*, u.full_name, u.email, u.phone
-       FROM transactions t JOIN users u ON u.id = t.buyer_id
-       WHERE t.id = $1`,
-      [transaction_id],
-    );
-    if (!txn) throw new AppError('Transaction not found', 404);
-    if (txn.buyer_id !== userId) throw new AppError('Forbidden', 403);
-    if (txn.payment_status !== 'pending') throw new AppError('Already paid', 400);
-
-    const result = await initiatePaymobPayment(transaction_id, Number(txn.agreed_price), {
-      full_name: txn.full_name,
-      email: txn.email,
-      phone: txn.phone,
-    });
-
+    const result = await initiateGatewayPayment(req.userId!, transaction_id, 'paymob');
     res.json(result);
   } catch (err) { next(err); }
 });
 
-// ─── POST /wallet/paymob/webhook ─────────────────────────
-// Paymob notifies us of payment completion
+// ─── POST /wallet/payments/initiate ──────────────────────
+// Starts a gateway payment: card iframe, Fawry reference code or a
+// Vodafone Cash wallet request. The transaction is held once the provider confirms.
 
-router.post('/paymob/webhook', async (req, res, next) => {
+router.post('/payments/initiate', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const hmac = req.query.hmac as string;
-    if (!verifyPaymobWebhook(req.body?.obj ?? {}, hmac)) {
-      res.status(400).json({ error: 'Invalid HMAC' });
-      return;
-    }
-
-    const obj = req.body?.obj;
-    if (!obj?.success || obj?.pending) {
-      res.sendStatus(200); // acknowledged but payment not completed
-      return;
-    }
-
-    // Find intent by provider order id
-    const intent = await queryOne<any>(
-      `SELECT * FROM payment_intents WHERE provider_order_id = $1`,
-      [String(obj.order?.id)],
-    );
-
-    if (intent && intent.status === 'pending') {
-      await query(
-        `UPDATE payment_intents SET status = 'paid', webhook_data = $1, updated_at = NOW() WHERE id = $2`,
-        [JSON.stringify(obj), intent.id],
-      );
+    const { transaction_id, method, wallet_number } = z.object({
+      transaction_id: z.string().uuid(),
+      method: z.enum(['paymob', 'fawry', 'vodafone_cash']),
+      wallet_number: z.string().regex(/^01[0-9]{9}$/).optional(),
+    }).parse(req.body);
+
+    const payment = await initiateGatewayPayment(req.userId!, transaction_id, method, { walletNumber: wallet_number });
+    res.status(201).json({ payment });
+  } catch (err) { next(err); }
+});
 
-      // Mark transaction as held (escrow)
-      const txn = await queryOne<any>('SELECT * FROM transactions WHERE id = $1', [intent.transaction_id]);
-      if (txn && txn.payment_status === 'pending') {
-        await query(
-          `UPDATE transactions SET payment_status = 'held', payment_method = 'paymob',
-           escrow_hold_until = NOW() + INTERVAL '3 days' WHERE id = $1`,
-          [intent.transaction_id],
-        );
-      }
-    }
+// ─── GET /wallet/payments/:intentId ──────────────────────
+// Payment status; pending intents are re-checked with the provider
 
-    res.sendStatus(200);
+router.get('/payments/:intentId', requireAuth, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const payment = await syncPaymentIntent(req.params.intentId, req.userId!);
+    res.json({ payment });
   } catch (err) { next(err); }
 });
 
-// ─── Helper: credit seller wallet after transaction release ─
-// Called from transaction confirm route
+// ─── Gateway webhooks ────────────────────────────────────
+// Every callback is stored; retries of an already-processed event are
+// acknowledged and ignored. Invalid signatures are stored but never acted on.
 
-export async function creditSellerWallet(
-  sellerId: string,
-  amount: number,
-  transactionId: string,
-  description: string,
+async function receiveCallback(
+  provider: PaymentProvider,
+  payload: Record<string, unknown>,
+  signature: string | undefined,
+  res: Response,
 ): Promise<void> {
-  await query(
-    'UPDATE users SET wallet_balance = wallet_balance + $1 WHERE id = $2',
-    [amount, sellerId],
-  );
-
-  const user = await queryOne<{ wallet_balance: number }>(
-    'SELECT wallet_balance FROM users WHERE id = $1',
-    [sellerId],
-  );
-
-  await query(
-    `INSERT INTO wallet_transactions
-       (user_id, type, amount, balance_after, description, reference_id, reference_type, status)
-     VALUES ($1, 'credit', $2, $3, $4, $5, 'transaction', 'completed')`,
-    [sellerId, amount, user?.wallet_balance ?? amount, description, transactionId],
-  );
+  const signatureValid = provider.verifyWebhook(payload, signature);
+  await handlePaymentCallback(provider, payload, signatureValid);
+
+  if (!signatureValid) {
+    res.status(400).json({ error: 'Invalid signature' });
+    return;
+  }
+  res.sendStatus(200);
 }
 
+// Paymob wraps the transaction in `obj` and signs it via ?hmac=
+router.post('/paymob/webhook', async (req, res, next) => {
+  try {
+    await receiveCallback(paymentProviders.paymob, req.body?.obj ?? {}, req.query.hmac as string, res);
+  } catch (err) { next(err); }
+});
+
+router.post('/payments/:provider/webhook', async (req, res, next) => {
+  try {
+    const provider = getPaymentProvider(req.params.provider);
+    if (!provider) throw new AppError('Unknown payment provider', 404);
+    if (provider.name === 'paymob') {
+      await receiveCallback(provider, req.body?.obj ?? {}, req.query.hmac as string, res);
+    } else {
+      await receiveCallback(provider, req.body ?? {}, req.get('x-signature'), res);
+    }
+  } catch (err) { next(err); }
+});
+
 export default router;
@@ -69,6 +69,7 @@ export default function RootLayout() {
               <Stack.Screen name="onboarding" options={{ presentation: 'card', gestureEnabled: false }} />
               <Stack.Screen name="privacy-policy" options={{ presentation: 'card' }} />
               <Stack.Screen name="terms" options={{ presentation: 'card' }} />
+              <Stack.Screen name="banned" options={{ presentation: 'card', gestureEnabled: false }} />
             </Stack>
           </View>
         </QueryClientProvider>
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import {
+  View, Text, ScrollView, TouchableOpacity, StyleSheet,
+  TextInput, ActivityIndicator, Alert,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Ionicons } from '@expo/vector-icons';
+import { COLORS, SPACING, TYPOGRAPHY, RADIUS, SHADOWS } from '../constants/theme';
+import { authService } from '../services/auth.service';
+import { useAuthStore } from '../store/authStore';
+
+const MIN_APPEAL_LENGTH = 10;
+
+const APPEAL_STATUS = {
+  pending:    { icon: 'time-outline',             color: COLORS.warning, label: 'Your appeal is being reviewed' },
+  upheld:     { icon: 'close-circle-outline',     color: COLORS.error,   label: 'Your appeal was turned down' },
+  overturned: { icon: 'checkmark-circle-outline', color: COLORS.primary, label: 'Your appeal was accepted' },
+} as const;
+
+// ─── Component ────────────────────────────────────────────
+
+export default function BannedScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const logout = useAuthStore((s) => s.logout);
+  const [message, setMessage] = useState('');
+
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ['ban-status'],
+    queryFn: () => authService.getBanStatus(),
+  });
+
+  const appealMutation = useMutation({
+    mutationFn: () => authService.appealBan(message.trim()),
+    onSuccess: () => {
+      Alert.alert('Appeal Sent', "We'll review it and let you know here.");
+      setMessage('');
+      refetch();
+    },
+    onError: (e: any) => Alert.alert('Error', e?.response?.data?.error ?? 'Could not send your appeal'),
+  });
+
+  const handleLogout = async () => {
+    await logout();
+    router.replace('/(auth)/login');
+  };
+
+  const ban = data?.ban;
+  const appeal = data?.appeal;
+  const status = appeal ? APPEAL_STATUS[appeal.status] : null;
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Account Restricted</Text>
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator style={{ marginTop: SPACING.xl }} color={COLORS.primary} />
+      ) : !ban ? (
+        <View style={styles.scroll}>
+          <View style={styles.card}>
+            <Text style={styles.bodyText}>Your account is no longer restricted.</Text>
+          </View>
+          <TouchableOpacity style={styles.primaryBtn} onPress={() => router.replace('/')}>
+            <Text style={styles.primaryBtnText}>Continue</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scroll} showsVerticalScrollIndicator={false}>
+
+          {/* Ban */}
+          <View style={styles.heroCard}>
+            <Ionicons name="ban-outline" size={48} color={COLORS.error} />
+            <Text style={styles.heroTitle}>
+              {ban.ends_at ? 'Your account is suspended' : 'Your account has been banned'}
+            </Text>
+            {ban.ends_at && (
+              <Text style={styles.heroSub}>Until {new Date(ban.ends_at).toLocaleString()}</Text>
+            )}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Reason</Text>
+            <Text style={styles.bodyText}>{ban.reason}</Text>
+          </View>
+
+          {/* Appeal */}
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Appeal</Text>
+            {appeal && status ? (
+              <>
+                <View style={styles.statusRow}>
+                  <Ionicons name={status.icon} size={20} color={status.color} />
+                  <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+                </View>
+                <Text style={styles.quote}>{appeal.message}</Text>
+                {appeal.review_notes && (
+                  <Text style={styles.bodyText}>{appeal.review_notes}</Text>
+                )}
+              </>
+            ) : (
+              <>
+                <Text style={styles.hint}>
+                  Think this is a mistake? Tell us why. You can appeal each ban once.
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  value={message}
+                  onChangeText={setMessage}
+                  placeholder="Explain what happened"
+                  placeholderTextColor={COLORS.textSecondary}
+                  multiline
+                  maxLength={2000}
+                />
+                <TouchableOpacity
+                  style={[styles.primaryBtn, message.trim().length < MIN_APPEAL_LENGTH && styles.btnDisabled]}
+                  onPress={() => appealMutation.mutate()}
+                  disabled={message.trim().length < MIN_APPEAL_LENGTH || appealMutation.isPending}
+                >
+                  {appealMutation.isPending
+                    ? <ActivityIndicator color="#fff" />
+                    : <Text style={styles.primaryBtnText}>Send Appeal</Text>}
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+
+          <TouchableOpacity style={styles.logoutBtn} onPress={handleLogout}>
+            <Ionicons name="log-out-outline" size={18} color={COLORS.textSecondary} />
+            <Text style={styles.logoutText}>Log out</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: '#F5F5F5' },
+  header: {
+    alignItems: 'center', backgroundColor: '#fff', paddingHorizontal: SPACING.lg, paddingVertical: SPACING.md,
+    borderBottomWidth: 1, borderBottomColor: '#F0F0F0', ...SHADOWS.sm,
+  },
+  headerTitle: { fontSize: TYPOGRAPHY.fontSizeLG, fontWeight: TYPOGRAPHY.fontWeightBold, color: COLORS.text },
+  scroll: { padding: SPACING.md, gap: SPACING.sm, paddingBottom: 60 },
+
+  heroCard: {
+    backgroundColor: '#fff', borderRadius: RADIUS.lg, padding: SPACING.xl,
+    alignItems: 'center', gap: SPACING.sm, ...SHADOWS.sm,
+  },
+  heroTitle: { fontSize: TYPOGRAPHY.fontSizeXL, fontWeight: '900', color: COLORS.text, textAlign: 'center' },
+  heroSub: { fontSize: TYPOGRAPHY.fontSizeSM, color: COLORS.textSecondary, textAlign: 'center' },
+
+  card: { backgroundColor: '#fff', borderRadius: RADIUS.md, padding: SPACING.lg, gap: SPACING.sm, ...SHADOWS.sm },
+  sectionTitle: {
+    fontSize: TYPOGRAPHY.fontSizeSM, fontWeight: TYPOGRAPHY.fontWeightSemiBold,
+    color: COLORS.textSecondary, textTransform: 'uppercase', letterSpacing: 0.5,
+  },
+  bodyText: { fontSize: TYPOGRAPHY.fontSizeMD, color: COLORS.text, lineHeight: 20 },
+  hint: { fontSize: TYPOGRAPHY.fontSizeSM, color: COLORS.textSecondary, lineHeight: 18 },
+  quote: {
+    fontSize: TYPOGRAPHY.fontSizeSM, color: COLORS.textSecondary, fontStyle: 'italic',
+    borderLeftWidth: 3, borderLeftColor: '#E0E0E0', paddingLeft: SPACING.sm,
+  },
+  statusRow: { flexDirection: 'row', alignItems: 'center', gap: SPACING.xs },
+  statusText: { fontSize: TYPOGRAPHY.fontSizeMD, fontWeight: TYPOGRAPHY.fontWeightSemiBold },
+
+  input: {
+    minHeight: 110, borderWidth: 1, borderColor: '#E0E0E0', borderRadius: RADIUS.sm,
+    padding: SPACING.md, fontSize: TYPOGRAPHY.fontSizeMD, color: COLORS.text, textAlignVertical: 'top',
+  },
+  primaryBtn: {
+    backgroundColor: COLORS.primary, borderRadius: RADIUS.md, paddingVertical: SPACING.md, alignItems: 'center',
+  },
+  btnDisabled: { opacity: 0.5 },
+  primaryBtnText: { color: '#fff', fontSize: TYPOGRAPHY.fontSizeMD, fontWeight: TYPOGRAPHY.fontWeightBold },
+
+  logoutBtn: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: SPACING.xs, padding: SPACING.md },
+  logoutText: { fontSize: TYPOGRAPHY.fontSizeMD, color: COLORS.textSecondary },
+});
@@ -5,12 +5,13 @@ import {
 } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
 import { COLORS, SPACING, TYPOGRAPHY, RADIUS, SHADOWS } from '../../constants/theme';
 import { transactionService } from '../../services/transaction.service';
 import { uploadService } from '../../services/upload.service';
+import { DisputeCaseView } from '../../components/transaction/DisputeCase';
 
 // ─── Reason options ─────────────────────────────────────────
 
@@ -62,6 +63,15 @@ export default function DisputeScreen() {
   const insets = useSafeAreaInsets();
   const queryClient = useQueryClient();
 
+  const { data: tx } = useQuery({
+    queryKey: ['transaction', id],
+    queryFn: () => transactionService.getById(id),
+  });
+  const hasCase = !!tx && tx.dispute_status !== 'none';
+  // Once the seller has been paid, only an "item not as described" claim can be filed
+  const isClaim = tx?.payment_status === 'released';
+  const reasons = isClaim ? REASONS.filter((r) => r.value === 'item_not_as_described') : REASONS;
+
   const [reason, setReason] = useState<DisputeReason | null>(null);
   const [details, setDetails] = useState('');
   const [evidence, setEvidence] = useState<string[]>([]);
@@ -76,8 +86,7 @@ export default function DisputeScreen() {
       queryClient.invalidateQueries({ queryKey: ['transaction', id] });
       Alert.alert(
         'Dispute Opened',
-        'Our team will review your case within 24–48 hours. You can track status in the transaction screen.',
-        [{ text: 'OK', onPress: () => router.back() }],
+        'The other party has been asked to respond. Add evidence and follow the case here.',
       );
     },
     onError: (e: any) => Alert.alert('Error', e?.response?.data?.error ?? e.message ?? 'Failed to open dispute'),
@@ -124,124 +133,133 @@ export default function DisputeScreen() {
         <TouchableOpacity onPress={() => router.back()} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
           <Ionicons name="chevron-back" size={24} color={COLORS.text} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Open Dispute</Text>
+        <Text style={styles.headerTitle}>{hasCase ? 'Dispute' : isClaim ? 'File a Claim' : 'Open Dispute'}</Text>
         <View style={{ width: 32 }} />
       </View>
 
-      <ScrollView contentContainerStyle={styles.scroll} showsVerticalScrollIndicator={false}>
+      {hasCase ? (
+        <ScrollView contentContainerStyle={styles.scroll} showsVerticalScrollIndicator={false}>
+          <DisputeCaseView transactionId={id} />
+        </ScrollView>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scroll} showsVerticalScrollIndicator={false}>
 
-        {/* Warning banner */}
-        <View style={styles.warningBanner}>
-          <Ionicons name="information-circle" size={18} color="#D97706" />
-          <Text style={styles.warningText}>
-            Disputes are reviewed by the Kaero team. Filing a false dispute may result in account suspension.
-          </Text>
-        </View>
+          {/* Warning banner */}
+          <View style={styles.warningBanner}>
+            <Ionicons name="information-circle" size={18} color="#D97706" />
+            <Text style={styles.warningText}>
+              {isClaim
+                ? 'The seller has already been paid. Filing a claim holds that amount from their wallet until the Kaero team decides. '
+                : 'Disputes are reviewed by the Kaero team. '}
+              Filing a false dispute may result in account suspension.
+            </Text>
+          </View>
+
+          {/* Reason picker */}
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Reason for Dispute</Text>
+            {reasons.map(r => (
+              <TouchableOpacity
+                key={r.value}
+                style={[styles.reasonRow, reason === r.value && styles.reasonRowActive]}
+                onPress={() => setReason(r.value)}
+                activeOpacity={0.7}
+              >
+                <View style={[styles.reasonIcon, reason === r.value && styles.reasonIconActive]}>
+                  <Ionicons name={r.icon as any} size={20} color={reason === r.value ? '#fff' : COLORS.textSecondary} />
+                </View>
+                <View style={styles.reasonInfo}>
+                  <Text style={[styles.reasonLabel, reason === r.value && styles.reasonLabelActive]}>{r.label}</Text>
+                  <Text style={styles.reasonDesc}>{r.description}</Text>
+                </View>
+                <View style={[styles.radio, reason === r.value && styles.radioActive]}>
+                  {reason === r.value && <View style={styles.radioDot} />}
+                </View>
+              </TouchableOpacity>
+            ))}
+          </View>
 
-        {/* Reason picker */}
-        <View style={styles.card}>
-          <Text style={styles.sectionTitle}>Reason for Dispute</Text>
-          {REASONS.map(r => (
-            <TouchableOpacity
-              key={r.value}
-              style={[styles.reasonRow, reason === r.value && styles.reasonRowActive]}
-              onPress={() => setReason(r.value)}
-              activeOpacity={0.7}
-            >
-              <View style={[styles.reasonIcon, reason === r.value && styles.reasonIconActive]}>
-                <Ionicons name={r.icon as any} size={20} color={reason === r.value ? '#fff' : COLORS.textSecondary} />
-              </View>
-              <View style={styles.reasonInfo}>
-                <Text style={[styles.reasonLabel, reason === r.value && styles.reasonLabelActive]}>{r.label}</Text>
-                <Text style={styles.reasonDesc}>{r.description}</Text>
-              </View>
-              <View style={[styles.radio, reason === r.value && styles.radioActive]}>
-                {reason === r.value && <View style={styles.radioDot} />}
-              </View>
-            </TouchableOpacity>
-          ))}
-        </View>
+          {/* Details */}
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Describe the Issue</Text>
+            <Text style={styles.inputHint}>Minimum 10 characters. Be specific and factual.</Text>
+            <TextInput
+              style={styles.detailsInput}
+              value={details}
+              onChangeText={setDetails}
+              placeholder="Explain what happened in detail..."
+              placeholderTextColor="#B0B0B0"
+              multiline
+              numberOfLines={5}
+              textAlignVertical="top"
+              maxLength={1000}
+            />
+            <Text style={styles.charCount}>{details.length}/1000</Text>
+          </View>
 
-        {/* Details */}
-        <View style={styles.card}>
-          <Text style={styles.sectionTitle}>Describe the Issue</Text>
-          <Text style={styles.inputHint}>Minimum 10 characters. Be specific and factual.</Text>
-          <TextInput
-            style={styles.detailsInput}
-            value={details}
-            onChangeText={setDetails}
-            placeholder="Explain what happened in detail..."
-            placeholderTextColor="#B0B0B0"
-            multiline
-            numberOfLines={5}
-            textAlignVertical="top"
-            maxLength={1000}
-          />
-          <Text style={styles.charCount}>{details.length}/1000</Text>
-        </View>
+          {/* Evidence photos */}
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Evidence Photos</Text>
+            <Text style={styles.inputHint}>Optional but recommended. Up to 5 photos (receipts, damage, chat screenshots).</Text>
 
-        {/* Evidence photos */}
-        <View style={styles.card}>
-          <Text style={styles.sectionTitle}>Evidence Photos</Text>
-          <Text style={styles.inputHint}>Optional but recommended. Up to 5 photos (receipts, damage, chat screenshots).</Text>
+            <View style={styles.evidenceGrid}>
+              {evidence.map((uri, i) => (
+                <View key={i} style={styles.evidenceThumb}>
+                  <Image source={{ uri }} style={styles.evidenceImg} />
+                  <TouchableOpacity style={styles.evidenceRemove} onPress={() => removeEvidence(i)}>
+                    <Ionicons name="close-circle" size={20} color="#fff" />
+                  </TouchableOpacity>
+                </View>
+              ))}
 
-          <View style={styles.evidenceGrid}>
-            {evidence.map((uri, i) => (
-              <View key={i} style={styles.evidenceThumb}>
-                <Image source={{ uri }} style={styles.evidenceImg} />
-                <TouchableOpacity style={styles.evidenceRemove} onPress={() => removeEvidence(i)}>
-                  <Ionicons name="close-circle" size={20} color="#fff" />
+              {evidence.length < 5 && (
+                <TouchableOpacity style={styles.addPhotoBtn} onPress={pickEvidence} disabled={uploading}>
+                  {uploading
+                    ? <ActivityIndicator size="small" color={COLORS.primary} />
+                    : (
+                      <>
+                        <Ionicons name="camera-outline" size={24} color={COLORS.primary} />
+                        <Text style={styles.addPhotoText}>Add Photo</Text>
+                      </>
+                    )
+                  }
                 </TouchableOpacity>
-              </View>
-            ))}
-
-            {evidence.length < 5 && (
-              <TouchableOpacity style={styles.addPhotoBtn} onPress={pickEvidence} disabled={uploading}>
-                {uploading
-                  ? <ActivityIndicator size="small" color={COLORS.primary} />
-                  : (
-                    <>
-                      <Ionicons name="camera-outline" size={24} color={COLORS.primary} />
-                      <Text style={styles.addPhotoText}>Add Photo</Text>
-                    </>
-                  )
-                }
-              </TouchableOpacity>
-            )}
+              )}
+            </View>
           </View>
-        </View>
 
-        {/* Submit */}
-        <TouchableOpacity
-          style={[styles.submitBtn, !canSubmit && styles.submitBtnDisabled]}
-          onPress={() => {
-            Alert.alert(
-              'Submit Dispute',
-              'Are you sure you want to open a dispute? This will pause the transaction until resolved.',
-              [
-                { text: 'Cancel', style: 'cancel' },
-                { text: 'Submit', style: 'destructive', onPress: () => mutation.mutate() },
-              ],
-            );
-          }}
-          disabled={!canSubmit}
-        >
-          {mutation.isPending
-            ? <ActivityIndicator color="#fff" size="small" />
-            : (
-              <>
-                <Ionicons name="warning-outline" size={20} color="#fff" />
-                <Text style={styles.submitText}>Submit Dispute</Text>
-              </>
-            )
-          }
-        </TouchableOpacity>
+          {/* Submit */}
+          <TouchableOpacity
+            style={[styles.submitBtn, !canSubmit && styles.submitBtnDisabled]}
+            onPress={() => {
+              Alert.alert(
+                'Submit Dispute',
+                'Are you sure you want to open a dispute? This will pause the transaction until resolved.',
+                [
+                  { text: 'Cancel', style: 'cancel' },
+                  { text: 'Submit', style: 'destructive', onPress: () => mutation.mutate() },
+                ],
+              );
+            }}
+            disabled={!canSubmit}
+          >
+            {mutation.isPending
+              ? <ActivityIndicator color="#fff" size="small" />
+              : (
+                <>
+                  <Ionicons name="warning-outline" size={20} color="#fff" />
+                  <Text style={styles.submitText}>Submit Dispute</Text>
+                </>
+              )
+            }
+          </TouchableOpacity>
 
-        <Text style={styles.footer}>
-          Kaero support responds within 24–48 hours on business days.
-        </Text>
+          <Text style={styles.footer}>
+            The other party has 48 hours to respond, and Kaero support aims to resolve every case within 5 days.
+          </Text>
 
-      </ScrollView>
+        </ScrollView>
+      )}
     </View>
   );
 }
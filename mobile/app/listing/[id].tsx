@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import {
   View, Text, ScrollView, Image, TouchableOpacity, StyleSheet,
-  Dimensions, ActivityIndicator, Alert, Share, FlatList,
+  Dimensions, ActivityIndicator, Alert, Share, FlatList, Linking,
 } from 'react-native';
 import MapView, { Marker, Circle } from 'react-native-maps';
 import { useLocalSearchParams, useRouter } from 'expo-router';
@@ -107,9 +107,17 @@ export default function ListingDetailScreen() {
     });
   };
 
-  const handleBoost = async (tier: 'basic' | 'standard' | 'premium') => {
+  const handleBoost = async (
+    tier: 'basic' | 'standard' | 'premium',
+    method: 'wallet' | 'credits' | 'paymob' | 'subscription',
+  ) => {
     try {
-      const res = await referralService.boostListing(id, tier);
+      const res = await referralService.boostListing(id, tier, method);
+      if (res.payment?.iframeUrl) {
+        // Featured once Paymob confirms the card payment
+        Linking.openURL(res.payment.iframeUrl);
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ['listing', id] });
       Alert.alert('Listing Boosted!', res.message);
     } catch (e: any) {
@@ -117,6 +125,39 @@ export default function ListingDetailScreen() {
     }
   };
 
+  const handleBuyNow = () => {
+    if (!user) { Alert.alert('Login required', 'Sign in to buy this item'); return; }
+    Alert.alert(
+      'Buy Now',
+      `Buy "${listing.user_edited_title}" for ${Number(listing.final_price).toLocaleString()} EGP? The item is reserved for you until you pay.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Buy',
+          onPress: async () => {
+            try {
+              const txn = await listingService.buyNow(id);
+              queryClient.invalidateQueries({ queryKey: ['listing', id] });
+              router.push(`/payment/${txn.id}` as any);
+            } catch (e: any) {
+              Alert.alert('Error', e?.response?.data?.error ?? 'Purchase failed');
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const chooseBoostPayment = (tier: 'basic' | 'standard' | 'premium') => {
+    Alert.alert('Pay for Boost', 'How would you like to pay?', [
+      { text: 'Wallet balance', onPress: () => handleBoost(tier, 'wallet') },
+      { text: 'Referral credits', onPress: () => handleBoost(tier, 'credits') },
+      ...(tier !== 'premium' ? [{ text: 'Premium free boost', onPress: () => handleBoost(tier, 'subscription') }] : []),
+      { text: 'Card', onPress: () => handleBoost(tier, 'paymob') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   return (
     <View style={{ flex: 1, backgroundColor: '#F5F5F5' }}>
       <ScrollView showsVerticalScrollIndicator={false} contentContainerStyle={{ paddingBottom: 120 }}>
@@ -277,7 +318,9 @@ export default function ListingDetailScreen() {
               <View style={styles.sellerInfo}>
                 <Text style={styles.sellerName}>{listing.seller.full_name}</Text>
                 <Stars rating={listing.seller.trust_score ?? 5} size={14} showNumber count={listing.seller.total_reviews} />
-                {listing.seller.is_phone_verified && (
+                {listing.seller.is_verified_store ? (
+                  <Text style={styles.verifiedText}>✓ Verified Store</Text>
+                ) : listing.seller.is_phone_verified && (
                   <Text style={styles.verifiedText}>✓ Verified</Text>
                 )}
               </View>
@@ -327,6 +370,12 @@ export default function ListingDetailScreen() {
             <Ionicons name="pricetag" size={20} color="#fff" />
             <Text style={styles.offerBtnText}>Make Offer</Text>
           </TouchableOpacity>
+          {listing.instant_buy_enabled !== false && listing.status === 'active' && (
+            <TouchableOpacity style={styles.offerBtn} onPress={handleBuyNow}>
+              <Ionicons name="flash" size={20} color="#fff" />
+              <Text style={styles.offerBtnText}>Buy Now</Text>
+            </TouchableOpacity>
+          )}
         </View>
       )}
       {isOwner && (
@@ -342,9 +391,9 @@ export default function ListingDetailScreen() {
             style={[styles.chatBtn]}
             onPress={() => {
               Alert.alert('Boost Listing', 'Choose a boost tier:', [
-                { text: 'Basic — 15 EGP / 1 day',     onPress: () => handleBoost('basic') },
-                { text: 'Standard — 49 EGP / 7 days',  onPress: () => handleBoost('standard') },
-                { text: 'Premium — 149 EGP / 30 days', onPress: () => handleBoost('premium') },
+                { text: 'Basic — 15 EGP / 1 day',     onPress: () => chooseBoostPayment('basic') },
+                { text: 'Standard — 49 EGP / 7 days',  onPress: () => chooseBoostPayment('standard') },
+                { text: 'Premium — 149 EGP / 30 days', onPress: () => chooseBoostPayment('premium') },
                 { text: 'Cancel', style: 'cancel' },
               ]);
             }}
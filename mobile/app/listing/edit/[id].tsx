@@ -10,6 +10,7 @@ import {
   ActivityIndicator,
   KeyboardAvoidingView,
   Platform,
+  Switch,
 } from 'react-native';
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
@@ -20,6 +21,17 @@ import { useAuthStore } from '../../../store/authStore';
 
 // ─── Constants ────────────────────────────────────────────────────────────────
 
+type AutoRule = 'auto_accept_at' | 'auto_decline_below' | 'auto_counter_at';
+
+const AUTO_RULES: { key: AutoRule; label: string }[] = [
+  { key: 'auto_accept_at', label: 'Accept offers at or above' },
+  { key: 'auto_counter_at', label: 'Counter lower offers at' },
+  { key: 'auto_decline_below', label: 'Decline offers below' },
+];
+
+// Hours each offer round stays open; null uses the platform default (24h)
+const OFFER_WINDOWS: (number | null)[] = [null, 6, 12, 48, 72];
+
 const CONDITIONS = ['new', 'like_new', 'good', 'fair', 'poor'] as const;
 type Condition = typeof CONDITIONS[number];
 
@@ -53,6 +65,11 @@ export default function EditListingScreen() {
   const [price, setPrice]               = useState('');
   const [condition, setCondition]       = useState<Condition>('good');
   const [status, setStatus]             = useState<ListingStatus>('active');
+  const [instantBuy, setInstantBuy]     = useState(true);
+  const [offerWindow, setOfferWindow]   = useState<number | null>(null);
+  const [autoRules, setAutoRules]       = useState<Record<AutoRule, string>>({
+    auto_accept_at: '', auto_decline_below: '', auto_counter_at: '',
+  });
   const [initialised, setInitialised]   = useState(false);
 
   // ── Load listing ──────────────────────────────────────────────────────────
@@ -70,6 +87,22 @@ export default function EditListingScreen() {
     enabled: !!id,
   });
 
+  const { data: offerRules } = useQuery({
+    queryKey: ['offer-rules', id],
+    queryFn: () => api.get(`/listings/${id}/offer-rules`).then((r) => r.data.rules),
+    enabled: !!id,
+  });
+
+  React.useEffect(() => {
+    if (offerRules) {
+      setAutoRules({
+        auto_accept_at: offerRules.auto_accept_at != null ? String(offerRules.auto_accept_at) : '',
+        auto_decline_below: offerRules.auto_decline_below != null ? String(offerRules.auto_decline_below) : '',
+        auto_counter_at: offerRules.auto_counter_at != null ? String(offerRules.auto_counter_at) : '',
+      });
+    }
+  }, [offerRules]);
+
   // Populate form once listing is fetched (run once)
   React.useEffect(() => {
     if (listing && !initialised) {
@@ -78,6 +111,8 @@ export default function EditListingScreen() {
       setPrice(String(listing.final_price ?? ''));
       setCondition((listing.condition as Condition) ?? 'good');
       setStatus((listing.status as ListingStatus) ?? 'active');
+      setInstantBuy(listing.instant_buy_enabled !== false);
+      setOfferWindow(listing.offer_window_hours ?? null);
       setInitialised(true);
     }
   }, [listing, initialised]);
@@ -91,9 +126,20 @@ export default function EditListingScreen() {
       final_price: number;
       condition: Condition;
       status: ListingStatus;
-    }) => api.patch(`/listings/${id}`, payload).then((r) => r.data.listing),
+      instant_buy_enabled: boolean;
+      offer_window_hours: number | null;
+    }) => api.patch(`/listings/${id}`, payload).then(async (r) => {
+      const toPrice = (v: string) => (v.trim() && Number(v) > 0 ? Number(v) : null);
+      await api.put(`/listings/${id}/offer-rules`, {
+        auto_accept_at: toPrice(autoRules.auto_accept_at),
+        auto_decline_below: toPrice(autoRules.auto_decline_below),
+        auto_counter_at: toPrice(autoRules.auto_counter_at),
+      });
+      return r.data.listing;
+    }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['listing', id] });
+      queryClient.invalidateQueries({ queryKey: ['offer-rules', id] });
       queryClient.invalidateQueries({ queryKey: ['my-listings'] });
       Alert.alert('Updated!', 'Your listing has been saved.', [
         { text: 'OK', onPress: () => router.back() },
@@ -120,6 +166,8 @@ export default function EditListingScreen() {
       final_price: Number(price),
       condition,
       status,
+      instant_buy_enabled: instantBuy,
+      offer_window_hours: offerWindow,
     });
   };
 
@@ -319,6 +367,62 @@ export default function EditListingScreen() {
             )}
           </View>
 
+          {/* ── Instant buy ── */}
+          <View style={[styles.section, styles.switchRow]}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.label}>Allow Buy Now</Text>
+              <Text style={styles.switchHint}>
+                Buyers can purchase instantly at your price instead of making an offer.
+              </Text>
+            </View>
+            <Switch
+              value={instantBuy}
+              onValueChange={setInstantBuy}
+              trackColor={{ true: COLORS.primary }}
+            />
+          </View>
+
+          {/* ── Offer window ── */}
+          <View style={styles.section}>
+            <Text style={styles.label}>Offers expire after</Text>
+            <View style={styles.pillRow}>
+              {OFFER_WINDOWS.map((h) => (
+                <TouchableOpacity
+                  key={String(h)}
+                  style={[styles.pill, offerWindow === h && styles.pillActive]}
+                  onPress={() => setOfferWindow(h)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.pillText, offerWindow === h && styles.pillTextActive]}>
+                    {h === null ? 'Default (24h)' : `${h}h`}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.switchHint}>How long buyers and you each have to respond to an offer.</Text>
+          </View>
+
+          {/* ── Auto-response rules ── */}
+          <View style={styles.section}>
+            <Text style={styles.label}>Automatic responses</Text>
+            <Text style={styles.switchHint}>
+              Leave blank to handle offers yourself. Buyers are told when a response was automatic.
+            </Text>
+            {AUTO_RULES.map(({ key, label }) => (
+              <View key={key} style={[styles.switchRow, { marginTop: SPACING.sm }]}>
+                <Text style={[styles.switchHint, { flex: 1 }]}>{label}</Text>
+                <TextInput
+                  style={[styles.input, { width: 120 }]}
+                  value={autoRules[key]}
+                  onChangeText={(v) => setAutoRules((r) => ({ ...r, [key]: v }))}
+                  keyboardType="numeric"
+                  placeholder="EGP"
+                  placeholderTextColor={COLORS.textTertiary}
+                />
+              </View>
+            ))}
+          </View>
+
           {/* ── Save button ── */}
           <View style={styles.footer}>
             <TouchableOpacity
@@ -446,6 +550,9 @@ const styles = StyleSheet.create({
     minWidth: 36,
   },
 
+  switchRow: { flexDirection: 'row', alignItems: 'center', gap: SPACING.md },
+  switchHint: { fontSize: TYPOGRAPHY.fontSizeSM, color: COLORS.textSecondary },
+
   // ── Pills (condition + status) ──
   pillRow: {
     flexDirection: 'row',
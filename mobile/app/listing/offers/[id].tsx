@@ -1,4 +1,4 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useState } from 'react';
 import {
   View,
   Text,
@@ -17,6 +17,7 @@ import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { COLORS, SPACING, TYPOGRAPHY, RADIUS, SHADOWS } from '../../../constants/theme';
 import api from '../../../services/api';
+import { offerService, OfferRound } from '../../../services/offer.service';
 
 // ─── Types ────────────────────────────────────────────────
 
@@ -27,11 +28,15 @@ interface Offer {
   buyer_avatar?: string | null;
   amount: number;
   offered_price?: number;
-  status: 'pending' | 'accepted' | 'declined' | 'countered';
+  status: 'pending' | 'accepted' | 'rejected' | 'expired' | 'countered';
   message?: string | null;
   created_at: string;
   counter_amount?: number | null;
   counter_price?: number | null;
+  round_count?: number;
+  is_exchange_proposal?: boolean;
+  exchange_listing_title?: string | null;
+  cash_topup?: number | string;
 }
 
 interface Listing {
@@ -77,11 +82,16 @@ const STATUS_CONFIG: Record<
     textColor: COLORS.success,
     bgColor: '#F0FBF0',
   },
-  declined: {
+  rejected: {
     label: 'Declined',
     textColor: COLORS.error,
     bgColor: '#FEF2F2',
   },
+  expired: {
+    label: 'Expired',
+    textColor: COLORS.textSecondary,
+    bgColor: COLORS.background,
+  },
   countered: {
     label: 'Countered',
     textColor: COLORS.info,
@@ -117,6 +127,57 @@ function InitialsAvatar({ name }: { name: string }) {
   );
 }
 
+// ─── Negotiation timeline ─────────────────────────────────
+
+const ROUND_STATUS_LABELS: Record<OfferRound['status'], string> = {
+  open: 'Awaiting reply',
+  countered: 'Countered',
+  accepted: 'Accepted',
+  rejected: 'Declined',
+  withdrawn: 'Withdrawn',
+  expired: 'Expired',
+};
+
+function NegotiationTimeline({ offerId }: { offerId: string }) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['offer-rounds', offerId],
+    queryFn: () => offerService.getRounds(offerId),
+  });
+
+  if (isLoading) return <ActivityIndicator size="small" color={COLORS.primary} />;
+  if (!data?.rounds.length) return null;
+
+  return (
+    <View style={styles.timeline}>
+      {data.rounds.map((round, i) => {
+        const isSeller = round.proposer_role === 'seller';
+        const isLast = i === data.rounds.length - 1;
+        return (
+          <View key={round.id} style={styles.timelineRow}>
+            <View style={styles.timelineRail}>
+              <View style={[styles.timelineDot, { backgroundColor: isSeller ? COLORS.info : COLORS.primary }]} />
+              {!isLast && <View style={styles.timelineLine} />}
+            </View>
+            <View style={styles.timelineBody}>
+              <Text style={styles.timelineTitle}>
+                {isSeller ? (round.is_automatic ? 'Your auto-rule' : 'You') : 'Buyer'} proposed{' '}
+                <Text style={styles.counterValue}>{Number(round.price).toLocaleString()} EGP</Text>
+              </Text>
+              {round.message ? <Text style={styles.timelineMessage}>"{round.message}"</Text> : null}
+              <Text style={styles.timelineMeta}>
+                Round {round.round_number} · {timeAgo(round.created_at)} · {ROUND_STATUS_LABELS[round.status]}
+              </Text>
+            </View>
+          </View>
+        );
+      })}
+      <Text style={styles.timelineMeta}>
+        {data.rounds.length} of {data.max_rounds} rounds used
+      </Text>
+    </View>
+  );
+}
+
 // ─── Offer card component ─────────────────────────────────
 
 interface OfferCardProps {
@@ -143,8 +204,10 @@ function OfferCard({
     bgColor: COLORS.background,
   };
   const isPending = status === 'pending';
+  const [showHistory, setShowHistory] = useState(false);
   const offerAmount = offer.amount ?? offer.offered_price ?? 0;
   const counterAmt = offer.counter_amount ?? offer.counter_price;
+  const topup = Number(offer.cash_topup ?? 0);
 
   return (
     <View style={styles.offerCard}>
@@ -164,12 +227,24 @@ function OfferCard({
       </View>
 
       {/* Offer amount */}
-      <View style={styles.amountRow}>
-        <Text style={styles.amountLabel}>Offer amount</Text>
-        <Text style={styles.amountValue}>
-          {Number(offerAmount).toLocaleString()} EGP
-        </Text>
-      </View>
+      {offer.is_exchange_proposal ? (
+        <View style={styles.counterRow}>
+          <Ionicons name="swap-horizontal-outline" size={14} color={COLORS.info} />
+          <Text style={styles.counterLabel}>
+            Swap for{' '}
+            <Text style={styles.counterValue}>{offer.exchange_listing_title ?? 'their item'}</Text>
+            {topup > 0 ? ` + ${topup.toLocaleString()} EGP from buyer` : ''}
+            {topup < 0 ? ` + ${(-topup).toLocaleString()} EGP from you` : ''}
+          </Text>
+        </View>
+      ) : (
+        <View style={styles.amountRow}>
+          <Text style={styles.amountLabel}>Offer amount</Text>
+          <Text style={styles.amountValue}>
+            {Number(offerAmount).toLocaleString()} EGP
+          </Text>
+        </View>
+      )}
 
       {/* Counter amount (if present) */}
       {counterAmt ? (
@@ -196,7 +271,18 @@ function OfferCard({
         </View>
       ) : null}
 
-      {/* Actions — only for pending offers */}
+      {/* Negotiation history */}
+      {(offer.round_count ?? 1) > 1 && (
+        <TouchableOpacity style={styles.historyToggle} onPress={() => setShowHistory((v) => !v)}>
+          <Ionicons name={showHistory ? 'chevron-up' : 'time-outline'} size={14} color={COLORS.textSecondary} />
+          <Text style={styles.historyToggleText}>
+            {showHistory ? 'Hide negotiation' : `Negotiation history (${offer.round_count} rounds)`}
+          </Text>
+        </TouchableOpacity>
+      )}
+      {showHistory && <NegotiationTimeline offerId={offer.id} />}
+
+      {/* Actions — only while the buyer is waiting on the seller */}
       {isPending && (
         <View style={styles.actionRow}>
           {/* Accept */}
@@ -205,7 +291,9 @@ function OfferCard({
             onPress={() =>
               Alert.alert(
                 'Accept Offer',
-                `Accept ${Number(offerAmount).toLocaleString()} EGP from ${offer.buyer_name}?`,
+                offer.is_exchange_proposal
+                  ? `Swap your item with ${offer.buyer_name}? Both listings will be reserved.`
+                  : `Accept ${Number(offerAmount).toLocaleString()} EGP from ${offer.buyer_name}?`,
                 [
                   { text: 'Cancel', style: 'cancel' },
                   {
@@ -258,8 +346,8 @@ function OfferCard({
             )}
           </TouchableOpacity>
 
-          {/* Counter */}
-          <TouchableOpacity
+          {/* Counter — swaps are accepted or declined as proposed */}
+          {!offer.is_exchange_proposal && <TouchableOpacity
             style={styles.counterBtn}
             onPress={() => onCounter(offer.id, Number(offerAmount))}
             disabled={isAccepting || isDeclining}
@@ -267,7 +355,7 @@ function OfferCard({
           >
             <Ionicons name="swap-horizontal" size={16} color={COLORS.textSecondary} />
             <Text style={styles.counterBtnText}>Counter</Text>
-          </TouchableOpacity>
+          </TouchableOpacity>}
         </View>
       )}
     </View>
@@ -312,8 +400,7 @@ export default function ListingOffersScreen() {
   // ── Mutations ───────────────────────────────────────
 
   const acceptMutation = useMutation({
-    mutationFn: (offerId: string) =>
-      api.patch(`/offers/${offerId}`, { action: 'accept' }),
+    mutationFn: (offerId: string) => offerService.accept(offerId),
     onSuccess: () => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       queryClient.invalidateQueries({ queryKey: ['listing-offers', id] });
@@ -327,8 +414,7 @@ export default function ListingOffersScreen() {
   });
 
   const declineMutation = useMutation({
-    mutationFn: (offerId: string) =>
-      api.patch(`/offers/${offerId}`, { action: 'decline' }),
+    mutationFn: (offerId: string) => offerService.reject(offerId),
     onSuccess: () => {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
       queryClient.invalidateQueries({ queryKey: ['listing-offers', id] });
@@ -344,9 +430,10 @@ export default function ListingOffersScreen() {
     }: {
       offerId: string;
       counter_amount: number;
-    }) => api.patch(`/offers/${offerId}`, { action: 'counter', counter_amount }),
-    onSuccess: () => {
+    }) => offerService.counter(offerId, counter_amount),
+    onSuccess: (_res, { offerId }) => {
       queryClient.invalidateQueries({ queryKey: ['listing-offers', id] });
+      queryClient.invalidateQueries({ queryKey: ['offer-rounds', offerId] });
       Alert.alert('Counter sent!', 'The buyer will be notified of your counter offer.');
     },
     onError: (e: any) =>
@@ -683,6 +770,63 @@ const styles = StyleSheet.create({
     fontWeight: TYPOGRAPHY.fontWeightBold,
   },
 
+  // Negotiation timeline
+  historyToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+  },
+  historyToggleText: {
+    fontSize: TYPOGRAPHY.fontSizeSM,
+    color: COLORS.textSecondary,
+    fontWeight: TYPOGRAPHY.fontWeightSemiBold,
+  },
+  timeline: {
+    backgroundColor: COLORS.surfaceAlt,
+    borderRadius: RADIUS.sm,
+    padding: SPACING.sm,
+    gap: SPACING.xs,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+  },
+  timelineRail: {
+    alignItems: 'center',
+    width: 12,
+  },
+  timelineDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginTop: 4,
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: COLORS.borderLight,
+    marginTop: 2,
+  },
+  timelineBody: {
+    flex: 1,
+    paddingBottom: SPACING.sm,
+  },
+  timelineTitle: {
+    fontSize: TYPOGRAPHY.fontSizeSM,
+    color: COLORS.text,
+  },
+  timelineMessage: {
+    fontSize: TYPOGRAPHY.fontSizeSM,
+    color: COLORS.textSecondary,
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  timelineMeta: {
+    fontSize: 11,
+    color: COLORS.textTertiary,
+    marginTop: 2,
+  },
+
   // Message
   messageBox: {
     flexDirection: 'row',
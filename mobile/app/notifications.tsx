@@ -55,7 +55,10 @@ export default function NotificationsScreen() {
     const nav = item.data ?? {};
     if (nav.screen === 'chat' && nav.chatId) router.push(`/chat/${nav.chatId}`);
     else if (nav.screen === 'payment' && nav.transactionId) router.push(`/payment/${nav.transactionId}`);
+    else if (nav.screen === 'transaction' && nav.transactionId) router.push(`/transaction/${nav.transactionId}` as any);
+    else if (nav.screen === 'dispute' && nav.transactionId) router.push(`/dispute/${nav.transactionId}` as any);
     else if (nav.screen === 'listing' && nav.listingId) router.push(`/listing/${nav.listingId}`);
+    else if (nav.screen === 'offers') router.push('/offers');
     else if (nav.screen === 'profile') router.push('/(tabs)/profile');
   };
 
@@ -11,6 +11,7 @@ import * as Haptics from 'expo-haptics';
 import { COLORS, SPACING, TYPOGRAPHY, RADIUS, PAYMENT_LABELS } from '../../constants/theme';
 import { offerService } from '../../services/offer.service';
 import { listingService } from '../../services/listing.service';
+import { useAuthStore } from '../../store/authStore';
 
 const QUICK_AMOUNTS = [0.9, 0.85, 0.8, 0.75]; // % of listing price
 
@@ -22,6 +23,10 @@ export default function MakeOfferScreen() {
   const [price, setPrice] = useState('');
   const [message, setMessage] = useState('');
   const [isExchange, setIsExchange] = useState(false);
+  const [exchangeListingId, setExchangeListingId] = useState<string | null>(null);
+  const [topup, setTopup] = useState('');
+  const [sellerAddsCash, setSellerAddsCash] = useState(false);
+  const { user } = useAuthStore();
 
   const { data: listing } = useQuery({
     queryKey: ['listing', listingId],
@@ -29,23 +34,53 @@ export default function MakeOfferScreen() {
     enabled: !!listingId,
   });
 
+  const { data: myListings } = useQuery({
+    queryKey: ['my-listings', user?.id],
+    queryFn: () => user ? listingService.getByUser(user.id) : Promise.resolve([]),
+    enabled: isExchange && !!user,
+  });
+  const swappable = (myListings ?? []).filter((l: any) => l.status === 'active' && l.id !== listingId);
+
   const offerMutation = useMutation({
-    mutationFn: () => offerService.create({
-      listing_id: listingId,
-      offered_price: Number(price),
-      message: message.trim() || undefined,
-      is_exchange_proposal: isExchange,
-    }),
-    onSuccess: () => {
+    mutationFn: () => offerService.create(isExchange
+      ? {
+        listing_id: listingId,
+        message: message.trim() || undefined,
+        is_exchange_proposal: true,
+        exchange_listing_id: exchangeListingId!,
+        cash_topup: (Number(topup) || 0) * (sellerAddsCash ? -1 : 1),
+      }
+      : {
+        listing_id: listingId,
+        offered_price: Number(price),
+        message: message.trim() || undefined,
+      }),
+    onSuccess: (res) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      Alert.alert('Offer Sent!', 'The seller will review your offer and respond shortly.', [
-        { text: 'OK', onPress: () => router.back() },
-      ]);
+      // The seller's automatic rules may already have answered
+      if (res.auto_response === 'accepted' && res.transaction) {
+        Alert.alert('Offer Accepted!', 'The seller\'s auto-accept rule accepted your offer. Continue to payment.', [
+          { text: 'Pay now', onPress: () => router.replace(`/payment/${res.transaction!.id}` as any) },
+        ]);
+      } else if (res.auto_response === 'declined') {
+        Alert.alert('Offer Declined', 'This offer is below the seller\'s minimum and was declined automatically.');
+      } else if (res.auto_response === 'countered') {
+        Alert.alert(
+          'Automatic Counter Offer',
+          `The seller's rules countered at ${Number(res.offer.counter_price).toLocaleString()} EGP. You can accept or counter from your offers.`,
+          [{ text: 'OK', onPress: () => router.back() }],
+        );
+      } else {
+        Alert.alert('Offer Sent!', 'The seller will review your offer and respond shortly.', [
+          { text: 'OK', onPress: () => router.back() },
+        ]);
+      }
     },
     onError: (e: any) => Alert.alert('Error', e?.response?.data?.error ?? 'Failed to send offer'),
   });
 
   const askingPrice = listing?.final_price ?? 0;
+  const canSubmit = isExchange ? !!exchangeListingId : !!price && Number(price) > 0;
 
   return (
     <KeyboardAvoidingView style={{ flex: 1 }} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
@@ -71,7 +106,7 @@ export default function MakeOfferScreen() {
           )}
 
           {/* Quick amounts */}
-          {askingPrice > 0 && (
+          {!isExchange && askingPrice > 0 && (
             <View style={styles.section}>
               <Text style={styles.sectionLabel}>Quick Select</Text>
               <View style={styles.quickRow}>
@@ -97,7 +132,7 @@ export default function MakeOfferScreen() {
           )}
 
           {/* Price input */}
-          <View style={styles.section}>
+          {!isExchange && <View style={styles.section}>
             <Text style={styles.sectionLabel}>Your Offer (EGP) *</Text>
             <View style={styles.priceRow}>
               <TextInput
@@ -120,7 +155,7 @@ export default function MakeOfferScreen() {
                     : 'Equal to asking price'}
               </Text>
             )}
-          </View>
+          </View>}
 
           {/* Message */}
           <View style={styles.section}>
@@ -155,6 +190,54 @@ export default function MakeOfferScreen() {
             </View>
           </TouchableOpacity>
 
+          {isExchange && (
+            <>
+              <View style={styles.section}>
+                <Text style={styles.sectionLabel}>Your Item *</Text>
+                {swappable.length === 0
+                  ? <Text style={styles.exchangeSub}>You have no active listings to offer.</Text>
+                  : swappable.map((l: any) => (
+                    <TouchableOpacity
+                      key={l.id}
+                      style={[styles.swapItem, exchangeListingId === l.id && styles.exchangeActive]}
+                      onPress={() => setExchangeListingId(l.id)}
+                    >
+                      <Text style={styles.exchangeLabel} numberOfLines={1}>{l.user_edited_title}</Text>
+                      <Text style={styles.exchangeSub}>{Number(l.final_price).toLocaleString()} EGP</Text>
+                    </TouchableOpacity>
+                  ))}
+              </View>
+
+              <View style={styles.section}>
+                <Text style={styles.sectionLabel}>Cash Top-up (optional)</Text>
+                <View style={styles.quickRow}>
+                  {[false, true].map(sellerAdds => (
+                    <TouchableOpacity
+                      key={String(sellerAdds)}
+                      style={[styles.quickBtn, sellerAddsCash === sellerAdds && styles.quickBtnActive]}
+                      onPress={() => setSellerAddsCash(sellerAdds)}
+                    >
+                      <Text style={[styles.quickPct, sellerAddsCash === sellerAdds && styles.quickPctActive]}>
+                        {sellerAdds ? 'Seller adds' : 'I add'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <View style={[styles.priceRow, { marginTop: SPACING.sm }]}>
+                  <TextInput
+                    style={styles.priceInput}
+                    value={topup}
+                    onChangeText={setTopup}
+                    keyboardType="numeric"
+                    placeholder="0"
+                    placeholderTextColor="#AAA"
+                  />
+                  <Text style={styles.currency}>EGP</Text>
+                </View>
+              </View>
+            </>
+          )}
+
           {/* Escrow info */}
           <View style={styles.escrowInfo}>
             <Ionicons name="shield-checkmark" size={16} color={COLORS.primary} />
@@ -167,9 +250,9 @@ export default function MakeOfferScreen() {
         {/* Submit */}
         <View style={[styles.footer, { paddingBottom: insets.bottom + SPACING.md }]}>
           <TouchableOpacity
-            style={[styles.submitBtn, (!price || Number(price) <= 0 || offerMutation.isPending) && styles.submitBtnDisabled]}
+            style={[styles.submitBtn, (!canSubmit || offerMutation.isPending) && styles.submitBtnDisabled]}
             onPress={() => offerMutation.mutate()}
-            disabled={!price || Number(price) <= 0 || offerMutation.isPending}
+            disabled={!canSubmit || offerMutation.isPending}
           >
             {offerMutation.isPending
               ? <ActivityIndicator color="#fff" />
@@ -230,6 +313,10 @@ const styles = StyleSheet.create({
   exchangeLeft: { flexDirection: 'row', gap: SPACING.md, alignItems: 'center' },
   exchangeLabel: { fontSize: TYPOGRAPHY.fontSizeMD, fontWeight: '600', color: COLORS.text },
   exchangeSub: { fontSize: 12, color: COLORS.textSecondary, marginTop: 1 },
+  swapItem: {
+    padding: SPACING.md, borderRadius: RADIUS.md, borderWidth: 1.5, borderColor: '#E0E0E0',
+    marginBottom: SPACING.sm,
+  },
   checkbox: { width: 24, height: 24, borderRadius: 6, borderWidth: 2, borderColor: '#DDD', alignItems: 'center', justifyContent: 'center' },
   checkboxActive: { backgroundColor: COLORS.primary, borderColor: COLORS.primary },
   escrowInfo: {
@@ -57,6 +57,37 @@ export default function MyOffersScreen() {
     onError: () => Alert.alert('Error', 'Failed to accept counter offer'),
   });
 
+  const counterMutation = useMutation({
+    mutationFn: ({ id, price }: { id: string; price: number }) => offerService.counter(id, price),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['my-offers'] });
+      Alert.alert('Counter sent!', 'The seller will be notified of your new price.');
+    },
+    onError: (e: any) => Alert.alert('Error', e?.response?.data?.error ?? 'Failed to send counter offer'),
+  });
+
+  const promptCounter = (id: string, sellerPrice: number) => {
+    Alert.prompt(
+      'Counter Offer',
+      `Seller asked ${sellerPrice.toLocaleString()} EGP. Enter your price (EGP).`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Send Counter',
+          onPress: (value?: string) => {
+            const price = Number(value?.replace(/,/g, '').trim());
+            if (!value || isNaN(price) || price <= 0) {
+              Alert.alert('Invalid amount', 'Please enter a valid price.');
+              return;
+            }
+            counterMutation.mutate({ id, price });
+          },
+        },
+      ],
+      'plain-text',
+    );
+  };
+
   const allOffers: any[] = data ?? [];
   const filtered = allOffers.filter(o => o.status === tab);
 
@@ -175,6 +206,13 @@ export default function MyOffersScreen() {
                         : <Ionicons name="checkmark" size={16} color="#fff" />
                       }
                     </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.cancelBtn}
+                      onPress={() => promptCounter(item.id, Number(item.counter_price))}
+                      disabled={counterMutation.isPending}
+                    >
+                      <Ionicons name="swap-horizontal" size={16} color={COLORS.textSecondary} />
+                    </TouchableOpacity>
                     <TouchableOpacity
                       style={styles.cancelBtn}
                       onPress={() => cancelMutation.mutate(item.id)}
@@ -11,8 +11,9 @@ import * as Haptics from 'expo-haptics';
 import { COLORS, SPACING, TYPOGRAPHY, RADIUS, SHADOWS, PAYMENT_LABELS } from '../../constants/theme';
 import { transactionService } from '../../services/transaction.service';
 import { referralService } from '../../services/referral.service';
+import { DeliveryChoiceCard } from '../../components/transaction/Delivery';
 
-const PAYMENT_METHODS = ['cash', 'fawry', 'instapay', 'vodafone_cash', 'wallet'] as const;
+const PAYMENT_METHODS = ['cash', 'fawry', 'vodafone_cash', 'wallet'] as const;
 
 export default function PaymentScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -23,6 +24,8 @@ export default function PaymentScreen() {
   const [promoCode, setPromoCode] = useState('');
   const [promoResult, setPromoResult] = useState<{ discount_amount: number; final_amount: number; code: string } | null>(null);
   const [promoLoading, setPromoLoading] = useState(false);
+  const [useCredits, setUseCredits] = useState(false);
+  const [gatewayPayment, setGatewayPayment] = useState<{ referenceCode?: string; expiresAt?: string; instructions: string } | null>(null);
 
   const { data: transaction, isLoading } = useQuery({
     queryKey: ['transaction', id],
@@ -30,11 +33,26 @@ export default function PaymentScreen() {
     enabled: !!id,
   });
 
+  const { data: credits } = useQuery({
+    queryKey: ['credits'],
+    queryFn: () => referralService.getCredits(),
+  });
+
   const payMutation = useMutation({
-    mutationFn: () => transactionService.initiatePayment(id, selectedMethod),
-    onSuccess: () => {
+    mutationFn: (creditAmount?: number) =>
+      transactionService.initiatePayment(id, selectedMethod, promoResult?.code, creditAmount),
+    onSuccess: ({ payment }) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      // The redeemed discount is now part of the transaction's fee breakdown
+      setPromoResult(null);
+      setUseCredits(false);
       queryClient.invalidateQueries({ queryKey: ['transaction', id] });
+      queryClient.invalidateQueries({ queryKey: ['credits'] });
+      if (payment) {
+        // Fawry / Vodafone Cash — escrow starts once the provider confirms the payment
+        setGatewayPayment(payment);
+        return;
+      }
       Alert.alert(
         'Payment Initiated',
         `Your payment via ${PAYMENT_LABELS[selectedMethod]?.en} is being processed. Funds will be held in escrow for 3 days.`,
@@ -65,11 +83,23 @@ export default function PaymentScreen() {
     return <View style={styles.center}><Text style={{ color: COLORS.textSecondary }}>Transaction not found</Text></View>;
   }
 
-  const platformFee = transaction.platform_fee ?? transaction.agreed_price * 0.04;
-  const baseTotal = transaction.agreed_price;
-  const discount = promoResult?.discount_amount ?? 0;
-  const total = promoResult?.final_amount ?? baseTotal;
+  // Fee breakdown is recorded by the backend commission engine when the offer is accepted
+  const fees = transaction.fee_breakdown;
+  const baseTotal = Number(transaction.agreed_price);
+  const buyerFee = Number(fees?.buyer_fee ?? 0);
+  const sellerFee = Number(fees?.seller_fee ?? 0);
+  const commissionPct = fees ? Math.round(Number(fees.commission_rate) * 1000) / 10 : null;
+  const discount = promoResult?.discount_amount ?? Number(fees?.promo_discount ?? 0);
+  const appliedCredits = Number(transaction.credits_applied ?? 0);
+  const shippingFee = Number(transaction.shipping_fee ?? 0);
+  const subtotal = Math.max(0, Number(fees?.buyer_pays ?? baseTotal) + shippingFee - (promoResult?.discount_amount ?? 0));
+  // Credits can't cover the whole order — at least 1 EGP goes through a real payment method
+  const creditsToApply = appliedCredits > 0 ? 0 : Math.min(credits?.balance ?? 0, Math.max(0, subtotal - 1));
+  const creditsUsed = appliedCredits || (useCredits && selectedMethod !== 'cash' ? creditsToApply : 0);
+  const total = Math.max(0, subtotal - creditsUsed);
   const status = transaction.payment_status;
+  // Courier deliveries are paid online — there's no meetup to hand over cash at
+  const methods = transaction.delivery_method === 'delivery' ? PAYMENT_METHODS.filter(m => m !== 'cash') : PAYMENT_METHODS;
 
   const handleValidatePromo = async () => {
     if (!promoCode.trim()) return;
@@ -107,28 +137,52 @@ export default function PaymentScreen() {
               <Text style={styles.breakdownLabel}>Item price</Text>
               <Text style={styles.breakdownValue}>{baseTotal?.toLocaleString()} EGP</Text>
             </View>
-            <View style={styles.breakdownRow}>
-              <Text style={styles.breakdownLabel}>Platform fee (4%)</Text>
-              <Text style={styles.breakdownValue}>{Math.round(platformFee).toLocaleString()} EGP</Text>
-            </View>
+            {buyerFee > 0 && (
+              <View style={styles.breakdownRow}>
+                <Text style={styles.breakdownLabel}>
+                  Buyer service fee{commissionPct !== null ? ` (${commissionPct}% commission)` : ''}
+                </Text>
+                <Text style={styles.breakdownValue}>{buyerFee.toLocaleString()} EGP</Text>
+              </View>
+            )}
+            {sellerFee > 0 && (
+              <View style={styles.breakdownRow}>
+                <Text style={styles.breakdownLabel}>Seller fee (deducted from seller)</Text>
+                <Text style={styles.breakdownValue}>{sellerFee.toLocaleString()} EGP</Text>
+              </View>
+            )}
+            {shippingFee > 0 && (
+              <View style={styles.breakdownRow}>
+                <Text style={styles.breakdownLabel}>Courier delivery</Text>
+                <Text style={styles.breakdownValue}>{shippingFee.toLocaleString()} EGP</Text>
+              </View>
+            )}
             {discount > 0 && (
               <View style={styles.breakdownRow}>
                 <Text style={[styles.breakdownLabel, { color: COLORS.success }]}>
-                  Promo ({promoResult!.code})
+                  Promo{promoResult ? ` (${promoResult.code})` : ''}
                 </Text>
                 <Text style={[styles.breakdownValue, { color: COLORS.success }]}>
                   -{Math.round(discount).toLocaleString()} EGP
                 </Text>
               </View>
             )}
+            {creditsUsed > 0 && (
+              <View style={styles.breakdownRow}>
+                <Text style={[styles.breakdownLabel, { color: COLORS.success }]}>Referral credits</Text>
+                <Text style={[styles.breakdownValue, { color: COLORS.success }]}>
+                  -{creditsUsed.toLocaleString()} EGP
+                </Text>
+              </View>
+            )}
             <View style={[styles.breakdownRow, styles.totalRow]}>
               <Text style={styles.totalLabel}>You pay</Text>
-              <Text style={styles.totalValue}>{Math.round(total)?.toLocaleString()} EGP</Text>
+              <Text style={styles.totalValue}>{total.toLocaleString()} EGP</Text>
             </View>
           </View>
 
-          {/* Promo code input — only when pending */}
-          {status === 'pending' && (
+          {/* Promo code input — only when pending and no code redeemed yet */}
+          {status === 'pending' && !Number(fees?.promo_discount) && (
             <View style={styles.promoRow}>
               <TextInput
                 style={styles.promoInput}
@@ -151,19 +205,51 @@ export default function PaymentScreen() {
               </TouchableOpacity>
             </View>
           )}
+
+          {/* Referral credits — online payments only */}
+          {status === 'pending' && creditsToApply > 0 && selectedMethod !== 'cash' && (
+            <TouchableOpacity style={styles.creditsRow} onPress={() => setUseCredits(v => !v)}>
+              <Ionicons
+                name={useCredits ? 'checkbox' : 'square-outline'}
+                size={20}
+                color={useCredits ? COLORS.primary : COLORS.textSecondary}
+              />
+              <Text style={styles.creditsText}>
+                Use {creditsToApply.toLocaleString()} EGP of your {credits!.balance.toLocaleString()} EGP credits
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
 
+        {status === 'pending' && !gatewayPayment && !transaction.swap_id && (
+          <DeliveryChoiceCard transaction={transaction} />
+        )}
+
         {/* Status indicator */}
         <View style={[styles.statusBanner, { backgroundColor: getStatusColor(status) + '20' }]}>
           <Ionicons name={getStatusIcon(status) as any} size={18} color={getStatusColor(status)} />
           <Text style={[styles.statusText, { color: getStatusColor(status) }]}>{getStatusLabel(status)}</Text>
         </View>
 
+        {/* Fawry reference / Vodafone Cash prompt waiting for the buyer */}
+        {status === 'pending' && gatewayPayment && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Complete Your Payment</Text>
+            {gatewayPayment.referenceCode && (
+              <Text style={styles.referenceCode} selectable>{gatewayPayment.referenceCode}</Text>
+            )}
+            <Text style={styles.confirmText}>{gatewayPayment.instructions}</Text>
+            {gatewayPayment.expiresAt && (
+              <Text style={styles.methodSub}>Expires {new Date(gatewayPayment.expiresAt).toLocaleString()}</Text>
+            )}
+          </View>
+        )}
+
         {/* Payment methods (only show if pending) */}
-        {status === 'pending' && (
+        {status === 'pending' && !gatewayPayment && (
           <View style={styles.card}>
             <Text style={styles.cardTitle}>Payment Method</Text>
-            {PAYMENT_METHODS.map(method => {
+            {methods.map(method => {
               const p = PAYMENT_LABELS[method];
               return (
                 <TouchableOpacity
@@ -228,11 +314,11 @@ export default function PaymentScreen() {
       </ScrollView>
 
       {/* Pay button */}
-      {status === 'pending' && (
+      {status === 'pending' && !gatewayPayment && (
         <View style={[styles.footer, { paddingBottom: insets.bottom + SPACING.md }]}>
           <TouchableOpacity
             style={[styles.payBtn, (!selectedMethod || payMutation.isPending) && styles.payBtnDisabled]}
-            onPress={() => payMutation.mutate()}
+            onPress={() => payMutation.mutate(useCredits && selectedMethod !== 'cash' ? creditsToApply : undefined)}
             disabled={!selectedMethod || payMutation.isPending}
           >
             {payMutation.isPending
@@ -278,7 +364,6 @@ function getMethodDesc(method: string): string {
   const map: Record<string, string> = {
     cash: 'Pay in cash when you meet the seller',
     fawry: 'Pay at any Fawry outlet',
-    instapay: 'Instant bank transfer',
     vodafone_cash: 'Pay with Vodafone Cash',
     wallet: 'Pay from Kaero wallet',
   };
@@ -316,6 +401,10 @@ const styles = StyleSheet.create({
   radio: { width: 22, height: 22, borderRadius: 11, borderWidth: 2, borderColor: '#DDD', alignItems: 'center', justifyContent: 'center' },
   radioActive: { borderColor: COLORS.primary },
   radioInner: { width: 10, height: 10, borderRadius: 5, backgroundColor: COLORS.primary },
+  referenceCode: {
+    fontSize: TYPOGRAPHY.fontSizeXL, fontWeight: TYPOGRAPHY.fontWeightBold, color: COLORS.primary,
+    letterSpacing: 2, textAlign: 'center', marginVertical: SPACING.sm,
+  },
   escrowCard: { backgroundColor: COLORS.primaryLight, borderRadius: RADIUS.md, padding: SPACING.md },
   escrowRow: { flexDirection: 'row', alignItems: 'center', gap: SPACING.sm, marginBottom: SPACING.sm },
   escrowTitle: { fontSize: TYPOGRAPHY.fontSizeMD, fontWeight: TYPOGRAPHY.fontWeightBold, color: COLORS.primary },
@@ -331,6 +420,8 @@ const styles = StyleSheet.create({
   promoBtn: { height: 40, paddingHorizontal: SPACING.lg, backgroundColor: COLORS.primary, borderRadius: RADIUS.sm, alignItems: 'center', justifyContent: 'center' },
   promoBtnDisabled: { opacity: 0.45 },
   promoBtnText: { color: '#fff', fontWeight: TYPOGRAPHY.fontWeightBold, fontSize: TYPOGRAPHY.fontSizeSM },
+  creditsRow: { flexDirection: 'row', alignItems: 'center', gap: SPACING.sm, marginTop: SPACING.md, borderTopWidth: 1, borderTopColor: '#F0F0F0', paddingTop: SPACING.md },
+  creditsText: { flex: 1, fontSize: TYPOGRAPHY.fontSizeSM, color: COLORS.text },
   footer: { position: 'absolute', bottom: 0, left: 0, right: 0, padding: SPACING.lg, backgroundColor: '#fff', borderTopWidth: 1, borderTopColor: '#F0F0F0' },
   payBtn: { height: 56, backgroundColor: COLORS.primary, borderRadius: RADIUS.md, flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: SPACING.sm },
   payBtnDisabled: { opacity: 0.5 },
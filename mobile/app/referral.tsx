@@ -32,12 +32,18 @@ export default function ReferralScreen() {
     queryFn: () => referralService.getMyReferral(),
   });
 
+  const { data: credits, refetch: refetchCredits } = useQuery({
+    queryKey: ['credits'],
+    queryFn: () => referralService.getCredits(),
+  });
+
   const applyMutation = useMutation({
     mutationFn: () => referralService.applyCode(applyCode.trim().toUpperCase()),
     onSuccess: (res) => {
       Alert.alert('Code Applied!', res.message);
       setApplyCode('');
       refetch();
+      refetchCredits();
     },
     onError: (e: any) => Alert.alert('Error', e?.response?.data?.error ?? 'Invalid code'),
   });
@@ -98,6 +104,32 @@ export default function ReferralScreen() {
           )}
         </View>
 
+        {/* Credit history — credits are spendable at checkout and on boosts, never withdrawable */}
+        {!!credits?.history.length && (
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>Credit History</Text>
+            {credits.expiring[0] && (
+              <Text style={styles.applyHint}>
+                {credits.expiring[0].amount.toLocaleString()} EGP expire on{' '}
+                {new Date(credits.expiring[0].expires_at).toLocaleDateString('en-EG', { month: 'short', day: 'numeric' })}
+              </Text>
+            )}
+            {credits.history.map(h => (
+              <View key={h.id} style={styles.friendRow}>
+                <View style={styles.friendInfo}>
+                  <Text style={styles.friendName}>{h.description}</Text>
+                  <Text style={styles.friendDate}>
+                    {new Date(h.created_at).toLocaleDateString('en-EG', { month: 'short', day: 'numeric' })}
+                  </Text>
+                </View>
+                <Text style={[styles.friendName, { color: ['earned', 'refunded'].includes(h.type) ? COLORS.success : COLORS.textSecondary }]}>
+                  {['earned', 'refunded'].includes(h.type) ? '+' : '-'}{Number(h.amount).toLocaleString()} EGP
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Your referral code */}
         <View style={styles.card}>
           <Text style={styles.sectionTitle}>Your Referral Code</Text>
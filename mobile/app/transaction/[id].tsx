@@ -10,6 +10,8 @@ import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 import { COLORS, SPACING, TYPOGRAPHY, RADIUS, SHADOWS } from '../../constants/theme';
 import { transactionService } from '../../services/transaction.service';
+import { HandoverCodeCard, HandoverCodeEntry, MeetingPointCard } from '../../components/transaction/CashMeetup';
+import { CourierPickupCard, ShipmentTrackingCard } from '../../components/transaction/Delivery';
 import { useAuthStore } from '../../store/authStore';
 
 // ─── Helpers ──────────────────────────────────────────────
@@ -26,6 +28,8 @@ interface Step {
 function buildSteps(tx: any, isBuyer: boolean): Step[] {
   const s = tx.payment_status;
   const d = tx.dispute_status;
+  const handedOver = ['handed_over', 'shipped', 'delivered', 'received', 'completed'].includes(tx.status);
+  const courier = tx.delivery_method === 'delivery';
 
   return [
     {
@@ -46,6 +50,18 @@ function buildSteps(tx: any, isBuyer: boolean): Step[] {
       done: s !== 'pending',
       active: s === 'pending',
     },
+    {
+      key: 'handover',
+      label: tx.status === 'delivered' ? 'Delivered' : tx.status === 'shipped' || courier ? 'Shipped' : 'Handed Over',
+      sub: handedOver
+        ? tx.tracking_number ? `Tracking: ${tx.tracking_number}` : 'Seller handed over the item'
+        : courier
+          ? tx.tracking_number ? 'Waiting for the courier to collect the item' : isBuyer ? 'Waiting for the seller to book the pickup' : 'Book the courier pickup below'
+          : isBuyer ? 'Waiting for the seller to hand over the item' : 'Mark the item handed over once the buyer has it',
+      icon: 'cube',
+      done: handedOver,
+      active: tx.status === 'paid' && d === 'none',
+    },
     {
       key: 'escrow',
       label: 'In Escrow',
@@ -58,12 +74,13 @@ function buildSteps(tx: any, isBuyer: boolean): Step[] {
     },
     {
       key: 'done',
-      label: d !== 'none' ? 'Dispute' : s === 'refunded' ? 'Refunded' : 'Completed',
+      label: d !== 'none' ? 'Dispute' : tx.status === 'cancelled' ? 'Cancelled' : s === 'refunded' ? 'Refunded' : 'Completed',
       sub: d !== 'none'
         ? ({ none: '', opened: 'Under Kaero review', under_review: 'Under Kaero review', resolved_buyer: 'Resolved — buyer refunded', resolved_seller: 'Resolved — seller paid' } as Record<string, string>)[d] ?? d
+        : tx.status === 'cancelled' ? (s === 'refunded' ? 'Deal cancelled — payment returned to buyer' : 'Deal cancelled before payment')
         : s === 'released' ? 'Payment released to seller' : s === 'refunded' ? 'Payment returned to buyer' : 'Awaiting completion',
-      icon: d !== 'none' ? 'warning' : s === 'refunded' ? 'return-down-back' : 'checkmark-done-circle',
-      done: ['released', 'refunded', 'resolved_buyer', 'resolved_seller'].includes(s) || d.startsWith('resolved'),
+      icon: d !== 'none' ? 'warning' : tx.status === 'cancelled' ? 'close-circle' : s === 'refunded' ? 'return-down-back' : 'checkmark-done-circle',
+      done: ['released', 'refunded', 'cancelled', 'resolved_buyer', 'resolved_seller'].includes(s) || d.startsWith('resolved'),
       active: d === 'opened' || d === 'under_review',
     },
   ];
@@ -112,6 +129,30 @@ export default function TransactionDetailScreen() {
     onError: (e: any) => Alert.alert('Error', e?.response?.data?.error ?? 'Failed'),
   });
 
+  const handoverMutation = useMutation({
+    mutationFn: (method: 'in_person' | 'shipping') => transactionService.markHandedOver(id, method),
+    onSuccess: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: ['transaction', id] });
+    },
+    onError: (e: any) => Alert.alert('Error', e?.response?.data?.error ?? 'Failed'),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (refund: boolean) => transactionService.cancel(id, { refund }),
+    onSuccess: (res) => {
+      queryClient.invalidateQueries({ queryKey: ['transaction', id] });
+      if (!res.cancelled) Alert.alert('Request sent', "We'll let you know when the other party answers.");
+    },
+    onError: (e: any) => Alert.alert('Error', e?.response?.data?.error ?? 'Failed'),
+  });
+
+  const declineCancelMutation = useMutation({
+    mutationFn: () => transactionService.declineCancellation(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['transaction', id] }),
+    onError: (e: any) => Alert.alert('Error', e?.response?.data?.error ?? 'Failed'),
+  });
+
   const payMutation = useMutation({
     mutationFn: () => { router.push(`/payment/${id}` as any); return Promise.resolve(); },
   });
@@ -122,10 +163,45 @@ export default function TransactionDetailScreen() {
   const isBuyer = tx.buyer_id === user?.id;
   const steps = buildSteps(tx, isBuyer);
   const escrowMs = tx.escrow_hold_until ? new Date(tx.escrow_hold_until).getTime() - now : null;
-  const canConfirm = isBuyer && tx.payment_status === 'held' && tx.dispute_status === 'none';
+  // Cash deals are handed over with the buyer's code at the meetup, not a confirm button
+  const isCashMeetup = tx.payment_method === 'cash' && tx.status === 'paid'
+    && tx.payment_status === 'held' && tx.dispute_status === 'none';
+  const canConfirm = isBuyer && !isCashMeetup && tx.payment_status === 'held' && tx.dispute_status === 'none';
   const canDispute = (isBuyer || !isBuyer) && tx.payment_status === 'held' && tx.dispute_status === 'none';
+  // After the seller is paid, the buyer can still claim the item wasn't as described for a few days
+  const canClaim = isBuyer && tx.dispute_status === 'none' && !!tx.claim_until && new Date(tx.claim_until).getTime() > now;
   const canPay = isBuyer && tx.payment_status === 'pending';
-  const isComplete = ['released', 'refunded'].includes(tx.payment_status) || tx.dispute_status.startsWith('resolved');
+  const isCourier = tx.delivery_method === 'delivery';
+  const canBookPickup = !isBuyer && isCourier && !tx.tracking_number && tx.status === 'paid'
+    && tx.payment_status === 'held' && tx.dispute_status === 'none';
+  const canHandOver = !isBuyer && !isCashMeetup && !isCourier && tx.status === 'paid' && tx.payment_status === 'held' && tx.dispute_status === 'none';
+  const canCancel = ['awaiting_payment', 'paid'].includes(tx.status) && tx.dispute_status === 'none';
+  const cancelRequestedByOther = !!tx.cancel_requested_by && tx.cancel_requested_by !== user?.id;
+  const cancelRequestedByMe = !!tx.cancel_requested_by && tx.cancel_requested_by === user?.id;
+
+  const onCancel = () => {
+    if (tx.status === 'awaiting_payment' || isCashMeetup) {
+      Alert.alert('Cancel this deal?', 'The listing goes back on sale. Cancelling on your own lowers your reliability score.', [
+        { text: 'Keep deal', style: 'cancel' },
+        { text: 'Cancel deal', style: 'destructive', onPress: () => cancelMutation.mutate(false) },
+      ]);
+      return;
+    }
+    Alert.alert(
+      'Cancel this deal?',
+      isBuyer
+        ? "You've already paid, so the seller has to agree. We'll ask them."
+        : 'Ask the buyer to agree, or refund them now. Refunding on your own lowers your reliability score.',
+      [
+        { text: 'Keep deal', style: 'cancel' },
+        ...(!isBuyer ? [{ text: 'Refund & cancel', style: 'destructive' as const, onPress: () => cancelMutation.mutate(true) }] : []),
+        { text: 'Ask to cancel', onPress: () => cancelMutation.mutate(false) },
+      ],
+    );
+  };
+
+  const isComplete = tx.status !== 'cancelled'
+    && (['released', 'refunded'].includes(tx.payment_status) || tx.dispute_status.startsWith('resolved'));
 
   return (
     <View style={[styles.container, { paddingTop: insets.top }]}>
@@ -228,12 +304,14 @@ export default function TransactionDetailScreen() {
           <View style={styles.disputeCard}>
             <View style={styles.disputeHeader}>
               <Ionicons name="warning" size={18} color="#E53935" />
-              <Text style={styles.disputeTitle}>Dispute Opened</Text>
+              <Text style={styles.disputeTitle}>Dispute</Text>
             </View>
-            <Text style={styles.disputeReason}>{tx.dispute_reason ?? '—'}</Text>
             <Text style={styles.disputeStatus}>
               Status: {tx.dispute_status.replace(/_/g, ' ').replace(/\b\w/g, (c: string) => c.toUpperCase())}
             </Text>
+            <TouchableOpacity onPress={() => router.push(`/dispute/${id}` as any)}>
+              <Text style={styles.disputeLink}>View case, evidence and messages</Text>
+            </TouchableOpacity>
           </View>
         )}
 
@@ -248,6 +326,51 @@ export default function TransactionDetailScreen() {
           </View>
         )}
 
+        {isCashMeetup && (
+          <MeetingPointCard
+            transactionId={id}
+            agreedAddress={tx.meeting_address ?? null}
+            agreedLat={tx.meeting_lat ?? null}
+            agreedLng={tx.meeting_lng ?? null}
+          />
+        )}
+
+        {isCashMeetup && isBuyer && <HandoverCodeCard transactionId={id} />}
+
+        {isCashMeetup && !isBuyer && (
+          <HandoverCodeEntry
+            transactionId={id}
+            onCompleted={() => Alert.alert('Deal complete', 'The handover is confirmed. Enjoy the cash!')}
+          />
+        )}
+
+        {canBookPickup && <CourierPickupCard transactionId={id} />}
+
+        {isCourier && !!tx.tracking_number && <ShipmentTrackingCard transaction={tx} />}
+
+        {canHandOver && (
+          <View style={styles.actionsCard}>
+            <Text style={styles.sectionTitle}>Hand Over</Text>
+            <Text style={styles.actionDesc}>
+              The buyer has paid. Let them know once the item is on its way — the escrow countdown starts then.
+            </Text>
+            <TouchableOpacity
+              style={styles.primaryBtn}
+              onPress={() => Alert.alert('Mark as handed over', 'How did the item reach the buyer?', [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Shipped', onPress: () => handoverMutation.mutate('shipping') },
+                { text: 'In person', onPress: () => handoverMutation.mutate('in_person') },
+              ])}
+              disabled={handoverMutation.isPending}
+            >
+              {handoverMutation.isPending
+                ? <ActivityIndicator color="#fff" size="small" />
+                : <><Ionicons name="cube" size={18} color="#fff" /><Text style={styles.primaryBtnText}>Mark as Handed Over</Text></>
+              }
+            </TouchableOpacity>
+          </View>
+        )}
+
         {canConfirm && (
           <View style={styles.actionsCard}>
             <Text style={styles.sectionTitle}>Confirm Receipt</Text>
@@ -279,6 +402,58 @@ export default function TransactionDetailScreen() {
           </View>
         )}
 
+        {canClaim && (
+          <View style={styles.actionsCard}>
+            <Text style={styles.sectionTitle}>Problem With the Item?</Text>
+            <Text style={styles.actionDesc}>
+              If the item isn't as described, you can file a claim until {new Date(tx.claim_until).toLocaleString()}.
+            </Text>
+            <TouchableOpacity style={styles.disputeBtn} onPress={() => router.push(`/dispute/${id}` as any)}>
+              <Ionicons name="warning-outline" size={16} color={COLORS.error} />
+              <Text style={styles.disputeBtnText}>File a Claim</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {canCancel && cancelRequestedByOther && (
+          <View style={styles.actionsCard}>
+            <Text style={styles.sectionTitle}>Cancellation Requested</Text>
+            <Text style={styles.actionDesc}>
+              {isBuyer ? 'The seller' : 'The buyer'} wants to cancel this deal.
+              {tx.cancel_reason ? ` "${tx.cancel_reason}"` : ''} If you agree, the payment goes back to the buyer.
+            </Text>
+            <View style={styles.actionRow}>
+              <TouchableOpacity
+                style={styles.disputeBtn}
+                onPress={() => declineCancelMutation.mutate()}
+                disabled={declineCancelMutation.isPending}
+              >
+                <Text style={styles.disputeBtnText}>Keep Deal</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.confirmBtn}
+                onPress={() => cancelMutation.mutate(false)}
+                disabled={cancelMutation.isPending}
+              >
+                {cancelMutation.isPending
+                  ? <ActivityIndicator color="#fff" size="small" />
+                  : <Text style={styles.confirmBtnText}>Agree to Cancel</Text>
+                }
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {canCancel && !cancelRequestedByOther && (
+          cancelRequestedByMe
+            ? <Text style={styles.cancelNote}>Cancellation requested — waiting for the other party to answer.</Text>
+            : (
+              <TouchableOpacity style={styles.cancelLink} onPress={onCancel} disabled={cancelMutation.isPending}>
+                <Text style={styles.cancelLinkText}>Cancel this deal</Text>
+              </TouchableOpacity>
+            )
+        )}
+
         {isComplete && !tx.has_review && (
           <TouchableOpacity style={styles.reviewBanner} onPress={() => router.push(`/review/${id}` as any)}>
             <Ionicons name="star" size={18} color="#F59E0B" />
@@ -344,8 +519,8 @@ const styles = StyleSheet.create({
   disputeCard: { backgroundColor: '#FEF2F2', borderRadius: RADIUS.md, padding: SPACING.md, borderLeftWidth: 3, borderLeftColor: COLORS.error },
   disputeHeader: { flexDirection: 'row', alignItems: 'center', gap: SPACING.sm, marginBottom: SPACING.xs },
   disputeTitle: { fontSize: TYPOGRAPHY.fontSizeMD, fontWeight: TYPOGRAPHY.fontWeightBold, color: COLORS.error },
-  disputeReason: { fontSize: TYPOGRAPHY.fontSizeSM, color: '#B91C1C', lineHeight: 18 },
   disputeStatus: { fontSize: 12, color: '#9CA3AF', marginTop: SPACING.xs },
+  disputeLink: { fontSize: TYPOGRAPHY.fontSizeSM, color: COLORS.error, fontWeight: '600', marginTop: SPACING.sm },
   // Actions
   actionsCard: { backgroundColor: '#fff', borderRadius: RADIUS.md, padding: SPACING.lg, ...SHADOWS.sm },
   actionDesc: { fontSize: TYPOGRAPHY.fontSizeSM, color: COLORS.textSecondary, marginBottom: SPACING.md },
@@ -366,6 +541,9 @@ const styles = StyleSheet.create({
     flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: SPACING.sm,
   },
   primaryBtnText: { color: '#fff', fontWeight: TYPOGRAPHY.fontWeightBold, fontSize: TYPOGRAPHY.fontSizeMD },
+  cancelLink: { alignItems: 'center', paddingVertical: SPACING.md },
+  cancelLinkText: { color: COLORS.error, fontSize: TYPOGRAPHY.fontSizeSM, fontWeight: '600' },
+  cancelNote: { textAlign: 'center', fontSize: 12, color: COLORS.textTertiary, paddingVertical: SPACING.md },
   reviewBanner: {
     flexDirection: 'row', alignItems: 'center', gap: SPACING.sm,
     backgroundColor: '#FFFBEB', borderRadius: RADIUS.md, padding: SPACING.md,
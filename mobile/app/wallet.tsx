@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import {
   View, Text, ScrollView, TouchableOpacity, StyleSheet,
-  TextInput, ActivityIndicator, Alert, Modal, RefreshControl,
+  TextInput, ActivityIndicator, Alert, Modal, RefreshControl, Linking,
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -9,6 +9,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Ionicons } from '@expo/vector-icons';
 import { COLORS, SPACING, TYPOGRAPHY, RADIUS, SHADOWS } from '../constants/theme';
 import { walletService, WalletTx } from '../services/wallet.service';
+import { subscriptionService } from '../services/subscription.service';
 
 // ─── Helpers ─────────────────────────────────────────────
 
@@ -198,6 +199,36 @@ export default function WalletScreen() {
     queryFn: () => walletService.getSummary(),
   });
 
+  const { data: plan } = useQuery({
+    queryKey: ['subscription'],
+    queryFn: () => subscriptionService.getMine(),
+  });
+
+  const subscribeMutation = useMutation({
+    mutationFn: (method: 'wallet' | 'paymob') => plan?.subscription
+      ? subscriptionService.renew(method)
+      : subscriptionService.subscribe(method),
+    onSuccess: (res) => {
+      if (res.payment?.iframeUrl) {
+        // Activated once Paymob confirms the card payment
+        Linking.openURL(res.payment.iframeUrl);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['subscription'] });
+      queryClient.invalidateQueries({ queryKey: ['wallet'] });
+      Alert.alert('Premium active', 'Your Premium seller benefits are now active.');
+    },
+    onError: (e: any) => Alert.alert('Error', e?.response?.data?.error ?? 'Subscription failed'),
+  });
+
+  const choosePremiumPayment = () => {
+    Alert.alert(plan?.subscription ? 'Renew Premium' : 'Go Premium', 'How would you like to pay?', [
+      { text: 'Wallet balance', onPress: () => subscribeMutation.mutate('wallet') },
+      { text: 'Card', onPress: () => subscribeMutation.mutate('paymob') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
   const { data: withdrawals } = useQuery({
     queryKey: ['withdrawals'],
     queryFn: () => walletService.getWithdrawals(),
@@ -235,6 +266,9 @@ export default function WalletScreen() {
               {(data?.pending ?? 0) > 0 && (
                 <Text style={styles.pendingText}>+{Number(data!.pending).toLocaleString()} EGP pending</Text>
               )}
+              {(data?.on_hold ?? 0) > 0 && (
+                <Text style={styles.pendingText}>{Number(data!.on_hold).toLocaleString()} EGP on hold for a buyer claim</Text>
+              )}
             </View>
             <View style={styles.balanceIcon}>
               <Ionicons name="wallet" size={32} color={COLORS.primary} />
@@ -266,6 +300,27 @@ export default function WalletScreen() {
           </View>
         )}
 
+        {/* Premium seller plan */}
+        {plan && (
+          <View style={styles.planCard}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.planTitle}>
+                {plan.plan === 'premium' ? '★ Premium Seller' : 'Free Plan'}
+              </Text>
+              <Text style={styles.planSub}>
+                {plan.subscription?.status === 'grace'
+                  ? 'Renewal payment failed — renew to keep your benefits'
+                  : plan.subscription?.expires_at
+                    ? `${plan.subscription.auto_renew ? 'Renews' : 'Ends'} ${new Date(plan.subscription.expires_at).toLocaleDateString('en-EG', { day: 'numeric', month: 'short' })} · ${plan.free_boosts_left} free boosts left`
+                    : 'Half commission, unlimited listings, free boosts and a verified badge'}
+              </Text>
+            </View>
+            <TouchableOpacity style={styles.planBtn} onPress={choosePremiumPayment} disabled={subscribeMutation.isPending}>
+              <Text style={styles.planBtnText}>{plan.subscription ? 'Renew' : 'Upgrade'}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Tabs */}
         <View style={styles.tabs}>
           {(['transactions', 'withdrawals'] as const).map(t => (
@@ -317,12 +372,12 @@ export default function WalletScreen() {
                     <View style={[
                       styles.withdrawStatus,
                       w.status === 'completed' && styles.withdrawStatusDone,
-                      w.status === 'rejected' && styles.withdrawStatusRejected,
+                      (w.status === 'rejected' || w.status === 'failed') && styles.withdrawStatusRejected,
                     ]}>
                       <Text style={[
                         styles.withdrawStatusText,
                         w.status === 'completed' && styles.withdrawStatusTextDone,
-                        w.status === 'rejected' && styles.withdrawStatusTextRejected,
+                        (w.status === 'rejected' || w.status === 'failed') && styles.withdrawStatusTextRejected,
                       ]}>
                         {w.status.charAt(0).toUpperCase() + w.status.slice(1)}
                       </Text>
@@ -389,6 +444,13 @@ const styles = StyleSheet.create({
   statLabel: { fontSize: 11, color: COLORS.textTertiary, marginTop: 2, textAlign: 'center' },
   statDivider: { width: 1, backgroundColor: COLORS.separator },
 
+  // Premium plan
+  planCard: { flexDirection: 'row', alignItems: 'center', gap: SPACING.md, backgroundColor: COLORS.cardBg, borderRadius: RADIUS.md, padding: SPACING.lg, ...SHADOWS.sm },
+  planTitle: { fontSize: TYPOGRAPHY.fontSizeMD, fontWeight: TYPOGRAPHY.fontWeightBold, color: COLORS.text },
+  planSub: { fontSize: 12, color: COLORS.textSecondary, marginTop: 2 },
+  planBtn: { backgroundColor: COLORS.primary, borderRadius: RADIUS.sm, paddingHorizontal: SPACING.md, paddingVertical: SPACING.sm },
+  planBtnText: { color: '#fff', fontWeight: TYPOGRAPHY.fontWeightBold, fontSize: TYPOGRAPHY.fontSizeSM },
+
   // Tabs
   tabs: { flexDirection: 'row', backgroundColor: COLORS.cardBg, borderRadius: RADIUS.md, padding: 4, ...SHADOWS.sm },
   tab: { flex: 1, paddingVertical: SPACING.sm, alignItems: 'center', borderRadius: RADIUS.sm - 2 },
@@ -0,0 +1,227 @@
+import React, { useState } from 'react';
+import {
+  View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator, Alert, Linking, Modal,
+} from 'react-native';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Ionicons } from '@expo/vector-icons';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import QRCode from 'react-native-qrcode-svg';
+import * as Haptics from 'expo-haptics';
+import { COLORS, RADIUS, SHADOWS, SPACING, TYPOGRAPHY } from '../../constants/theme';
+import { transactionService } from '../../services/transaction.service';
+
+// ─── Buyer: show the handover code ───────────────────────
+
+export function HandoverCodeCard({ transactionId }: { transactionId: string }) {
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ['handover-code', transactionId],
+    queryFn: () => transactionService.getHandoverCode(transactionId),
+  });
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.sectionTitle}>Your Handover Code</Text>
+      <Text style={styles.desc}>
+        Only show this to the seller once you have the item in your hands. It completes the deal.
+      </Text>
+      {isLoading || !data ? (
+        <ActivityIndicator color={COLORS.primary} />
+      ) : (
+        <View style={styles.codeBox}>
+          <QRCode value={data.qr_payload} size={168} />
+          <Text style={styles.code}>{data.code.replace(/(\d{3})(\d{3})/, '$1 $2')}</Text>
+          <TouchableOpacity onPress={() => refetch()} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+            <Text style={styles.link}>Seller says it stopped working? Refresh</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+// ─── Seller: scan or type the buyer's code ───────────────
+
+export function HandoverCodeEntry({ transactionId, onCompleted }: { transactionId: string; onCompleted: () => void }) {
+  const queryClient = useQueryClient();
+  const [code, setCode] = useState('');
+  const [scanning, setScanning] = useState(false);
+  const [permission, requestPermission] = useCameraPermissions();
+
+  const redeem = useMutation({
+    mutationFn: (value: string) => transactionService.redeemHandoverCode(transactionId, value),
+    onSuccess: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: ['transaction', transactionId] });
+      onCompleted();
+    },
+    onError: (e: any) => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Code not accepted', e?.response?.data?.error ?? 'Failed');
+    },
+  });
+
+  const openScanner = async () => {
+    if (!permission?.granted) {
+      const result = await requestPermission();
+      if (!result.granted) { Alert.alert('Camera permission required'); return; }
+    }
+    setScanning(true);
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.sectionTitle}>Hand Over the Item</Text>
+      <Text style={styles.desc}>
+        Hand over the item and collect the cash, then scan the buyer's QR code or type their 6-digit code.
+      </Text>
+      <TouchableOpacity style={styles.primaryBtn} onPress={openScanner} disabled={redeem.isPending}>
+        <Ionicons name="qr-code-outline" size={18} color="#fff" />
+        <Text style={styles.primaryBtnText}>Scan Buyer's Code</Text>
+      </TouchableOpacity>
+      <View style={styles.entryRow}>
+        <TextInput
+          style={styles.codeInput}
+          value={code}
+          onChangeText={(t) => setCode(t.replace(/\D/g, '').slice(0, 6))}
+          placeholder="000000"
+          placeholderTextColor={COLORS.textPlaceholder}
+          keyboardType="number-pad"
+          maxLength={6}
+        />
+        <TouchableOpacity
+          style={[styles.confirmBtn, code.length !== 6 && { opacity: 0.5 }]}
+          onPress={() => redeem.mutate(code)}
+          disabled={code.length !== 6 || redeem.isPending}
+        >
+          {redeem.isPending
+            ? <ActivityIndicator color="#fff" size="small" />
+            : <Text style={styles.confirmBtnText}>Confirm</Text>}
+        </TouchableOpacity>
+      </View>
+
+      <Modal visible={scanning} animationType="slide" onRequestClose={() => setScanning(false)}>
+        <View style={{ flex: 1, backgroundColor: '#000' }}>
+          <CameraView
+            style={{ flex: 1 }}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+            onBarcodeScanned={scanning && !redeem.isPending ? ({ data }) => {
+              if (!data.startsWith('kaero-handover:')) return;
+              setScanning(false);
+              redeem.mutate(data);
+            } : undefined}
+          />
+          <TouchableOpacity style={styles.closeScanner} onPress={() => setScanning(false)}>
+            <Ionicons name="close" size={28} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+// ─── Either party: safe meeting point ────────────────────
+
+interface MeetingPointCardProps {
+  transactionId: string;
+  agreedAddress: string | null;
+  agreedLat: number | null;
+  agreedLng: number | null;
+}
+
+export function MeetingPointCard({ transactionId, agreedAddress, agreedLat, agreedLng }: MeetingPointCardProps) {
+  const queryClient = useQueryClient();
+  const { data: spot, isLoading } = useQuery({
+    queryKey: ['meeting-point', transactionId],
+    queryFn: () => transactionService.getMeetingPoint(transactionId),
+    enabled: !agreedAddress,
+  });
+
+  const choose = useMutation({
+    mutationFn: (spotId: number) => transactionService.setMeetingPoint(transactionId, spotId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['transaction', transactionId] }),
+    onError: (e: any) => Alert.alert('Error', e?.response?.data?.error ?? 'Failed'),
+  });
+
+  const openMaps = (lat: number, lng: number) =>
+    Linking.openURL(`https://www.google.com/maps/search/?api=1&query=${lat},${lng}`);
+
+  if (agreedAddress) {
+    return (
+      <View style={styles.card}>
+        <Text style={styles.sectionTitle}>Meeting Point</Text>
+        <View style={styles.spotRow}>
+          <Ionicons name="location" size={20} color={COLORS.primary} />
+          <Text style={styles.spotName}>{agreedAddress}</Text>
+        </View>
+        {agreedLat != null && agreedLng != null && (
+          <TouchableOpacity onPress={() => openMaps(agreedLat, agreedLng)}>
+            <Text style={styles.link}>Open in Maps</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+  if (isLoading || !spot) return null;
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.sectionTitle}>Suggested Meeting Point</Text>
+      <Text style={styles.desc}>A busy public place about halfway between you. Meet in daylight where others are around.</Text>
+      <View style={styles.spotRow}>
+        <Ionicons name="shield-checkmark" size={20} color={COLORS.primary} />
+        <View style={{ flex: 1 }}>
+          <Text style={styles.spotName}>{spot.name}</Text>
+          {!!spot.address && <Text style={styles.spotAddress}>{spot.address}</Text>}
+        </View>
+      </View>
+      <View style={styles.entryRow}>
+        <TouchableOpacity style={styles.secondaryBtn} onPress={() => openMaps(spot.lat, spot.lng)}>
+          <Text style={styles.secondaryBtnText}>Open in Maps</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.confirmBtn} onPress={() => choose.mutate(spot.id)} disabled={choose.isPending}>
+          {choose.isPending
+            ? <ActivityIndicator color="#fff" size="small" />
+            : <Text style={styles.confirmBtnText}>Meet Here</Text>}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: { backgroundColor: '#fff', borderRadius: RADIUS.md, padding: SPACING.lg, ...SHADOWS.sm },
+  sectionTitle: {
+    fontSize: TYPOGRAPHY.fontSizeSM, fontWeight: TYPOGRAPHY.fontWeightSemiBold,
+    color: COLORS.textSecondary, textTransform: 'uppercase', letterSpacing: 0.5,
+    marginBottom: SPACING.md,
+  },
+  desc: { fontSize: TYPOGRAPHY.fontSizeSM, color: COLORS.textSecondary, marginBottom: SPACING.md },
+  codeBox: { alignItems: 'center', gap: SPACING.md, paddingVertical: SPACING.sm },
+  code: { fontSize: 32, fontWeight: '900', letterSpacing: 6, color: COLORS.text },
+  link: { color: COLORS.primary, fontSize: TYPOGRAPHY.fontSizeSM, fontWeight: '600', marginTop: SPACING.xs },
+  entryRow: { flexDirection: 'row', gap: SPACING.sm, marginTop: SPACING.md },
+  codeInput: {
+    flex: 1, height: 48, borderRadius: RADIUS.md, borderWidth: 1.5, borderColor: COLORS.border,
+    paddingHorizontal: SPACING.md, fontSize: TYPOGRAPHY.fontSizeLG, letterSpacing: 4, color: COLORS.text,
+  },
+  primaryBtn: {
+    height: 52, backgroundColor: COLORS.primary, borderRadius: RADIUS.md,
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: SPACING.sm,
+  },
+  primaryBtnText: { color: '#fff', fontWeight: TYPOGRAPHY.fontWeightBold, fontSize: TYPOGRAPHY.fontSizeMD },
+  confirmBtn: {
+    flex: 1, height: 48, borderRadius: RADIUS.md, backgroundColor: COLORS.primary,
+    alignItems: 'center', justifyContent: 'center',
+  },
+  confirmBtnText: { color: '#fff', fontWeight: TYPOGRAPHY.fontWeightBold, fontSize: TYPOGRAPHY.fontSizeSM },
+  secondaryBtn: {
+    flex: 1, height: 48, borderRadius: RADIUS.md, borderWidth: 1.5, borderColor: COLORS.primary,
+    alignItems: 'center', justifyContent: 'center',
+  },
+  secondaryBtnText: { color: COLORS.primary, fontWeight: '600', fontSize: TYPOGRAPHY.fontSizeSM },
+  spotRow: { flexDirection: 'row', alignItems: 'flex-start', gap: SPACING.sm },
+  spotName: { fontSize: TYPOGRAPHY.fontSizeMD, fontWeight: TYPOGRAPHY.fontWeightMedium, color: COLORS.text, flexShrink: 1 },
+  spotAddress: { fontSize: 12, color: COLORS.textTertiary, marginTop: 2 },
+  closeScanner: { position: 'absolute', top: 56, right: 24 },
+});
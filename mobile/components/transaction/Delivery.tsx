@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import {
+  View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator, Alert, Linking,
+} from 'react-native';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { COLORS, RADIUS, SHADOWS, SPACING, TYPOGRAPHY } from '../../constants/theme';
+import { transactionService, ShippingAddress, ShipmentEvent } from '../../services/transaction.service';
+
+const EMPTY_ADDRESS: ShippingAddress = { name: '', phone: '', city: '', street: '' };
+
+const isComplete = (a: ShippingAddress) =>
+  a.name.trim().length >= 2 && /^01[0-9]{9}$/.test(a.phone) && a.city.trim().length >= 2 && a.street.trim().length >= 3;
+
+// ─── Address form ────────────────────────────────────────
+
+function AddressForm({ value, onChange }: { value: ShippingAddress; onChange: (a: ShippingAddress) => void }) {
+  const field = (key: keyof ShippingAddress, placeholder: string, extra: object = {}) => (
+    <TextInput
+      style={styles.input}
+      value={value[key] ?? ''}
+      onChangeText={(t) => onChange({ ...value, [key]: t })}
+      placeholder={placeholder}
+      placeholderTextColor={COLORS.textPlaceholder}
+      {...extra}
+    />
+  );
+  return (
+    <View style={{ gap: SPACING.sm }}>
+      {field('name', 'Full name')}
+      {field('phone', 'Mobile (01xxxxxxxxx)', { keyboardType: 'phone-pad', maxLength: 11 })}
+      <View style={styles.row}>
+        <View style={{ flex: 1 }}>{field('city', 'City')}</View>
+        <View style={{ flex: 1 }}>{field('district', 'District')}</View>
+      </View>
+      {field('street', 'Street address')}
+      <View style={styles.row}>
+        <View style={{ flex: 1 }}>{field('building', 'Building')}</View>
+        <View style={{ flex: 1 }}>{field('floor', 'Floor')}</View>
+        <View style={{ flex: 1 }}>{field('apartment', 'Apt')}</View>
+      </View>
+    </View>
+  );
+}
+
+// ─── Buyer: meet up or courier delivery (before paying) ──
+
+export function DeliveryChoiceCard({ transaction }: { transaction: any }) {
+  const queryClient = useQueryClient();
+  const delivering = transaction.delivery_method === 'delivery';
+  const [editing, setEditing] = useState(false);
+  const [address, setAddress] = useState<ShippingAddress>(transaction.shipping_address ?? EMPTY_ADDRESS);
+
+  const save = useMutation({
+    mutationFn: () => transactionService.chooseDelivery(transaction.id, address),
+    onSuccess: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setEditing(false);
+      queryClient.invalidateQueries({ queryKey: ['transaction', transaction.id] });
+    },
+    onError: (e: any) => Alert.alert('Error', e?.response?.data?.error ?? 'Failed'),
+  });
+
+  const meetUp = useMutation({
+    mutationFn: () => transactionService.chooseMeetup(transaction.id),
+    onSuccess: () => {
+      setEditing(false);
+      queryClient.invalidateQueries({ queryKey: ['transaction', transaction.id] });
+    },
+    onError: (e: any) => Alert.alert('Error', e?.response?.data?.error ?? 'Failed'),
+  });
+
+  const showForm = editing || (delivering && !transaction.shipping_address);
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.sectionTitle}>Delivery</Text>
+      <View style={styles.row}>
+        <TouchableOpacity
+          style={[styles.option, !delivering && !editing && styles.optionActive]}
+          onPress={() => (delivering ? meetUp.mutate() : setEditing(false))}
+          disabled={meetUp.isPending}
+        >
+          <Ionicons name="people" size={18} color={!delivering && !editing ? COLORS.primary : COLORS.textSecondary} />
+          <Text style={[styles.optionText, !delivering && !editing && styles.optionTextActive]}>Meet up</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.option, (delivering || editing) && styles.optionActive]}
+          onPress={() => setEditing(true)}
+        >
+          <Ionicons name="bicycle" size={18} color={delivering || editing ? COLORS.primary : COLORS.textSecondary} />
+          <Text style={[styles.optionText, (delivering || editing) && styles.optionTextActive]}>Courier delivery</Text>
+        </TouchableOpacity>
+      </View>
+
+      {showForm ? (
+        <View style={{ marginTop: SPACING.md }}>
+          <AddressForm value={address} onChange={setAddress} />
+          <TouchableOpacity
+            style={[styles.primaryBtn, { marginTop: SPACING.md }, !isComplete(address) && { opacity: 0.5 }]}
+            onPress={() => save.mutate()}
+            disabled={!isComplete(address) || save.isPending}
+          >
+            {save.isPending
+              ? <ActivityIndicator color="#fff" size="small" />
+              : <Text style={styles.primaryBtnText}>Deliver Here</Text>}
+          </TouchableOpacity>
+        </View>
+      ) : delivering && (
+        <View style={{ marginTop: SPACING.md }}>
+          <Text style={styles.body}>{formatAddress(transaction.shipping_address)}</Text>
+          <Text style={styles.desc}>
+            Delivery fee {Number(transaction.shipping_fee).toLocaleString()} EGP, paid with the item and held in escrow.
+          </Text>
+          <TouchableOpacity onPress={() => setEditing(true)}>
+            <Text style={styles.link}>Change address</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+// ─── Seller: book the courier pickup ─────────────────────
+
+export function CourierPickupCard({ transactionId }: { transactionId: string }) {
+  const queryClient = useQueryClient();
+  const [address, setAddress] = useState<ShippingAddress>(EMPTY_ADDRESS);
+
+  const book = useMutation({
+    mutationFn: () => transactionService.bookPickup(transactionId, address),
+    onSuccess: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: ['transaction', transactionId] });
+      Alert.alert('Pickup booked', 'The courier will contact you to collect the item.');
+    },
+    onError: (e: any) => Alert.alert('Error', e?.response?.data?.error ?? 'Failed'),
+  });
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.sectionTitle}>Book Courier Pickup</Text>
+      <Text style={styles.desc}>
+        The buyer has paid and chose delivery. Tell us where the courier should collect the item.
+      </Text>
+      <AddressForm value={address} onChange={setAddress} />
+      <TouchableOpacity
+        style={[styles.primaryBtn, { marginTop: SPACING.md }, !isComplete(address) && { opacity: 0.5 }]}
+        onPress={() => book.mutate()}
+        disabled={!isComplete(address) || book.isPending}
+      >
+        {book.isPending
+          ? <ActivityIndicator color="#fff" size="small" />
+          : <><Ionicons name="cube" size={18} color="#fff" /><Text style={styles.primaryBtnText}>Book Pickup</Text></>}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+// ─── Either party: tracking ──────────────────────────────
+
+const EVENT_LABELS: Record<ShipmentEvent['event_type'], string> = {
+  created: 'Pickup booked',
+  picked_up: 'Picked up by courier',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  delivery_failed: 'Delivery attempt failed',
+  returned: 'Returned to seller',
+  cancelled: 'Pickup cancelled',
+};
+
+export function ShipmentTrackingCard({ transaction }: { transaction: any }) {
+  const { data: events } = useQuery({
+    queryKey: ['shipment-events', transaction.id, transaction.status],
+    queryFn: () => transactionService.getShipmentEvents(transaction.id),
+  });
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.sectionTitle}>Delivery Tracking</Text>
+      <View style={styles.trackingRow}>
+        <Ionicons name="bicycle" size={20} color={COLORS.primary} />
+        <Text style={styles.body} selectable>#{transaction.tracking_number}</Text>
+      </View>
+      {(events ?? []).map((e, i) => (
+        <View key={`${e.event_type}-${i}`} style={styles.eventRow}>
+          <View style={[styles.eventDot, i === events!.length - 1 && { backgroundColor: COLORS.primary }]} />
+          <Text style={styles.eventLabel}>{EVENT_LABELS[e.event_type] ?? e.provider_status}</Text>
+          <Text style={styles.eventTime}>{new Date(e.occurred_at).toLocaleString()}</Text>
+        </View>
+      ))}
+      {!!transaction.tracking_url && (
+        <TouchableOpacity onPress={() => Linking.openURL(transaction.tracking_url)}>
+          <Text style={styles.link}>Track on courier website</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+function formatAddress(a: ShippingAddress | null): string {
+  if (!a) return '';
+  const unit = [a.building && `Bldg ${a.building}`, a.floor && `Floor ${a.floor}`, a.apartment && `Apt ${a.apartment}`]
+    .filter(Boolean).join(', ');
+  return [a.name, a.street, unit, [a.district, a.city].filter(Boolean).join(', '), a.phone].filter(Boolean).join('\n');
+}
+
+const styles = StyleSheet.create({
+  card: { backgroundColor: '#fff', borderRadius: RADIUS.md, padding: SPACING.lg, ...SHADOWS.sm },
+  sectionTitle: {
+    fontSize: TYPOGRAPHY.fontSizeSM, fontWeight: TYPOGRAPHY.fontWeightSemiBold,
+    color: COLORS.textSecondary, textTransform: 'uppercase', letterSpacing: 0.5,
+    marginBottom: SPACING.md,
+  },
+  desc: { fontSize: TYPOGRAPHY.fontSizeSM, color: COLORS.textSecondary, marginVertical: SPACING.sm },
+  body: { fontSize: TYPOGRAPHY.fontSizeMD, color: COLORS.text, lineHeight: 22 },
+  link: { color: COLORS.primary, fontSize: TYPOGRAPHY.fontSizeSM, fontWeight: '600', marginTop: SPACING.xs },
+  row: { flexDirection: 'row', gap: SPACING.sm },
+  input: {
+    height: 46, borderRadius: RADIUS.md, borderWidth: 1.5, borderColor: COLORS.border,
+    paddingHorizontal: SPACING.md, fontSize: TYPOGRAPHY.fontSizeMD, color: COLORS.text,
+  },
+  option: {
+    flex: 1, height: 48, borderRadius: RADIUS.md, borderWidth: 1.5, borderColor: COLORS.border,
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: SPACING.xs,
+  },
+  optionActive: { borderColor: COLORS.primary, backgroundColor: COLORS.primaryLight },
+  optionText: { fontSize: TYPOGRAPHY.fontSizeSM, fontWeight: '600', color: COLORS.textSecondary },
+  optionTextActive: { color: COLORS.primary },
+  primaryBtn: {
+    height: 52, backgroundColor: COLORS.primary, borderRadius: RADIUS.md,
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: SPACING.sm,
+  },
+  primaryBtnText: { color: '#fff', fontWeight: TYPOGRAPHY.fontWeightBold, fontSize: TYPOGRAPHY.fontSizeMD },
+  trackingRow: { flexDirection: 'row', alignItems: 'center', gap: SPACING.sm, marginBottom: SPACING.sm },
+  eventRow: { flexDirection: 'row', alignItems: 'center', gap: SPACING.sm, paddingVertical: SPACING.xs },
+  eventDot: { width: 8, height: 8, borderRadius: 4, backgroundColor: COLORS.border },
+  eventLabel: { flex: 1, fontSize: TYPOGRAPHY.fontSizeSM, color: COLORS.text },
+  eventTime: { fontSize: 12, color: COLORS.textTertiary },
+});
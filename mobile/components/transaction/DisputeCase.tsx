@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import {
+  View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator, Alert, Image,
+} from 'react-native';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { COLORS, RADIUS, SHADOWS, SPACING, TYPOGRAPHY } from '../../constants/theme';
+import { transactionService, DisputeCase, DisputeMessage } from '../../services/transaction.service';
+import { uploadService } from '../../services/upload.service';
+import { useAuthStore } from '../../store/authStore';
+
+const MAX_EVIDENCE = 10;
+
+const REASON_LABELS: Record<string, string> = {
+  item_not_received: 'Item not received',
+  item_not_as_described: 'Item not as described',
+  payment_issue: 'Payment issue',
+  fraud: 'Suspected fraud',
+  other: 'Other',
+};
+
+const RESOLUTION_LABELS: Record<string, string> = {
+  resolved_buyer: 'Resolved for the buyer — full refund',
+  resolved_seller: 'Resolved for the seller — payment released',
+  resolved_partial: 'Resolved with a partial refund',
+};
+
+function timeLeft(iso: string): string {
+  const ms = new Date(iso).getTime() - Date.now();
+  if (ms <= 0) return 'overdue';
+  const h = Math.floor(ms / 3_600_000);
+  return h >= 24 ? `${Math.floor(h / 24)}d ${h % 24}h left` : `${h}h left`;
+}
+
+// ─── Status and deadlines ────────────────────────────────
+
+function CaseSummary({ data, userId }: { data: DisputeCase; userId?: string }) {
+  const { dispute } = data;
+  const awaitingMe = dispute.status === 'opened' && !dispute.responded_at && dispute.respondent_id === userId;
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.sectionTitle}>{dispute.kind === 'claim' ? 'Claim after payment' : 'Dispute'}</Text>
+      <Text style={styles.reason}>{REASON_LABELS[dispute.reason] ?? dispute.reason}</Text>
+      {!!dispute.details && <Text style={styles.body}>{dispute.details}</Text>}
+      {dispute.kind === 'claim' && dispute.status !== 'resolved' && (
+        <Text style={styles.hint}>
+          {Number(dispute.claim_amount).toLocaleString()} EGP of the seller's payout is on hold until this is resolved.
+        </Text>
+      )}
+
+      {dispute.status === 'resolved' ? (
+        <View style={[styles.banner, styles.bannerDone]}>
+          <Ionicons name="checkmark-circle" size={18} color={COLORS.success} />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.bannerText}>{RESOLUTION_LABELS[dispute.resolution ?? ''] ?? 'Resolved'}</Text>
+            {dispute.resolution === 'resolved_partial' && (
+              <Text style={styles.bannerSub}>{Number(dispute.refund_amount).toLocaleString()} EGP refunded to the buyer</Text>
+            )}
+            {!!dispute.resolution_notes && <Text style={styles.bannerSub}>{dispute.resolution_notes}</Text>}
+          </View>
+        </View>
+      ) : (
+        <View style={styles.banner}>
+          <Ionicons name="time-outline" size={18} color="#D97706" />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.bannerText}>
+              {dispute.status === 'under_review'
+                ? 'Under review by the Kaero team'
+                : awaitingMe ? 'Waiting for your response' : 'Waiting for the other party to respond'}
+            </Text>
+            <Text style={styles.bannerSub}>
+              {dispute.status === 'opened'
+                ? `Response due ${new Date(dispute.response_due_at).toLocaleString()} (${timeLeft(dispute.response_due_at)})`
+                : `Decision expected by ${new Date(dispute.resolution_due_at).toLocaleDateString()}`}
+            </Text>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+// ─── Evidence ────────────────────────────────────────────
+
+function EvidenceSection({ transactionId, data, userId }: { transactionId: string; data: DisputeCase; userId?: string }) {
+  const queryClient = useQueryClient();
+  const [uploading, setUploading] = useState(false);
+  const open = data.dispute.status !== 'resolved' && data.role !== 'admin';
+
+  const add = async () => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission needed', 'Allow photo library access to upload evidence.');
+      return;
+    }
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 0.8,
+    });
+    if (result.canceled || !result.assets[0]) return;
+
+    setUploading(true);
+    try {
+      const url = await uploadService.uploadImage(result.assets[0].uri);
+      await transactionService.addDisputeEvidence(transactionId, [{ url }]);
+      queryClient.invalidateQueries({ queryKey: ['dispute', transactionId] });
+    } catch (e: any) {
+      Alert.alert('Upload failed', e?.response?.data?.error ?? 'Could not add evidence. Try again.');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.sectionTitle}>Evidence</Text>
+      {data.evidence.length === 0 && <Text style={styles.hint}>No evidence yet.</Text>}
+      <View style={styles.evidenceGrid}>
+        {data.evidence.map((e) => (
+          <View key={e.id} style={styles.evidenceThumb}>
+            <Image source={{ uri: e.url }} style={styles.evidenceImg} />
+            <Text style={styles.evidenceOwner}>{e.uploaded_by === userId ? 'You' : 'Other party'}</Text>
+          </View>
+        ))}
+        {open && data.evidence.filter((e) => e.uploaded_by === userId).length < MAX_EVIDENCE && (
+          <TouchableOpacity style={styles.addPhotoBtn} onPress={add} disabled={uploading}>
+            {uploading
+              ? <ActivityIndicator size="small" color={COLORS.primary} />
+              : <><Ionicons name="camera-outline" size={24} color={COLORS.primary} /><Text style={styles.addPhotoText}>Add Photo</Text></>}
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+}
+
+// ─── Thread ──────────────────────────────────────────────
+
+const ROLE_LABELS: Record<DisputeMessage['sender_role'], string> = {
+  buyer: 'Buyer', seller: 'Seller', admin: 'Kaero team', system: 'Kaero',
+};
+
+function MessageThread({ transactionId, data, userId }: { transactionId: string; data: DisputeCase; userId?: string }) {
+  const queryClient = useQueryClient();
+  const [text, setText] = useState('');
+
+  const send = useMutation({
+    mutationFn: () => transactionService.postDisputeMessage(transactionId, text.trim()),
+    onSuccess: () => {
+      setText('');
+      queryClient.invalidateQueries({ queryKey: ['dispute', transactionId] });
+    },
+    onError: (e: any) => Alert.alert('Error', e?.response?.data?.error ?? 'Failed to send'),
+  });
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.sectionTitle}>Messages</Text>
+      <Text style={styles.hint}>The buyer, the seller and the Kaero team all see this thread.</Text>
+      {data.messages.map((m) => {
+        const mine = !!userId && m.sender_id === userId;
+        return (
+          <View
+            key={m.id}
+            style={[
+              styles.bubble,
+              mine && styles.bubbleMine,
+              (m.sender_role === 'admin' || m.sender_role === 'system') && styles.bubbleStaff,
+            ]}
+          >
+            <Text style={styles.bubbleRole}>{mine ? 'You' : ROLE_LABELS[m.sender_role]}</Text>
+            <Text style={styles.body}>{m.body}</Text>
+            <Text style={styles.bubbleTime}>{new Date(m.created_at).toLocaleString()}</Text>
+          </View>
+        );
+      })}
+
+      {data.dispute.status !== 'resolved' && (
+        <View style={styles.composer}>
+          <TextInput
+            style={styles.composerInput}
+            value={text}
+            onChangeText={setText}
+            placeholder="Write a message..."
+            placeholderTextColor={COLORS.textPlaceholder}
+            multiline
+            maxLength={2000}
+          />
+          <TouchableOpacity
+            style={[styles.sendBtn, !text.trim() && { opacity: 0.5 }]}
+            onPress={() => send.mutate()}
+            disabled={!text.trim() || send.isPending}
+          >
+            {send.isPending
+              ? <ActivityIndicator color="#fff" size="small" />
+              : <Ionicons name="send" size={18} color="#fff" />}
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+// ─── Case view ───────────────────────────────────────────
+
+export function DisputeCaseView({ transactionId }: { transactionId: string }) {
+  const { user } = useAuthStore();
+  const { data, isLoading } = useQuery({
+    queryKey: ['dispute', transactionId],
+    queryFn: () => transactionService.getDispute(transactionId),
+  });
+
+  if (isLoading || !data) {
+    return <ActivityIndicator style={{ marginTop: SPACING.xl }} color={COLORS.primary} />;
+  }
+
+  return (
+    <View style={{ gap: SPACING.sm }}>
+      <CaseSummary data={data} userId={user?.id} />
+      <EvidenceSection transactionId={transactionId} data={data} userId={user?.id} />
+      <MessageThread transactionId={transactionId} data={data} userId={user?.id} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: { backgroundColor: '#fff', borderRadius: RADIUS.md, padding: SPACING.lg, ...SHADOWS.sm },
+  sectionTitle: {
+    fontSize: TYPOGRAPHY.fontSizeSM, fontWeight: TYPOGRAPHY.fontWeightSemiBold,
+    color: COLORS.textSecondary, textTransform: 'uppercase', letterSpacing: 0.5,
+    marginBottom: SPACING.sm,
+  },
+  reason: { fontSize: TYPOGRAPHY.fontSizeMD, fontWeight: TYPOGRAPHY.fontWeightBold, color: COLORS.text, marginBottom: SPACING.xs },
+  body: { fontSize: TYPOGRAPHY.fontSizeSM, color: COLORS.text, lineHeight: 20 },
+  hint: { fontSize: 12, color: COLORS.textTertiary, marginBottom: SPACING.sm },
+  banner: {
+    flexDirection: 'row', gap: SPACING.sm, alignItems: 'flex-start', marginTop: SPACING.md,
+    backgroundColor: '#FFFBEB', borderRadius: RADIUS.sm, padding: SPACING.md,
+  },
+  bannerDone: { backgroundColor: '#ECFDF5' },
+  bannerText: { fontSize: TYPOGRAPHY.fontSizeSM, fontWeight: '600', color: COLORS.text },
+  bannerSub: { fontSize: 12, color: COLORS.textSecondary, marginTop: 2 },
+  evidenceGrid: { flexDirection: 'row', flexWrap: 'wrap', gap: SPACING.sm },
+  evidenceThumb: { width: 80 },
+  evidenceImg: { width: 80, height: 80, borderRadius: RADIUS.sm },
+  evidenceOwner: { fontSize: 10, color: COLORS.textTertiary, textAlign: 'center', marginTop: 2 },
+  addPhotoBtn: {
+    width: 80, height: 80, borderRadius: RADIUS.sm,
+    borderWidth: 1.5, borderColor: COLORS.primary, borderStyle: 'dashed',
+    alignItems: 'center', justifyContent: 'center', gap: 2,
+  },
+  addPhotoText: { fontSize: 10, color: COLORS.primary, fontWeight: '600' },
+  bubble: {
+    backgroundColor: '#F5F5F5', borderRadius: RADIUS.md, padding: SPACING.md,
+    marginBottom: SPACING.sm, marginRight: SPACING.xl,
+  },
+  bubbleMine: { backgroundColor: COLORS.primaryLight, marginRight: 0, marginLeft: SPACING.xl },
+  bubbleStaff: { backgroundColor: '#EFF6FF' },
+  bubbleRole: { fontSize: 11, fontWeight: '700', color: COLORS.textSecondary, marginBottom: 2 },
+  bubbleTime: { fontSize: 10, color: COLORS.textTertiary, marginTop: 4 },
+  composer: { flexDirection: 'row', alignItems: 'flex-end', gap: SPACING.sm, marginTop: SPACING.sm },
+  composerInput: {
+    flex: 1, minHeight: 44, maxHeight: 120, borderRadius: RADIUS.md, borderWidth: 1.5, borderColor: COLORS.border,
+    paddingHorizontal: SPACING.md, paddingVertical: SPACING.sm, fontSize: TYPOGRAPHY.fontSizeMD, color: COLORS.text,
+  },
+  sendBtn: {
+    width: 44, height: 44, borderRadius: 22, backgroundColor: COLORS.primary,
+    alignItems: 'center', justifyContent: 'center',
+  },
+});
@@ -1,6 +1,23 @@
 import api from './api';
 import * as SecureStore from 'expo-secure-store';
 
+export interface BanStatus {
+  ban: {
+    id: string;
+    reason: string;
+    /** null for a ban, the end of a suspension otherwise */
+    ends_at: string | null;
+    created_at: string;
+  } | null;
+  appeal: {
+    id: string;
+    message: string;
+    status: 'pending' | 'upheld' | 'overturned';
+    review_notes: string | null;
+    created_at: string;
+  } | null;
+}
+
 export const authService = {
   async requestOtp(phone: string) {
     const { data } = await api.post('/auth/otp/request', { phone });
@@ -14,6 +31,14 @@ export const authService = {
     }
     return data;
   },
+  async getBanStatus() {
+    const { data } = await api.get('/users/me/ban');
+    return data as BanStatus;
+  },
+  async appealBan(message: string) {
+    const { data } = await api.post('/users/me/ban/appeal', { message });
+    return data.appeal as NonNullable<BanStatus['appeal']>;
+  },
   async logout() {
     await SecureStore.deleteItemAsync('access_token');
     await SecureStore.deleteItemAsync('refresh_token');
@@ -6,6 +6,13 @@ export interface ListingFilters {
   sort?: 'distance' | 'newest' | 'price'; cursor?: string; limit?: number;
 }
 
+/** Seller's automatic responses to new offers; null disables a rule */
+export interface OfferRules {
+  auto_accept_at: number | null;
+  auto_decline_below: number | null;
+  auto_counter_at: number | null;
+}
+
 export const listingService = {
   async getNearby(filters: ListingFilters = {}) {
     const { data } = await api.get('/listings/nearby', { params: filters });
@@ -46,6 +53,18 @@ export const listingService = {
     const { data } = await api.get(`/listings/${id}/similar`);
     return data.listings;
   },
+  async buyNow(id: string) {
+    const { data } = await api.post(`/listings/${id}/buy`);
+    return data.transaction;
+  },
+  async getOfferRules(id: string) {
+    const { data } = await api.get(`/listings/${id}/offer-rules`);
+    return data.rules as OfferRules | null;
+  },
+  async setOfferRules(id: string, rules: OfferRules) {
+    const { data } = await api.put(`/listings/${id}/offer-rules`, rules);
+    return data.rules as OfferRules | null;
+  },
   async report(id: string, reason: string, details?: string) {
     await api.post(`/listings/${id}/report`, { reason, details });
   },
@@ -1,9 +1,34 @@
 import api from './api';
 
+export interface OfferRound {
+  id: string;
+  round_number: number;
+  proposed_by: string;
+  proposer_role: 'buyer' | 'seller';
+  price: string;
+  message: string | null;
+  status: 'open' | 'countered' | 'accepted' | 'rejected' | 'withdrawn' | 'expired';
+  is_automatic?: boolean;
+  expires_at: string;
+  created_at: string;
+}
+
 export const offerService = {
-  async create(offer: { listing_id: string; offered_price: number; message?: string; is_exchange_proposal?: boolean }) {
+  async create(offer: {
+    listing_id: string;
+    offered_price?: number;
+    message?: string;
+    is_exchange_proposal?: boolean;
+    exchange_listing_id?: string;
+    cash_topup?: number;
+  }) {
     const { data } = await api.post('/offers', offer);
-    return data.offer;
+    // auto_response is set when the seller's rules answered immediately
+    return data as {
+      offer: any;
+      auto_response: 'accepted' | 'declined' | 'countered' | null;
+      transaction?: { id: string };
+    };
   },
   async getMyOffers() {
     const { data } = await api.get('/offers/my');
@@ -21,10 +46,14 @@ export const offerService = {
     const { data } = await api.patch(`/offers/${offerId}/reject`);
     return data;
   },
-  async counter(offerId: string, counterPrice: number) {
-    const { data } = await api.patch(`/offers/${offerId}/counter`, { counter_price: counterPrice });
+  async counter(offerId: string, counterPrice: number, message?: string) {
+    const { data } = await api.patch(`/offers/${offerId}/counter`, { counter_price: counterPrice, message });
     return data;
   },
+  async getRounds(offerId: string) {
+    const { data } = await api.get(`/offers/${offerId}/rounds`);
+    return data as { rounds: OfferRound[]; max_rounds: number; your_turn: boolean; can_counter: boolean };
+  },
   async cancel(offerId: string) {
     const { data } = await api.patch(`/offers/${offerId}/cancel`);
     return data;
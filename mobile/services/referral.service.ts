@@ -10,6 +10,14 @@ export const referralService = {
       friends: { full_name: string; created_at: string; has_transacted: boolean }[];
     };
   },
+  async getCredits() {
+    const { data } = await api.get('/referral/credits');
+    return data as {
+      balance: number;
+      expiring: { amount: number; expires_at: string; source: string }[];
+      history: { id: string; type: 'earned' | 'spent' | 'expired' | 'refunded'; amount: string; description: string; created_at: string }[];
+    };
+  },
   async applyCode(code: string) {
     const { data } = await api.post('/referral/apply', { code });
     return data as { message: string; credits_earned: number };
@@ -26,8 +34,19 @@ export const referralService = {
       promo_id: string;
     };
   },
-  async boostListing(listingId: string, tier: 'basic' | 'standard' | 'premium') {
-    const { data } = await api.post(`/listings/${listingId}/boost`, { tier });
-    return data as { message: string; boosted_until: string; tier: string; price_egp: number };
+  async boostListing(
+    listingId: string,
+    tier: 'basic' | 'standard' | 'premium',
+    paymentMethod: 'wallet' | 'credits' | 'paymob' | 'subscription',
+  ) {
+    const { data } = await api.post(`/listings/${listingId}/boost`, { tier, payment_method: paymentMethod });
+    return data as {
+      message?: string;
+      boosted_until?: string;
+      tier: string;
+      price_egp: number;
+      /** Card payments only — the listing is featured once Paymob confirms */
+      payment?: { iframeUrl?: string; instructions: string };
+    };
   },
 };
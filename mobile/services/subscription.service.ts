@@ -0,0 +1,52 @@
+import api from './api';
+
+export interface PlanBenefits {
+  plan: 'free' | 'premium';
+  label: string;
+  price: number;
+  days: number;
+  commissionMultiplier: number;
+  maxActiveListings: number;
+  monthlyFreeBoosts: number;
+  freeBoostTiers: string[];
+  verifiedBadge: boolean;
+}
+
+export interface Subscription {
+  id: string;
+  plan_type: 'free' | 'premium';
+  status: 'pending' | 'active' | 'grace' | 'expired' | 'failed';
+  auto_renew: boolean;
+  expires_at: string | null;
+  grace_until: string | null;
+}
+
+type PaymentResult = { subscription: Subscription; payment?: { iframeUrl?: string } };
+
+export const subscriptionService = {
+  async getPlans(): Promise<PlanBenefits[]> {
+    const { data } = await api.get('/subscriptions/plans');
+    return data.plans;
+  },
+  async getMine() {
+    const { data } = await api.get('/subscriptions/me');
+    return data as {
+      plan: 'free' | 'premium';
+      benefits: Omit<PlanBenefits, 'plan'>;
+      subscription: Subscription | null;
+      free_boosts_left: number;
+    };
+  },
+  async subscribe(paymentMethod: 'wallet' | 'paymob', autoRenew = true): Promise<PaymentResult> {
+    const { data } = await api.post('/subscriptions', { plan: 'premium', payment_method: paymentMethod, auto_renew: autoRenew });
+    return data;
+  },
+  async renew(paymentMethod: 'wallet' | 'paymob'): Promise<PaymentResult> {
+    const { data } = await api.post('/subscriptions/renew', { payment_method: paymentMethod });
+    return data;
+  },
+  async setAutoRenew(autoRenew: boolean): Promise<Subscription> {
+    const { data } = await api.patch('/subscriptions/me', { auto_renew: autoRenew });
+    return data.subscription;
+  },
+};
@@ -1,5 +1,74 @@
 import api from './api';
 
+export interface MeetingSpot {
+  id: number;
+  name: string;
+  name_ar: string | null;
+  kind: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+  distance_m: number;
+}
+
+export interface ShippingAddress {
+  name: string;
+  phone: string;
+  city: string;
+  district?: string;
+  street: string;
+  building?: string;
+  floor?: string;
+  apartment?: string;
+  notes?: string;
+}
+
+export interface ShipmentEvent {
+  event_type: 'created' | 'picked_up' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'delivery_failed' | 'returned' | 'cancelled';
+  provider_status: string;
+  occurred_at: string;
+}
+
+export interface DisputeEvidence {
+  id: string;
+  uploaded_by: string;
+  url: string;
+  caption: string | null;
+  created_at: string;
+}
+
+export interface DisputeMessage {
+  id: string;
+  sender_id: string | null;
+  sender_role: 'buyer' | 'seller' | 'admin' | 'system';
+  body: string;
+  created_at: string;
+}
+
+export interface DisputeCase {
+  dispute: {
+    id: string;
+    opened_by: string;
+    respondent_id: string;
+    /** claim: filed by the buyer after the seller was paid */
+    kind: 'escrow' | 'claim';
+    claim_amount: string | null;
+    reason: string;
+    details: string | null;
+    status: 'opened' | 'under_review' | 'resolved';
+    response_due_at: string;
+    responded_at: string | null;
+    resolution_due_at: string;
+    resolution: 'resolved_buyer' | 'resolved_seller' | 'resolved_partial' | null;
+    refund_amount: string | null;
+    resolution_notes: string | null;
+    resolved_at: string | null;
+  };
+  evidence: DisputeEvidence[];
+  messages: DisputeMessage[];
+  role: 'buyer' | 'seller' | 'admin';
+}
+
 export const transactionService = {
   async getMyTransactions(role?: 'buyer' | 'seller' | 'all') {
     const { data } = await api.get('/transactions', { params: role ? { role } : {} });
@@ -9,10 +78,75 @@ export const transactionService = {
     const { data } = await api.get(`/transactions/${id}`);
     return data.transaction;
   },
-  async initiatePayment(transactionId: string, paymentMethod: string) {
-    const { data } = await api.patch(`/transactions/${transactionId}/payment`, { payment_method: paymentMethod });
+  /** Fawry / Vodafone Cash return `payment` instructions; the transaction is held once the provider confirms */
+  async initiatePayment(transactionId: string, paymentMethod: string, promoCode?: string, credits?: number) {
+    const { data } = await api.patch(`/transactions/${transactionId}/payment`, {
+      payment_method: paymentMethod,
+      ...(promoCode ? { promo_code: promoCode } : {}),
+      ...(credits ? { credits } : {}),
+    });
+    return data as {
+      transaction: any;
+      payment?: { provider: string; referenceCode?: string; expiresAt?: string; instructions: string };
+    };
+  },
+  /** Seller hands the item over or ships it; the escrow countdown starts now */
+  async markHandedOver(transactionId: string, method: 'in_person' | 'shipping', trackingNumber?: string) {
+    const { data } = await api.patch(`/transactions/${transactionId}/handover`, {
+      method,
+      ...(trackingNumber ? { tracking_number: trackingNumber } : {}),
+    });
+    return data.transaction;
+  },
+  /** Cancels before payment; after payment asks the other party, or (seller, `refund`) refunds and cancels */
+  async cancel(transactionId: string, opts: { reason?: string; refund?: boolean } = {}) {
+    const { data } = await api.post(`/transactions/${transactionId}/cancel`, opts);
+    return data as { transaction: any; cancelled: boolean };
+  },
+  async declineCancellation(transactionId: string) {
+    const { data } = await api.post(`/transactions/${transactionId}/cancel/decline`);
+    return data.transaction;
+  },
+  /** Buyer's one-time code for a cash meetup */
+  async getHandoverCode(transactionId: string) {
+    const { data } = await api.get(`/transactions/${transactionId}/handover-code`);
+    return data as { code: string; qr_payload: string };
+  },
+  /** Seller enters the 6 digits or the scanned QR payload; completes the cash deal */
+  async redeemHandoverCode(transactionId: string, code: string) {
+    const { data } = await api.post(`/transactions/${transactionId}/handover-code`, { code });
     return data.transaction;
   },
+  async getMeetingPoint(transactionId: string) {
+    const { data } = await api.get(`/transactions/${transactionId}/meeting-point`);
+    return data.meeting_point as MeetingSpot | null;
+  },
+  async setMeetingPoint(transactionId: string, spotId: number) {
+    const { data } = await api.put(`/transactions/${transactionId}/meeting-point`, { spot_id: spotId });
+    return data.transaction;
+  },
+  async quoteDelivery(transactionId: string, city: string) {
+    const { data } = await api.get(`/transactions/${transactionId}/delivery/quote`, { params: { city } });
+    return data.quote as { courier: string; fee: number };
+  },
+  /** Buyer, before paying: courier delivery to `address`; the fee is added to the total */
+  async chooseDelivery(transactionId: string, address: ShippingAddress) {
+    const { data } = await api.put(`/transactions/${transactionId}/delivery`, { address });
+    return data.transaction;
+  },
+  async chooseMeetup(transactionId: string) {
+    const { data } = await api.delete(`/transactions/${transactionId}/delivery`);
+    return data.transaction;
+  },
+  /** Seller books the courier to collect the item */
+  async bookPickup(transactionId: string, pickupAddress: ShippingAddress) {
+    const { data } = await api.post(`/transactions/${transactionId}/shipment`, { pickup_address: pickupAddress });
+    return data.transaction;
+  },
+  async getShipmentEvents(transactionId: string) {
+    const { data } = await api.get(`/transactions/${transactionId}/shipment/events`);
+    return data.events as ShipmentEvent[];
+  },
   async confirmReceipt(transactionId: string) {
     const { data } = await api.patch(`/transactions/${transactionId}/confirm`);
     return data.transaction;
@@ -29,9 +163,17 @@ export const transactionService = {
     });
     return data.transaction;
   },
-  async resolveDispute(transactionId: string, resolution: 'resolved_buyer' | 'resolved_seller') {
-    const { data } = await api.patch(`/transactions/${transactionId}/dispute/resolve`, { resolution });
-    return data.transaction;
+  async getDispute(transactionId: string) {
+    const { data } = await api.get(`/transactions/${transactionId}/dispute`);
+    return data as DisputeCase;
+  },
+  async addDisputeEvidence(transactionId: string, evidence: { url: string; caption?: string }[]) {
+    const { data } = await api.post(`/transactions/${transactionId}/dispute/evidence`, { evidence });
+    return data.evidence as DisputeEvidence[];
+  },
+  async postDisputeMessage(transactionId: string, body: string) {
+    const { data } = await api.post(`/transactions/${transactionId}/dispute/messages`, { body });
+    return data.message as DisputeMessage;
   },
   async leaveReview(transactionId: string, rating: number, reviewText?: string) {
     const { data } = await api.post(`/transactions/${transactionId}/review`, { rating, review_text: reviewText });
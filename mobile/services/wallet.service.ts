@@ -3,6 +3,8 @@ import api from './api';
 export interface WalletSummary {
   balance: number;
   pending: number;
+  /** Balance that can't be withdrawn while a buyer claim is open */
+  on_hold: number;
   total_earned: number;
   total_withdrawn: number;
   recent_transactions: WalletTx[];
@@ -22,7 +24,7 @@ export interface WithdrawalRequest {
   id: string;
   amount: number;
   method: string;
-  status: 'pending' | 'processing' | 'completed' | 'rejected';
+  status: 'pending' | 'approved' | 'processing' | 'completed' | 'rejected' | 'failed';
   created_at: string;
   processed_at: string | null;
   admin_notes: string | null;
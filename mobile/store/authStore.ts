@@ -7,7 +7,7 @@ import { useFavoritesStore } from './listingStore';
 interface User {
   id: string; phone: string; full_name: string | null; avatar_url: string | null;
   email: string | null; trust_score: number; total_reviews: number;
-  is_phone_verified: boolean; is_id_verified: boolean;
+  is_phone_verified: boolean; is_id_verified: boolean; is_verified_store?: boolean;
   preferred_language: 'ar' | 'en'; preferred_radius: number;
   location: { lat: number; lng: number } | null; created_at: string;
 }
@@ -36,7 +36,12 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       if (!token) { set({ user: null, isAuthenticated: false, isLoading: false }); return; }
       const { data } = await api.get('/users/me');
       set({ user: data.user, isAuthenticated: true, isLoading: false });
-    } catch {
+    } catch (err: any) {
+      // A banned user keeps their session so they can see the ban and appeal it
+      if (err?.response?.data?.code === 'account_banned') {
+        set({ user: null, isAuthenticated: false, isLoading: false });
+        return;
+      }
       await SecureStore.deleteItemAsync('access_token');
       await SecureStore.deleteItemAsync('refresh_token');
       set({ user: null, isAuthenticated: false, isLoading: false });